@@ -6,6 +6,7 @@ import {
 } from "./sharedData";
 import { SHARED_DATA_ROOT } from "./paths";
 import { selectEventInSelection } from "./writeSelection";
+import { checkReferenceIntegrity } from "./server/utils/referenceIntegrity";
 
 function assertArray(value: unknown, label: string): unknown[] {
   if (!Array.isArray(value)) {
@@ -18,6 +19,7 @@ function printHelp(): void {
   console.log("Usage:");
   console.log("  npm run studio");
   console.log("  npm run studio select-event <EVENT_ID>");
+  console.log("  npm run studio check-integrity [--json]");
 }
 
 function runSummary(): void {
@@ -61,6 +63,31 @@ function runSelectEvent(args: string[]): void {
   console.log("[Studio] events.selection.json updated");
 }
 
+async function runCheckIntegrity(args: string[]): Promise<void> {
+  const report = await checkReferenceIntegrity();
+  if (args.includes("--json")) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    const counts = Object.entries(report.counts)
+      .map(([label, count]) => `${label} ${count}`)
+      .join(", ");
+    console.log(`[Studio] Checked ${report.references} reference(s) across ${counts}`);
+    for (const ref of report.broken) {
+      console.log(
+        `[Studio] Broken ${ref.kind} ${ref.targetId} — ${ref.source} (${ref.file} ${ref.path})`
+      );
+    }
+    console.log(
+      report.broken.length === 0
+        ? "[Studio] No broken references"
+        : `[Studio] ${report.broken.length} broken reference(s)`
+    );
+  }
+  if (report.broken.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
 function main(): void {
   const args = process.argv.slice(2);
   if (args.length === 0) {
@@ -73,6 +100,13 @@ function main(): void {
     runSelectEvent(rest);
     return;
   }
+  if (command === "check-integrity") {
+    runCheckIntegrity(rest).catch((error) => {
+      console.error(`[Studio] Integrity check failed: ${error instanceof Error ? error.message : error}`);
+      process.exitCode = 1;
+    });
+    return;
+  }
 
   printHelp();
   process.exitCode = 1;
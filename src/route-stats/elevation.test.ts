@@ -0,0 +1,78 @@
+import assert from "assert/strict";
+import {
+  computeElevationChange,
+  computeRouteElevationStats,
+  cumulativeDistanceMeters,
+  DEFAULT_ELEVATION_SMOOTHING,
+  findSteepestSegments,
+  METERS_PER_MILE,
+  smoothElevations,
+  summarizeElevationBetween,
+  type LonLat,
+} from "./index";
+
+// ~111 m per 0.001 deg latitude: a straight northbound line of 41 points (~4.4 km).
+const coords: LonLat[] = Array.from({ length: 41 }, (_, index) => [-121.9, 37.8 + index * 0.001]);
+// Climb 100 m over the first half, descend 60 m over the second half.
+const elevations = coords.map((_, index) => (index <= 20 ? index * 5 : 100 - (index - 20) * 3));
+
+const cumulative = cumulativeDistanceMeters(coords);
+assert.equal(cumulative.length, coords.length);
+assert.equal(cumulative[0], 0);
+assert(Math.abs(cumulative[1] - 111.2) < 0.5, "segment length should be ~111 m");
+
+// Smoothing keeps the length and flattens isolated spikes.
+const spiky = [10, 10, 40, 10, 10];
+const smoothed = smoothElevations(spiky, 5);
+assert.equal(smoothed.length, spiky.length);
+assert(smoothed[2] < 40 && smoothed[2] > 10);
+assert.deepEqual(smoothElevations(spiky, 1), spiky);
+
+// Hysteresis ignores jitter below the threshold.
+const jitter = [100, 101, 100, 101.5, 100, 101, 100];
+assert.deepEqual(computeElevationChange(jitter, 3), { gainM: 0, lossM: 0 });
+const raw = computeElevationChange(jitter, 0);
+assert(raw.gainM > 3 && raw.lossM > 3, "zero hysteresis counts every wiggle");
+
+const stats = computeRouteElevationStats(coords, elevations);
+assert(Math.abs(stats.distanceMi - cumulative[cumulative.length - 1] / METERS_PER_MILE) < 1e-9);
+// Smoothing rounds the summit, so totals land slightly under the raw 100 m / 60 m.
+assert(stats.gainFt > 270 && stats.gainFt <= 100 * 3.28084 + 1e-6, `gain ${stats.gainFt}`);
+assert(stats.lossFt > 150 && stats.lossFt <= 60 * 3.28084 + 1e-6, `loss ${stats.lossFt}`);
+assert(stats.minElevationFt !== null && stats.minElevationFt < 20);
+assert(stats.maxElevationFt !== null && stats.maxElevationFt > 300);
+
+assert(stats.steepestClimbs.length > 0, "expected at least one climb");
+assert(stats.steepestDescents.length > 0, "expected at least one descent");
+assert(stats.steepestClimbs.length <= DEFAULT_ELEVATION_SMOOTHING.gradeSegmentCount);
+const [topClimb] = stats.steepestClimbs;
+const [topDescent] = stats.steepestDescents;
+assert(topClimb.gradePercent > 3.5 && topClimb.gradePercent < 5, `climb grade ${topClimb.gradePercent}`);
+assert(topClimb.endMi < 1.5, "steepest climb sits in the first half");
+assert(topDescent.gradePercent < -2 && topDescent.gradePercent > -3, `descent grade ${topDescent.gradePercent}`);
+assert(topDescent.startMi > 1.3, "steepest descent sits in the second half");
+for (let i = 1; i < stats.steepestClimbs.length; i += 1) {
+  const prev = stats.steepestClimbs[i - 1];
+  const curr = stats.steepestClimbs[i];
+  assert(prev.gradePercent >= curr.gradePercent, "climbs sorted steepest first");
+  assert(curr.startIndex >= prev.endIndex || curr.endIndex <= prev.startIndex, "climbs do not overlap");
+}
+
+// Section summaries add up to the whole route.
+const midMeters = cumulative[20];
+const first = summarizeElevationBetween(cumulative, elevations, 0, midMeters);
+const second = summarizeElevationBetween(cumulative, elevations, midMeters, cumulative[40]);
+assert(first.lossFt < 1, "first half is all climbing");
+assert(Math.abs(first.gainFt + second.gainFt - stats.gainFt) < 15);
+assert(Math.abs(first.lossFt + second.lossFt - stats.lossFt) < 15);
+
+// Short and flat tracks degrade gracefully.
+const short = findSteepestSegments([0, 50], [0, 5], 400, 3);
+assert.equal(short.climbs.length, 1);
+assert.equal(short.descents.length, 0);
+const flat = computeRouteElevationStats(coords.slice(0, 2), []);
+assert.equal(flat.gainFt, 0);
+assert.equal(flat.minElevationFt, null);
+assert.deepEqual(flat.steepestClimbs, []);
+
+console.log("route-stats elevation tests passed");
@@ -0,0 +1,258 @@
+import type {
+  ElevationRangeSummary,
+  ElevationSmoothingOptions,
+  GradeSegment,
+  LonLat,
+  RouteElevationStats,
+} from "./types";
+
+const EARTH_RADIUS_M = 6371008.8;
+export const METERS_PER_MILE = 1609.344;
+export const FEET_PER_METER = 3.28084;
+
+/**
+ * Studio-wide smoothing defaults. RouteManager, route intel preview and the
+ * RouteMediaBuilder waveform all read these so climbing totals agree.
+ */
+export const DEFAULT_ELEVATION_SMOOTHING: ElevationSmoothingOptions = {
+  windowSize: 5,
+  hysteresisMeters: 3,
+  gradeSegmentMeters: 400,
+  gradeSegmentCount: 3,
+};
+
+function toRadians(value: number): number {
+  return (value * Math.PI) / 180;
+}
+
+function resolveOptions(options?: Partial<ElevationSmoothingOptions>): ElevationSmoothingOptions {
+  return { ...DEFAULT_ELEVATION_SMOOTHING, ...(options ?? {}) };
+}
+
+export function haversineMeters(a: LonLat, b: LonLat): number {
+  const lat1 = toRadians(a[1]);
+  const lat2 = toRadians(b[1]);
+  const dLat = lat2 - lat1;
+  const dLon = toRadians(b[0] - a[0]);
+  const sinLat = Math.sin(dLat / 2);
+  const sinLon = Math.sin(dLon / 2);
+  const h = sinLat * sinLat + Math.cos(lat1) * Math.cos(lat2) * sinLon * sinLon;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function cumulativeDistanceMeters(coords: LonLat[]): number[] {
+  if (!Array.isArray(coords) || coords.length === 0) return [];
+  const cumulative: number[] = [0];
+  for (let i = 1; i < coords.length; i += 1) {
+    const segment = haversineMeters(coords[i - 1], coords[i]);
+    cumulative.push(cumulative[i - 1] + (Number.isFinite(segment) ? segment : 0));
+  }
+  return cumulative;
+}
+
+/**
+ * Centered moving average. Non-finite samples are skipped inside each window
+ * and kept as NaN when the whole window is empty.
+ */
+export function smoothElevations(elevations: number[], windowSize: number): number[] {
+  const size = Math.max(1, Math.floor(windowSize));
+  if (size <= 1 || elevations.length === 0) return [...elevations];
+  const half = Math.floor(size / 2);
+  const smoothed: number[] = [];
+  for (let i = 0; i < elevations.length; i += 1) {
+    let sum = 0;
+    let count = 0;
+    const start = Math.max(0, i - half);
+    const end = Math.min(elevations.length - 1, i + half);
+    for (let j = start; j <= end; j += 1) {
+      const value = elevations[j];
+      if (!Number.isFinite(value)) continue;
+      sum += value;
+      count += 1;
+    }
+    smoothed.push(count > 0 ? sum / count : Number.NaN);
+  }
+  return smoothed;
+}
+
+/**
+ * Gain/loss in meters with a hysteresis band: a change only counts once the
+ * track has moved hysteresisMeters away from the last committed elevation.
+ */
+export function computeElevationChange(
+  elevations: number[],
+  hysteresisMeters: number,
+  startIndex = 0,
+  endIndex = elevations.length - 1
+): { gainM: number; lossM: number } {
+  const threshold = Math.max(0, hysteresisMeters);
+  let reference: number | null = null;
+  let gainM = 0;
+  let lossM = 0;
+
+  for (let i = Math.max(0, startIndex); i <= Math.min(endIndex, elevations.length - 1); i += 1) {
+    const value = elevations[i];
+    if (!Number.isFinite(value)) continue;
+    if (reference === null) {
+      reference = value;
+      continue;
+    }
+    const delta = value - reference;
+    if (delta > 0 && delta >= threshold) {
+      gainM += delta;
+      reference = value;
+    } else if (delta < 0 && -delta >= threshold) {
+      lossM += -delta;
+      reference = value;
+    }
+  }
+
+  return { gainM, lossM };
+}
+
+function buildGradeSegment(
+  startIndex: number,
+  endIndex: number,
+  cumulativeMeters: number[],
+  elevations: number[]
+): GradeSegment {
+  const distanceM = cumulativeMeters[endIndex] - cumulativeMeters[startIndex];
+  const riseM = elevations[endIndex] - elevations[startIndex];
+  return {
+    startIndex,
+    endIndex,
+    startMi: cumulativeMeters[startIndex] / METERS_PER_MILE,
+    endMi: cumulativeMeters[endIndex] / METERS_PER_MILE,
+    distanceMi: distanceM / METERS_PER_MILE,
+    elevationChangeFt: riseM * FEET_PER_METER,
+    gradePercent: distanceM > 0 ? (riseM / distanceM) * 100 : 0,
+  };
+}
+
+function pickNonOverlapping(candidates: GradeSegment[], count: number): GradeSegment[] {
+  const picked: GradeSegment[] = [];
+  for (const candidate of candidates) {
+    if (picked.length >= count) break;
+    const overlaps = picked.some(
+      (segment) => candidate.startIndex < segment.endIndex && candidate.endIndex > segment.startIndex
+    );
+    if (!overlaps) picked.push(candidate);
+  }
+  return picked;
+}
+
+/**
+ * Steepest climbs and descents measured over a sliding window of roughly
+ * segmentMeters horizontal distance. Returned segments never overlap.
+ */
+export function findSteepestSegments(
+  cumulativeMeters: number[],
+  elevations: number[],
+  segmentMeters: number,
+  count: number
+): { climbs: GradeSegment[]; descents: GradeSegment[] } {
+  const total = Math.min(cumulativeMeters.length, elevations.length);
+  if (total < 2 || count <= 0) return { climbs: [], descents: [] };
+
+  const windowM = Math.max(1, segmentMeters);
+  const candidates: GradeSegment[] = [];
+  let end = 0;
+  for (let start = 0; start < total - 1; start += 1) {
+    if (!Number.isFinite(elevations[start])) continue;
+    if (end <= start) end = start + 1;
+    while (end < total - 1 && cumulativeMeters[end] - cumulativeMeters[start] < windowM) {
+      end += 1;
+    }
+    if (cumulativeMeters[end] - cumulativeMeters[start] < windowM) break;
+    if (!Number.isFinite(elevations[end])) continue;
+    candidates.push(buildGradeSegment(start, end, cumulativeMeters, elevations));
+  }
+
+  if (candidates.length === 0) {
+    // Route shorter than one window: report the whole route as a single segment.
+    const whole = buildGradeSegment(0, total - 1, cumulativeMeters, elevations);
+    if (!Number.isFinite(whole.gradePercent)) return { climbs: [], descents: [] };
+    return {
+      climbs: whole.gradePercent > 0 ? [whole] : [],
+      descents: whole.gradePercent < 0 ? [whole] : [],
+    };
+  }
+
+  const climbs = pickNonOverlapping(
+    candidates.filter((segment) => segment.gradePercent > 0).sort((a, b) => b.gradePercent - a.gradePercent),
+    count
+  );
+  const descents = pickNonOverlapping(
+    candidates.filter((segment) => segment.gradePercent < 0).sort((a, b) => a.gradePercent - b.gradePercent),
+    count
+  );
+  return { climbs, descents };
+}
+
+/**
+ * Full elevation summary for a track: distance, smoothed gain/loss,
+ * min/max elevation and steepest-grade segments.
+ */
+export function computeRouteElevationStats(
+  coords: LonLat[],
+  elevations: number[],
+  options?: Partial<ElevationSmoothingOptions>
+): RouteElevationStats {
+  const resolved = resolveOptions(options);
+  const cumulativeMeters = cumulativeDistanceMeters(coords);
+  const totalMeters = cumulativeMeters[cumulativeMeters.length - 1] ?? 0;
+  const smoothed = smoothElevations(elevations, resolved.windowSize);
+  const { gainM, lossM } = computeElevationChange(smoothed, resolved.hysteresisMeters);
+
+  let min = Number.POSITIVE_INFINITY;
+  let max = Number.NEGATIVE_INFINITY;
+  for (const value of smoothed) {
+    if (!Number.isFinite(value)) continue;
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+
+  const steepest = findSteepestSegments(
+    cumulativeMeters,
+    smoothed,
+    resolved.gradeSegmentMeters,
+    resolved.gradeSegmentCount
+  );
+
+  return {
+    distanceMi: totalMeters / METERS_PER_MILE,
+    gainFt: gainM * FEET_PER_METER,
+    lossFt: lossM * FEET_PER_METER,
+    minElevationFt: Number.isFinite(min) ? min * FEET_PER_METER : null,
+    maxElevationFt: Number.isFinite(max) ? max * FEET_PER_METER : null,
+    steepestClimbs: steepest.climbs,
+    steepestDescents: steepest.descents,
+  };
+}
+
+/**
+ * Smoothed gain/loss between two distances along a track (e.g. a POI section).
+ */
+export function summarizeElevationBetween(
+  cumulativeMeters: number[],
+  elevations: number[],
+  startMeters: number,
+  endMeters: number,
+  options?: Partial<ElevationSmoothingOptions>
+): ElevationRangeSummary {
+  const resolved = resolveOptions(options);
+  const smoothed = smoothElevations(elevations, resolved.windowSize);
+  const lower = Math.min(startMeters, endMeters);
+  const upper = Math.max(startMeters, endMeters);
+  let startIndex = cumulativeMeters.findIndex((value) => value >= lower);
+  if (startIndex < 0) startIndex = cumulativeMeters.length - 1;
+  let endIndex = cumulativeMeters.findIndex((value) => value >= upper);
+  if (endIndex < 0) endIndex = cumulativeMeters.length - 1;
+  const { gainM, lossM } = computeElevationChange(
+    smoothed,
+    resolved.hysteresisMeters,
+    startIndex,
+    endIndex
+  );
+  return { gainFt: gainM * FEET_PER_METER, lossFt: lossM * FEET_PER_METER };
+}
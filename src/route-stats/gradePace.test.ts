@@ -0,0 +1,59 @@
+import assert from "assert/strict";
+import {
+  buildGradePaceTimeline,
+  effortMilesAtMile,
+  gradePaceFactor,
+  mileAtEffortMiles,
+  secondsAtMile,
+  type LonLat,
+} from "./index";
+
+assert.equal(gradePaceFactor(0), 1);
+assert(gradePaceFactor(10) > 1.3, "10% climb is much slower than flat");
+assert(gradePaceFactor(-8) < 1, "gentle descent is faster than flat");
+assert(gradePaceFactor(-35) > 1, "steep descent is slower than flat");
+assert.equal(gradePaceFactor(80), gradePaceFactor(40), "clamped past the curve");
+assert.equal(gradePaceFactor(Number.NaN), 1);
+
+// ~111 m per 0.001 deg latitude: 41 points, ~2.76 mi northbound.
+const coords: LonLat[] = Array.from({ length: 41 }, (_, index) => [-121.9, 37.8 + index * 0.001]);
+const flat = buildGradePaceTimeline(coords, coords.map(() => 100));
+const total = flat.cumulativeMiles[flat.cumulativeMiles.length - 1];
+assert(Math.abs(flat.effortMiles[flat.effortMiles.length - 1] - total) < 1e-9, "flat effort equals distance");
+assert(Math.abs(secondsAtMile(flat, 1, 10) - 600) < 1e-6);
+
+// Steady 10% climb: grade-adjusted time runs ~38% over flat.
+const climb = buildGradePaceTimeline(
+  coords,
+  coords.map((_, index) => 100 + index * 11.1)
+);
+const ratio = secondsAtMile(climb, total, 10) / secondsAtMile(flat, total, 10);
+assert(ratio > 1.3 && ratio < 1.45, `climb ratio ${ratio}`);
+
+// Cumulative time is monotonic and the inverse lookup round-trips.
+for (let i = 1; i < climb.effortMiles.length; i += 1) {
+  assert(climb.effortMiles[i] >= climb.effortMiles[i - 1]);
+}
+const effort = effortMilesAtMile(climb, 1.5);
+assert(Math.abs(mileAtEffortMiles(climb, effort) - 1.5) < 1e-9);
+assert.equal(mileAtEffortMiles(climb, 1000), total, "inverse clamps to the route end");
+
+// Dense, noisy points on flat ground must not read as steep terrain.
+const dense: LonLat[] = Array.from({ length: 401 }, (_, index) => [-121.9, 37.8 + index * 0.00002]);
+const noisy = buildGradePaceTimeline(
+  dense,
+  dense.map((_, index) => 100 + (index % 2 === 0 ? 0.4 : -0.4))
+);
+const noisyTotal = noisy.cumulativeMiles[noisy.cumulativeMiles.length - 1];
+assert(
+  noisy.effortMiles[noisy.effortMiles.length - 1] / noisyTotal < 1.02,
+  "GPS jitter is absorbed by the grade window"
+);
+
+// Missing elevation falls back to flat pacing.
+const noElevation = buildGradePaceTimeline(coords, []);
+noElevation.effortMiles.forEach((value, index) => {
+  assert(Math.abs(value - noElevation.cumulativeMiles[index]) < 1e-9);
+});
+
+console.log("route-stats gradePace tests passed");
@@ -0,0 +1,132 @@
+import { cumulativeDistanceMeters, METERS_PER_MILE, smoothElevations } from "./elevation";
+import type { GradePaceOptions, GradePaceTimeline, LonLat } from "./types";
+
+/**
+ * Relative cost of running one mile at a grade compared to flat ground.
+ * Approximates published grade-adjusted pace curves: climbing cost rises
+ * steeply, gentle descents are slightly faster than flat, and steep descents
+ * get slower again because runners brake.
+ */
+const GRADE_PACE_CURVE: Array<[gradePercent: number, factor: number]> = [
+  [-40, 1.6],
+  [-30, 1.3],
+  [-20, 1.05],
+  [-15, 0.95],
+  [-10, 0.9],
+  [-5, 0.93],
+  [0, 1],
+  [5, 1.17],
+  [10, 1.38],
+  [15, 1.63],
+  [20, 1.92],
+  [30, 2.6],
+  [40, 3.3],
+];
+
+export const DEFAULT_GRADE_PACE_OPTIONS: GradePaceOptions = {
+  smoothingWindow: 5,
+  gradeWindowMeters: 30,
+};
+
+/**
+ * Pace multiplier for a grade in percent (10 = 10% climb), clamped to the curve.
+ */
+export function gradePaceFactor(gradePercent: number): number {
+  if (!Number.isFinite(gradePercent)) return 1;
+  const first = GRADE_PACE_CURVE[0];
+  const last = GRADE_PACE_CURVE[GRADE_PACE_CURVE.length - 1];
+  if (gradePercent <= first[0]) return first[1];
+  if (gradePercent >= last[0]) return last[1];
+  for (let i = 1; i < GRADE_PACE_CURVE.length; i += 1) {
+    const [upperGrade, upperFactor] = GRADE_PACE_CURVE[i];
+    if (gradePercent > upperGrade) continue;
+    const [lowerGrade, lowerFactor] = GRADE_PACE_CURVE[i - 1];
+    const t = (gradePercent - lowerGrade) / (upperGrade - lowerGrade);
+    return lowerFactor + t * (upperFactor - lowerFactor);
+  }
+  return last[1];
+}
+
+/**
+ * Grade-weighted distance along a track. Each segment's grade is measured over
+ * at least `gradeWindowMeters` of smoothed elevation so dense GPS noise does
+ * not read as steep terrain.
+ */
+export function buildGradePaceTimeline(
+  coords: LonLat[],
+  elevations: number[],
+  options?: Partial<GradePaceOptions>
+): GradePaceTimeline {
+  const resolved = { ...DEFAULT_GRADE_PACE_OPTIONS, ...(options ?? {}) };
+  const cumulative = cumulativeDistanceMeters(coords);
+  const hasElevation =
+    elevations.length === coords.length && elevations.every((value) => Number.isFinite(value));
+  const smoothed = hasElevation ? smoothElevations(elevations, resolved.smoothingWindow) : [];
+  const cumulativeMiles = cumulative.map((meters) => meters / METERS_PER_MILE);
+  const effortMiles: number[] = cumulative.length > 0 ? [0] : [];
+
+  for (let i = 0; i < cumulative.length - 1; i += 1) {
+    const segmentM = cumulative[i + 1] - cumulative[i];
+    let grade = 0;
+    if (hasElevation) {
+      let low = i;
+      let high = i + 1;
+      while (cumulative[high] - cumulative[low] < resolved.gradeWindowMeters) {
+        if (low === 0 && high === cumulative.length - 1) break;
+        if (high < cumulative.length - 1) high += 1;
+        if (low > 0 && cumulative[high] - cumulative[low] < resolved.gradeWindowMeters) low -= 1;
+      }
+      const runM = cumulative[high] - cumulative[low];
+      if (runM > 0) grade = ((smoothed[high] - smoothed[low]) / runM) * 100;
+    }
+    effortMiles.push(effortMiles[i] + (segmentM / METERS_PER_MILE) * gradePaceFactor(grade));
+  }
+
+  return { cumulativeMiles, effortMiles };
+}
+
+function interpolate(xs: number[], ys: number[], x: number): number {
+  if (xs.length === 0) return 0;
+  if (x <= xs[0]) return ys[0];
+  const last = xs.length - 1;
+  if (x >= xs[last]) return ys[last] + (x - xs[last]);
+  let low = 0;
+  let high = last;
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (xs[mid] <= x) low = mid;
+    else high = mid;
+  }
+  const span = xs[high] - xs[low];
+  const t = span > 0 ? (x - xs[low]) / span : 0;
+  return ys[low] + t * (ys[high] - ys[low]);
+}
+
+/**
+ * Flat-equivalent miles needed to reach `mile`. Past the end, extra miles count as flat.
+ */
+export function effortMilesAtMile(timeline: GradePaceTimeline, mile: number): number {
+  return interpolate(timeline.cumulativeMiles, timeline.effortMiles, Math.max(0, mile));
+}
+
+/**
+ * Inverse of effortMilesAtMile: the route mile reached after `effortMiles`.
+ */
+export function mileAtEffortMiles(timeline: GradePaceTimeline, effortMiles: number): number {
+  const total = timeline.cumulativeMiles[timeline.cumulativeMiles.length - 1] ?? 0;
+  return Math.min(
+    total,
+    interpolate(timeline.effortMiles, timeline.cumulativeMiles, Math.max(0, effortMiles))
+  );
+}
+
+/**
+ * Cumulative seconds to reach `mile` at a flat-ground pace (min/mi).
+ */
+export function secondsAtMile(
+  timeline: GradePaceTimeline,
+  mile: number,
+  flatPaceMinPerMi: number
+): number {
+  return effortMilesAtMile(timeline, mile) * flatPaceMinPerMi * 60;
+}
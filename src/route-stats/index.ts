@@ -0,0 +1,5 @@
+export * from "./types";
+export * from "./elevation";
+export * from "./gradePace";
+export * from "./splits";
+export * from "./simplify";
@@ -0,0 +1,71 @@
+import assert from "assert/strict";
+import { simplifyTrack, type LonLat } from "./index";
+
+// ~3 m between points: a straight 1.2 km climb, a switchback, then a flat run back.
+const coords: LonLat[] = [];
+const elevations: number[] = [];
+for (let i = 0; i <= 400; i += 1) {
+  coords.push([-121.9, 37.8 + i * 0.000027]);
+  elevations.push(100 + i * 0.5);
+}
+for (let i = 1; i <= 400; i += 1) {
+  coords.push([-121.9 + i * 0.000034, 37.8 + 400 * 0.000027]);
+  elevations.push(300 + (i % 2 === 0 ? 0.3 : -0.3));
+}
+
+const dp = simplifyTrack(coords, elevations, {
+  algorithm: "douglas-peucker",
+  toleranceM: 2,
+  maxSegmentM: 0,
+});
+assert.equal(dp.summary.pointsBefore, 801);
+assert(dp.summary.pointsAfter < 20, `douglas-peucker kept ${dp.summary.pointsAfter}`);
+assert.deepEqual(dp.coords[0], coords[0], "start is kept");
+assert.deepEqual(dp.coords[dp.coords.length - 1], coords[coords.length - 1], "end is kept");
+assert(dp.coords.some((coord) => coord === coords[400]), "the corner is kept");
+assert.equal(dp.elevations.length, dp.coords.length);
+assert(
+  Math.abs(dp.summary.distanceMiAfter - dp.summary.distanceMiBefore) / dp.summary.distanceMiBefore < 0.01,
+  "distance is preserved"
+);
+
+// Straight sections keep a point every maxSegmentM so smoothing and snapping still work.
+const dense = simplifyTrack(coords, elevations, { toleranceM: 2, maxSegmentM: 25 });
+assert(dense.summary.pointsAfter > 90 && dense.summary.pointsAfter < 110, `kept ${dense.summary.pointsAfter}`);
+assert(Math.abs(dense.summary.gainFtAfter - dense.summary.gainFtBefore) < 30, "gain is preserved");
+
+// A summit in the middle of a straight line only survives with elevation preserved.
+const ridge: LonLat[] = Array.from({ length: 201 }, (_, index) => [-121.9, 37.8 + index * 0.000027]);
+const ridgeElevations = ridge.map((_, index) => 100 + 40 * Math.max(0, 1 - Math.abs(index - 100) / 20));
+const flat = simplifyTrack(ridge, ridgeElevations, {
+  toleranceM: 5,
+  preserveElevation: false,
+  maxSegmentM: 0,
+});
+const kept = simplifyTrack(ridge, ridgeElevations, {
+  toleranceM: 5,
+  preserveElevation: true,
+  maxSegmentM: 0,
+});
+assert.equal(flat.summary.pointsAfter, 2);
+assert(kept.elevations.includes(140), "summit is kept when elevation is preserved");
+
+const vw = simplifyTrack(coords, elevations, {
+  algorithm: "visvalingam",
+  toleranceM: 3,
+  maxSegmentM: 0,
+});
+assert(vw.summary.pointsAfter < 40, `visvalingam kept ${vw.summary.pointsAfter}`);
+assert(vw.coords.some((coord) => coord === coords[400]), "visvalingam keeps the corner");
+
+// The point budget wins over the tolerance.
+const budget = simplifyTrack(coords, elevations, { toleranceM: 0, maxPoints: 10 });
+assert.equal(budget.summary.pointsAfter, 10);
+assert.equal(budget.summary.maxPoints, 10);
+assert.deepEqual(budget.coords[0], coords[0]);
+
+// Missing elevation is carried through untouched.
+const noElevation = simplifyTrack(coords, [], { toleranceM: 2 });
+assert.deepEqual(noElevation.elevations, []);
+
+console.log("route-stats simplify tests passed");
@@ -0,0 +1,265 @@
+import { computeRouteElevationStats, cumulativeDistanceMeters } from "./elevation";
+import type {
+  LonLat,
+  TrackSimplificationOptions,
+  TrackSimplificationResult,
+} from "./types";
+
+const EARTH_RADIUS_M = 6371000;
+
+export const DEFAULT_TRACK_SIMPLIFICATION: TrackSimplificationOptions = {
+  algorithm: "douglas-peucker",
+  toleranceM: 2,
+  preserveElevation: true,
+  maxSegmentM: 25,
+  maxPoints: 5000,
+};
+
+type Point3 = [x: number, y: number, z: number];
+
+/**
+ * Project to local meters around the track's first point. Elevation becomes the
+ * z axis only when it should count toward deviation.
+ */
+function projectTrack(coords: LonLat[], elevations: number[], useElevation: boolean): Point3[] {
+  const lat0 = ((coords[0]?.[1] ?? 0) * Math.PI) / 180;
+  const scale = (Math.PI / 180) * EARTH_RADIUS_M;
+  return coords.map(([lon, lat], index) => {
+    const z = useElevation ? elevations[index] : 0;
+    return [lon * scale * Math.cos(lat0), lat * scale, Number.isFinite(z) ? z : 0];
+  });
+}
+
+function subtract(a: Point3, b: Point3): Point3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function crossLength(a: Point3, b: Point3): number {
+  const x = a[1] * b[2] - a[2] * b[1];
+  const y = a[2] * b[0] - a[0] * b[2];
+  const z = a[0] * b[1] - a[1] * b[0];
+  return Math.sqrt(x * x + y * y + z * z);
+}
+
+function distanceToSegment(p: Point3, a: Point3, b: Point3): number {
+  const ab = subtract(b, a);
+  const ap = subtract(p, a);
+  const lengthSq = ab[0] * ab[0] + ab[1] * ab[1] + ab[2] * ab[2];
+  const t =
+    lengthSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, (ap[0] * ab[0] + ap[1] * ab[1] + ap[2] * ab[2]) / lengthSq));
+  const dx = ap[0] - t * ab[0];
+  const dy = ap[1] - t * ab[1];
+  const dz = ap[2] - t * ab[2];
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
+}
+
+/**
+ * Douglas-Peucker significance: the deviation at which each point would be
+ * kept, capped by its parent's so that thresholds select nested subsets.
+ */
+function douglasPeuckerSignificance(points: Point3[]): number[] {
+  const significance = new Array<number>(points.length).fill(0);
+  if (points.length === 0) return significance;
+  significance[0] = Number.POSITIVE_INFINITY;
+  significance[points.length - 1] = Number.POSITIVE_INFINITY;
+
+  const stack: Array<[start: number, end: number, cap: number]> = [
+    [0, points.length - 1, Number.POSITIVE_INFINITY],
+  ];
+  while (stack.length > 0) {
+    const [start, end, cap] = stack.pop()!;
+    let farthest = -1;
+    let farthestDistance = -1;
+    for (let i = start + 1; i < end; i += 1) {
+      const distance = distanceToSegment(points[i], points[start], points[end]);
+      if (distance > farthestDistance) {
+        farthest = i;
+        farthestDistance = distance;
+      }
+    }
+    if (farthest < 0) continue;
+    const value = Math.min(cap, farthestDistance);
+    significance[farthest] = value;
+    stack.push([start, farthest, value], [farthest, end, value]);
+  }
+  return significance;
+}
+
+function triangleArea(a: Point3, b: Point3, c: Point3): number {
+  return crossLength(subtract(b, a), subtract(c, a)) / 2;
+}
+
+/**
+ * Visvalingam-Whyatt significance: the effective area at which each point is
+ * eliminated (made monotonic so later removals never rank below earlier ones).
+ */
+function visvalingamSignificance(points: Point3[]): number[] {
+  const count = points.length;
+  const significance = new Array<number>(count).fill(Number.POSITIVE_INFINITY);
+  if (count < 3) return significance;
+
+  const prev = points.map((_, index) => index - 1);
+  const next = points.map((_, index) => index + 1);
+  const area = points.map((point, index) =>
+    index === 0 || index === count - 1
+      ? Number.POSITIVE_INFINITY
+      : triangleArea(points[index - 1], point, points[index + 1])
+  );
+
+  // Binary min-heap of [area, index]; stale entries are skipped on pop.
+  const heap: Array<[number, number]> = [];
+  const push = (entry: [number, number]) => {
+    heap.push(entry);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent][0] <= heap[i][0]) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  };
+  const pop = (): [number, number] | undefined => {
+    const top = heap[0];
+    const last = heap.pop();
+    if (heap.length > 0 && last) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left;
+        if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right;
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  };
+
+  for (let i = 1; i < count - 1; i += 1) push([area[i], i]);
+
+  let floor = 0;
+  const removed = new Array<boolean>(count).fill(false);
+  for (let entry = pop(); entry; entry = pop()) {
+    const [value, index] = entry;
+    if (removed[index] || value !== area[index]) continue;
+    floor = Math.max(floor, value);
+    significance[index] = floor;
+    removed[index] = true;
+
+    const before = prev[index];
+    const after = next[index];
+    next[before] = after;
+    prev[after] = before;
+    for (const neighbor of [before, after]) {
+      if (neighbor <= 0 || neighbor >= count - 1) continue;
+      area[neighbor] = triangleArea(points[prev[neighbor]], points[neighbor], points[next[neighbor]]);
+      push([area[neighbor], neighbor]);
+    }
+  }
+  return significance;
+}
+
+/**
+ * Add back original points so no gap between kept points exceeds maxSegmentM.
+ */
+function densify(indices: number[], cumulative: number[], maxSegmentM: number): number[] {
+  if (maxSegmentM <= 0) return indices;
+  const result: number[] = [];
+  indices.forEach((index, position) => {
+    const previous = position > 0 ? result[result.length - 1] : null;
+    if (previous !== null) {
+      let anchor = previous;
+      for (let i = previous + 1; i < index; i += 1) {
+        if (cumulative[i + 1] - cumulative[anchor] > maxSegmentM) {
+          result.push(i);
+          anchor = i;
+        }
+      }
+    }
+    result.push(index);
+  });
+  return result;
+}
+
+/**
+ * Indices to keep: every point above the threshold plus gap fillers, then only
+ * the most significant points when the point budget is exceeded. Endpoints always stay.
+ */
+function selectIndices(
+  significance: number[],
+  threshold: number,
+  cumulative: number[],
+  maxSegmentM: number,
+  maxPoints: number | null
+): number[] {
+  const significant = significance
+    .map((value, index) => ({ value, index }))
+    .filter((entry) => entry.value > threshold)
+    .map((entry) => entry.index);
+  const kept = densify(significant, cumulative, maxSegmentM);
+  if (maxPoints === null || kept.length <= maxPoints) return kept;
+  return significance
+    .map((value, index) => ({ value, index }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, Math.max(2, maxPoints))
+    .map((entry) => entry.index)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Reduce a dense track (e.g. 1-second GPS logging) to the points that carry
+ * its shape, reporting point count and distance/gain before and after.
+ */
+export function simplifyTrack(
+  coords: LonLat[],
+  elevations: number[],
+  options?: Partial<TrackSimplificationOptions>
+): TrackSimplificationResult {
+  const resolved = { ...DEFAULT_TRACK_SIMPLIFICATION, ...(options ?? {}) };
+  const toleranceM = Math.max(0, resolved.toleranceM);
+  const maxPoints =
+    typeof resolved.maxPoints === "number" && resolved.maxPoints >= 2
+      ? Math.floor(resolved.maxPoints)
+      : null;
+  const hasElevation = elevations.length === coords.length;
+  const points = projectTrack(coords, elevations, resolved.preserveElevation && hasElevation);
+
+  const significance =
+    resolved.algorithm === "visvalingam"
+      ? visvalingamSignificance(points)
+      : douglasPeuckerSignificance(points);
+  const threshold = resolved.algorithm === "visvalingam" ? toleranceM * toleranceM : toleranceM;
+  const maxSegmentM = Math.max(0, resolved.maxSegmentM);
+  const indices =
+    coords.length <= 2
+      ? coords.map((_, index) => index)
+      : selectIndices(significance, threshold, cumulativeDistanceMeters(coords), maxSegmentM, maxPoints);
+
+  const nextCoords = indices.map((index) => coords[index]);
+  const nextElevations = hasElevation ? indices.map((index) => elevations[index]) : elevations;
+  const before = computeRouteElevationStats(coords, elevations);
+  const after = computeRouteElevationStats(nextCoords, nextElevations);
+
+  return {
+    coords: nextCoords,
+    elevations: nextElevations,
+    summary: {
+      algorithm: resolved.algorithm,
+      toleranceM,
+      preserveElevation: resolved.preserveElevation,
+      maxSegmentM,
+      maxPoints,
+      pointsBefore: coords.length,
+      pointsAfter: nextCoords.length,
+      distanceMiBefore: before.distanceMi,
+      distanceMiAfter: after.distanceMi,
+      gainFtBefore: before.gainFt,
+      gainFtAfter: after.gainFt,
+    },
+  };
+}
@@ -0,0 +1,91 @@
+import assert from "assert/strict";
+import {
+  computeSplitTable,
+  formatSplitMinutes,
+  formatPaceMinutes,
+  formatSplitTableCsv,
+  parsePaceMinutes,
+  parseSplitMinutes,
+  type LonLat,
+} from "./index";
+
+// ~111 m per 0.001 deg latitude: 61 points, ~4.1 mi northbound.
+const coords: LonLat[] = Array.from({ length: 61 }, (_, index) => [-121.9, 37.8 + index * 0.001]);
+// Flat for the first third, climb 150 m over the middle third, descend 150 m after.
+const elevations = coords.map((_, index) => {
+  if (index <= 20) return 100;
+  if (index <= 40) return 100 + (index - 20) * 7.5;
+  return 250 - (index - 40) * 7.5;
+});
+
+const paces = { MED: 12, LRG: 10 };
+const rows = computeSplitTable(
+  coords,
+  elevations,
+  [
+    { id: "aid-2", name: "Summit Aid", distanceMi: 2.76, cutoffMin: 30 },
+    { id: "aid-1", name: "Valley Aid", distanceMi: 1.2, cutoffMin: null },
+  ],
+  paces,
+  { finishCutoffMin: 55 }
+);
+
+assert.deepEqual(
+  rows.map((row) => row.kind),
+  ["start", "aid", "aid", "finish"]
+);
+assert.deepEqual(
+  rows.map((row) => row.id),
+  ["start", "aid-1", "aid-2", "finish"],
+  "stations are ordered by distance"
+);
+assert.equal(rows[0].segmentMi, 0);
+assert.equal(rows[0].eta.MED.elapsedMin, 0);
+
+const [, valley, summit, finish] = rows;
+assert(valley.gainFt < 5, `flat segment gain ${valley.gainFt}`);
+assert(summit.gainFt > 400 && summit.gainFt < 500, `climb segment gain ${summit.gainFt}`);
+assert(finish.lossFt > 400, `descent segment loss ${finish.lossFt}`);
+
+// The climb costs more than its flat time; the descent costs less.
+assert(summit.eta.MED.segmentMin > summit.segmentMi * paces.MED + 3);
+assert(finish.eta.MED.segmentMin < finish.segmentMi * paces.MED);
+assert(finish.eta.LRG.elapsedMin < finish.eta.MED.elapsedMin);
+
+const totalSegments = rows.reduce((sum, row) => sum + row.segmentMi, 0);
+assert(Math.abs(totalSegments - finish.distanceMi) < 1e-9);
+
+// Cutoff status per tier.
+assert.equal(valley.eta.MED.cutoffStatus, null);
+assert.equal(summit.eta.MED.cutoffStatus, "over");
+assert.equal(finish.cutoffMin, 55);
+assert.equal(finish.eta.LRG.cutoffStatus, "tight");
+
+// Stations past the end of the track are clamped to the finish.
+const clamped = computeSplitTable(coords, elevations, [{ id: "far", name: "Far", distanceMi: 99 }], paces);
+assert.equal(clamped[1].distanceMi, clamped[2].distanceMi);
+
+assert.equal(formatSplitMinutes(125.4), "2:05");
+assert.equal(formatSplitMinutes(null), "");
+assert.equal(parseSplitMinutes("2:05"), 125);
+assert.equal(parseSplitMinutes("90"), 90);
+assert.equal(parseSplitMinutes(""), null);
+assert.equal(parseSplitMinutes("2:75"), null);
+assert.equal(formatPaceMinutes(11.5), "11:30");
+assert.equal(parsePaceMinutes("11:30"), 11.5);
+assert.equal(parsePaceMinutes("0"), null);
+
+const csv = formatSplitTableCsv(
+  rows.map((row) => (row.id === "aid-1" ? { ...row, name: 'Valley "Low", Aid' } : row)),
+  ["MED", "LRG"]
+);
+const lines = csv.trim().split("\n");
+assert.equal(lines.length, 5);
+assert.equal(
+  lines[0],
+  "Station,Mile,Segment mi,Gain ft,Loss ft,MED split,MED ETA,LRG split,LRG ETA,Cutoff"
+);
+assert(lines[2].startsWith('"Valley ""Low"", Aid",1.20,1.20,'));
+assert(lines[4].endsWith(",0:55"));
+
+console.log("route-stats splits tests passed");
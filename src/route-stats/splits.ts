@@ -0,0 +1,182 @@
+import { cumulativeDistanceMeters, METERS_PER_MILE, summarizeElevationBetween } from "./elevation";
+import { buildGradePaceTimeline, effortMilesAtMile } from "./gradePace";
+import type {
+  GradePaceOptions,
+  LonLat,
+  SplitCutoffStatus,
+  SplitRow,
+  SplitStation,
+  SplitTierEta,
+} from "./types";
+
+/** ETAs within this many minutes of a cutoff are flagged as tight. */
+export const CUTOFF_TIGHT_MARGIN_MIN = 15;
+
+export type SplitTableOptions = Partial<GradePaceOptions> & {
+  startName?: string;
+  finishName?: string;
+  finishCutoffMin?: number | null;
+};
+
+function cutoffStatus(elapsedMin: number, cutoffMin: number | null): SplitCutoffStatus | null {
+  if (cutoffMin === null) return null;
+  if (elapsedMin > cutoffMin) return "over";
+  if (elapsedMin > cutoffMin - CUTOFF_TIGHT_MARGIN_MIN) return "tight";
+  return "ok";
+}
+
+function normalizeCutoff(value: number | null | undefined): number | null {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * Build a Start -> stations -> Finish split table for one variant track.
+ * Stations outside the track are clamped to it; ETAs use the grade-adjusted
+ * pace model at each tier's flat pace.
+ */
+export function computeSplitTable(
+  coords: LonLat[],
+  elevations: number[],
+  stations: SplitStation[],
+  paceMinPerMi: Record<string, number>,
+  options: SplitTableOptions = {}
+): SplitRow[] {
+  const cumulative = cumulativeDistanceMeters(coords);
+  const totalMi = (cumulative[cumulative.length - 1] ?? 0) / METERS_PER_MILE;
+  const tiers = Object.keys(paceMinPerMi).filter((tier) => Number.isFinite(paceMinPerMi[tier]));
+  const timeline = buildGradePaceTimeline(coords, elevations, options);
+
+  const breakpoints: Array<Omit<SplitRow, "segmentMi" | "gainFt" | "lossFt" | "eta">> = [
+    { id: "start", name: options.startName ?? "Start", kind: "start", distanceMi: 0, cutoffMin: null },
+    ...stations
+      .filter((station) => Number.isFinite(station.distanceMi))
+      .map((station) => ({
+        id: station.id,
+        name: station.name,
+        kind: "aid" as const,
+        distanceMi: Math.min(Math.max(station.distanceMi, 0), totalMi),
+        cutoffMin: normalizeCutoff(station.cutoffMin),
+      }))
+      .sort((a, b) => a.distanceMi - b.distanceMi),
+    {
+      id: "finish",
+      name: options.finishName ?? "Finish",
+      kind: "finish",
+      distanceMi: totalMi,
+      cutoffMin: normalizeCutoff(options.finishCutoffMin),
+    },
+  ];
+
+  const elapsed: Record<string, number> = Object.fromEntries(tiers.map((tier) => [tier, 0]));
+
+  return breakpoints.map((point, index) => {
+    const previous = index > 0 ? breakpoints[index - 1] : null;
+    const segmentMi = previous ? point.distanceMi - previous.distanceMi : 0;
+    const { gainFt, lossFt } = previous
+      ? summarizeElevationBetween(
+          cumulative,
+          elevations,
+          previous.distanceMi * METERS_PER_MILE,
+          point.distanceMi * METERS_PER_MILE
+        )
+      : { gainFt: 0, lossFt: 0 };
+
+    const segmentEffortMi = previous
+      ? effortMilesAtMile(timeline, point.distanceMi) - effortMilesAtMile(timeline, previous.distanceMi)
+      : 0;
+
+    const eta: Record<string, SplitTierEta> = {};
+    tiers.forEach((tier) => {
+      const segmentMin = segmentEffortMi * paceMinPerMi[tier];
+      elapsed[tier] += segmentMin;
+      eta[tier] = {
+        segmentMin,
+        elapsedMin: elapsed[tier],
+        cutoffStatus: cutoffStatus(elapsed[tier], point.cutoffMin),
+      };
+    });
+
+    return { ...point, segmentMi, gainFt, lossFt, eta };
+  });
+}
+
+/**
+ * Format elapsed minutes as H:MM.
+ */
+export function formatSplitMinutes(totalMinutes: number | null): string {
+  if (totalMinutes === null || !Number.isFinite(totalMinutes)) return "";
+  const rounded = Math.round(totalMinutes);
+  const hours = Math.floor(rounded / 60);
+  const minutes = rounded % 60;
+  return `${hours}:${String(minutes).padStart(2, "0")}`;
+}
+
+/**
+ * Parse "H:MM" (or plain minutes) into elapsed minutes. Empty input clears the value.
+ */
+export function parseSplitMinutes(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const match = trimmed.match(/^(\d+):([0-5]\d)$/);
+  if (match) return Number(match[1]) * 60 + Number(match[2]);
+  const minutes = Number(trimmed);
+  return Number.isFinite(minutes) && minutes >= 0 ? minutes : null;
+}
+
+/**
+ * Format a pace in minutes per mile as M:SS.
+ */
+export function formatPaceMinutes(minPerMi: number | null): string {
+  if (minPerMi === null || !Number.isFinite(minPerMi)) return "";
+  const totalSeconds = Math.round(minPerMi * 60);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Parse "M:SS" (or decimal minutes) into minutes per mile.
+ */
+export function parsePaceMinutes(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const match = trimmed.match(/^(\d+):([0-5]\d)$/);
+  if (match) return Number(match[1]) + Number(match[2]) / 60;
+  const minutes = Number(trimmed);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : null;
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize a split table to CSV with one split/ETA column pair per tier.
+ */
+export function formatSplitTableCsv(rows: SplitRow[], tiers: string[]): string {
+  const header = [
+    "Station",
+    "Mile",
+    "Segment mi",
+    "Gain ft",
+    "Loss ft",
+    ...tiers.flatMap((tier) => [`${tier} split`, `${tier} ETA`]),
+    "Cutoff",
+  ];
+  const lines = rows.map((row) =>
+    [
+      row.name,
+      row.distanceMi.toFixed(2),
+      row.segmentMi.toFixed(2),
+      Math.round(row.gainFt),
+      Math.round(row.lossFt),
+      ...tiers.flatMap((tier) => [
+        formatSplitMinutes(row.eta[tier]?.segmentMin ?? null),
+        formatSplitMinutes(row.eta[tier]?.elapsedMin ?? null),
+      ]),
+      formatSplitMinutes(row.cutoffMin),
+    ]
+      .map(csvCell)
+      .join(",")
+  );
+  return `${[header.map(csvCell).join(","), ...lines].join("\n")}\n`;
+}
@@ -0,0 +1,121 @@
+export type LonLat = [number, number];
+
+export interface ElevationSmoothingOptions {
+  /** Moving-average window in points (odd values keep the window centered). 1 disables smoothing. */
+  windowSize: number;
+  /** Minimum climb/descent in meters before a change counts toward gain/loss. */
+  hysteresisMeters: number;
+  /** Horizontal length of the window used to find steepest-grade segments. */
+  gradeSegmentMeters: number;
+  /** Number of steepest climbs/descents to report. */
+  gradeSegmentCount: number;
+}
+
+export interface GradeSegment {
+  startIndex: number;
+  endIndex: number;
+  startMi: number;
+  endMi: number;
+  distanceMi: number;
+  elevationChangeFt: number;
+  gradePercent: number;
+}
+
+export interface RouteElevationStats {
+  distanceMi: number;
+  gainFt: number;
+  lossFt: number;
+  minElevationFt: number | null;
+  maxElevationFt: number | null;
+  steepestClimbs: GradeSegment[];
+  steepestDescents: GradeSegment[];
+}
+
+export interface ElevationRangeSummary {
+  gainFt: number;
+  lossFt: number;
+}
+
+export interface GradePaceOptions {
+  /** Moving-average window (points) applied to elevations before measuring grade. */
+  smoothingWindow: number;
+  /** Minimum horizontal run used to measure each segment's grade. */
+  gradeWindowMeters: number;
+}
+
+export interface GradePaceTimeline {
+  cumulativeMiles: number[];
+  /** Flat-equivalent miles to reach each point (distance weighted by grade cost). */
+  effortMiles: number[];
+}
+
+export type TrackSimplificationAlgorithm = "douglas-peucker" | "visvalingam";
+
+export interface TrackSimplificationOptions {
+  algorithm: TrackSimplificationAlgorithm;
+  /**
+   * Douglas-Peucker: max deviation in meters from the original track.
+   * Visvalingam: points whose effective triangle area is under toleranceM² are dropped.
+   */
+  toleranceM: number;
+  /** Measure deviation in 3D (elevation in meters) so climbs and summits survive. */
+  preserveElevation: boolean;
+  /**
+   * Longest gap (m) left between kept points, so straight sections keep enough
+   * points for snapping and point-window elevation smoothing. 0 disables.
+   */
+  maxSegmentM: number;
+  /** Point budget; the least significant points are dropped beyond it. */
+  maxPoints?: number | null;
+}
+
+export interface TrackSimplificationSummary {
+  algorithm: TrackSimplificationAlgorithm;
+  toleranceM: number;
+  preserveElevation: boolean;
+  maxSegmentM: number;
+  maxPoints: number | null;
+  pointsBefore: number;
+  pointsAfter: number;
+  distanceMiBefore: number;
+  distanceMiAfter: number;
+  gainFtBefore: number;
+  gainFtAfter: number;
+}
+
+export interface TrackSimplificationResult {
+  coords: LonLat[];
+  elevations: number[];
+  summary: TrackSimplificationSummary;
+}
+
+/** A point the split table breaks at, measured along one variant. */
+export interface SplitStation {
+  id: string;
+  name: string;
+  distanceMi: number;
+  /** Elapsed minutes from the start at which the station closes. */
+  cutoffMin?: number | null;
+}
+
+export type SplitRowKind = "start" | "aid" | "finish";
+
+export type SplitCutoffStatus = "ok" | "tight" | "over";
+
+export interface SplitTierEta {
+  segmentMin: number;
+  elapsedMin: number;
+  cutoffStatus: SplitCutoffStatus | null;
+}
+
+export interface SplitRow {
+  id: string;
+  name: string;
+  kind: SplitRowKind;
+  distanceMi: number;
+  segmentMi: number;
+  gainFt: number;
+  lossFt: number;
+  cutoffMin: number | null;
+  eta: Record<string, SplitTierEta>;
+}
@@ -0,0 +1,106 @@
+import assert from "assert/strict";
+import type { MetricsSegment } from "../workoutMetrics";
+import type { BlockInstance, WeekInstance } from "./types";
+import { computeSeasonLoad, weekWorkoutIds, type LoadWorkout } from "./weekLoad";
+
+const segment = (reps: number, duration: string, zone: string): MetricsSegment => ({
+  reps,
+  work: { duration, target: { type: "pace", zone } },
+});
+
+const workouts = new Map<string, LoadWorkout>(
+  [
+    { workoutId: "easy-40", tiers: { MED: { structure: [segment(1, "40min", "Z2")] } } },
+    {
+      workoutId: "threshold-40",
+      tiers: { MED: { structure: [segment(1, "10min", "Z1"), segment(4, "5min", "Z4"), segment(1, "10min", "Z1")] } },
+    },
+    { workoutId: "long-90", tiers: { MED: { structure: [segment(1, "90min", "Z2")] }, LRG: undefined } },
+  ].map((workout) => [workout.workoutId, workout])
+);
+
+const week = (
+  weekId: string,
+  focus: WeekInstance["focus"],
+  volume: WeekInstance["volume"],
+  intensity: WeekInstance["intensity"],
+  days: Partial<Record<"tue" | "thu" | "sat", string[]>>
+): WeekInstance => ({
+  weekId,
+  focus,
+  stress: "med",
+  volume,
+  intensity,
+  days: {
+    mon: {},
+    tue: { workoutIds: days.tue },
+    wed: {},
+    thu: { workoutIds: days.thu },
+    fri: {},
+    sat: { workoutIds: days.sat },
+    sun: {},
+  },
+});
+
+const blocks: BlockInstance[] = [
+  {
+    blockId: "block-1",
+    name: "Build",
+    tags: [],
+    weeks: [
+      week("w1", "base", "med", "high", { tue: ["threshold-40"], sat: ["long-90"] }),
+      week("w2", "base", "med", "med", { tue: ["threshold-40"], thu: ["easy-40"], sat: ["long-90"] }),
+      // Planned as a light week but scheduled as the biggest one.
+      week("w3", "deload", "low", "low", {
+        tue: ["threshold-40", "easy-40"],
+        thu: ["threshold-40"],
+        sat: ["long-90"],
+      }),
+      week("w4", "base", "med", "high", { sat: ["long-90", "missing-workout"] }),
+      week("w5", null, "low", "low", {}),
+    ],
+  },
+];
+
+assert.deepEqual(weekWorkoutIds(blocks[0].weeks[2]), ["threshold-40", "easy-40", "threshold-40", "long-90"]);
+assert.deepEqual(
+  weekWorkoutIds({
+    ...blocks[0].weeks[4],
+    days: { ...week("w6", null, "low", "low", {}).days!, mon: { workoutId: " easy-40 " } },
+  }),
+  ["easy-40"],
+  "a single workoutId still counts"
+);
+
+const season = computeSeasonLoad(blocks, workouts, "MED");
+const [w1, w2, w3, w4, w5] = season.weeks;
+
+assert.equal(w1.seconds, (40 + 90) * 60);
+assert.equal(w1.hardSeconds, 20 * 60);
+assert.equal(w3.load, 2 * 100 + 80 + 180);
+assert.equal(season.averageSeconds, 150 * 60);
+assert.equal(season.averageLoad, 320);
+assert.deepEqual(w4.missingWorkoutIds, ["missing-workout"]);
+
+assert.deepEqual([w1.volume, w2.volume, w3.volume, w4.volume], ["med", "med-high", "high", "low-med"]);
+assert.deepEqual([w1.intensity, w2.intensity, w3.intensity, w4.intensity], ["high", "med", "very-high", "low"]);
+assert.deepEqual(w1.mismatches, []);
+assert.deepEqual(w2.mismatches, []);
+assert.deepEqual(w3.mismatches, [
+  "Volume planned low, scheduled workouts read high.",
+  "Intensity planned low, scheduled workouts read very-high.",
+  "Deload week carries above-average load (460 vs 320).",
+]);
+assert.deepEqual(w4.mismatches, ["Intensity planned high, scheduled workouts read low."]);
+
+// Weeks with nothing scheduled are not labelled or flagged.
+assert.equal(w5.volume, null);
+assert.equal(w5.intensity, null);
+assert.deepEqual(w5.mismatches, []);
+
+// A tier the workouts do not have leaves every week uncounted.
+const lrg = computeSeasonLoad(blocks, workouts, "LRG");
+assert.ok(lrg.weeks.every((entry) => entry.seconds === 0 && entry.mismatches.length === 0));
+assert.deepEqual(lrg.weeks[0].missingWorkoutIds, ["threshold-40", "long-90"]);
+
+console.log("weekLoad tests passed");
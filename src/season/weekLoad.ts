@@ -0,0 +1,153 @@
+import { computeTierMetrics, type MetricsSegment, type TierMetrics } from "../workoutMetrics";
+import {
+  DAY_KEYS,
+  type BlockInstance,
+  type DayAssignment,
+  type IntensityLabel,
+  type WeekInstance,
+} from "./types";
+
+export const INTENSITY_LABELS: IntensityLabel[] = ["low", "low-med", "med", "med-high", "high", "very-high"];
+
+/** The parts of a workout the week rollup reads (studio Workout fits). */
+export type LoadWorkout = {
+  workoutId: string;
+  tiers?: Partial<Record<string, { structure?: MetricsSegment[] } | undefined>>;
+};
+
+/** One week's scheduled workouts for a tier, next to what the coach planned. */
+export type WeekLoad = {
+  weekId: string;
+  blockId: string;
+  /** Workouts scheduled on the week's days, in day order. */
+  workoutIds: string[];
+  /** Scheduled workouts that are unknown or have no structure for the tier. */
+  missingWorkoutIds: string[];
+  seconds: number;
+  meters: number;
+  load: number;
+  /** Time in Z3-Z5. */
+  hardSeconds: number;
+  /** Labels from the scheduled workouts, relative to the season average; null with nothing to count. */
+  volume: IntensityLabel | null;
+  intensity: IntensityLabel | null;
+  /** Where the planned labels or focus disagree with the scheduled workouts. */
+  mismatches: string[];
+};
+
+export type SeasonLoad = {
+  tier: string;
+  weeks: WeekLoad[];
+  /** Averages over the weeks that have scheduled time. */
+  averageSeconds: number;
+  averageLoad: number;
+};
+
+// Ratio to the season average at which each label starts; an average week reads "med".
+const RATIO_BANDS = [0.55, 0.8, 1.05, 1.25, 1.5];
+const HARD_ZONES = ["Z3", "Z4", "Z5"];
+const LIGHT_FOCUS: Partial<Record<string, string>> = { deload: "Deload", taper: "Taper" };
+
+/** The workouts a day runs: its workoutIds (up to two), else the single workoutId. */
+function dayWorkoutIds(assignment?: DayAssignment): string[] {
+  const ids = Array.isArray(assignment?.workoutIds)
+    ? assignment.workoutIds
+        .map((id) => (typeof id === "string" ? id.trim() : ""))
+        .filter(Boolean)
+        .slice(0, 2)
+    : [];
+  if (ids.length > 0) return ids;
+  const single = assignment?.workoutId?.trim();
+  return single ? [single] : [];
+}
+
+export function weekWorkoutIds(week: WeekInstance): string[] {
+  return DAY_KEYS.flatMap((day) => dayWorkoutIds(week.days?.[day]));
+}
+
+function labelForRatio(ratio: number): IntensityLabel {
+  return INTENSITY_LABELS[RATIO_BANDS.filter((band) => ratio >= band).length];
+}
+
+function average(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function labelMismatch(kind: string, planned: IntensityLabel, computed: IntensityLabel | null): string | null {
+  if (!computed) return null;
+  const gap = Math.abs(INTENSITY_LABELS.indexOf(planned) - INTENSITY_LABELS.indexOf(computed));
+  return gap >= 2 ? `${kind} planned ${planned}, scheduled workouts read ${computed}.` : null;
+}
+
+/**
+ * Roll each week's scheduled workouts up for one tier and label the result
+ * against the season's own average, so a MED and an XXL season read alike.
+ * Labels more than one step from the plan, and deload or taper weeks with
+ * above-average load, are listed as mismatches.
+ */
+export function computeSeasonLoad(
+  blocks: BlockInstance[],
+  workouts: ReadonlyMap<string, LoadWorkout>,
+  tier: string
+): SeasonLoad {
+  const metricsById = new Map<string, TierMetrics | null>();
+  const metricsFor = (workoutId: string): TierMetrics | null => {
+    if (!metricsById.has(workoutId)) {
+      const structure = workouts.get(workoutId)?.tiers?.[tier]?.structure;
+      metricsById.set(workoutId, Array.isArray(structure) ? computeTierMetrics(structure) : null);
+    }
+    return metricsById.get(workoutId) ?? null;
+  };
+
+  const weeks = blocks.flatMap((block) =>
+    block.weeks.map((week) => {
+      const workoutIds = weekWorkoutIds(week);
+      const totals = { seconds: 0, meters: 0, load: 0, hardSeconds: 0 };
+      const missingWorkoutIds: string[] = [];
+      for (const workoutId of workoutIds) {
+        const metrics = metricsFor(workoutId);
+        if (!metrics) {
+          if (!missingWorkoutIds.includes(workoutId)) missingWorkoutIds.push(workoutId);
+          continue;
+        }
+        totals.seconds += metrics.seconds;
+        totals.meters += metrics.meters;
+        totals.load += metrics.load;
+        totals.hardSeconds += HARD_ZONES.reduce((sum, zone) => sum + (metrics.zoneSeconds[zone] ?? 0), 0);
+      }
+      return { week, blockId: block.blockId, workoutIds, missingWorkoutIds, ...totals };
+    })
+  );
+
+  const counted = weeks.filter((entry) => entry.seconds > 0);
+  const averageSeconds = average(counted.map((entry) => entry.seconds));
+  const averageLoad = average(counted.map((entry) => entry.load));
+  const averageHardShare = average(counted.map((entry) => entry.hardSeconds / entry.seconds));
+
+  return {
+    tier,
+    averageSeconds: Math.round(averageSeconds),
+    averageLoad: Math.round(averageLoad),
+    weeks: weeks.map(({ week, ...entry }): WeekLoad => {
+      const hasTime = entry.seconds > 0;
+      const volume = hasTime ? labelForRatio(entry.seconds / averageSeconds) : null;
+      const hardShare = hasTime ? entry.hardSeconds / entry.seconds : 0;
+      const intensity = hasTime
+        ? averageHardShare > 0
+          ? labelForRatio(hardShare / averageHardShare)
+          : INTENSITY_LABELS[0]
+        : null;
+      const mismatches = [
+        labelMismatch("Volume", week.volume, volume),
+        labelMismatch("Intensity", week.intensity, intensity),
+      ].filter((message): message is string => Boolean(message));
+      const lightFocus = week.focus ? LIGHT_FOCUS[week.focus] : undefined;
+      if (lightFocus && hasTime && entry.load > averageLoad) {
+        mismatches.push(
+          `${lightFocus} week carries above-average load (${entry.load} vs ${Math.round(averageLoad)}).`
+        );
+      }
+      return { weekId: week.weekId, ...entry, volume, intensity, mismatches };
+    }),
+  };
+}
@@ -0,0 +1,159 @@
+import express from "express";
+import { getRouteGroup, loadEventsMaster } from "../utils/sharedData.js";
+import { readRoster } from "../utils/rosterData.js";
+import { listAttendance, readAttendance, updateAttendance } from "../utils/attendanceData.js";
+import {
+  applyAttendanceUpdate,
+  emptyAttendance,
+  normalizeAttendanceUpdate,
+  removeAttendanceEntry,
+  summarizeAttendance,
+  summarizeMemberAttendance,
+  type AttendanceUpdate,
+  type EventRouteOptions,
+} from "../utils/attendance.js";
+import type { Event } from "../types.js";
+import { sendWriteError } from "../utils/writeErrors.js";
+
+const router = express.Router();
+
+/**
+ * The event and the route groups and variants its attendees can run.
+ */
+function loadEventRoutes(
+  eventId: string
+): { event: Event; routes: Array<EventRouteOptions[number] & { name: string }> } | null {
+  let events: Event[];
+  try {
+    events = loadEventsMaster().events;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.includes("File not found")) return null;
+    throw error;
+  }
+  const event = events.find((item) => item.eventId === eventId);
+  if (!event) return null;
+  const routes = (event.routeGroupIds ?? []).flatMap((routeGroupId) => {
+    const meta = getRouteGroup(routeGroupId);
+    return meta ? [{ routeGroupId, name: meta.name, variants: meta.variants }] : [];
+  });
+  return { event, routes };
+}
+
+/**
+ * GET /api/attendance
+ * Participation counts for every event with check-ins.
+ */
+router.get("/", async (_req, res) => {
+  try {
+    const docs = await listAttendance();
+    return res.json(docs.map(summarizeAttendance));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("List attendance error:", error);
+    return res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * GET /api/attendance/members/:memberId
+ * One member's check-ins across events, with participation counts.
+ */
+router.get("/members/:memberId", async (req, res) => {
+  try {
+    const docs = await listAttendance();
+    return res.json(summarizeMemberAttendance(docs, req.params.memberId));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Member attendance error:", error);
+    return res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * GET /api/attendance/:eventId
+ * Check-in list for an event, its counts and the routes attendees can pick.
+ */
+router.get("/:eventId", async (req, res) => {
+  try {
+    const { eventId } = req.params;
+    const found = loadEventRoutes(eventId);
+    if (!found) {
+      return res.status(404).json({ error: "Event not found" });
+    }
+    const attendance =
+      (await readAttendance(eventId)) ?? emptyAttendance(eventId, new Date().toISOString());
+    return res.json({
+      attendance,
+      summary: summarizeAttendance(attendance),
+      routes: found.routes,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Load attendance error:", error);
+    return res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * PUT /api/attendance/:eventId/members/:memberId
+ * Check a roster member in, or update their status (checked-in, finished,
+ * dnf, dns), route variant and notes. Omitted fields are kept.
+ */
+router.put("/:eventId/members/:memberId", async (req, res) => {
+  try {
+    const { eventId, memberId } = req.params;
+    const found = loadEventRoutes(eventId);
+    if (!found) {
+      return res.status(404).json({ error: "Event not found" });
+    }
+    const roster = await readRoster();
+    if (!roster.some((member) => member.id === memberId)) {
+      return res.status(404).json({ error: "Roster member not found" });
+    }
+
+    let update: AttendanceUpdate;
+    try {
+      update = normalizeAttendanceUpdate(req.body ?? {}, found.routes);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Invalid check-in";
+      return res.status(400).json({ error: message });
+    }
+
+    const result = await updateAttendance(eventId, (doc) => {
+      const next = applyAttendanceUpdate(doc, memberId, update, new Date().toISOString());
+      return { attendance: next.attendance, result: next };
+    });
+    return res.json({ entry: result.entry, summary: summarizeAttendance(result.attendance) });
+  } catch (error) {
+    if (sendWriteError(res, error)) return;
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Save attendance error:", error);
+    return res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * DELETE /api/attendance/:eventId/members/:memberId
+ * Remove a member from an event's check-in list.
+ */
+router.delete("/:eventId/members/:memberId", async (req, res) => {
+  try {
+    const { eventId, memberId } = req.params;
+    const result = await updateAttendance(eventId, (doc) => {
+      const next = removeAttendanceEntry(doc, memberId, new Date().toISOString());
+      return { attendance: next, result: next };
+    });
+    if (!result) {
+      return res.status(404).json({ error: "Member is not checked in" });
+    }
+    return res.json({ success: true, summary: summarizeAttendance(result) });
+  } catch (error) {
+    if (sendWriteError(res, error)) return;
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Delete attendance error:", error);
+    return res.status(500).json({ error: message });
+  }
+});
+
+export default router;
@@ -0,0 +1,26 @@
+import express from "express";
+import { parseAuditQuery } from "../utils/audit.js";
+import { readAuditLog } from "../utils/auditLog.js";
+
+const router = express.Router();
+
+/**
+ * GET /api/audit?entityType=event&entityId=SUC-RUN-01&action=update&from=2026-10-01&to=2026-10-31&limit=200
+ * Audit log entries, newest first, with the total number that matched.
+ */
+router.get("/", async (req, res) => {
+  try {
+    const query = parseAuditQuery(req.query as Record<string, unknown>);
+    if (typeof query === "string") {
+      return res.status(400).json({ error: query });
+    }
+    const result = await readAuditLog(query);
+    return res.json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Load audit log error:", error);
+    return res.status(500).json({ error: message });
+  }
+});
+
+export default router;
@@ -1,12 +1,15 @@
 import express from "express";
 import { readChallenges, writeChallenges } from "../utils/studioData.js";
 import type { Challenge } from "../types.js";
+import { sendWriteError } from "../utils/writeErrors.js";
+import { parseIfMatch, revisionOf, toEtag } from "../utils/storage.js";
 
 const router = express.Router();
 
 router.get("/", async (_req, res) => {
   try {
     const data = await readChallenges();
+    res.setHeader("ETag", toEtag(revisionOf(data)));
     return res.json(data);
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -18,9 +21,13 @@ router.get("/", async (_req, res) => {
 router.put("/", async (req, res) => {
   try {
     const payload = req.body as Challenge[];
-    await writeChallenges(payload);
+    const revision = await writeChallenges(payload, {
+      expectedRevision: parseIfMatch(req.get("If-Match")),
+    });
+    res.setHeader("ETag", toEtag(revision));
     return res.status(200).json({ ok: true });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Save challenges error:", error);
     return res.status(500).json({ error: message });
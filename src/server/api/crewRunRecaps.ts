@@ -1,5 +1,6 @@
 import express from "express";
 import { readContent, upsertContent, archiveContent } from "../utils/contentData.js";
+import { sendWriteError } from "../utils/writeErrors.js";
 
 const router = express.Router();
 
@@ -25,6 +26,7 @@ router.post("/", async (req, res) => {
     await upsertContent("crew-run-recaps", item);
     return res.status(200).json({ ok: true });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Save crew run recap error:", error);
     return res.status(500).json({ error: message });
@@ -42,6 +44,7 @@ router.post("/archive", async (req, res) => {
     await archiveContent("crew-run-recaps", id);
     return res.status(200).json({ ok: true });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Archive crew run recap error:", error);
     return res.status(500).json({ error: message });
@@ -37,6 +37,7 @@ import type {
   RouteIntelCaptionDraft,
   RouteIntelCaptionData,
 } from "../types/drafts.js";
+import { sendWriteError } from "../utils/writeErrors.js";
 
 const router = express.Router();
 
@@ -169,6 +170,7 @@ router.post("/training-content/:id/approve", async (req, res) => {
       publishedId: canonicalData.id,
     });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Approve training content draft error:", error);
     return res.status(500).json({ error: message });
@@ -316,6 +318,7 @@ router.post("/route-intel/:id/approve", async (req, res) => {
     await updateRouteIntelDraftStatus(req.params.id, "approved");
     return res.json({ ok: true, published: false, message: "Marked as approved, awaiting full configuration" });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Approve route intel draft error:", error);
     return res.status(500).json({ error: message });
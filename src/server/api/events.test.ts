@@ -0,0 +1,73 @@
+import assert from "assert/strict";
+import express from "express";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import type { Event } from "../types";
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "suc-events-"));
+process.env.SUC_SHARED_DATA_ROOT = root;
+const { default: router } = await import("./events");
+const { loadEventsMaster, loadEventsSelection, saveEventsMaster, saveEventsSelection } =
+  await import("../utils/sharedData");
+
+const event = (eventId: string): Event => ({
+  eventId,
+  eventName: `Run ${eventId}`,
+  eventDescription: "",
+  eventDate: "2026-10-22",
+  eventTime: "6:00 PM",
+  type: "crew-run",
+  startLocationName: "Tower Bridge",
+  startLocationUrl: "",
+  startLocationCoordinates: { lat: 38.5804, lng: -121.5083 },
+  routeGroupIds: [],
+});
+const storedIds = () => loadEventsMaster().events.map((item) => item.eventId);
+
+// The reference scan is the first async read a delete makes; `interleave`
+// runs there, as a save from another user would.
+const readFile = fs.promises.readFile;
+let interleave: (() => void) | null = null;
+fs.promises.readFile = ((...args: Parameters<typeof readFile>) => {
+  const run = interleave;
+  interleave = null;
+  run?.();
+  return readFile(...args);
+}) as typeof readFile;
+
+const app = express();
+app.use(express.json());
+app.use("/api/events", router);
+const server = app.listen(0);
+await new Promise((resolve) => server.once("listening", resolve));
+const base = `http://localhost:${(server.address() as AddressInfo).port}/api/events`;
+
+try {
+  saveEventsMaster({ version: 1, events: [event("a"), event("b")] });
+  saveEventsSelection({ version: 1, selectedEventIds: ["a", "b"] });
+
+  // A save that lands while the delete checks references is not undone.
+  interleave = () => {
+    const master = loadEventsMaster();
+    saveEventsMaster({ ...master, events: [...master.events, event("c")] });
+  };
+  const stale = await fetch(`${base}/a`, { method: "DELETE" });
+  assert.equal(stale.status, 409);
+  assert.match((await stale.json()).error, /events\.master\.json was changed by someone else/);
+  assert.deepEqual(storedIds(), ["a", "b", "c"]);
+  assert.deepEqual(loadEventsSelection().selectedEventIds, ["a", "b"]);
+
+  // Retried against the new file, it goes through.
+  const retried = await fetch(`${base}/a`, { method: "DELETE" });
+  assert.equal(retried.status, 200);
+  assert.deepEqual(storedIds(), ["b", "c"]);
+  assert.deepEqual(loadEventsSelection().selectedEventIds, ["b"]);
+} finally {
+  fs.promises.readFile = readFile;
+  server.close();
+  fs.rmSync(root, { recursive: true, force: true });
+}
+
+console.log("events API tests passed");
@@ -1,21 +1,141 @@
 import express from "express";
 import {
+  eventsMasterRevision,
   loadEventsMaster,
   saveEventsMaster,
   loadEventsSelection,
   saveEventsSelection,
+  eventsSelectionRevision,
+  getRouteGroup,
+  loadRouteVariantGpx,
 } from "../utils/sharedData.js";
-import type { EventsMaster, EventsSelection } from "../types.js";
+import {
+  applyEventSeries,
+  occurrenceDateFromEventId,
+  occurrenceOverride,
+  recordOccurrenceEdits,
+} from "../utils/eventSeries.js";
+import {
+  eventEtag,
+  findEventSetChanges,
+  findStaleEvents,
+  stampEventUpdates,
+  validateEvent,
+} from "../utils/eventValidation.js";
+import { parseGPXText } from "../utils/gpxParser.js";
+import {
+  describeReferences,
+  findReferencesTo,
+  isForcedDelete,
+  loadIntegritySnapshot,
+} from "../utils/referenceIntegrity.js";
+import {
+  buildEventEntries,
+  buildSeasonWeekEntries,
+  renderCalendar,
+  type CalendarRouteGroup,
+} from "../utils/calendarFeed.js";
+import {
+  buildEventBriefing,
+  renderBriefingHtml,
+  renderBriefingMarkdown,
+} from "../utils/eventBriefing.js";
+import { loadPublishedSeason } from "../season-builder/persistence.js";
+import type { Event, EventsMaster, EventsSelection } from "../types.js";
+import { sendWriteError } from "../utils/writeErrors.js";
+import { parseIfMatch, toEtag } from "../utils/storage.js";
 
 const router = express.Router();
 
+// Event times are wall-clock times in the club's timezone.
+const CALENDAR_TIMEZONE = "America/Los_Angeles";
+
+function loadCalendarRouteGroups(groupIds: string[]): Map<string, CalendarRouteGroup> {
+  const groups = new Map<string, CalendarRouteGroup>();
+  for (const groupId of new Set(groupIds)) {
+    const meta = getRouteGroup(groupId);
+    const variants: CalendarRouteGroup["variants"] = [];
+    for (const label of meta?.variants ?? []) {
+      try {
+        const gpx = loadRouteVariantGpx(groupId, label);
+        const parsed = parseGPXText(gpx, `${groupId}-${label}.gpx`);
+        variants.push({
+          label,
+          distanceMi: parsed.distanceMi,
+          elevationFt: parsed.elevationFt,
+        });
+      } catch (error) {
+        console.warn(`Calendar: skipping ${groupId} ${label}:`, error);
+      }
+    }
+    variants.sort((a, b) => a.distanceMi - b.distanceMi);
+    groups.set(groupId, { routeGroupId: groupId, name: meta?.name ?? "", variants });
+  }
+  return groups;
+}
+
+const loadMasterSafe = (): EventsMaster => {
+  try {
+    return loadEventsMaster();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.includes("File not found")) {
+      return { version: 1, events: [] };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Optimistic concurrency for single-event writes: the client must send the
+ * ETag it read (If-Match) or the event's updatedAt. Returns [status, message]
+ * when the write has to be refused.
+ */
+function checkPrecondition(
+  req: express.Request,
+  current: Event
+): [number, string] | null {
+  const ifMatch = req.get("If-Match");
+  const updatedAt = req.body?.updatedAt ?? req.query.updatedAt;
+  if (ifMatch) {
+    const tags = ifMatch.split(",").map((tag) => tag.trim().replace(/^W\//, ""));
+    if (tags.includes("*") || tags.includes(eventEtag(current))) return null;
+    return [409, `Event ${current.eventId} was changed by someone else; reload it first.`];
+  }
+  if (typeof updatedAt === "string" && updatedAt) {
+    if (updatedAt === (current.updatedAt ?? "")) return null;
+    return [409, `Event ${current.eventId} was changed by someone else; reload it first.`];
+  }
+  if (!current.updatedAt) return null;
+  return [428, "Send If-Match (the event's ETag) or updatedAt to change an existing event."];
+}
+
+function sendCalendar(res: express.Response, fileName: string, body: string) {
+  res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+  res.setHeader("Content-Disposition", `inline; filename="${fileName}"`);
+  return res.send(body);
+}
+
+/**
+ * The series whose generated occurrence ids `eventId` would clash with
+ * (`<seriesId>-<YYYY-MM-DD>`, scheduled, skipped or not yet in range).
+ */
+function findOccurrenceClash(master: EventsMaster, eventId: string): string | null {
+  const series = (master.series ?? []).find(
+    (item) => occurrenceDateFromEventId(item.seriesId, eventId) !== null
+  );
+  return series?.seriesId ?? null;
+}
+
 /**
  * GET /api/events
- * Read events.master.json
+ * Read events.master.json; the ETag header is what POST expects in If-Match.
  */
 router.get("/", (_req, res) => {
   try {
     const eventsMaster = loadEventsMaster();
+    const revision = eventsMasterRevision();
+    if (revision) res.setHeader("ETag", toEtag(revision));
     return res.json(eventsMaster);
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -26,7 +146,12 @@ router.get("/", (_req, res) => {
 
 /**
  * POST /api/events
- * Update events.master.json
+ * Update events.master.json. Series occurrences are regenerated from `series`;
+ * fields edited directly on an occurrence are kept as that date's override.
+ * With If-Match the whole file must be unchanged since it was read (409).
+ * Without it, the standalone events must be the ones stored now (events are
+ * added and removed through PUT/DELETE /:eventId) and each must carry the
+ * updatedAt it was loaded with (409 otherwise).
  */
 router.post("/", (req, res) => {
   try {
@@ -36,17 +161,131 @@ router.post("/", (req, res) => {
     if (!body.version || !Array.isArray(body.events)) {
       return res.status(400).json({ error: "Invalid events data" });
     }
+    if (body.events.some((event) => !event || typeof event.eventId !== "string" || !event.eventId)) {
+      return res.status(400).json({ error: "Every event needs an eventId" });
+    }
 
-    saveEventsMaster(body);
+    const stored = loadMasterSafe();
+    const expectedRevision = parseIfMatch(req.get("If-Match"));
+    if (!expectedRevision && eventsMasterRevision() !== null) {
+      const { added, removed } = findEventSetChanges(stored.events, body.events);
+      if (added.length > 0 || removed.length > 0) {
+        return res.status(409).json({
+          error:
+            "Events were added or removed since you loaded them. Reload before saving, " +
+            "or send If-Match with the ETag from GET /api/events.",
+          addedEventIds: added,
+          removedEventIds: removed,
+        });
+      }
+    }
+    const stale = findStaleEvents(stored.events, body.events);
+    if (stale.length > 0) {
+      return res.status(409).json({
+        error: `Events changed since you loaded them: ${stale.join(", ")}. Reload before saving.`,
+        staleEventIds: stale,
+      });
+    }
 
-    return res.json({ success: true });
+    let eventsMaster: EventsMaster;
+    try {
+      eventsMaster = applyEventSeries(recordOccurrenceEdits(stored.events, body));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Invalid event series";
+      return res.status(400).json({ error: message });
+    }
+    eventsMaster.events = stampEventUpdates(
+      stored.events,
+      eventsMaster.events,
+      new Date().toISOString()
+    );
+
+    const revision = saveEventsMaster(eventsMaster, { expectedRevision });
+    res.setHeader("ETag", toEtag(revision));
+
+    return res.json({ success: true, eventsMaster });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Save events error:", error);
     return res.status(500).json({ error: message });
   }
 });
 
+/**
+ * POST /api/events/expand
+ * Expand series into occurrences without saving (EventBuilder preview).
+ */
+router.post("/expand", (req, res) => {
+  try {
+    const body = req.body as EventsMaster;
+    if (!Array.isArray(body?.events)) {
+      return res.status(400).json({ error: "Invalid events data" });
+    }
+    return res.json(applyEventSeries({ ...body, version: body.version || 1 }));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Expand event series error:", error);
+    return res.status(400).json({ error: message });
+  }
+});
+
+/**
+ * GET /api/events/calendar.ics
+ * iCalendar feed of the selected events (scope=all for every event), optionally
+ * filtered by type (comma-separated).
+ */
+router.get("/calendar.ics", (req, res) => {
+  try {
+    const { events } = loadEventsMaster();
+    const scope = String(req.query.scope ?? "selection");
+    const types = String(req.query.type ?? "")
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean);
+
+    let feedEvents = events;
+    if (scope !== "all") {
+      const selected = new Set(loadEventsSelection().selectedEventIds);
+      feedEvents = feedEvents.filter((event) => selected.has(event.eventId));
+    }
+    if (types.length > 0) {
+      feedEvents = feedEvents.filter((event) => types.includes(event.type ?? "training-run"));
+    }
+
+    const routeGroups = loadCalendarRouteGroups(feedEvents.flatMap((event) => event.routeGroupIds));
+    const body = renderCalendar("SUC Events", buildEventEntries(feedEvents, routeGroups), {
+      timezone: CALENDAR_TIMEZONE,
+    });
+    return sendCalendar(res, "suc-events.ics", body);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Events calendar error:", error);
+    return res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * GET /api/events/season.ics
+ * iCalendar feed of the published season's weeks with their focus labels.
+ */
+router.get("/season.ics", async (_req, res) => {
+  try {
+    const season = await loadPublishedSeason();
+    if (!season) {
+      return res.status(404).json({ error: "No published season" });
+    }
+    const body = renderCalendar("SUC Season", buildSeasonWeekEntries(season), {
+      timezone: CALENDAR_TIMEZONE,
+    });
+    return sendCalendar(res, "suc-season.ics", body);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Season calendar error:", error);
+    return res.status(500).json({ error: message });
+  }
+});
+
 /**
  * GET /api/events/selection
  * Read events.selection.json
@@ -54,6 +293,8 @@ router.post("/", (req, res) => {
 router.get("/selection", (_req, res) => {
   try {
     const eventsSelection = loadEventsSelection();
+    const revision = eventsSelectionRevision();
+    if (revision) res.setHeader("ETag", toEtag(revision));
     return res.json(eventsSelection);
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -64,7 +305,7 @@ router.get("/selection", (_req, res) => {
 
 /**
  * POST /api/events/selection
- * Update events.selection.json
+ * Update events.selection.json (409 when If-Match no longer matches the file)
  */
 router.post("/selection", (req, res) => {
   try {
@@ -75,14 +316,212 @@ router.post("/selection", (req, res) => {
       return res.status(400).json({ error: "Invalid selection data" });
     }
 
-    saveEventsSelection(body);
+    const revision = saveEventsSelection(body, {
+      expectedRevision: parseIfMatch(req.get("If-Match")),
+    });
+    res.setHeader("ETag", toEtag(revision));
 
     return res.json({ success: true });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Save events selection error:", error);
     return res.status(500).json({ error: message });
   }
 });
 
+/**
+ * GET /api/events/:eventId
+ * Read one event; the ETag header is what PUT/DELETE expect in If-Match.
+ */
+router.get("/:eventId", (req, res) => {
+  try {
+    const event = loadMasterSafe().events.find((item) => item.eventId === req.params.eventId);
+    if (!event) {
+      return res.status(404).json({ error: `Event not found: ${req.params.eventId}` });
+    }
+    res.setHeader("ETag", eventEtag(event));
+    return res.json(event);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Load event error:", error);
+    return res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * GET /api/events/:eventId/briefing?format=json|md|html
+ * Briefing pack for volunteers: event info, variant distance/gain, aid-station
+ * cue sheet with tier ETAs and cutoffs, route intel sections and coach notes.
+ */
+router.get("/:eventId/briefing", async (req, res) => {
+  try {
+    const format = String(req.query.format ?? "json");
+    if (!["json", "md", "html"].includes(format)) {
+      return res.status(400).json({ error: "format must be json, md or html" });
+    }
+    const briefing = await buildEventBriefing(req.params.eventId);
+    if (format === "json") {
+      return res.json(briefing);
+    }
+    const fileName = `${briefing.event.eventId}-briefing.${format}`;
+    res.setHeader(
+      "Content-Type",
+      format === "md" ? "text/markdown; charset=utf-8" : "text/html; charset=utf-8"
+    );
+    res.setHeader("Content-Disposition", `inline; filename="${fileName}"`);
+    return res.send(
+      format === "md" ? renderBriefingMarkdown(briefing) : renderBriefingHtml(briefing)
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Event briefing error:", error);
+    const status = message.startsWith("Event not found") ? 404 : 500;
+    return res.status(status).json({ error: message });
+  }
+});
+
+/**
+ * PUT /api/events/:eventId
+ * Create or replace one event. Existing events need If-Match or updatedAt
+ * (409 when stale). Edits to a series occurrence are stored as its override.
+ */
+router.put("/:eventId", (req, res) => {
+  try {
+    const { eventId } = req.params;
+    if (req.body?.eventId !== undefined && req.body.eventId !== eventId) {
+      return res.status(400).json({ error: "eventId in body does not match the URL" });
+    }
+
+    const master = loadMasterSafe();
+    const existing = master.events.find((event) => event.eventId === eventId);
+    if (existing) {
+      const refused = checkPrecondition(req, existing);
+      if (refused) {
+        return res.status(refused[0]).json({ error: refused[1], event: existing });
+      }
+    } else {
+      const seriesId = findOccurrenceClash(master, eventId);
+      if (seriesId) {
+        return res.status(409).json({
+          error: `${eventId} is reserved for an occurrence of series ${seriesId}; pick another eventId.`,
+        });
+      }
+    }
+
+    const { event, errors } = validateEvent(
+      { ...req.body, eventId },
+      (routeGroupId) => getRouteGroup(routeGroupId) !== null
+    );
+    if (!event) {
+      return res.status(400).json({ error: errors.join("; "), errors });
+    }
+
+    let next: EventsMaster;
+    const series = master.series?.find((item) => item.seriesId === existing?.seriesId);
+    const date = series ? occurrenceDateFromEventId(series.seriesId, eventId) : null;
+    if (series && date) {
+      const override = occurrenceOverride(series, event);
+      const overrides = { ...series.overrides };
+      if (Object.keys(override).length > 0) {
+        overrides[date] = override;
+      } else {
+        delete overrides[date];
+      }
+      next = applyEventSeries({
+        ...master,
+        series: (master.series ?? []).map((item) =>
+          item === series ? { ...item, overrides } : item
+        ),
+      });
+    } else {
+      next = {
+        ...master,
+        events: existing
+          ? master.events.map((item) => (item.eventId === eventId ? event : item))
+          : [...master.events, event],
+      };
+    }
+    next.events = stampEventUpdates(master.events, next.events, new Date().toISOString());
+    saveEventsMaster(next);
+
+    const saved = next.events.find((item) => item.eventId === eventId) as Event;
+    res.setHeader("ETag", eventEtag(saved));
+    return res.status(existing ? 200 : 201).json(saved);
+  } catch (error) {
+    if (sendWriteError(res, error)) return;
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Save event error:", error);
+    return res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * DELETE /api/events/:eventId
+ * Delete one event (If-Match or ?updatedAt= required). Deleting a series
+ * occurrence skips that date in the series. 409 while intel, media or the
+ * season still reference it, unless ?force=true, and when events.master.json
+ * was saved by someone else while the references were checked.
+ */
+router.delete("/:eventId", async (req, res) => {
+  try {
+    const { eventId } = req.params;
+    // The reference scan below awaits; a save that lands meanwhile makes this write stale.
+    const revision = eventsMasterRevision();
+    const master = loadMasterSafe();
+    const existing = master.events.find((event) => event.eventId === eventId);
+    if (!existing) {
+      return res.status(404).json({ error: `Event not found: ${eventId}` });
+    }
+    const refused = checkPrecondition(req, existing);
+    if (refused) {
+      return res.status(refused[0]).json({ error: refused[1], event: existing });
+    }
+    // The selection is cleaned up below, so it never blocks the delete.
+    const references = findReferencesTo(await loadIntegritySnapshot(), "event", eventId).filter(
+      (ref) => ref.file !== "events/events.selection.json"
+    );
+    if (references.length > 0 && !isForcedDelete(req.query)) {
+      return res.status(409).json({
+        error: `${eventId} is still used by ${describeReferences(references)}.`,
+        references,
+      });
+    }
+
+    const series = master.series?.find((item) => item.seriesId === existing.seriesId);
+    const date = series ? occurrenceDateFromEventId(series.seriesId, eventId) : null;
+    const next: EventsMaster =
+      series && date
+        ? applyEventSeries({
+            ...master,
+            series: (master.series ?? []).map((item) =>
+              item === series
+                ? { ...item, rule: { ...item.rule, skipDates: [...item.rule.skipDates, date] } }
+                : item
+            ),
+          })
+        : { ...master, events: master.events.filter((event) => event.eventId !== eventId) };
+    saveEventsMaster(next, { expectedRevision: revision ?? undefined });
+
+    try {
+      const selection = loadEventsSelection();
+      if (selection.selectedEventIds.includes(eventId)) {
+        saveEventsSelection({
+          ...selection,
+          selectedEventIds: selection.selectedEventIds.filter((id) => id !== eventId),
+        });
+      }
+    } catch (error) {
+      console.warn("Failed to update events selection:", error);
+    }
+
+    return res.json({ success: true, orphanedReferences: references });
+  } catch (error) {
+    if (sendWriteError(res, error)) return;
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Delete event error:", error);
+    return res.status(500).json({ error: message });
+  }
+});
+
 export default router;
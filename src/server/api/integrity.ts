@@ -0,0 +1,51 @@
+import express from "express";
+import {
+  checkReferenceIntegrity,
+  findReferencesTo,
+  loadIntegritySnapshot,
+  type ReferenceTargetKind,
+} from "../utils/referenceIntegrity.js";
+
+const router = express.Router();
+
+const TARGET_KINDS: ReferenceTargetKind[] = ["route-group", "route-variant", "event", "workout"];
+
+/**
+ * GET /api/integrity
+ * Scan shared data and report every broken cross-entity reference.
+ */
+router.get("/", async (_req, res) => {
+  try {
+    const report = await checkReferenceIntegrity();
+    return res.json(report);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Integrity check error:", error);
+    return res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * GET /api/integrity/references?kind=route-group&id=SUC-034
+ * List what points at one entity (variants use id=<routeGroupId>/<label>).
+ */
+router.get("/references", async (req, res) => {
+  try {
+    const kind = String(req.query.kind ?? "") as ReferenceTargetKind;
+    const id = String(req.query.id ?? "").trim();
+    if (!TARGET_KINDS.includes(kind)) {
+      return res.status(400).json({ error: `kind must be one of ${TARGET_KINDS.join(", ")}` });
+    }
+    if (!id) {
+      return res.status(400).json({ error: "id is required" });
+    }
+    const references = findReferencesTo(await loadIntegritySnapshot(), kind, id);
+    return res.json({ kind, id, references });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Integrity references error:", error);
+    return res.status(500).json({ error: message });
+  }
+});
+
+export default router;
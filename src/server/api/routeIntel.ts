@@ -6,6 +6,7 @@ import {
   deleteRouteIntel,
 } from "../utils/routeIntelData.js";
 import type { RouteIntelDoc } from "../types.js";
+import { sendWriteError } from "../utils/writeErrors.js";
 
 const router = express.Router();
 
@@ -46,6 +47,7 @@ router.post("/", async (req, res) => {
     await writeRouteIntel(body);
     return res.json({ success: true });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Save route intel error:", error);
     return res.status(500).json({ error: message });
@@ -3,6 +3,13 @@ import path from "path";
 import express from "express";
 import { getRouteGroup, loadRoutePois } from "../utils/sharedData.js";
 import { ROUTES_ROOT } from "../utils/paths.js";
+import {
+  computeRouteElevationStats,
+  cumulativeDistanceMeters,
+  summarizeElevationBetween,
+  type LonLat,
+  type RouteElevationStats,
+} from "../../route-stats/index.js";
 import { deriveRouteSections } from "../../../../suc-broadcast/src/compile/deriveRouteSections.js";
 
 const METERS_PER_MILE = 1609.344;
@@ -18,12 +25,14 @@ type PreviewSection = {
   endDistanceMi: number;
   distanceMi: number;
   elevationGainFt: number;
+  elevationLossFt: number;
 };
 
 type RouteStats = {
   distanceMi: number;
   distanceSeries: number[];
   elevationSeries: number[];
+  elevationStats: RouteElevationStats;
 };
 
 function toNumber(value: unknown): number | null {
@@ -31,19 +40,6 @@ function toNumber(value: unknown): number | null {
   return Number.isFinite(parsed) ? parsed : null;
 }
 
-function haversineMeters(a: TrackPoint, b: TrackPoint) {
-  const R = 6371000;
-  const toRad = (deg: number) => (deg * Math.PI) / 180;
-  const dLat = toRad(b.lat - a.lat);
-  const dLon = toRad(b.lon - a.lon);
-  const lat1 = toRad(a.lat);
-  const lat2 = toRad(b.lat);
-  const sinDLat = Math.sin(dLat / 2);
-  const sinDLon = Math.sin(dLon / 2);
-  const h = sinDLat * sinDLat + Math.cos(lat1) * Math.cos(lat2) * sinDLon * sinDLon;
-  return 2 * R * Math.asin(Math.min(1, Math.sqrt(h)));
-}
-
 function parseGpxPoints(raw: string): TrackPoint[] {
   if (!raw) return [];
   const points: TrackPoint[] = [];
@@ -78,27 +74,15 @@ function parseGpxPoints(raw: string): TrackPoint[] {
 }
 
 function computeStats(points: TrackPoint[]): RouteStats {
-  if (points.length === 0) {
-    return { distanceMi: 0, distanceSeries: [], elevationSeries: [] };
-  }
-
-  const distanceSeries = [0];
-  const elevationSeries: number[] = [];
-  let distanceMeters = 0;
-
-  for (let i = 0; i < points.length; i += 1) {
-    const point = points[i];
-    elevationSeries.push(Number(point.ele ?? 0));
-    if (i === 0) continue;
-    const prev = points[i - 1];
-    distanceMeters += haversineMeters(prev, point);
-    distanceSeries.push(distanceMeters);
-  }
+  const coords: LonLat[] = points.map((point) => [point.lon, point.lat]);
+  const elevationSeries = points.map((point) => Number(point.ele ?? 0));
+  const elevationStats = computeRouteElevationStats(coords, elevationSeries);
 
   return {
-    distanceMi: distanceMeters / METERS_PER_MILE,
-    distanceSeries,
+    distanceMi: elevationStats.distanceMi,
+    distanceSeries: cumulativeDistanceMeters(coords),
     elevationSeries,
+    elevationStats,
   };
 }
 
@@ -216,13 +200,25 @@ function decorateSections(
     distanceMi: number;
     elevationGainFt: number;
   }>,
-  labelMap: Map<string, string>
+  labelMap: Map<string, string>,
+  stats: RouteStats
 ): PreviewSection[] {
-  return sections.map((section) => ({
-    ...section,
-    fromLabel: section.fromPoiId ? labelMap.get(section.fromPoiId) ?? section.fromPoiId : "Start",
-    toLabel: section.toPoiId ? labelMap.get(section.toPoiId) ?? section.toPoiId : "Finish",
-  }));
+  return sections.map((section) => {
+    // Re-derive climbing with the shared smoothing so section totals match RouteManager.
+    const elevation = summarizeElevationBetween(
+      stats.distanceSeries,
+      stats.elevationSeries,
+      section.startDistanceMi * METERS_PER_MILE,
+      section.endDistanceMi * METERS_PER_MILE
+    );
+    return {
+      ...section,
+      elevationGainFt: elevation.gainFt,
+      elevationLossFt: elevation.lossFt,
+      fromLabel: section.fromPoiId ? labelMap.get(section.fromPoiId) ?? section.fromPoiId : "Start",
+      toLabel: section.toPoiId ? labelMap.get(section.toPoiId) ?? section.toPoiId : "Finish",
+    };
+  });
 }
 
 const router = express.Router();
@@ -264,10 +260,11 @@ router.get("/preview/:routeId", (req, res) => {
         sectionMode,
         enabledPoiIds: enabledPoiIds?.filter(Boolean),
       }),
-      labelMap
+      labelMap,
+      stats
     );
 
-    return res.json({ sections });
+    return res.json({ sections, stats: stats.elevationStats });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Preview unavailable";
     return res.status(500).json({ error: message });
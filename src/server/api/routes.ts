@@ -1,6 +1,8 @@
 import express from "express";
 import multer from "multer";
 import { parseGPXText } from "../utils/gpxParser.js";
+import { parseTrackFile } from "../utils/trackParsers.js";
+import { buildTrackGpx } from "../utils/gpxWriter.js";
 import {
   listRouteGroups,
   getRouteGroup,
@@ -11,15 +13,41 @@ import {
   deleteRouteGroup,
   deleteRouteVariant,
   loadRouteVariantGpx,
+  archiveRouteVariantSource,
 } from "../utils/sharedData.js";
-import { snapPointToVariants } from "../utils/routeSnapping.js";
+import {
+  applyRouteSimplification,
+  DEFAULT_ROUTE_SIMPLIFICATION,
+  normalizeRouteSimplification,
+} from "../utils/routeSimplification.js";
+import { removePlacementPass, snapPointToVariants } from "../utils/routeSnapping.js";
+import { importRoutePois, parsePoiImportFile } from "../utils/poiImport.js";
+import { analyzeRouteGroupVariants } from "../utils/routeVariantDiff.js";
+import {
+  describeReferences,
+  findReferencesTo,
+  isForcedDelete,
+  loadIntegritySnapshot,
+  variantTargetId,
+} from "../utils/referenceIntegrity.js";
+import { exportRouteVariantGpx } from "../utils/routeExport.js";
+import { buildRouteSplitTable, SPLIT_TIERS, updateRouteSplitPlan } from "../utils/routeSplits.js";
+import { formatSplitTableCsv } from "../../route-stats/index.js";
+import {
+  diffRouteRevisions,
+  listRouteRevisions,
+  restoreRouteRevision,
+  RouteRevisionError,
+} from "../utils/routeHistory.js";
 import type {
   RouteLabel,
   RoutePoi,
   RoutePoiSnapRequest,
+  RouteSplitPlanUpdate,
   SaveRouteGroupRequest,
   RouteMeta,
 } from "../types.js";
+import { sendWriteError } from "../utils/writeErrors.js";
 
 const router = express.Router();
 
@@ -74,40 +102,59 @@ function sortPoisByAidStationOrder(pois: RoutePoi[]): RoutePoi[] {
   return indexed.map((entry) => entry.poi);
 }
 
-// Configure multer for GPX file uploads (memory storage for parsing)
+// Configure multer for track file uploads (memory storage for parsing)
 const upload = multer({ storage: multer.memoryStorage() });
 
 /**
  * POST /api/routes/import
- * Parse GPX file and return route data for preview (does NOT save to disk).
+ * Parse a GPX, TCX, FIT or GeoJSON track and return route data for preview.
+ * The track is simplified with the group's config (or a `simplification` JSON
+ * field); simplified or converted tracks come back as gpxContent.
+ * Canonical filenames (<groupId>-<LABEL>.<ext>) are persisted as GPX variants
+ * and the uploaded file is archived under source/.
  */
 router.post("/import", upload.single("gpx"), (req, res) => {
   try {
     if (!req.file) {
-      return res.status(400).json({ error: "No GPX file uploaded" });
+      return res.status(400).json({ error: "No track file uploaded" });
     }
 
-    const xmlStr = req.file.buffer.toString("utf8");
     const fileName = req.file.originalname;
-
     const baseName = fileName.replace(/\.[^/.]+$/, "");
     const match = baseName.match(/^(.*?)-(MED|LRG|XL|XXL)$/i);
+    const configGroupId = match?.[1] || String(req.body?.routeGroupId ?? "").trim();
+    const groupConfig = configGroupId ? getRouteGroup(configGroupId)?.simplification : undefined;
+    const simplification = normalizeRouteSimplification(
+      req.body?.simplification ? JSON.parse(String(req.body.simplification)) : undefined,
+      groupConfig ?? DEFAULT_ROUTE_SIMPLIFICATION
+    );
+
+    const original = parseTrackFile(req.file.buffer, fileName);
+    const parsed = applyRouteSimplification(original, simplification);
+    const gpxContent =
+      parsed.sourceFormat === "gpx" && !parsed.simplification
+        ? req.file.buffer.toString("utf8")
+        : buildTrackGpx(parsed, baseName);
+
     if (match && match[1]) {
       const groupId = match[1];
       const label = match[2].toUpperCase();
       try {
-        saveRouteVariant(groupId, label, xmlStr);
+        archiveRouteVariantSource(groupId, label, fileName, req.file.buffer);
+        saveRouteVariant(groupId, label, gpxContent);
       } catch (error) {
         console.warn("Failed to persist route variant:", error);
       }
     }
 
-    const parsed = parseGPXText(xmlStr, fileName);
-
-    return res.json(parsed);
+    if (parsed.sourceFormat === "gpx" && !parsed.simplification) {
+      return res.json(parsed);
+    }
+    return res.json({ ...parsed, gpxContent });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
-    console.error("GPX import error:", error);
+    console.error("Track import error:", error);
     return res.status(400).json({ error: message });
   }
 });
@@ -148,15 +195,124 @@ router.get("/:groupId", (req, res) => {
   }
 });
 
+/**
+ * GET /api/routes/:groupId/variants/diff
+ * Compare variant tracks: shared segments, fork points and exclusive mileage.
+ * Optional ?toleranceM= widens or narrows what counts as the same trail.
+ */
+router.get("/:groupId/variants/diff", (req, res) => {
+  try {
+    const { groupId } = req.params;
+    const routeGroup = getRouteGroup(groupId);
+
+    if (!routeGroup) {
+      return res.status(404).json({ error: "Route group not found" });
+    }
+
+    const order: RouteLabel[] = ["MED", "LRG", "XL", "XXL"];
+    const stored = new Set(
+      (routeGroup.variants ?? []).map((label) => String(label).toUpperCase())
+    );
+    const labels = order.filter((label) => stored.has(label));
+    if (labels.length < 2) {
+      return res.status(400).json({ error: "At least two variants are required to compare." });
+    }
+
+    const rawTolerance = req.query.toleranceM;
+    const toleranceM = rawTolerance === undefined ? undefined : Number(rawTolerance);
+    if (toleranceM !== undefined && (!Number.isFinite(toleranceM) || toleranceM <= 0)) {
+      return res.status(400).json({ error: "toleranceM must be a positive number." });
+    }
+
+    const diff = analyzeRouteGroupVariants(groupId, labels, { toleranceM });
+    return res.json(diff);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Route variant diff error:", error);
+    return res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * GET /api/routes/:groupId/history
+ * List stored revisions for a route group (newest first).
+ */
+router.get("/:groupId/history", (req, res) => {
+  try {
+    const { groupId } = req.params;
+    if (!getRouteGroup(groupId)) {
+      return res.status(404).json({ error: "Route group not found" });
+    }
+    return res.json({ revisions: listRouteRevisions(groupId) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("List route history error:", error);
+    return res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * GET /api/routes/:groupId/history/:revisionId/diff
+ * Diff meta, variants and POIs for a revision. ?against=<revisionId>|current
+ * (defaults to the previous revision).
+ */
+router.get("/:groupId/history/:revisionId/diff", (req, res) => {
+  try {
+    const { groupId, revisionId } = req.params;
+    const against = typeof req.query.against === "string" ? req.query.against : undefined;
+    return res.json(diffRouteRevisions(groupId, revisionId, against));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    if (error instanceof RouteRevisionError) {
+      return res.status(error.status).json({ error: message });
+    }
+    console.error("Diff route history error:", error);
+    return res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * POST /api/routes/:groupId/history/:revisionId/restore
+ * Restore a revision over the live route group files.
+ */
+router.post("/:groupId/history/:revisionId/restore", (req, res) => {
+  try {
+    const { groupId, revisionId } = req.params;
+    if (!getRouteGroup(groupId)) {
+      return res.status(404).json({ error: "Route group not found" });
+    }
+    const revision = restoreRouteRevision(groupId, revisionId);
+    return res.json({ success: true, revision, routeGroup: getRouteGroup(groupId) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    if (error instanceof RouteRevisionError) {
+      return res.status(error.status).json({ error: message });
+    }
+    console.error("Restore route revision error:", error);
+    return res.status(500).json({ error: message });
+  }
+});
+
 /**
  * DELETE /api/routes/:groupId
- * Delete an entire route group.
+ * Delete an entire route group. 409 with the references it would orphan
+ * unless ?force=true.
  */
-router.delete("/:groupId", (req, res) => {
+router.delete("/:groupId", async (req, res) => {
   try {
     const { groupId } = req.params;
+    if (!getRouteGroup(groupId)) {
+      return res.status(404).json({ error: `Route group not found: ${groupId}` });
+    }
+    const references = findReferencesTo(await loadIntegritySnapshot(), "route-group", groupId);
+    if (references.length > 0 && !isForcedDelete(req.query)) {
+      return res.status(409).json({
+        error: `${groupId} is still used by ${describeReferences(references)}.`,
+        references,
+      });
+    }
     deleteRouteGroup(groupId);
-    return res.json({ success: true });
+    return res.json({ success: true, orphanedReferences: references });
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Delete route group error:", error);
@@ -165,20 +321,39 @@ router.delete("/:groupId", (req, res) => {
 });
 
 /**
- * DELETE /api/routes/:groupId/variants/:label
- * Delete a single GPX variant and update metadata.
+ * Shared by both variant delete routes. Refuses (409) when events, intel or
+ * media still point at the variant unless ?force=true.
  */
-router.delete("/:groupId/variants/:label", (req, res) => {
+const handleDeleteRouteVariant: express.RequestHandler = async (req, res) => {
   try {
     const { groupId, label } = req.params;
+    const references = findReferencesTo(
+      await loadIntegritySnapshot(),
+      "route-variant",
+      variantTargetId(groupId, label.toUpperCase())
+    );
+    if (references.length > 0 && !isForcedDelete(req.query)) {
+      res.status(409).json({
+        error: `${groupId} ${label.toUpperCase()} is still used by ${describeReferences(references)}.`,
+        references,
+      });
+      return;
+    }
     const meta = deleteRouteVariant(groupId, label);
-    return res.json({ success: true, routeGroup: meta });
+    res.json({ success: true, routeGroup: meta, orphanedReferences: references });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Delete route variant error:", error);
-    return res.status(404).json({ error: message });
+    res.status(404).json({ error: message });
   }
-});
+};
+
+/**
+ * DELETE /api/routes/:groupId/variants/:label
+ * Delete a single GPX variant and update metadata.
+ */
+router.delete("/:groupId/variants/:label", handleDeleteRouteVariant);
 
 /**
  * GET /api/routes/:groupId/gpx/:label
@@ -198,21 +373,29 @@ router.get("/:groupId/gpx/:label", (req, res) => {
 });
 
 /**
- * DELETE /api/routes/:groupId/gpx/:label
- * Delete a single GPX variant and update metadata.
+ * GET /api/routes/:groupId/export/:label
+ * Download a variant as GPX 1.1 with its POIs as waypoints.
  */
-router.delete("/:groupId/gpx/:label", (req, res) => {
+router.get("/:groupId/export/:label", (req, res) => {
   try {
     const { groupId, label } = req.params;
-    const meta = deleteRouteVariant(groupId, label);
-    return res.json({ success: true, routeGroup: meta });
+    const gpx = exportRouteVariantGpx(groupId, label);
+    res.attachment(`${groupId}-${String(label).toUpperCase()}.gpx`);
+    res.type("application/gpx+xml");
+    return res.send(gpx);
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
-    console.error("Delete route variant error:", error);
+    console.error("Export route variant GPX error:", error);
     return res.status(404).json({ error: message });
   }
 });
 
+/**
+ * DELETE /api/routes/:groupId/gpx/:label
+ * Delete a single GPX variant and update metadata.
+ */
+router.delete("/:groupId/gpx/:label", handleDeleteRouteVariant);
+
 /**
  * GET /api/routes/:groupId/pois
  * Load POIs for a route group.
@@ -229,6 +412,49 @@ router.get("/:groupId/pois", (req, res) => {
   }
 });
 
+/**
+ * GET /api/routes/:groupId/splits/:label
+ * Aid-station split table (Start -> aid stations -> Finish) with per-tier ETAs.
+ * ?format=csv downloads the table as CSV.
+ */
+router.get("/:groupId/splits/:label", (req, res) => {
+  try {
+    const { groupId, label } = req.params;
+    const table = buildRouteSplitTable(groupId, label);
+    if (req.query.format === "csv") {
+      res.attachment(`${groupId}-${table.label}-splits.csv`);
+      res.type("text/csv");
+      return res.send(formatSplitTableCsv(table.rows, SPLIT_TIERS));
+    }
+    return res.json(table);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Get route splits error:", error);
+    return res.status(404).json({ error: message });
+  }
+});
+
+/**
+ * PUT /api/routes/:groupId/splits
+ * Update tier paces and aid-station cutoffs (stored in route.pois.json).
+ */
+router.put("/:groupId/splits", (req, res) => {
+  try {
+    const { groupId } = req.params;
+    const body = req.body as RouteSplitPlanUpdate;
+    if (!body || typeof body !== "object") {
+      return res.status(400).json({ error: "Invalid split plan payload." });
+    }
+    const doc = updateRouteSplitPlan(groupId, body);
+    return res.json({ success: true, splitPlan: doc.splitPlan, pois: doc.pois });
+  } catch (error) {
+    if (sendWriteError(res, error)) return;
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Update route splits error:", error);
+    return res.status(400).json({ error: message });
+  }
+});
+
 /**
  * POST /api/routes/:groupId/pois/snap
  * Snap a POI click to one or more route variants and persist.
@@ -269,7 +495,16 @@ router.post("/:groupId/pois/snap", (req, res) => {
       });
     }
 
-    const snappedByVariant = snapPointToVariants(groupId, normalizedVariants, click);
+    if (
+      body.toleranceM !== undefined &&
+      (typeof body.toleranceM !== "number" || body.toleranceM <= 0 || body.toleranceM > 200)
+    ) {
+      return res.status(400).json({ error: "toleranceM must be a number between 0 and 200." });
+    }
+
+    const snappedByVariant = snapPointToVariants(groupId, normalizedVariants, click, {
+      toleranceM: body.toleranceM,
+    });
     const doc = loadRoutePois(groupId);
     const existingIndex = doc.pois.findIndex((item) => item.id === poi.id);
 
@@ -308,12 +543,65 @@ router.post("/:groupId/pois/snap", (req, res) => {
       pois: doc.pois,
     });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Snap POI error:", error);
     return res.status(400).json({ error: message });
   }
 });
 
+/**
+ * POST /api/routes/:groupId/pois/import
+ * Bulk import POIs from a GPX (<wpt>) or CSV (lat, lon, type, title, notes) upload.
+ * Returns a snap preview; commit=true writes route.pois.json (excludeRows skips rows).
+ */
+router.post("/:groupId/pois/import", upload.single("file"), (req, res) => {
+  try {
+    const { groupId } = req.params;
+    if (!req.file) {
+      return res.status(400).json({ error: "No POI file uploaded" });
+    }
+
+    const variants = String(req.body?.variants ?? "")
+      .split(",")
+      .map((label) => label.trim().toUpperCase())
+      .filter(Boolean) as RouteLabel[];
+    const allowed = new Set<RouteLabel>(["MED", "LRG", "XL", "XXL"]);
+    if (variants.length === 0) {
+      return res.status(400).json({ error: "At least one variant is required." });
+    }
+    const invalid = variants.filter((label) => !allowed.has(label));
+    if (invalid.length > 0) {
+      return res.status(400).json({ error: `Invalid variants: ${invalid.join(", ")}` });
+    }
+
+    const toleranceRaw = req.body?.toleranceM;
+    const toleranceM =
+      toleranceRaw === undefined || toleranceRaw === "" ? undefined : Number(toleranceRaw);
+    if (toleranceM !== undefined && (!Number.isFinite(toleranceM) || toleranceM <= 0 || toleranceM > 200)) {
+      return res.status(400).json({ error: "toleranceM must be a number between 0 and 200." });
+    }
+
+    const excludeRows = String(req.body?.excludeRows ?? "")
+      .split(",")
+      .map((value) => Number(value.trim()))
+      .filter((value) => Number.isInteger(value) && value > 0);
+
+    const parsed = parsePoiImportFile(req.file.buffer, req.file.originalname);
+    const preview = importRoutePois(groupId, parsed, variants, {
+      toleranceM,
+      commit: req.body?.commit === "true",
+      excludeRows,
+    });
+    return res.json(preview);
+  } catch (error) {
+    if (sendWriteError(res, error)) return;
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Import POIs error:", error);
+    return res.status(400).json({ error: message });
+  }
+});
+
 /**
  * POST /api/routes/:groupId/pois/aid-station
  * Save or update an aid-station POI with routePointIndex + metadata (no derived data).
@@ -382,6 +670,7 @@ router.post("/:groupId/pois/aid-station", (req, res) => {
       pois: doc.pois,
     });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Aid station POI error:", error);
     return res.status(400).json({ error: message });
@@ -449,6 +738,7 @@ router.post("/:groupId/pois/workout", (req, res) => {
       pois: doc.pois,
     });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Workout POI error:", error);
     return res.status(400).json({ error: message });
@@ -548,6 +838,7 @@ router.post("/:groupId/pois/start-finish", (req, res) => {
       pois: doc.pois,
     });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Start/Finish POI error:", error);
     return res.status(400).json({ error: message });
@@ -581,12 +872,56 @@ router.delete("/:groupId/pois/:poiId", (req, res) => {
       pois: nextDoc.pois,
     });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Delete POI error:", error);
     return res.status(500).json({ error: message });
   }
 });
 
+/**
+ * DELETE /api/routes/:groupId/pois/:poiId/variants/:label/passes/:passIndex
+ * Prune one pass of a multi-pass POI placement (e.g. a spurious out-and-back hit).
+ */
+router.delete("/:groupId/pois/:poiId/variants/:label/passes/:passIndex", (req, res) => {
+  try {
+    const { groupId, poiId } = req.params;
+    const label = String(req.params.label).toUpperCase() as RouteLabel;
+    const passIndex = Number(req.params.passIndex);
+    if (!Number.isInteger(passIndex) || passIndex < 0) {
+      return res.status(400).json({ error: "passIndex must be a non-negative integer." });
+    }
+
+    const doc = loadRoutePois(groupId);
+    const poi = doc.pois.find((item) => item.id === poiId);
+    const value = poi?.variants?.[label];
+    if (!poi || !value) {
+      return res.status(404).json({ error: `No ${label} placement for POI ${poiId}.` });
+    }
+    if (poi.system || poi.locked) {
+      return res.status(400).json({ error: "System POIs are locked." });
+    }
+
+    const nextValue = removePlacementPass(value, passIndex);
+    if (!nextValue) {
+      return res.status(400).json({
+        error: "Cannot remove the only pass; delete the POI or its variant instead.",
+      });
+    }
+    poi.variants = { ...poi.variants, [label]: nextValue };
+
+    console.log("[SAVE_ROUTE_POIS] POI count:", doc.pois.length);
+    saveRoutePois(groupId, doc);
+
+    return res.json({ success: true, poi, pois: doc.pois });
+  } catch (error) {
+    if (sendWriteError(res, error)) return;
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Prune POI pass error:", error);
+    return res.status(500).json({ error: message });
+  }
+});
+
 /**
  * POST /api/routes/:groupId
  * Save a route group to suc-shared-data/routes/:groupId/
@@ -603,6 +938,15 @@ router.post("/:groupId", (req, res) => {
 
     const existing = getRouteGroup(groupId);
     const variants = existing?.variants ?? [];
+    let simplification = existing?.simplification;
+    if (body.simplification !== undefined) {
+      try {
+        simplification = normalizeRouteSimplification(body.simplification);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Invalid simplification";
+        return res.status(400).json({ error: message });
+      }
+    }
 
     // Build metadata (no GPX writes)
     const meta: RouteMeta = {
@@ -612,6 +956,7 @@ router.post("/:groupId", (req, res) => {
       source: existing?.source ?? body.source ?? "SUC",
       notes: body.notes ?? existing?.notes ?? "",
       variants,
+      ...(simplification ? { simplification } : {}),
     };
 
     // Save to suc-shared-data (metadata only)
@@ -622,6 +967,7 @@ router.post("/:groupId", (req, res) => {
       routeGroupId: groupId,
     });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Save route group error:", error);
     return res.status(500).json({ error: message });
@@ -23,6 +23,8 @@ import {
   updateWeek,
 } from "../season-builder/mutations/seasonMutations.js";
 import type { Season } from "../season-builder/types.js";
+import { sendWriteError } from "../utils/writeErrors.js";
+import { revisionOf } from "../utils/storage.js";
 
 const router = express.Router();
 
@@ -69,6 +71,7 @@ router.post("/draft/create", async (_req, res) => {
     const season = await createNewDraftSeason();
     return res.status(201).json(season);
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Create season draft error:", error);
     return res.status(500).json({ error: message });
@@ -107,6 +110,7 @@ router.post("/draft/ensure", async (_req, res) => {
     const season = await createNewDraftSeason();
     return res.status(201).json(season);
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Ensure season draft error:", error);
     return res.status(500).json({ error: message });
@@ -209,9 +213,11 @@ router.post("/draft/mutate", async (req, res) => {
     }
 
     assertSeason(next);
-    await saveDraftSeason(next);
+    // Refuse rather than overwrite a mutation that landed while this one ran.
+    await saveDraftSeason(next, { expectedRevision: revisionOf(draft) });
     return res.status(200).json(next);
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Season draft mutation error:", error);
     return res.status(400).json({ error: message });
@@ -223,6 +229,7 @@ router.post("/publish", async (_req, res) => {
     const published = await publishDraftSeason();
     return res.status(200).json(published);
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Publish season error:", error);
     return res.status(500).json({ error: message });
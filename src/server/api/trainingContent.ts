@@ -7,6 +7,7 @@ import {
   archiveTrainingContent,
   type TrainingContent,
 } from "../utils/trainingContentData.js";
+import { sendWriteError } from "../utils/writeErrors.js";
 
 const router = express.Router();
 const SHARED_DATA_ROOT = path.resolve(process.cwd(), "..", "suc-shared-data");
@@ -68,6 +69,7 @@ router.post("/upsert", async (req, res) => {
     await upsertTrainingContent(item);
     return res.status(200).json({ ok: true });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Upsert training content error:", error);
     return res.status(500).json({ error: message });
@@ -85,6 +87,7 @@ router.post("/archive", async (req, res) => {
     await archiveTrainingContent(id);
     return res.status(200).json({ ok: true });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Archive training content error:", error);
     return res.status(500).json({ error: message });
@@ -1,12 +1,15 @@
 import express from "express";
 import { readWeeks, writeWeeks } from "../utils/studioData.js";
 import type { Week } from "../types.js";
+import { sendWriteError } from "../utils/writeErrors.js";
+import { parseIfMatch, revisionOf, toEtag } from "../utils/storage.js";
 
 const router = express.Router();
 
 router.get("/", async (_req, res) => {
   try {
     const data = await readWeeks();
+    res.setHeader("ETag", toEtag(revisionOf(data)));
     return res.json(data);
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -18,9 +21,13 @@ router.get("/", async (_req, res) => {
 router.put("/", async (req, res) => {
   try {
     const payload = req.body as Week[];
-    await writeWeeks(payload);
+    const revision = await writeWeeks(payload, {
+      expectedRevision: parseIfMatch(req.get("If-Match")),
+    });
+    res.setHeader("ETag", toEtag(revision));
     return res.status(200).json({ ok: true });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Save weeks error:", error);
     return res.status(500).json({ error: message });
@@ -4,6 +4,7 @@ import {
   saveWorkoutsMaster,
 } from "../utils/sharedData.js";
 import type { Workout } from "../types.js";
+import { sendWriteError } from "../utils/writeErrors.js";
 
 const router = express.Router();
 
@@ -73,6 +74,7 @@ router.post("/", (req, res) => {
     const next = upsertDraft(req.body as Workout);
     return res.status(200).json(next);
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     console.error("Workout API error:", error);
     return res.status(500).json({ error: String(error) });
   }
@@ -87,6 +89,7 @@ router.put("/", (req, res) => {
     const next = upsertDraft(req.body as Workout);
     return res.status(200).json(next);
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     console.error("Workout API error:", error);
     return res.status(500).json({ error: String(error) });
   }
@@ -109,6 +112,7 @@ router.delete("/", (_req, res) => {
     }
     return res.json({ success: true });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Delete workout draft error:", error);
     return res.status(500).json({ error: message });
@@ -4,6 +4,7 @@ import {
   saveWorkoutsMaster,
 } from "../utils/sharedData.js";
 import type { Workout } from "../types.js";
+import { sendWriteError } from "../utils/writeErrors.js";
 
 const router = express.Router();
 
@@ -79,6 +80,7 @@ router.post("/", (req, res) => {
     const next = upsertPublished(payload);
     return res.status(200).json(next);
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     console.error("Workout API error:", error);
     return res.status(500).json({ error: String(error) });
   }
@@ -98,6 +100,7 @@ router.put("/", (req, res) => {
     const next = upsertPublished(payload);
     return res.status(200).json(next);
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     console.error("Workout API error:", error);
     return res.status(500).json({ error: String(error) });
   }
@@ -125,6 +128,7 @@ router.delete("/", (_req, res) => {
     }
     return res.json({ success: true });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Delete workout published error:", error);
     return res.status(500).json({ error: message });
@@ -1,14 +1,54 @@
 import express from "express";
+import multer from "multer";
+import { randomUUID } from "crypto";
 import {
   loadWorkoutsMaster,
   saveWorkoutsMaster,
+  workoutsMasterRevision,
 } from "../utils/sharedData.js";
-import type { Workout, WorkoutsMaster } from "../types.js";
+import {
+  describeReferences,
+  findReferencesTo,
+  isForcedDelete,
+  loadIntegritySnapshot,
+} from "../utils/referenceIntegrity.js";
+import type { RosterMember, TierLabel, Workout, WorkoutsMaster } from "../types.js";
+import { memberZoneProfile, resolveMemberWorkout } from "../utils/memberTargets.js";
+import { readRoster } from "../utils/rosterData.js";
+import { sendWriteError } from "../utils/writeErrors.js";
+import { parseIfMatch, toEtag } from "../utils/storage.js";
+import { tierWorkoutDefinition } from "../utils/workoutDefinition.js";
+import {
+  WORKOUT_FILE_FORMATS,
+  exportFitWorkout,
+  exportZwiftWorkout,
+  type WorkoutFileFormat,
+} from "../utils/workoutFileExport.js";
+import { buildImportedWorkout, parseWorkoutFile } from "../utils/workoutImport.js";
+import {
+  parsePaceRange,
+  resolveWorkoutPreview,
+  type AthleteZoneProfile,
+  type UnitSystem,
+} from "../../targetResolution.js";
+import { WorkoutExportError } from "../../trainingPeaksExport.js";
+import { computeWorkoutMetrics, type WorkoutMetrics } from "../../workoutMetrics.js";
 
 const router = express.Router();
 
+const TIER_LABELS: TierLabel[] = ["MED", "LRG", "XL", "XXL"];
+
+// Workout file uploads are parsed in memory.
+const upload = multer({ storage: multer.memoryStorage() });
+
 const nowISO = () => new Date().toISOString();
 
+const findRosterMember = async (memberId: string): Promise<RosterMember | undefined> =>
+  (await readRoster()).find((member) => member.id === memberId);
+
+const parseUnits = (value: unknown): UnitSystem | undefined =>
+  value === "km" || value === "mi" ? value : undefined;
+
 const loadMasterSafe = (): WorkoutsMaster => {
   try {
     const master = loadWorkoutsMaster();
@@ -144,6 +184,17 @@ const deleteArchived = (workoutId: string, version?: number): void => {
   saveWorkoutsMaster(master);
 };
 
+/**
+ * References that would dangle once `removed` rows are gone and no other
+ * version of the workout is left.
+ */
+const orphanedByDeletion = async (workoutId: string, removed: (workout: Workout) => boolean) => {
+  const remaining = loadMasterSafe().workouts.some(
+    (workout) => workout.workoutId === workoutId && !removed(workout)
+  );
+  return remaining ? [] : findReferencesTo(await loadIntegritySnapshot(), "workout", workoutId);
+};
+
 /**
  * GET /api/workouts
  * Read workouts.master.json
@@ -151,6 +202,8 @@ const deleteArchived = (workoutId: string, version?: number): void => {
 router.get("/", (_req, res) => {
   try {
     const workoutsMaster = loadMasterSafe();
+    const revision = workoutsMasterRevision();
+    if (revision) res.setHeader("ETag", toEtag(revision));
     return res.json(workoutsMaster);
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
@@ -161,7 +214,7 @@ router.get("/", (_req, res) => {
 
 /**
  * POST /api/workouts
- * Update workouts.master.json
+ * Update workouts.master.json (409 when If-Match no longer matches the file)
  */
 router.post("/", (req, res) => {
   try {
@@ -172,10 +225,14 @@ router.post("/", (req, res) => {
       return res.status(400).json({ error: "Invalid workouts data" });
     }
 
-    saveWorkoutsMaster(body);
+    const revision = saveWorkoutsMaster(body, {
+      expectedRevision: parseIfMatch(req.get("If-Match")),
+    });
+    res.setHeader("ETag", toEtag(revision));
 
     return res.json({ success: true });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Save workouts error:", error);
     return res.status(500).json({ error: message });
@@ -194,6 +251,7 @@ router.post("/upsert", (req, res) => {
     const next = upsertWorkout(req.body);
     return res.json(next);
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Upsert workout error:", error);
     return res.status(500).json({ error: message });
@@ -217,6 +275,7 @@ router.post("/publish", (req, res) => {
     const published = publishWorkout(workoutId);
     return res.json(published);
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Publish workout error:", error);
     return res.status(500).json({ error: message });
@@ -236,6 +295,7 @@ router.post("/archive", (req, res) => {
     const archived = archiveWorkout(body.workoutId, body.version);
     return res.json(archived);
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Archive workout error:", error);
     return res.status(500).json({ error: message });
@@ -244,17 +304,29 @@ router.post("/archive", (req, res) => {
 
 /**
  * DELETE /api/workouts/draft/:workoutId
- * Delete a draft workout.
+ * Delete a draft workout. 409 if it is the last version and still referenced,
+ * unless ?force=true.
  */
-router.delete("/draft/:workoutId", (req, res) => {
+router.delete("/draft/:workoutId", async (req, res) => {
   try {
     const workoutId = req.params.workoutId;
     if (!workoutId) {
       return res.status(400).json({ error: "workoutId is required." });
     }
+    const references = await orphanedByDeletion(
+      workoutId,
+      (workout) => workout.status === "draft"
+    );
+    if (references.length > 0 && !isForcedDelete(req.query)) {
+      return res.status(409).json({
+        error: `${workoutId} is still used by ${describeReferences(references)}.`,
+        references,
+      });
+    }
     deleteDraft(workoutId);
-    return res.json({ success: true });
+    return res.json({ success: true, orphanedReferences: references });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Delete draft error:", error);
     return res.status(500).json({ error: message });
@@ -263,9 +335,9 @@ router.delete("/draft/:workoutId", (req, res) => {
 
 /**
  * DELETE /api/workouts/archive/:workoutId/:version?
- * Delete archived workouts (optionally specific version).
+ * Delete archived workouts (optionally specific version). Same orphan check as drafts.
  */
-router.delete("/archive/:workoutId/:version?", (req, res) => {
+router.delete("/archive/:workoutId/:version?", async (req, res) => {
   try {
     const workoutId = req.params.workoutId;
     if (!workoutId) {
@@ -276,13 +348,287 @@ router.delete("/archive/:workoutId/:version?", (req, res) => {
     if (versionParam && Number.isNaN(version)) {
       return res.status(400).json({ error: "version must be a number." });
     }
+    const references = await orphanedByDeletion(
+      workoutId,
+      (workout) =>
+        workout.status === "archived" && (version === undefined || workout.version === version)
+    );
+    if (references.length > 0 && !isForcedDelete(req.query)) {
+      return res.status(409).json({
+        error: `${workoutId} is still used by ${describeReferences(references)}.`,
+        references,
+      });
+    }
     deleteArchived(workoutId, version);
-    return res.json({ success: true });
+    return res.json({ success: true, orphanedReferences: references });
   } catch (error) {
+    if (sendWriteError(res, error)) return;
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error("Delete archived error:", error);
     return res.status(500).json({ error: message });
   }
 });
 
+/**
+ * POST /api/workouts/import
+ * Turn an uploaded TrainingPeaks JSON or FIT workout (`file`) into a new draft
+ * with its steps in `tier` (default MED). Optional `name`, and `memberId` (roster
+ * zones) or `athlete` (an AthleteZoneProfile as JSON) to map absolute HR/pace
+ * targets to zones.
+ * Returns the saved draft and the issues found (unmapped targets and the like).
+ */
+router.post("/import", upload.single("file"), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: "No workout file uploaded" });
+    }
+    const tier = String(req.body?.tier ?? "MED").toUpperCase() as TierLabel;
+    if (!TIER_LABELS.includes(tier)) {
+      return res.status(400).json({ error: `tier must be one of ${TIER_LABELS.join(", ")}` });
+    }
+    let athlete: AthleteZoneProfile | undefined;
+    if (req.body?.memberId) {
+      const member = await findRosterMember(String(req.body.memberId));
+      if (!member) {
+        return res.status(404).json({ error: `Roster member not found: ${req.body.memberId}` });
+      }
+      athlete = memberZoneProfile(member);
+    } else if (req.body?.athlete) {
+      try {
+        athlete = JSON.parse(String(req.body.athlete)) as AthleteZoneProfile;
+      } catch {
+        return res.status(400).json({ error: "athlete must be JSON." });
+      }
+    }
+
+    const parsed = parseWorkoutFile(req.file.buffer, req.file.originalname);
+    const { workout, issues } = buildImportedWorkout(parsed, {
+      tier,
+      athlete,
+      name: typeof req.body?.name === "string" ? req.body.name : undefined,
+      workoutId: `workout-${randomUUID()}`,
+      now: nowISO(),
+    });
+    const saved = upsertWorkout(workout);
+    return res.json({ source: parsed.source, workout: saved, issues });
+  } catch (error) {
+    if (sendWriteError(res, error)) return;
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Workout import error:", error);
+    return res.status(400).json({ error: message });
+  }
+});
+
+/**
+ * The version to export: `version` when given, else the latest published
+ * version, else the draft.
+ */
+const findExportWorkout = (workoutId: string, version?: number): Workout | undefined => {
+  const versions = loadMasterSafe().workouts.filter((workout) => workout.workoutId === workoutId);
+  if (version !== undefined) {
+    return versions.find((workout) => workout.version === version && workout.status !== "draft");
+  }
+  const published = versions
+    .filter((workout) => workout.status === "published")
+    .sort((a, b) => (b.version ?? 0) - (a.version ?? 0))[0];
+  return published ?? versions.find((workout) => workout.status === "draft");
+};
+
+const sendWorkoutExport = (
+  req: express.Request,
+  res: express.Response,
+  athlete: AthleteZoneProfile
+) => {
+  const { workoutId } = req.params;
+  const format = String(req.query.format ?? "fit") as WorkoutFileFormat;
+  const tier = String(req.query.tier ?? "MED").toUpperCase() as TierLabel;
+  const units = parseUnits(req.query.units);
+  if (!WORKOUT_FILE_FORMATS.includes(format)) {
+    return res
+      .status(400)
+      .json({ error: `format must be one of ${WORKOUT_FILE_FORMATS.join(", ")}` });
+  }
+  if (!TIER_LABELS.includes(tier)) {
+    return res.status(400).json({ error: `tier must be one of ${TIER_LABELS.join(", ")}` });
+  }
+  const version = req.query.version === undefined ? undefined : Number(req.query.version);
+  if (version !== undefined && !Number.isInteger(version)) {
+    return res.status(400).json({ error: "version must be a number." });
+  }
+
+  const workout = findExportWorkout(workoutId, version);
+  if (!workout) {
+    return res.status(404).json({ error: `Workout not found: ${workoutId}` });
+  }
+  if (!workout.tiers?.[tier]) {
+    return res.status(404).json({ error: `Workout ${workoutId} has no ${tier} tier` });
+  }
+
+  const resolved = resolveWorkoutPreview(tierWorkoutDefinition(workout, tier), athlete, {
+    units,
+  });
+  const fileName = `${workoutId}-${tier}.${format}`;
+  res.attachment(fileName);
+  if (format === "fit") {
+    res.type("application/vnd.ant.fit");
+    return res.send(Buffer.from(exportFitWorkout(resolved)));
+  }
+  const thresholdText =
+    typeof req.query.thresholdPace === "string" ? req.query.thresholdPace : athlete.pace?.threshold;
+  const threshold = thresholdText
+    ? parsePaceRange(thresholdText, units ?? athlete.preferredUnits ?? "mi")
+    : null;
+  const thresholdPace = threshold
+    ? { seconds: threshold.minSeconds, unit: threshold.unit }
+    : undefined;
+  res.type("application/xml");
+  return res.send(
+    exportZwiftWorkout(resolved, { thresholdPace, description: workout.description })
+  );
+};
+
+const exportErrorStatus = (error: unknown) => (error instanceof WorkoutExportError ? 422 : 500);
+
+/**
+ * GET /api/workouts/:workoutId/export?format=fit|zwo&tier=MED
+ * Download one tier as a FIT workout or Zwift .zwo file. Optional: version,
+ * units (mi|km), thresholdPace (e.g. 7:30/mi, needed for .zwo pace targets)
+ * and memberId to resolve targets with that roster member's zones.
+ * Without athlete zones, targets go out as open steps named after their zone.
+ */
+router.get("/:workoutId/export", async (req, res) => {
+  try {
+    const memberId = typeof req.query.memberId === "string" ? req.query.memberId : "";
+    if (!memberId) {
+      return sendWorkoutExport(req, res, { athleteId: "anonymous" });
+    }
+    const member = await findRosterMember(memberId);
+    if (!member) {
+      return res.status(404).json({ error: `Roster member not found: ${memberId}` });
+    }
+    return sendWorkoutExport(req, res, memberZoneProfile(member));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Export workout error:", error);
+    return res.status(exportErrorStatus(error)).json({ error: message });
+  }
+});
+
+/**
+ * POST /api/workouts/:workoutId/export?format=fit|zwo&tier=MED
+ * Same download with targets resolved against `{ athlete: AthleteZoneProfile }`.
+ */
+router.post("/:workoutId/export", (req, res) => {
+  try {
+    const athlete = (req.body as { athlete?: AthleteZoneProfile } | undefined)?.athlete;
+    if (athlete !== undefined && (typeof athlete !== "object" || athlete === null)) {
+      return res.status(400).json({ error: "athlete must be an athlete zone profile." });
+    }
+    return sendWorkoutExport(req, res, athlete ?? { athleteId: "anonymous" });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Export workout error:", error);
+    return res.status(exportErrorStatus(error)).json({ error: message });
+  }
+});
+
+const toWorkoutMetrics = (workout: Workout): WorkoutMetrics => ({
+  workoutId: workout.workoutId,
+  version: workout.version,
+  status: workout.status,
+  name: workout.name,
+  tiers: computeWorkoutMetrics(workout),
+});
+
+/**
+ * GET /api/workouts/metrics
+ * Time, distance and load per tier for the latest published version of
+ * every run workout, for summing load over a week or block.
+ */
+router.get("/metrics", (_req, res) => {
+  try {
+    const latest = new Map<string, Workout>();
+    for (const workout of loadMasterSafe().workouts) {
+      if (workout.status !== "published" || (workout.domain ?? "run") !== "run") continue;
+      const current = latest.get(workout.workoutId);
+      if (!current || (workout.version ?? 0) > (current.version ?? 0)) {
+        latest.set(workout.workoutId, workout);
+      }
+    }
+    return res.json({ workouts: Array.from(latest.values(), toWorkoutMetrics) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Workout metrics error:", error);
+    return res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * GET /api/workouts/:workoutId/metrics?version=3
+ * Time, distance and load per tier for one workout: `version` when given,
+ * else the latest published version, else the draft.
+ */
+router.get("/:workoutId/metrics", (req, res) => {
+  try {
+    const { workoutId } = req.params;
+    const version = req.query.version === undefined ? undefined : Number(req.query.version);
+    if (version !== undefined && !Number.isInteger(version)) {
+      return res.status(400).json({ error: "version must be a number." });
+    }
+    const workout = findExportWorkout(workoutId, version);
+    if (!workout) {
+      return res.status(404).json({ error: `Workout not found: ${workoutId}` });
+    }
+    return res.json(toWorkoutMetrics(workout));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Workout metrics error:", error);
+    return res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * GET /api/workouts/:workoutId/targets?memberId=m-1
+ * A published workout's targets in one roster member's HR bpm and pace, from
+ * their roster zones. Optional: tier (default the member's tier), version
+ * (default latest published) and units (default the member's preferred units).
+ */
+router.get("/:workoutId/targets", async (req, res) => {
+  try {
+    const { workoutId } = req.params;
+    const memberId = typeof req.query.memberId === "string" ? req.query.memberId : "";
+    if (!memberId) {
+      return res.status(400).json({ error: "memberId is required." });
+    }
+    const version = req.query.version === undefined ? undefined : Number(req.query.version);
+    if (version !== undefined && !Number.isInteger(version)) {
+      return res.status(400).json({ error: "version must be a number." });
+    }
+    const member = await findRosterMember(memberId);
+    if (!member) {
+      return res.status(404).json({ error: `Roster member not found: ${memberId}` });
+    }
+    const tier = String(req.query.tier ?? member.tier).toUpperCase() as TierLabel;
+    if (!TIER_LABELS.includes(tier)) {
+      return res.status(400).json({ error: `tier must be one of ${TIER_LABELS.join(", ")}` });
+    }
+
+    const workout = findExportWorkout(workoutId, version);
+    // An archived version was published once; only drafts have no settled targets.
+    if (!workout || workout.status === "draft") {
+      return res.status(404).json({ error: `Published workout not found: ${workoutId}` });
+    }
+    if (!workout.tiers?.[tier]) {
+      return res.status(404).json({ error: `Workout ${workoutId} has no ${tier} tier` });
+    }
+    return res.json(
+      resolveMemberWorkout(workout, tier, member, { units: parseUnits(req.query.units) })
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Resolve workout targets error:", error);
+    return res.status(500).json({ error: message });
+  }
+});
+
 export default router;
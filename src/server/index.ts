@@ -20,14 +20,19 @@ import gearReviewsRouter from "./api/gearReviews.js";
 import raceRecapsRouter from "./api/raceRecaps.js";
 import crewRunRecapsRouter from "./api/crewRunRecaps.js";
 import draftsRouter from "./api/drafts.js";
+import integrityRouter from "./api/integrity.js";
+import attendanceRouter from "./api/attendance.js";
+import auditRouter from "./api/audit.js";
+import { auditRequestContext, installAuditLog } from "./utils/auditLog.js";
 import { SHARED_DATA_ROOT } from "./utils/paths.js";
 
 const app = express();
 const PORT = 3000;
 
 // Middleware
-app.use(cors());
+app.use(cors({ exposedHeaders: ["ETag"] }));
 app.use(express.json());
+app.use("/api", auditRequestContext);
 
 app.use((req, res, next) => {
   if (!req.path.startsWith("/api")) {
@@ -44,6 +49,7 @@ app.use((req, res, next) => {
 // Log shared data root on startup
 console.log("[Studio Server] Starting...");
 console.log(`[Studio Server] Shared data root: ${SHARED_DATA_ROOT}`);
+installAuditLog();
 
 // API Routes
 app.use("/api/routes", routesRouter);
@@ -66,6 +72,9 @@ app.use("/api/gear-reviews", gearReviewsRouter);
 app.use("/api/race-recaps", raceRecapsRouter);
 app.use("/api/crew-run-recaps", crewRunRecapsRouter);
 app.use("/api/drafts", draftsRouter);
+app.use("/api/integrity", integrityRouter);
+app.use("/api/attendance", attendanceRouter);
+app.use("/api/audit", auditRouter);
 
 // Health check
 app.get("/api/health", (_req, res) => {
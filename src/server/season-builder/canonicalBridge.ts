@@ -6,6 +6,7 @@ import { promisify } from "util";
 import type { Season, WeekInstance, BlockInstance, DayAssignment } from "./types.js";
 import { DAY_KEYS } from "./types.js";
 import { SHARED_DATA_ROOT } from "../utils/paths.js";
+import { removeFileSync, writeFileAtomicSync, writeJsonAtomic } from "../utils/storage.js";
 
 const execFileAsync = promisify(execFile);
 
@@ -155,18 +156,6 @@ async function readWorkoutsMaster(): Promise<Map<string, WorkoutMasterEntry>> {
   }
 }
 
-async function ensureDir(dirPath: string): Promise<void> {
-  await fs.mkdir(dirPath, { recursive: true });
-}
-
-async function writeJsonFileAtomic(filePath: string, data: unknown): Promise<void> {
-  await ensureDir(path.dirname(filePath));
-  const tempPath = `${filePath}.tmp-${Date.now()}`;
-  const payload = `${JSON.stringify(data, null, 2)}\n`;
-  await fs.writeFile(tempPath, payload, "utf8");
-  await fs.rename(tempPath, filePath);
-}
-
 async function fileExists(filePath: string): Promise<boolean> {
   try {
     await fs.access(filePath);
@@ -320,7 +309,7 @@ async function writeCanonicalFiles(
     }
     const previous = exists ? await fs.readFile(filePath, "utf8") : null;
     backups.push({ path: filePath, previous });
-    await writeJsonFileAtomic(filePath, data);
+    await writeJsonAtomic(filePath, data);
   }
 
   const seasonPath = path.join(CANONICAL_SEASONS_ROOT, `season.${season.id}.json`);
@@ -420,9 +409,9 @@ export async function publishCanonicalTrainingData(season: Season): Promise<{
   } catch (error) {
     for (const backup of backups.reverse()) {
       if (backup.previous === null) {
-        await fs.rm(backup.path, { force: true });
+        removeFileSync(backup.path);
       } else {
-        await fs.writeFile(backup.path, backup.previous, "utf8");
+        writeFileAtomicSync(backup.path, backup.previous);
       }
     }
     throw error;
@@ -4,15 +4,16 @@ import { randomUUID } from "crypto";
 import { SEASON_DRAFT_PATH, SEASON_PUBLISHED_PATH, SEASONS_ROOT } from "../utils/paths.js";
 import type { BlockInstance, Season, WeekInstance } from "./types.js";
 import { assertSeasonForSave } from "./validation.js";
+import { assertCanonical } from "../utils/schemaValidation.js";
+import {
+  readStoredJsonSync,
+  removeFileSync,
+  updateJson,
+  writeJsonAtomic,
+  type WriteOptions,
+} from "../utils/storage.js";
 import { publishCanonicalTrainingData } from "./canonicalBridge.js";
 
-const JSON_INDENT = 2;
-
-async function ensureParentDir(filePath: string): Promise<void> {
-  const dir = path.dirname(filePath);
-  await fs.mkdir(dir, { recursive: true });
-}
-
 async function readJsonFile<T>(filePath: string): Promise<T | null> {
   try {
     const raw = await fs.readFile(filePath, "utf8");
@@ -29,40 +30,28 @@ async function readJsonFile<T>(filePath: string): Promise<T | null> {
   }
 }
 
-async function writeJsonFileAtomic(filePath: string, data: unknown): Promise<void> {
-  await ensureParentDir(filePath);
-  const tempPath = `${filePath}.tmp-${randomUUID()}`;
-  const payload = `${JSON.stringify(data, null, JSON_INDENT)}\n`;
-  await fs.writeFile(tempPath, payload, "utf8");
-  await fs.rename(tempPath, filePath);
-}
-
-async function readJsonIfExists<T>(filePath: string, fallback: T): Promise<T> {
-  const data = await readJsonFile<T>(filePath);
-  return data ?? fallback;
-}
+type SeasonsMaster = { version?: number; seasons?: Season[] };
 
 async function upsertPublishedSeasonIntoMaster(published: Season): Promise<void> {
   const masterPath = path.join(SEASONS_ROOT, "seasons.master.json");
-  const master = await readJsonIfExists<{ version?: number; seasons?: Season[] }>(masterPath, {
-    version: 1,
-    seasons: [],
-  });
-
-  const seasons = Array.isArray(master.seasons) ? [...master.seasons] : [];
-  const index = seasons.findIndex((season) => season?.seasonId === published.seasonId);
-  if (index >= 0) {
-    seasons[index] = published;
-  } else {
-    seasons.push(published);
-  }
-
-  const payload = {
-    version: typeof master.version === "number" ? master.version : 1,
-    seasons,
-  };
+  const { seasons = [] } = await updateJson<SeasonsMaster>(
+    masterPath,
+    { version: 1, seasons: [] },
+    (master) => {
+      const seasons = Array.isArray(master.seasons) ? [...master.seasons] : [];
+      const index = seasons.findIndex((season) => season?.seasonId === published.seasonId);
+      if (index >= 0) {
+        seasons[index] = published;
+      } else {
+        seasons.push(published);
+      }
+      return {
+        version: typeof master.version === "number" ? master.version : 1,
+        seasons,
+      };
+    }
+  );
 
-  await writeJsonFileAtomic(masterPath, payload);
   console.log("[Publish] Updated seasons.master.json:", masterPath);
   console.log("[Publish] Published seasons:", seasons.map((season) => season.seasonId));
   console.log(
@@ -106,9 +95,10 @@ export async function loadPublishedSeason(): Promise<Season | null> {
   return data;
 }
 
-export async function saveDraftSeason(season: Season): Promise<void> {
+export async function saveDraftSeason(season: Season, options?: WriteOptions): Promise<string> {
   assertSeasonForSave(season, "draft");
-  await writeJsonFileAtomic(SEASON_DRAFT_PATH, season);
+  assertCanonical("season", season, readStoredJsonSync(SEASON_DRAFT_PATH));
+  return writeJsonAtomic(SEASON_DRAFT_PATH, season, options);
 }
 
 export async function createNewDraftSeason(): Promise<Season> {
@@ -120,7 +110,7 @@ export async function createNewDraftSeason(): Promise<Season> {
     seasonMarkers: [],
   };
 
-  await writeJsonFileAtomic(SEASON_DRAFT_PATH, season);
+  await writeJsonAtomic(SEASON_DRAFT_PATH, season);
   return season;
 }
 
@@ -139,14 +129,15 @@ export async function publishDraftSeason(): Promise<Season> {
   };
 
   assertSeasonForSave(published, "published");
+  assertCanonical("season", published, readStoredJsonSync(SEASON_PUBLISHED_PATH));
 
   await publishCanonicalTrainingData(published);
 
-  await writeJsonFileAtomic(SEASON_PUBLISHED_PATH, published);
+  await writeJsonAtomic(SEASON_PUBLISHED_PATH, published);
   console.log("[Publish] Writing canonical data to:", SEASONS_ROOT);
   console.log("[Publish] Published season file:", SEASON_PUBLISHED_PATH);
   await upsertPublishedSeasonIntoMaster(published);
 
-  await fs.rm(SEASON_DRAFT_PATH, { force: true });
+  removeFileSync(SEASON_DRAFT_PATH);
   return published;
 }
@@ -1,11 +1,24 @@
+import type {
+  RouteElevationStats,
+  SplitRow,
+  TrackSimplificationOptions,
+  TrackSimplificationSummary,
+} from "../route-stats/index.js";
+
 export type RouteLabel = "MED" | "LRG" | "XL" | "XXL";
 
+export type TrackFormat = "gpx" | "tcx" | "fit" | "geojson";
+
 export interface ParsedRoute {
   fileName: string;
   coords: [number, number][]; // [lon, lat]
   elevations: number[]; // meters
   distanceMi: number;
   elevationFt: number;
+  elevationStats?: RouteElevationStats;
+  sourceFormat?: TrackFormat;
+  /** Present when the import simplified the track (before/after point count, distance, gain). */
+  simplification?: TrackSimplificationSummary;
 }
 
 export interface RouteMeta {
@@ -15,6 +28,12 @@ export interface RouteMeta {
   source: string;
   notes: string;
   variants: RouteLabel[];
+  /** Track simplification applied when variants are imported into this group. */
+  simplification?: RouteSimplificationConfig;
+}
+
+export interface RouteSimplificationConfig extends TrackSimplificationOptions {
+  enabled: boolean;
 }
 
 export interface RouteVariant {
@@ -54,12 +73,143 @@ export interface RoutePoi {
     lon: number;
   };
   variants?: Partial<Record<RouteLabel, RoutePoiVariantValue>>;
+  /** Elapsed minutes from the start at which this station closes, per variant. */
+  cutoffs?: Partial<Record<RouteLabel, number>>;
+}
+
+export interface RouteSplitPlan {
+  /** Flat pace per roster tier, before elevation adjustment. */
+  paceMinPerMi: Record<RosterTier, number>;
 }
 
 export interface RoutePoisDoc {
   version?: number;
   routeGroupId: string;
   pois: RoutePoi[];
+  splitPlan?: RouteSplitPlan;
+}
+
+export interface RouteSplitTable {
+  routeGroupId: string;
+  label: RouteLabel;
+  paceMinPerMi: Record<RosterTier, number>;
+  rows: SplitRow[];
+}
+
+export interface RouteSplitPlanUpdate {
+  paceMinPerMi?: Partial<Record<RosterTier, number>>;
+  /** poiId -> variant -> cutoff minutes (null clears). */
+  cutoffs?: Record<string, Partial<Record<RouteLabel, number | null>>>;
+}
+
+export interface RouteVariantMileRange {
+  startMi: number;
+  endMi: number;
+}
+
+export interface RouteVariantSharedSegment {
+  variants: [RouteLabel, RouteLabel];
+  distanceMi: number;
+  ranges: Partial<Record<RouteLabel, RouteVariantMileRange>>;
+  start: { lat: number; lon: number };
+  end: { lat: number; lon: number };
+}
+
+export interface RouteVariantForkPoint {
+  type: "diverge" | "rejoin";
+  variants: [RouteLabel, RouteLabel];
+  lat: number;
+  lon: number;
+  miles: Partial<Record<RouteLabel, number>>;
+}
+
+export interface RouteVariantOverlapSummary {
+  label: RouteLabel;
+  distanceMi: number;
+  sharedMi: number;
+  exclusiveMi: number;
+}
+
+export interface RouteVariantDiff {
+  routeGroupId: string;
+  toleranceM: number;
+  variants: RouteVariantOverlapSummary[];
+  sharedSegments: RouteVariantSharedSegment[];
+  forks: RouteVariantForkPoint[];
+}
+
+export type RouteRevisionAction =
+  | "baseline"
+  | "save-group"
+  | "save-variant"
+  | "delete-variant"
+  | "save-pois"
+  | "before-restore"
+  | "restore";
+
+export interface RouteRevision {
+  revisionId: string;
+  routeGroupId: string;
+  createdAt: string; // ISO8601
+  action: RouteRevisionAction;
+  summary: string[];
+  variants: RouteLabel[];
+  restoredFrom?: string;
+}
+
+export interface RouteRevisionDiff {
+  routeGroupId: string;
+  revisionId: string;
+  against: string | null; // revisionId, "current", or null for the first revision
+  meta: Array<{ field: string; before: unknown; after: unknown }>;
+  variants: {
+    added: string[];
+    removed: string[];
+    changed: Array<{ label: string; pointsBefore: number; pointsAfter: number }>;
+  };
+  pois: {
+    added: string[];
+    removed: string[];
+    changed: string[];
+  };
+  splitPlanChanged: boolean;
+}
+
+export interface RoutePoiImportRow {
+  /** 1-based row (CSV line or waypoint position) in the uploaded file. */
+  row: number;
+  lat: number;
+  lon: number;
+  type: string;
+  title: string;
+  notes?: string;
+}
+
+export interface RoutePoiImportSkip {
+  row: number;
+  reason: string;
+}
+
+export interface RoutePoiImportItem {
+  row: number;
+  action: "create" | "update";
+  poi: RoutePoi;
+  /** Meters from the imported point to the closest snapped pass, per variant. */
+  snapDistanceM: Partial<Record<RouteLabel, number>>;
+  passes: Partial<Record<RouteLabel, number>>;
+  warnings: string[];
+}
+
+export interface RoutePoiImportPreview {
+  routeGroupId: string;
+  format: "gpx" | "csv";
+  variants: RouteLabel[];
+  toleranceM: number;
+  items: RoutePoiImportItem[];
+  skipped: RoutePoiImportSkip[];
+  committed: boolean;
+  /** Saved POIs, present after a commit. */
+  pois?: RoutePoi[];
 }
 
 export interface RoutePoiSnapRequest {
@@ -74,6 +224,8 @@ export interface RoutePoiSnapRequest {
     lon: number;
   };
   variants: RouteLabel[];
+  /** Pass detection radius in meters (defaults to 12). */
+  toleranceM?: number;
 }
 
 export interface SaveRouteGroupRequest {
@@ -83,6 +235,7 @@ export interface SaveRouteGroupRequest {
   source?: string;
   notes?: string;
   variants?: RouteVariant[];
+  simplification?: RouteSimplificationConfig;
 }
 
 export interface RouteGroupSummary {
@@ -106,11 +259,52 @@ export interface Event {
     lng: number;
   };
   routeGroupIds: string[];
+  /** Set on occurrences generated from an EventSeries; eventId is `<seriesId>-<YYYY-MM-DD>`. */
+  seriesId?: string;
+  /** ISO timestamp of the last change; sent back on writes to detect stale edits. */
+  updatedAt?: string;
+}
+
+/** Fields a series supplies to every occurrence. */
+export type EventSeriesFields = Pick<
+  Event,
+  | "eventName"
+  | "eventDescription"
+  | "eventTime"
+  | "type"
+  | "startLocationName"
+  | "startLocationUrl"
+  | "startLocationCoordinates"
+  | "routeGroupIds"
+>;
+
+/** Per-occurrence changes kept across series edits (eventDate moves a single occurrence). */
+export type EventOccurrenceOverride = Partial<EventSeriesFields> & { eventDate?: string };
+
+export interface EventSeriesRule {
+  frequency: "weekly";
+  /** 0 = Sunday ... 6 = Saturday */
+  dayOfWeek: number;
+  /** Every Nth week, counted from the first occurrence. */
+  interval: number;
+  startDate: string;
+  endDate: string;
+  skipDates: string[];
+}
+
+export interface EventSeries {
+  seriesId: string;
+  rule: EventSeriesRule;
+  defaults: EventSeriesFields;
+  /** Keyed by the occurrence's scheduled date (YYYY-MM-DD). */
+  overrides: Record<string, EventOccurrenceOverride>;
 }
 
 export interface EventsMaster {
   version: number;
   events: Event[];
+  /** Recurring series; their occurrences are expanded into `events` on save. */
+  series?: EventSeries[];
 }
 
 export interface EventsSelection {
@@ -122,6 +316,26 @@ export interface EventsSelection {
 export type RosterStatus = "active" | "paused" | "alumni";
 export type RosterTier = "MED" | "LRG" | "XL";
 
+/**
+ * A member's training zones, used to turn workout zones into their own HR and
+ * pace numbers (see AthleteZoneProfile in targetResolution.ts).
+ */
+export interface RosterZoneProfile {
+  hr?: {
+    max?: number;
+    threshold?: number;
+    /** Per zone: bpm, or fractions of max HR when both ends are <= 1. */
+    zones?: Record<string, [number, number]>;
+  };
+  pace?: {
+    /** Threshold pace, e.g. "7:30/mi". */
+    threshold?: string;
+    /** Per zone, e.g. { Z4: "7:20-7:30/mi" }. */
+    zones?: Record<string, string>;
+  };
+  preferredUnits?: "mi" | "km";
+}
+
 export interface RosterMember {
   id: string;
   name: string;
@@ -137,6 +351,41 @@ export interface RosterMember {
     publicPhotos: boolean;
     publicMetrics: boolean;
   };
+  zones?: RosterZoneProfile;
+}
+
+// Attendance types
+export type AttendanceStatus = "checked-in" | "finished" | "dnf" | "dns";
+
+export interface AttendanceEntry {
+  /** RosterMember.id */
+  memberId: string;
+  status: AttendanceStatus;
+  /** Route group and distance the member ran; null until known. */
+  routeGroupId: string | null;
+  variant: RouteLabel | null;
+  /** First check-in time; stays null for DNS. */
+  checkedInAt: string | null;
+  updatedAt: string;
+  notes?: string;
+}
+
+export interface EventAttendance {
+  eventId: string;
+  entries: AttendanceEntry[];
+  updatedAt: string;
+}
+
+export interface AttendanceSummary {
+  eventId: string;
+  /** Members who started: checked in, finished or DNF. */
+  participants: number;
+  checkedIn: number;
+  finished: number;
+  dnf: number;
+  dns: number;
+  /** Starters per "<routeGroupId>/<variant>". */
+  byVariant: Record<string, number>;
 }
 
 // Workout types
@@ -245,6 +494,47 @@ export interface WorkoutsMaster {
   workouts: Workout[];
 }
 
+// Workout import types
+export type WorkoutImportSource = "trainingpeaks" | "fit";
+
+/** Something in an imported file the studio model could not carry over as-is. */
+export interface WorkoutImportIssue {
+  /** "Step 3" or "Repeat at step 2", numbered as in the source file. */
+  step: string;
+  kind: "target" | "duration" | "structure";
+  message: string;
+}
+
+export interface WorkoutImportResult {
+  source: WorkoutImportSource;
+  workout: Workout;
+  issues: WorkoutImportIssue[];
+}
+
+// Member target types
+/** A zone resolved to one member's numbers; `text` is ready to display. */
+export type MemberTarget =
+  | { type: "hr"; min: number; max: number; text: string }
+  | { type: "pace"; minSeconds: number; maxSeconds: number; unit: "mi" | "km"; text: string };
+
+export interface MemberStepTargets {
+  /** Index into the tier's structure. */
+  index: number;
+  work: MemberTarget | null;
+  rest: MemberTarget | null;
+}
+
+export interface MemberWorkoutTargets {
+  workoutId: string;
+  version: number;
+  tier: TierLabel;
+  memberId: string;
+  units: "mi" | "km";
+  steps: MemberStepTargets[];
+  /** Zones that could not be resolved, e.g. a pace zone missing from the profile. */
+  issues: string[];
+}
+
 // Route Intel types
 export type RouteIntelSectionMode = "race" | "all-poi";
 
@@ -269,11 +559,15 @@ export interface RouteIntelDoc {
 export type RouteMediaOutputFormat = "story" | "square" | "landscape";
 export type RouteMediaCameraMode = "third-person-follow" | "overview-lock";
 
+export type RouteMediaTimingMode = "distance" | "grade-adjusted";
+
 export interface RouteMediaPlayback {
   milesPerSecond: number;
   fps: number;
   holdSeconds: number;
   outputFormat: RouteMediaOutputFormat;
+  /** "grade-adjusted" spends playback time where runners spend race time (climbs play slower). */
+  timingMode?: RouteMediaTimingMode;
 }
 
 export interface RouteMediaCameraDefaults {
@@ -332,3 +626,44 @@ export interface RouteMediaDoc {
   createdAt: string;
   updatedAt: string;
 }
+
+// Audit log types
+export type AuditAction = "create" | "update" | "delete";
+
+export interface AuditFieldChange {
+  /** Path inside the entity, e.g. `tiers.MED.structure[0].reps`. */
+  field: string;
+  change: "added" | "removed" | "changed";
+  /** Only recorded for scalar values (long strings are shortened). */
+  before?: string | number | boolean | null;
+  after?: string | number | boolean | null;
+}
+
+export interface AuditEntry {
+  id: string;
+  at: string; // ISO8601
+  /** X-Studio-User header, else the client address. */
+  actor: string;
+  /** "PUT /api/roster" for changes made by an API request. */
+  request?: string;
+  /** Path under suc-shared-data. */
+  file: string;
+  entityType: string;
+  entityId: string;
+  action: AuditAction;
+  beforeHash: string | null;
+  afterHash: string | null;
+  /** First changes only; `changeCount` is the total. */
+  changes: AuditFieldChange[];
+  changeCount: number;
+}
+
+export interface AuditQuery {
+  entityType?: string;
+  entityId?: string;
+  action?: AuditAction;
+  /** Inclusive bounds; YYYY-MM-DD or ISO8601. */
+  from?: string;
+  to?: string;
+  limit?: number;
+}
@@ -0,0 +1,112 @@
+import assert from "assert/strict";
+import {
+  applyAttendanceUpdate,
+  emptyAttendance,
+  normalizeAttendanceUpdate,
+  removeAttendanceEntry,
+  summarizeAttendance,
+  summarizeMemberAttendance,
+  type EventRouteOptions,
+} from "./attendance";
+
+const routes: EventRouteOptions = [
+  { routeGroupId: "SUC-034", variants: ["MED", "LRG"] },
+  { routeGroupId: "SUC-040", variants: ["LRG", "XL"] },
+];
+
+// A variant offered by one route picks that route.
+assert.deepEqual(normalizeAttendanceUpdate({ status: "checked-in", variant: "MED" }, routes), {
+  status: "checked-in",
+  routeGroupId: "SUC-034",
+  variant: "MED",
+});
+assert.deepEqual(
+  normalizeAttendanceUpdate({ routeGroupId: "SUC-040", variant: "LRG", notes: "  cramped " }, routes),
+  { routeGroupId: "SUC-040", variant: "LRG", notes: "cramped" }
+);
+assert.deepEqual(normalizeAttendanceUpdate({ variant: null }, routes), {
+  variant: null,
+  routeGroupId: null,
+});
+assert.throws(() => normalizeAttendanceUpdate({ variant: "LRG" }, routes), /several routes/);
+assert.throws(() => normalizeAttendanceUpdate({ variant: "XXL" }, routes), /not offered/);
+assert.throws(
+  () => normalizeAttendanceUpdate({ routeGroupId: "SUC-034", variant: "XL" }, routes),
+  /has no XL variant/
+);
+assert.throws(() => normalizeAttendanceUpdate({ routeGroupId: "SUC-099" }, routes), /not part/);
+assert.throws(() => normalizeAttendanceUpdate({ status: "done" }, routes), /status must be/);
+
+let doc = emptyAttendance("SUC-001", "2026-03-07T13:00:00.000Z");
+({ attendance: doc } = applyAttendanceUpdate(
+  doc,
+  "m1",
+  { routeGroupId: "SUC-034", variant: "MED" },
+  "2026-03-07T14:00:00.000Z"
+));
+({ attendance: doc } = applyAttendanceUpdate(doc, "m2", { status: "dns" }, "2026-03-07T14:01:00.000Z"));
+({ attendance: doc } = applyAttendanceUpdate(
+  doc,
+  "m3",
+  { routeGroupId: "SUC-040", variant: "XL" },
+  "2026-03-07T14:02:00.000Z"
+));
+assert.equal(doc.entries[0].status, "checked-in");
+assert.equal(doc.entries[1].checkedInAt, null);
+
+// Later updates keep the route and the first check-in time.
+const finished = applyAttendanceUpdate(doc, "m1", { status: "finished" }, "2026-03-07T16:00:00.000Z");
+doc = finished.attendance;
+assert.deepEqual(finished.entry, {
+  memberId: "m1",
+  status: "finished",
+  routeGroupId: "SUC-034",
+  variant: "MED",
+  checkedInAt: "2026-03-07T14:00:00.000Z",
+  updatedAt: "2026-03-07T16:00:00.000Z",
+});
+({ attendance: doc } = applyAttendanceUpdate(
+  doc,
+  "m3",
+  { status: "dnf", notes: "Rolled ankle" },
+  "2026-03-07T16:30:00.000Z"
+));
+assert.equal(doc.updatedAt, "2026-03-07T16:30:00.000Z");
+assert.deepEqual(
+  doc.entries.map((entry) => entry.memberId),
+  ["m1", "m2", "m3"]
+);
+
+assert.deepEqual(summarizeAttendance(doc), {
+  eventId: "SUC-001",
+  participants: 2,
+  checkedIn: 0,
+  finished: 1,
+  dnf: 1,
+  dns: 1,
+  byVariant: { "SUC-034/MED": 1, "SUC-040/XL": 1 },
+});
+
+assert.equal(removeAttendanceEntry(doc, "nobody", "2026-03-08T00:00:00.000Z"), null);
+const removed = removeAttendanceEntry(doc, "m2", "2026-03-08T00:00:00.000Z");
+assert.deepEqual(
+  removed?.entries.map((entry) => entry.memberId),
+  ["m1", "m3"]
+);
+
+const other = applyAttendanceUpdate(
+  emptyAttendance("SUC-002", "2026-03-14T13:00:00.000Z"),
+  "m1",
+  {},
+  "2026-03-14T14:00:00.000Z"
+).attendance;
+const history = summarizeMemberAttendance([doc, other], "m1");
+assert.deepEqual(
+  history.events.map((item) => `${item.eventId} ${item.entry.status}`),
+  ["SUC-001 finished", "SUC-002 checked-in"]
+);
+assert.equal(history.participated, 2);
+assert.equal(history.finished, 1);
+assert.equal(summarizeMemberAttendance([doc, other], "m2").participated, 0);
+
+console.log("attendance tests passed");
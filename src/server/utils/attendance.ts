@@ -0,0 +1,193 @@
+import type {
+  AttendanceEntry,
+  AttendanceStatus,
+  AttendanceSummary,
+  EventAttendance,
+  RouteLabel,
+} from "../types.js";
+
+export const ATTENDANCE_STATUSES: AttendanceStatus[] = ["checked-in", "finished", "dnf", "dns"];
+
+/** Route groups an event offers, with their distances. */
+export type EventRouteOptions = Array<{ routeGroupId: string; variants: RouteLabel[] }>;
+
+/**
+ * A check-in change. Omitted fields keep their current value; null clears
+ * the route or variant.
+ */
+export interface AttendanceUpdate {
+  status?: AttendanceStatus;
+  routeGroupId?: string | null;
+  variant?: RouteLabel | null;
+  notes?: string;
+}
+
+export interface MemberAttendance {
+  memberId: string;
+  events: Array<{ eventId: string; entry: AttendanceEntry }>;
+  /** Events started: checked in, finished or DNF. */
+  participated: number;
+  finished: number;
+  dnf: number;
+  dns: number;
+}
+
+export function emptyAttendance(eventId: string, now: string): EventAttendance {
+  return { eventId, entries: [], updatedAt: now };
+}
+
+/**
+ * Validate a check-in from a request. The variant must be offered by one of
+ * the event's route groups; routeGroupId may be left out when only one
+ * group offers it.
+ */
+export function normalizeAttendanceUpdate(
+  raw: unknown,
+  routes: EventRouteOptions
+): AttendanceUpdate {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("Check-in must be an object.");
+  }
+  const input = raw as Record<string, unknown>;
+  const update: AttendanceUpdate = {};
+
+  if (input.status !== undefined) {
+    if (!ATTENDANCE_STATUSES.includes(input.status as AttendanceStatus)) {
+      throw new Error(`status must be one of ${ATTENDANCE_STATUSES.join(", ")}.`);
+    }
+    update.status = input.status as AttendanceStatus;
+  }
+
+  let group: EventRouteOptions[number] | undefined;
+  if (input.routeGroupId !== undefined && input.routeGroupId !== null) {
+    group = routes.find((route) => route.routeGroupId === input.routeGroupId);
+    if (!group) {
+      throw new Error(`Route ${String(input.routeGroupId)} is not part of this event.`);
+    }
+    update.routeGroupId = group.routeGroupId;
+  } else if (input.routeGroupId === null) {
+    update.routeGroupId = null;
+  }
+
+  if (input.variant === null) {
+    update.variant = null;
+    if (input.routeGroupId === undefined) update.routeGroupId = null;
+  } else if (input.variant !== undefined) {
+    const variant = String(input.variant) as RouteLabel;
+    if (group) {
+      if (!group.variants.includes(variant)) {
+        throw new Error(`Route ${group.routeGroupId} has no ${variant} variant.`);
+      }
+    } else {
+      const offering = routes.filter((route) => route.variants.includes(variant));
+      if (offering.length === 0) {
+        throw new Error(`Variant ${variant} is not offered by this event.`);
+      }
+      if (offering.length > 1) {
+        throw new Error(`Variant ${variant} is offered by several routes; pass routeGroupId.`);
+      }
+      update.routeGroupId = offering[0].routeGroupId;
+    }
+    update.variant = variant;
+  }
+
+  if (input.notes !== undefined) {
+    if (typeof input.notes !== "string") {
+      throw new Error("notes must be a string.");
+    }
+    update.notes = input.notes.trim();
+  }
+
+  return update;
+}
+
+/**
+ * Create or update a member's entry. New entries default to "checked-in";
+ * checkedInAt records the first time the member started and is cleared for DNS.
+ */
+export function applyAttendanceUpdate(
+  attendance: EventAttendance,
+  memberId: string,
+  update: AttendanceUpdate,
+  now: string
+): { attendance: EventAttendance; entry: AttendanceEntry } {
+  const existing = attendance.entries.find((entry) => entry.memberId === memberId);
+  const status = update.status ?? existing?.status ?? "checked-in";
+  const notes = update.notes !== undefined ? update.notes : existing?.notes;
+  const entry: AttendanceEntry = {
+    memberId,
+    status,
+    routeGroupId:
+      update.routeGroupId !== undefined ? update.routeGroupId : existing?.routeGroupId ?? null,
+    variant: update.variant !== undefined ? update.variant : existing?.variant ?? null,
+    checkedInAt: status === "dns" ? null : existing?.checkedInAt ?? now,
+    updatedAt: now,
+    ...(notes ? { notes } : {}),
+  };
+
+  const entries = existing
+    ? attendance.entries.map((item) => (item.memberId === memberId ? entry : item))
+    : [...attendance.entries, entry];
+  return { attendance: { ...attendance, entries, updatedAt: now }, entry };
+}
+
+/**
+ * Drop a member's entry. Returns null when the member was not on the list.
+ */
+export function removeAttendanceEntry(
+  attendance: EventAttendance,
+  memberId: string,
+  now: string
+): EventAttendance | null {
+  const entries = attendance.entries.filter((entry) => entry.memberId !== memberId);
+  if (entries.length === attendance.entries.length) return null;
+  return { ...attendance, entries, updatedAt: now };
+}
+
+function countStatuses(entries: AttendanceEntry[]): Record<AttendanceStatus, number> {
+  const counts: Record<AttendanceStatus, number> = { "checked-in": 0, finished: 0, dnf: 0, dns: 0 };
+  for (const entry of entries) counts[entry.status] += 1;
+  return counts;
+}
+
+export function summarizeAttendance(attendance: EventAttendance): AttendanceSummary {
+  const counts = countStatuses(attendance.entries);
+  const byVariant: Record<string, number> = {};
+  for (const entry of attendance.entries) {
+    if (entry.status === "dns" || !entry.routeGroupId || !entry.variant) continue;
+    const key = `${entry.routeGroupId}/${entry.variant}`;
+    byVariant[key] = (byVariant[key] ?? 0) + 1;
+  }
+  return {
+    eventId: attendance.eventId,
+    participants: counts["checked-in"] + counts.finished + counts.dnf,
+    checkedIn: counts["checked-in"],
+    finished: counts.finished,
+    dnf: counts.dnf,
+    dns: counts.dns,
+    byVariant,
+  };
+}
+
+/**
+ * One member's history across events, e.g. for challenge participation.
+ */
+export function summarizeMemberAttendance(
+  docs: EventAttendance[],
+  memberId: string
+): MemberAttendance {
+  const events = docs.flatMap((doc) =>
+    doc.entries
+      .filter((entry) => entry.memberId === memberId)
+      .map((entry) => ({ eventId: doc.eventId, entry }))
+  );
+  const counts = countStatuses(events.map((item) => item.entry));
+  return {
+    memberId,
+    events,
+    participated: counts["checked-in"] + counts.finished + counts.dnf,
+    finished: counts.finished,
+    dnf: counts.dnf,
+    dns: counts.dns,
+  };
+}
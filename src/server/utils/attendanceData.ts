@@ -0,0 +1,69 @@
+import fs from "fs/promises";
+import path from "path";
+import { ATTENDANCE_ROOT } from "./paths.js";
+import { emptyAttendance } from "./attendance.js";
+import { assertCanonical } from "./schemaValidation.js";
+import { updateJson } from "./storage.js";
+import type { EventAttendance } from "../types.js";
+
+const EVENT_ID = /^[A-Za-z0-9][A-Za-z0-9_.-]*$/;
+
+async function ensureAttendanceRoot(): Promise<void> {
+  await fs.mkdir(ATTENDANCE_ROOT, { recursive: true });
+}
+
+function resolveAttendancePath(eventId: string): string {
+  if (!EVENT_ID.test(eventId) || eventId.includes("..")) {
+    throw new Error(`Invalid eventId: ${eventId}`);
+  }
+  return path.join(ATTENDANCE_ROOT, `${eventId}.json`);
+}
+
+export async function listAttendance(): Promise<EventAttendance[]> {
+  await ensureAttendanceRoot();
+  const entries = await fs.readdir(ATTENDANCE_ROOT, { withFileTypes: true });
+  const files = entries
+    .filter((entry) => entry.isFile() && entry.name.endsWith(".json"))
+    .map((entry) => entry.name)
+    .sort((a, b) => a.localeCompare(b));
+
+  const items: EventAttendance[] = [];
+  for (const file of files) {
+    const raw = await fs.readFile(path.join(ATTENDANCE_ROOT, file), "utf8");
+    items.push(JSON.parse(raw) as EventAttendance);
+  }
+  return items;
+}
+
+/**
+ * Attendance for an event, or null when nobody has been checked in yet.
+ */
+export async function readAttendance(eventId: string): Promise<EventAttendance | null> {
+  const filePath = resolveAttendancePath(eventId);
+  try {
+    const raw = await fs.readFile(filePath, "utf8");
+    return JSON.parse(raw) as EventAttendance;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/**
+ * Read, change and write one event's attendance. `mutate` returns the new doc,
+ * or null to leave the file untouched. Check-ins arrive in quick bursts, so
+ * updates to one event run one at a time.
+ */
+export async function updateAttendance<T>(
+  eventId: string,
+  mutate: (doc: EventAttendance) => { attendance: EventAttendance | null; result: T }
+): Promise<T> {
+  let result!: T;
+  await updateJson<EventAttendance | null>(resolveAttendancePath(eventId), null, (current) => {
+    const outcome = mutate(current ?? emptyAttendance(eventId, new Date().toISOString()));
+    if (outcome.attendance) assertCanonical("attendance", outcome.attendance, current ?? undefined);
+    result = outcome.result;
+    return outcome.attendance;
+  });
+  return result;
+}
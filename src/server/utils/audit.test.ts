@@ -0,0 +1,256 @@
+import assert from "assert/strict";
+import {
+  MAX_RECORDED_CHANGES,
+  buildAuditEntries,
+  diffFields,
+  filterAuditEntries,
+  parseAuditQuery,
+  type AuditContext,
+} from "./audit";
+import { revisionOf } from "./storage";
+import type { AuditEntry } from "../types";
+
+let counter = 0;
+const context: AuditContext = {
+  at: "2026-10-08T18:00:00.000Z",
+  actor: "sam",
+  request: "PUT /api/roster",
+  newId: () => `a-${++counter}`,
+};
+const json = (value: unknown) => Buffer.from(JSON.stringify(value, null, 2));
+
+// Field paths and scalar values.
+assert.deepEqual(
+  diffFields(
+    { name: "Threshold", tiers: { MED: { reps: 4 } }, focus: ["tempo"], notes: "x" },
+    { name: "Threshold 40", tiers: { MED: { reps: 5 } }, focus: ["tempo", "hills"] }
+  ),
+  [
+    { field: "name", change: "changed", before: "Threshold", after: "Threshold 40" },
+    { field: "tiers.MED.reps", change: "changed", before: 4, after: 5 },
+    { field: "focus[1]", change: "added", after: "hills" },
+    { field: "notes", change: "removed", before: "x" },
+  ]
+);
+assert.deepEqual(diffFields({ a: { b: 1 } }, { a: null }), [
+  { field: "a", change: "changed", after: null },
+]);
+assert.equal(
+  (diffFields("a", "b".repeat(200))[0].after as string).length,
+  80,
+  "long strings are shortened"
+);
+
+// Collection files: one entry per changed item, keyed by id.
+const sam = { id: "m-1", name: "Sam", tier: "MED" };
+const alex = { id: "m-2", name: "Alex", tier: "LRG" };
+const roster = buildAuditEntries(
+  {
+    file: "roster/roster.json",
+    before: json([sam, alex]),
+    after: json([{ ...sam, tier: "LRG" }, { id: "m-3", name: "Kai", tier: "XL" }]),
+  },
+  context
+);
+assert.deepEqual(
+  roster.map(({ entityType, entityId, action, changes }) => ({ entityType, entityId, action, changes })),
+  [
+    {
+      entityType: "roster-member",
+      entityId: "m-1",
+      action: "update",
+      changes: [{ field: "tier", change: "changed", before: "MED", after: "LRG" }],
+    },
+    {
+      entityType: "roster-member",
+      entityId: "m-3",
+      action: "create",
+      changes: [
+        { field: "id", change: "added", after: "m-3" },
+        { field: "name", change: "added", after: "Kai" },
+        { field: "tier", change: "added", after: "XL" },
+      ],
+    },
+    {
+      entityType: "roster-member",
+      entityId: "m-2",
+      action: "delete",
+      changes: [
+        { field: "id", change: "removed", before: "m-2" },
+        { field: "name", change: "removed", before: "Alex" },
+        { field: "tier", change: "removed", before: "LRG" },
+      ],
+    },
+  ]
+);
+assert.deepEqual(roster[0], {
+  id: "a-1",
+  at: context.at,
+  actor: "sam",
+  request: "PUT /api/roster",
+  file: "roster/roster.json",
+  entityType: "roster-member",
+  entityId: "m-1",
+  action: "update",
+  beforeHash: revisionOf(sam),
+  afterHash: revisionOf({ ...sam, tier: "LRG" }),
+  changes: roster[0].changes,
+  changeCount: 1,
+});
+assert.equal(roster[1].beforeHash, null);
+assert.equal(roster[2].afterHash, null);
+
+// Changes beside the collection get a file entry; timestamps alone do not.
+const event = { event_id: "SUC-RUN-01", event_name: "Crew run", updated_at: "2026-10-01" };
+const events = buildAuditEntries(
+  {
+    file: "events/events.master.json",
+    before: json({ version: 1, events: [event] }),
+    after: json({ version: 1, events: [{ ...event, event_name: "Crew run!" }], series: [] }),
+  },
+  context
+);
+assert.deepEqual(
+  events.map((entry) => [entry.entityType, entry.entityId, entry.action, entry.changeCount]),
+  [
+    ["events-master", "events", "update", 1],
+    ["event", "SUC-RUN-01", "update", 1],
+  ]
+);
+const checkIns = buildAuditEntries(
+  {
+    file: "attendance/SUC-RUN-01.json",
+    before: json({ eventId: "SUC-RUN-01", entries: [], updatedAt: "a" }),
+    after: json({
+      eventId: "SUC-RUN-01",
+      entries: [{ memberId: "m-1", status: "checked-in" }],
+      updatedAt: "b",
+    }),
+  },
+  context
+);
+assert.deepEqual(
+  checkIns.map((entry) => [entry.entityType, entry.entityId, entry.action]),
+  [["check-in", "SUC-RUN-01/m-1", "create"]]
+);
+
+// Workouts are keyed by id and version; an empty new file is still logged.
+const workouts = buildAuditEntries(
+  {
+    file: "workouts/workouts.master.json",
+    before: null,
+    after: json({ version: 1, workouts: [{ workoutId: "hills", version: 0 }] }),
+  },
+  context
+);
+assert.deepEqual(
+  workouts.map((entry) => [entry.entityType, entry.entityId, entry.action]),
+  [
+    ["workouts-master", "workouts", "create"],
+    ["workout", "hills@0", "create"],
+  ]
+);
+assert.deepEqual(
+  buildAuditEntries({ file: "data/challenges.json", before: null, after: json([]) }, context).map(
+    (entry) => [entry.entityType, entry.action, entry.changeCount]
+  ),
+  [["challenges", "create", 0]]
+);
+
+// Non-JSON files are hashed; history snapshots are skipped.
+const gpx = buildAuditEntries(
+  {
+    file: "routes/SUC-034/SUC-034-MED.gpx",
+    before: Buffer.from("<gpx>1</gpx>"),
+    after: Buffer.from("<gpx>2</gpx>"),
+  },
+  context
+);
+assert.deepEqual(
+  gpx.map(({ entityType, entityId, action, changes, beforeHash, afterHash }) => ({
+    entityType,
+    entityId,
+    action,
+    changes,
+    hashed: Boolean(beforeHash && afterHash && beforeHash !== afterHash),
+  })),
+  [
+    {
+      entityType: "route-variant",
+      entityId: "SUC-034/MED",
+      action: "update",
+      changes: [{ field: "content", change: "changed" }],
+      hashed: true,
+    },
+  ]
+);
+assert.deepEqual(
+  buildAuditEntries(
+    { file: "routes/SUC-034/.history/r-0001/route.meta.json", before: null, after: json({}) },
+    context
+  ),
+  []
+);
+const deletedMeta = buildAuditEntries(
+  { file: "routes/SUC-034/route.meta.json", before: json({ name: "Loop" }), after: null },
+  context
+);
+assert.deepEqual(
+  deletedMeta.map((entry) => [entry.entityType, entry.entityId, entry.action]),
+  [["route-group", "SUC-034", "delete"]]
+);
+
+// Long diffs keep the first changes and the full count.
+const big = buildAuditEntries(
+  {
+    file: "route-intel/SUC-034.json",
+    before: json({ id: "SUC-034", values: Array(30).fill(0) }),
+    after: json({ id: "SUC-034", values: Array(30).fill(1) }),
+  },
+  context
+)[0];
+assert.equal(big.changes.length, MAX_RECORDED_CHANGES);
+assert.equal(big.changeCount, 30);
+
+// Query parsing.
+assert.deepEqual(parseAuditQuery({ entityType: "event", action: "update", limit: "50" }), {
+  entityType: "event",
+  action: "update",
+  limit: 50,
+});
+assert.equal(parseAuditQuery({ action: "rename" }), "action must be one of create, update, delete");
+assert.equal(
+  parseAuditQuery({ from: "last week" }),
+  "from must be a date (YYYY-MM-DD) or ISO timestamp"
+);
+assert.equal(parseAuditQuery({ limit: "0" }), "limit must be a whole number from 1 to 1000");
+
+// Filtering: newest first, date bounds inclusive, ids match nested entities.
+const log = (at: string, entityType: string, entityId: string, action = "update"): AuditEntry =>
+  ({ ...roster[0], at, entityType, entityId, action }) as AuditEntry;
+const entries = [
+  log("2026-10-01T10:00:00.000Z", "route-group", "SUC-034"),
+  log("2026-10-02T10:00:00.000Z", "route-variant", "SUC-034/MED", "create"),
+  log("2026-10-02T10:00:00.000Z", "route-poi", "SUC-034/aid-1"),
+  log("2026-10-03T23:59:00.000Z", "event", "SUC-RUN-01"),
+  log("2026-10-04T00:00:00.000Z", "workout", "SUC-0341@0"),
+];
+const ids = (result: { entries: AuditEntry[] }) => result.entries.map((entry) => entry.entityId);
+assert.deepEqual(ids(filterAuditEntries(entries, { entityId: "SUC-034" })), [
+  "SUC-034/aid-1",
+  "SUC-034/MED",
+  "SUC-034",
+]);
+assert.deepEqual(ids(filterAuditEntries(entries, { from: "2026-10-02", to: "2026-10-03" })), [
+  "SUC-RUN-01",
+  "SUC-034/aid-1",
+  "SUC-034/MED",
+]);
+assert.deepEqual(ids(filterAuditEntries(entries, { action: "create" })), ["SUC-034/MED"]);
+assert.deepEqual(filterAuditEntries(entries, { entityType: "route-poi", limit: 1 }).total, 1);
+assert.deepEqual(
+  filterAuditEntries(entries, { limit: 2 }),
+  { entries: [entries[4], entries[3]], total: 5 }
+);
+
+console.log("audit tests passed");
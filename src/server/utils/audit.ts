@@ -0,0 +1,407 @@
+import { revisionOf } from "./storage.js";
+import type { AuditAction, AuditEntry, AuditFieldChange, AuditQuery } from "../types.js";
+
+/** Changes kept per entry; the rest only count towards `changeCount`. */
+export const MAX_RECORDED_CHANGES = 20;
+
+export const AUDIT_ACTIONS: AuditAction[] = ["create", "update", "delete"];
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+const MAX_VALUE_LENGTH = 80;
+
+// Bumped on every save; a change to these alone is not worth an entry.
+const TIMESTAMP_FIELDS = new Set(["updatedAt", "updated_at"]);
+
+type EntityRule = {
+  pattern: RegExp;
+  /** Type of the file itself. Null for files the log skips. */
+  entityType: string | null;
+  entityId?: (match: RegExpMatchArray) => string;
+  /** Collections inside the file are logged item by item. */
+  items?: {
+    entityType: string;
+    /** Property holding the array; omitted when the file is the array. */
+    key?: string;
+    id: (item: any, match: RegExpMatchArray) => string | undefined;
+  };
+};
+
+const byField =
+  (field: string) =>
+  (item: any): string | undefined =>
+    typeof item?.[field] === "string" && item[field] ? item[field] : undefined;
+
+function contentRule(dir: string, entityType: string): EntityRule {
+  return {
+    pattern: new RegExp(`^${dir}/${dir}\\.master\\.json$`),
+    entityType: `${dir}-master`,
+    entityId: () => dir,
+    items: { entityType, key: "items", id: byField("id") },
+  };
+}
+
+/**
+ * What each file under suc-shared-data holds, matched on its path.
+ */
+const ENTITY_RULES: EntityRule[] = [
+  { pattern: /^routes\/[^/]+\/\.history\//, entityType: null },
+  {
+    pattern: /^events\/events\.master\.json$/,
+    entityType: "events-master",
+    entityId: () => "events",
+    items: { entityType: "event", key: "events", id: byField("event_id") },
+  },
+  {
+    pattern: /^events\/events\.selection\.json$/,
+    entityType: "events-selection",
+    entityId: () => "selection",
+  },
+  {
+    pattern: /^workouts\/workouts\.master\.json$/,
+    entityType: "workouts-master",
+    entityId: () => "workouts",
+    items: {
+      entityType: "workout",
+      key: "workouts",
+      // Drafts (version 0) and published versions share a workoutId.
+      id: (item) =>
+        typeof item?.workoutId === "string" ? `${item.workoutId}@${item.version ?? 0}` : undefined,
+    },
+  },
+  {
+    pattern: /^workouts\/workout\.(draft|published)\.json$/,
+    entityType: "workout-file",
+    entityId: (m) => m[1],
+  },
+  {
+    pattern: /^routes\/([^/]+)\/route\.meta\.json$/,
+    entityType: "route-group",
+    entityId: (m) => m[1],
+  },
+  {
+    pattern: /^routes\/([^/]+)\/route\.pois\.json$/,
+    entityType: "route-pois",
+    entityId: (m) => m[1],
+    items: {
+      entityType: "route-poi",
+      key: "pois",
+      id: (item, m) => byField("id")(item) && `${m[1]}/${item.id}`,
+    },
+  },
+  {
+    pattern: /^routes\/([^/]+)\/source\/([^/.]+)\.[^/]+$/,
+    entityType: "route-source",
+    entityId: (m) => `${m[1]}/${m[2]}`,
+  },
+  {
+    pattern: /^routes\/([^/]+)\/(?:variants\/)?(?:\1-)?([^/.]+)\.gpx$/,
+    entityType: "route-variant",
+    entityId: (m) => `${m[1]}/${m[2]}`,
+  },
+  { pattern: /^route-intel\/(.+)\.json$/, entityType: "route-intel", entityId: (m) => m[1] },
+  { pattern: /^route-media\/(.+)\.json$/, entityType: "route-media", entityId: (m) => m[1] },
+  {
+    pattern: /^roster\/roster\.json$/,
+    entityType: "roster",
+    entityId: () => "roster",
+    items: { entityType: "roster-member", id: byField("id") },
+  },
+  {
+    pattern: /^attendance\/(.+)\.json$/,
+    entityType: "attendance",
+    entityId: (m) => m[1],
+    items: {
+      entityType: "check-in",
+      key: "entries",
+      id: (item, m) => byField("memberId")(item) && `${m[1]}/${item.memberId}`,
+    },
+  },
+  ...(["season", "block", "week", "challenge"] as const).map(
+    (type): EntityRule => ({
+      pattern: new RegExp(`^data/${type}s\\.json$`),
+      entityType: `${type}s`,
+      entityId: () => `${type}s`,
+      items: { entityType: type, id: byField("id") },
+    })
+  ),
+  {
+    pattern: /^seasons\/season\.(draft|published)\.json$/,
+    entityType: "season-plan",
+    entityId: (m) => m[1],
+  },
+  contentRule("training-content", "training-content"),
+  contentRule("footwear-reviews", "footwear-review"),
+  contentRule("gear-reviews", "gear-review"),
+  contentRule("race-recaps", "race-recap"),
+  contentRule("crew-run-recaps", "crew-run-recap"),
+  {
+    pattern: /^drafts\/([^/]+)\/(.+)\.json$/,
+    entityType: "draft",
+    entityId: (m) => `${m[1]}/${m[2]}`,
+  },
+];
+
+function resolveRule(file: string): { rule: EntityRule; match: RegExpMatchArray } {
+  for (const rule of ENTITY_RULES) {
+    const match = file.match(rule.pattern);
+    if (match) return { rule, match };
+  }
+  // Anything else is logged by its top-level directory and path.
+  const match =
+    file.match(/^([^/]+)\/(.+?)(?:\.[^./]+)?$/) ?? ([file, "file", file] as RegExpMatchArray);
+  return { rule: { pattern: /$/, entityType: match[1], entityId: (m) => m[2] }, match };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function scalar(value: unknown): AuditFieldChange["before"] | undefined {
+  if (value === null || typeof value === "number" || typeof value === "boolean") return value;
+  if (typeof value === "string") {
+    return value.length > MAX_VALUE_LENGTH ? `${value.slice(0, MAX_VALUE_LENGTH - 1)}…` : value;
+  }
+  return undefined;
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === "number") return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+/**
+ * Every changed leaf between two JSON values. Whole objects that appear or
+ * disappear are one change at their own path.
+ */
+export function diffFields(before: unknown, after: unknown, base = ""): AuditFieldChange[] {
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  const field = base || "(root)";
+  if (before === undefined) {
+    return [{ field, change: "added", ...withValue("after", after) }];
+  }
+  if (after === undefined) {
+    return [{ field, change: "removed", ...withValue("before", before) }];
+  }
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].flatMap((key) => diffFields(before[key], after[key], joinPath(base, key)));
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    return Array.from({ length }, (_, index) =>
+      diffFields(before[index], after[index], joinPath(base, index))
+    ).flat();
+  }
+  return [
+    { field, change: "changed", ...withValue("before", before), ...withValue("after", after) },
+  ];
+}
+
+function withValue(key: "before" | "after", value: unknown): Partial<AuditFieldChange> {
+  const shown = scalar(value);
+  return shown === undefined ? {} : { [key]: shown };
+}
+
+function emptyLike(value: unknown): unknown {
+  if (Array.isArray(value)) return [];
+  if (isPlainObject(value)) return {};
+  return undefined;
+}
+
+/** A created or deleted entity lists its top-level fields. */
+function entityChanges(before: unknown, after: unknown): AuditFieldChange[] {
+  return diffFields(before ?? emptyLike(after), after ?? emptyLike(before));
+}
+
+function actionFor(before: unknown, after: unknown): AuditAction {
+  if (before === undefined) return "create";
+  if (after === undefined) return "delete";
+  return "update";
+}
+
+function hashOf(value: unknown): string | null {
+  return value === undefined ? null : revisionOf(value);
+}
+
+function parseContent(content: Buffer | null): { json: boolean; value: unknown } {
+  if (content === null) return { json: true, value: undefined };
+  const text = content.toString("utf8");
+  try {
+    return { json: true, value: JSON.parse(text) };
+  } catch {
+    return { json: false, value: text };
+  }
+}
+
+export type AuditContext = {
+  at: string;
+  actor: string;
+  request?: string;
+  newId: () => string;
+};
+
+/**
+ * Audit entries for one file change: one per changed item for collection
+ * files (events, roster members, POIs, …), otherwise one for the file.
+ * `file` is the path under suc-shared-data with forward slashes.
+ */
+export function buildAuditEntries(
+  change: { file: string; before: Buffer | null; after: Buffer | null },
+  context: AuditContext
+): AuditEntry[] {
+  const { rule, match } = resolveRule(change.file);
+  if (!rule.entityType) return [];
+  const before = parseContent(change.before);
+  const after = parseContent(change.after);
+
+  const entry = (
+    entityType: string,
+    entityId: string,
+    previous: unknown,
+    next: unknown,
+    changes: AuditFieldChange[]
+  ): AuditEntry => ({
+    id: context.newId(),
+    at: context.at,
+    actor: context.actor,
+    ...(context.request ? { request: context.request } : {}),
+    file: change.file,
+    entityType,
+    entityId,
+    action: actionFor(previous, next),
+    beforeHash: hashOf(previous),
+    afterHash: hashOf(next),
+    changes: changes.slice(0, MAX_RECORDED_CHANGES),
+    changeCount: changes.length,
+  });
+
+  const fileEntityId = rule.entityId ? rule.entityId(match) : change.file;
+  if (!before.json || !after.json) {
+    const changes: AuditFieldChange[] =
+      before.value !== undefined && after.value !== undefined
+        ? [{ field: "content", change: "changed" }]
+        : [];
+    return [entry(rule.entityType, fileEntityId, before.value, after.value, changes)];
+  }
+
+  const items = rule.items;
+  if (!items) {
+    return [
+      entry(
+        rule.entityType,
+        fileEntityId,
+        before.value,
+        after.value,
+        entityChanges(before.value, after.value)
+      ),
+    ];
+  }
+
+  const select = (doc: unknown): unknown[] => {
+    const list = items.key ? (isPlainObject(doc) ? doc[items.key] : undefined) : doc;
+    return Array.isArray(list) ? list : [];
+  };
+  const keyed = (list: unknown[]) =>
+    new Map(
+      list.map((item, index) => [items.id(item, match) ?? `${fileEntityId}[${index}]`, item])
+    );
+  const previousItems = keyed(select(before.value));
+  const nextItems = keyed(select(after.value));
+
+  const entries: AuditEntry[] = [];
+  for (const id of new Set([...nextItems.keys(), ...previousItems.keys()])) {
+    const previous = previousItems.get(id);
+    const next = nextItems.get(id);
+    const changes = entityChanges(previous, next);
+    if (changes.length > 0) entries.push(entry(items.entityType, id, previous, next, changes));
+  }
+
+  // Whatever sits beside the collection (event series, versions, …).
+  const rest = (doc: unknown) => {
+    if (!items.key || !isPlainObject(doc)) return doc === undefined ? undefined : {};
+    const { [items.key]: _items, ...others } = doc;
+    return others;
+  };
+  const restChanges = entityChanges(rest(before.value), rest(after.value)).filter(
+    (fieldChange) => !TIMESTAMP_FIELDS.has(fieldChange.field)
+  );
+  const fileAction = actionFor(before.value, after.value);
+  if (restChanges.length > 0 || (entries.length === 0 && fileAction !== "update")) {
+    entries.unshift(entry(rule.entityType, fileEntityId, before.value, after.value, restChanges));
+  }
+  return entries;
+}
+
+function parseBound(value: string, endOfDay: boolean): number {
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const time = Date.parse(dateOnly ? `${value}T00:00:00.000Z` : value);
+  return dateOnly && endOfDay ? time + 24 * 60 * 60 * 1000 - 1 : time;
+}
+
+/**
+ * Validate GET /api/audit query parameters. Returns an error message for bad input.
+ */
+export function parseAuditQuery(raw: Record<string, unknown>): AuditQuery | string {
+  const text = (key: string) =>
+    typeof raw[key] === "string" && raw[key] ? String(raw[key]) : undefined;
+  const query: AuditQuery = {};
+  const entityType = text("entityType");
+  const entityId = text("entityId");
+  if (entityType) query.entityType = entityType;
+  if (entityId) query.entityId = entityId;
+
+  const action = text("action");
+  if (action) {
+    if (!AUDIT_ACTIONS.includes(action as AuditAction)) {
+      return `action must be one of ${AUDIT_ACTIONS.join(", ")}`;
+    }
+    query.action = action as AuditAction;
+  }
+  for (const key of ["from", "to"] as const) {
+    const value = text(key);
+    if (!value) continue;
+    if (Number.isNaN(parseBound(value, false))) {
+      return `${key} must be a date (YYYY-MM-DD) or ISO timestamp`;
+    }
+    query[key] = value;
+  }
+  const limit = text("limit");
+  if (limit) {
+    const parsed = Number(limit);
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_LIMIT) {
+      return `limit must be a whole number from 1 to ${MAX_LIMIT}`;
+    }
+    query.limit = parsed;
+  }
+  return query;
+}
+
+/**
+ * Newest first. An entityId also matches the entities inside it, so
+ * `SUC-034` finds the route group, its variants and its POIs.
+ */
+export function filterAuditEntries(
+  entries: AuditEntry[],
+  query: AuditQuery
+): { entries: AuditEntry[]; total: number } {
+  const from = query.from ? parseBound(query.from, false) : -Infinity;
+  const to = query.to ? parseBound(query.to, true) : Infinity;
+  const matching = entries.filter((entry) => {
+    if (query.entityType && entry.entityType !== query.entityType) return false;
+    if (
+      query.entityId &&
+      entry.entityId !== query.entityId &&
+      !entry.entityId.startsWith(`${query.entityId}/`) &&
+      !entry.entityId.startsWith(`${query.entityId}@`)
+    ) {
+      return false;
+    }
+    if (query.action && entry.action !== query.action) return false;
+    const at = Date.parse(entry.at);
+    return at >= from && at <= to;
+  });
+  // The log is in write order; reversing first keeps same-instant entries newest first.
+  matching.reverse().sort((a, b) => b.at.localeCompare(a.at));
+  return { entries: matching.slice(0, query.limit ?? DEFAULT_LIMIT), total: matching.length };
+}
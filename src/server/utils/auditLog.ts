@@ -0,0 +1,86 @@
+import fs from "fs";
+import path from "path";
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import type express from "express";
+import { AUDIT_LOG_PATH, SHARED_DATA_ROOT } from "./paths.js";
+import { buildAuditEntries, filterAuditEntries } from "./audit.js";
+import { onFileChange, type FileChange } from "./storage.js";
+import type { AuditEntry, AuditQuery } from "../types.js";
+
+type RequestContext = { actor: string; request: string };
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Remember who made the current API request, so writes it triggers are
+ * attributed to them. Clients name themselves with X-Studio-User.
+ */
+export function auditRequestContext(
+  req: express.Request,
+  _res: express.Response,
+  next: express.NextFunction
+): void {
+  const actor = req.get("X-Studio-User")?.trim() || req.ip || "unknown";
+  const request = `${req.method} ${req.originalUrl.split("?")[0]}`;
+  requestContext.run({ actor, request }, next);
+}
+
+function appendAuditEntries(entries: AuditEntry[]): void {
+  if (entries.length === 0) return;
+  fs.mkdirSync(path.dirname(AUDIT_LOG_PATH), { recursive: true });
+  fs.appendFileSync(
+    AUDIT_LOG_PATH,
+    entries.map((entry) => `${JSON.stringify(entry)}\n`).join(""),
+    "utf8"
+  );
+}
+
+function recordFileChange(change: FileChange): void {
+  const file = path.relative(SHARED_DATA_ROOT, change.filePath).split(path.sep).join("/");
+  if (file.startsWith("../") || path.isAbsolute(file)) return;
+  const context = requestContext.getStore();
+  appendAuditEntries(
+    buildAuditEntries(
+      { file, before: change.before, after: change.after },
+      {
+        at: new Date().toISOString(),
+        actor: context?.actor ?? "server",
+        request: context?.request,
+        newId: randomUUID,
+      }
+    )
+  );
+}
+
+/**
+ * Log every change made through the storage module to
+ * suc-shared-data/audit/audit.log.jsonl. Call once at startup.
+ */
+export function installAuditLog(): () => void {
+  return onFileChange(recordFileChange);
+}
+
+/**
+ * Entries matching `query`, newest first. Lines that do not parse are skipped.
+ */
+export async function readAuditLog(
+  query: AuditQuery
+): Promise<{ entries: AuditEntry[]; total: number }> {
+  let raw = "";
+  try {
+    raw = await fs.promises.readFile(AUDIT_LOG_PATH, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+  const entries: AuditEntry[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as AuditEntry);
+    } catch {
+      // A line cut short by a crash; the rest of the log is still good.
+    }
+  }
+  return filterAuditEntries(entries, query);
+}
@@ -0,0 +1,127 @@
+import assert from "assert/strict";
+import {
+  buildEventEntries,
+  buildSeasonWeekEntries,
+  escapeIcsText,
+  foldIcsLine,
+  parseEventTime,
+  renderCalendar,
+  type CalendarRouteGroup,
+} from "./calendarFeed";
+import type { Event } from "../types";
+import type { Season } from "../season-builder/types";
+
+assert.equal(parseEventTime("7:45 PM"), "19:45");
+assert.equal(parseEventTime("6pm"), "18:00");
+assert.equal(parseEventTime("12:15 am"), "00:15");
+assert.equal(parseEventTime("18:30"), "18:30");
+assert.equal(parseEventTime("7"), null, "bare hours are ambiguous");
+assert.equal(parseEventTime("sunrise"), null);
+
+assert.equal(
+  escapeIcsText("Hills; water, snacks\nBring a light"),
+  "Hills\\; water\\, snacks\\nBring a light"
+);
+
+const long = `DESCRIPTION:${"é".repeat(60)}`;
+const folded = foldIcsLine(long).split("\r\n");
+assert(folded.length > 1);
+assert(folded.every((line) => Buffer.byteLength(line, "utf8") <= 75), "lines fit in 75 octets");
+assert.equal(folded.map((line, index) => (index === 0 ? line : line.slice(1))).join(""), long);
+
+const events: Event[] = [
+  {
+    eventId: "SUC-037",
+    eventName: "Tuesday Crew Run",
+    eventDescription: "Easy loop",
+    eventDate: "2026-03-03",
+    eventTime: "6:00 PM",
+    type: "crew-run",
+    startLocationName: "Southside Park",
+    startLocationUrl: "https://maps.example.com/?q=southside",
+    startLocationCoordinates: { lat: 38.5705, lng: -121.5 },
+    routeGroupIds: ["SUC-001"],
+  },
+  {
+    eventId: "SUC-038",
+    eventName: "Undated",
+    eventDescription: "",
+    routeGroupIds: [],
+  },
+  {
+    eventId: "SUC-039",
+    eventName: "Camp",
+    eventDescription: "",
+    eventDate: "2026-03-07",
+    eventTime: "TBD",
+    startLocationCoordinates: { lat: 0, lng: 0 },
+    routeGroupIds: [],
+  },
+];
+const routeGroups = new Map<string, CalendarRouteGroup>([
+  [
+    "SUC-001",
+    {
+      routeGroupId: "SUC-001",
+      name: "River Loop",
+      variants: [
+        { label: "MED", distanceMi: 4.04, elevationFt: 120.4 },
+        { label: "LRG", distanceMi: 6.5, elevationFt: 210 },
+      ],
+    },
+  ],
+]);
+
+const entries = buildEventEntries(events, routeGroups);
+assert.deepEqual(
+  entries.map((entry) => entry.uid),
+  ["SUC-037@suc-studio", "SUC-039@suc-studio"]
+);
+assert.equal(entries[0].time, "18:00");
+assert.equal(entries[1].time, undefined, "unparseable times become all-day");
+assert.equal(entries[1].geo, undefined, "0,0 is not a location");
+
+const ics = renderCalendar("SUC Events", entries, {
+  timezone: "America/Los_Angeles",
+  now: new Date("2026-02-01T12:00:00Z"),
+});
+const unfolded = ics.replace(/\r\n /g, "");
+assert(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n"));
+assert(ics.endsWith("END:VCALENDAR\r\n"));
+assert(!/[^\r]\n/.test(ics), "all line breaks are CRLF");
+assert(unfolded.includes("DTSTAMP:20260201T120000Z"));
+assert(unfolded.includes("DTSTART:20260303T180000\r\nDTEND:20260303T200000"));
+assert(unfolded.includes("DTSTART;VALUE=DATE:20260307\r\nDTEND;VALUE=DATE:20260308"));
+assert(unfolded.includes("GEO:38.570500;-121.500000"));
+assert(unfolded.includes("LOCATION:Southside Park"));
+assert(unfolded.includes("Routes:\\n- SUC-001 River Loop: MED 4.0 mi / 120 ft\\, LRG 6.5 mi / 210 ft"));
+
+const season: Season = {
+  seasonId: "2026-spring",
+  status: "published",
+  startDate: "2026-03-04",
+  seasonMarkers: [{ markerId: "m1", label: "Season Start", weekIndex: 1 }],
+  blocks: [
+    {
+      blockId: "b1",
+      name: "Base",
+      tags: [],
+      weeks: [
+        { weekId: "w1", focus: null, stress: "low", volume: "low", intensity: "low" },
+        { weekId: "w2", focus: "hill-power", stress: "high", volume: "med", intensity: "high" },
+      ],
+    },
+  ],
+};
+const weeks = buildSeasonWeekEntries(season);
+assert.deepEqual(
+  weeks.map((week) => [week.date, week.summary]),
+  [
+    ["2026-02-23", "Week 1: Training"],
+    ["2026-03-02", "Week 2: Hill Power"],
+  ]
+);
+assert.equal(weeks[1].days, 7);
+assert.deepEqual(buildSeasonWeekEntries({ ...season, startDate: null }), []);
+
+console.log("calendarFeed tests passed");
@@ -0,0 +1,248 @@
+import type { Event, RouteLabel } from "../types.js";
+import type { Season, WeekFocus } from "../season-builder/types.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EVENT_MINUTES = 120;
+
+export interface CalendarEntry {
+  uid: string;
+  summary: string;
+  /** YYYY-MM-DD */
+  date: string;
+  /** HH:MM (floating local time); omitted for all-day entries. */
+  time?: string;
+  durationMinutes?: number;
+  /** All-day entries only: number of days covered (default 1). */
+  days?: number;
+  location?: string;
+  geo?: { lat: number; lng: number };
+  url?: string;
+  description?: string;
+  categories?: string[];
+}
+
+export interface CalendarRouteVariant {
+  label: RouteLabel;
+  distanceMi: number;
+  elevationFt: number;
+}
+
+export interface CalendarRouteGroup {
+  routeGroupId: string;
+  name: string;
+  variants: CalendarRouteVariant[];
+}
+
+const FOCUS_LABELS: Record<Exclude<WeekFocus, null>, string> = {
+  base: "Base",
+  deload: "Deload",
+  speed: "Speed",
+  "hill-power": "Hill Power",
+  mileage: "Mileage",
+  ultra: "Ultra",
+  heat: "Heat",
+  taper: "Taper",
+};
+
+/**
+ * Escape a TEXT value (RFC 5545 3.3.11).
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line at 75 octets without splitting UTF-8 characters.
+ */
+export function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char, "utf8");
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/**
+ * Parse free-text event times ("7:45 PM", "6pm", "18:30") to HH:MM.
+ */
+export function parseEventTime(value: string | undefined): string | null {
+  const match = String(value ?? "")
+    .trim()
+    .match(/^(\d{1,2})(?::(\d{2}))?\s*([ap])?\.?\s*m?\.?$/i);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === "p" ? 12 : 0);
+  } else if (match[2] === undefined) {
+    return null;
+  }
+  if (hours > 23 || minutes > 59) return null;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+function formatDateValue(time: number): string {
+  return new Date(time).toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+function formatLocalDateTime(time: number): string {
+  return new Date(time).toISOString().slice(0, 19).replace(/[-:]/g, "");
+}
+
+function formatUtcStamp(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace(/[-:]/g, "")}Z`;
+}
+
+function renderEntry(entry: CalendarEntry, stamp: string): string[] {
+  const dayStart = Date.parse(`${entry.date}T00:00:00Z`);
+  const lines = ["BEGIN:VEVENT", `UID:${entry.uid}`, `DTSTAMP:${stamp}`];
+  if (entry.time) {
+    // Floating times (no TZID) so subscribers show the club's wall-clock time.
+    const start = Date.parse(`${entry.date}T${entry.time}:00Z`);
+    const end = start + (entry.durationMinutes ?? DEFAULT_EVENT_MINUTES) * 60 * 1000;
+    lines.push(`DTSTART:${formatLocalDateTime(start)}`, `DTEND:${formatLocalDateTime(end)}`);
+  } else {
+    lines.push(
+      `DTSTART;VALUE=DATE:${formatDateValue(dayStart)}`,
+      `DTEND;VALUE=DATE:${formatDateValue(dayStart + (entry.days ?? 1) * DAY_MS)}`
+    );
+  }
+  lines.push(`SUMMARY:${escapeIcsText(entry.summary)}`);
+  if (entry.location) lines.push(`LOCATION:${escapeIcsText(entry.location)}`);
+  if (entry.geo) lines.push(`GEO:${entry.geo.lat.toFixed(6)};${entry.geo.lng.toFixed(6)}`);
+  if (entry.url) lines.push(`URL:${entry.url}`);
+  if (entry.description) lines.push(`DESCRIPTION:${escapeIcsText(entry.description)}`);
+  if (entry.categories && entry.categories.length > 0) {
+    lines.push(`CATEGORIES:${entry.categories.map(escapeIcsText).join(",")}`);
+  }
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Render a VCALENDAR document with CRLF line endings and folded lines.
+ */
+export function renderCalendar(
+  name: string,
+  entries: CalendarEntry[],
+  options: { timezone?: string; now?: Date } = {}
+): string {
+  const stamp = formatUtcStamp(options.now ?? new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//SUC//SUC Studio//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+    ...(options.timezone ? [`X-WR-TIMEZONE:${options.timezone}`] : []),
+    ...entries.flatMap((entry) => renderEntry(entry, stamp)),
+    "END:VCALENDAR",
+  ];
+  return `${lines.map(foldIcsLine).join("\r\n")}\r\n`;
+}
+
+function describeRouteGroup(group: CalendarRouteGroup): string {
+  const variants = group.variants
+    .map(
+      (variant) =>
+        `${variant.label} ${variant.distanceMi.toFixed(1)} mi / ${Math.round(variant.elevationFt)} ft`
+    )
+    .join(", ");
+  const title = group.name ? `${group.routeGroupId} ${group.name}` : group.routeGroupId;
+  return variants ? `- ${title}: ${variants}` : `- ${title}`;
+}
+
+/**
+ * Calendar entries for dated events. Undated events are left out; coordinates
+ * at 0,0 (the unset default) are not emitted as GEO.
+ */
+export function buildEventEntries(
+  events: Event[],
+  routeGroups: Map<string, CalendarRouteGroup>
+): CalendarEntry[] {
+  return events
+    .filter((event) => /^\d{4}-\d{2}-\d{2}$/.test(event.eventDate ?? ""))
+    .map((event) => {
+      const coords = event.startLocationCoordinates;
+      const routes = event.routeGroupIds.map(
+        (id) => routeGroups.get(id) ?? { routeGroupId: id, name: "", variants: [] }
+      );
+      const description = [
+        event.eventDescription,
+        routes.length > 0 ? `Routes:\n${routes.map(describeRouteGroup).join("\n")}` : "",
+        event.startLocationUrl ? `Start: ${event.startLocationUrl}` : "",
+      ]
+        .filter(Boolean)
+        .join("\n\n");
+      return {
+        uid: `${event.eventId}@suc-studio`,
+        summary: event.eventName || event.eventId,
+        date: event.eventDate as string,
+        time: parseEventTime(event.eventTime) ?? undefined,
+        location: event.startLocationName || undefined,
+        geo: coords && (coords.lat !== 0 || coords.lng !== 0) ? coords : undefined,
+        url: event.startLocationUrl || undefined,
+        description: description || undefined,
+        categories: event.type ? [event.type] : undefined,
+      };
+    });
+}
+
+function mondayOf(date: string): number {
+  const time = Date.parse(`${date}T00:00:00Z`);
+  const day = new Date(time).getUTCDay();
+  return time - ((day + 6) % 7) * DAY_MS;
+}
+
+/**
+ * One all-day, week-long entry per season week, dated the way SeasonBuilder
+ * lays them out: the week holding the "start" marker begins on the Monday of startDate.
+ */
+export function buildSeasonWeekEntries(season: Season): CalendarEntry[] {
+  if (!season.startDate || !/^\d{4}-\d{2}-\d{2}$/.test(season.startDate)) return [];
+  const anchor = mondayOf(season.startDate);
+  const startMarkerIndex =
+    season.seasonMarkers
+      .filter((marker) => marker.label.toLowerCase().includes("start"))
+      .sort((a, b) => a.weekIndex - b.weekIndex)[0]?.weekIndex ?? 0;
+
+  const weeks = season.blocks.flatMap((block) => block.weeks.map((week) => ({ block, week })));
+  return weeks.map(({ block, week }, index) => {
+    const focus = week.focus ? FOCUS_LABELS[week.focus] ?? week.focus : "Training";
+    const description = [
+      `Block: ${block.name}`,
+      `Stress: ${week.stress}`,
+      `Volume: ${week.volume}`,
+      `Intensity: ${week.intensity}`,
+      week.eventIds && week.eventIds.length > 0 ? `Events: ${week.eventIds.join(", ")}` : "",
+    ]
+      .filter(Boolean)
+      .join("\n");
+    return {
+      uid: `${season.seasonId}-${week.weekId}@suc-studio`,
+      summary: `Week ${index + 1}: ${focus}`,
+      date: new Date(anchor + (index - startMarkerIndex) * 7 * DAY_MS).toISOString().slice(0, 10),
+      days: 7,
+      description,
+      categories: week.focus ? [week.focus] : undefined,
+    };
+  });
+}
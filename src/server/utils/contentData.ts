@@ -1,4 +1,3 @@
-import fs from "fs/promises";
 import {
   FOOTWEAR_REVIEWS_ROOT,
   FOOTWEAR_REVIEWS_MASTER_PATH,
@@ -9,6 +8,14 @@ import {
   CREW_RUN_RECAPS_ROOT,
   CREW_RUN_RECAPS_MASTER_PATH,
 } from "./paths.js";
+import { assertCanonical, type CanonicalFile } from "./schemaValidation.js";
+import {
+  readJson,
+  readStoredJsonSync,
+  updateJson,
+  writeJsonAtomic,
+  type WriteOptions,
+} from "./storage.js";
 
 type ContentMaster<T> = {
   version: number;
@@ -18,99 +25,102 @@ type ContentMaster<T> = {
 type ContentConfig = {
   root: string;
   masterPath: string;
+  schema: CanonicalFile;
 };
 
 const CONTENT_CONFIGS: Record<string, ContentConfig> = {
   "footwear-reviews": {
     root: FOOTWEAR_REVIEWS_ROOT,
     masterPath: FOOTWEAR_REVIEWS_MASTER_PATH,
+    schema: "footwear-reviews.master",
   },
   "gear-reviews": {
     root: GEAR_REVIEWS_ROOT,
     masterPath: GEAR_REVIEWS_MASTER_PATH,
+    schema: "gear-reviews.master",
   },
   "race-recaps": {
     root: RACE_RECAPS_ROOT,
     masterPath: RACE_RECAPS_MASTER_PATH,
+    schema: "race-recaps.master",
   },
   "crew-run-recaps": {
     root: CREW_RUN_RECAPS_ROOT,
     masterPath: CREW_RUN_RECAPS_MASTER_PATH,
+    schema: "crew-run-recaps.master",
   },
 };
 
-async function ensureContentFile(config: ContentConfig): Promise<void> {
-  await fs.mkdir(config.root, { recursive: true });
-  try {
-    await fs.access(config.masterPath);
-  } catch {
-    const initialData: ContentMaster<any> = {
-      version: 1,
-      items: [],
-    };
-    await fs.writeFile(
-      config.masterPath,
-      JSON.stringify(initialData, null, 2) + "\n",
-      "utf8"
-    );
-  }
-}
-
-export async function readContent<T>(contentType: string): Promise<T[]> {
+function getConfig(contentType: string): ContentConfig {
   const config = CONTENT_CONFIGS[contentType];
   if (!config) {
     throw new Error(`Unknown content type: ${contentType}`);
   }
+  return config;
+}
 
-  await ensureContentFile(config);
-  const raw = await fs.readFile(config.masterPath, "utf8");
-  const data = JSON.parse(raw) as ContentMaster<T>;
-  return data.items || [];
+function emptyMaster<T>(): ContentMaster<T> {
+  return { version: 1, items: [] };
 }
 
-export async function writeContent<T>(contentType: string, items: T[]): Promise<void> {
-  const config = CONTENT_CONFIGS[contentType];
-  if (!config) {
-    throw new Error(`Unknown content type: ${contentType}`);
-  }
+export async function readContent<T>(contentType: string): Promise<T[]> {
+  const config = getConfig(contentType);
+  const data = await readJson(config.masterPath, emptyMaster<T>());
+  return data.items || [];
+}
 
-  await ensureContentFile(config);
+export async function writeContent<T>(
+  contentType: string,
+  items: T[],
+  options?: WriteOptions
+): Promise<string> {
+  const config = getConfig(contentType);
   const data: ContentMaster<T> = {
     version: 1,
     items,
   };
-  await fs.writeFile(
-    config.masterPath,
-    JSON.stringify(data, null, 2) + "\n",
-    "utf8"
-  );
+  assertCanonical(config.schema, data, readStoredJsonSync(config.masterPath));
+  return writeJsonAtomic(config.masterPath, data, options);
+}
+
+/**
+ * Replace the master's items under the file lock, so concurrent upserts and
+ * archives of different items don't overwrite each other.
+ */
+async function updateContentItems<T>(
+  contentType: string,
+  change: (items: T[]) => T[]
+): Promise<void> {
+  const config = getConfig(contentType);
+  await updateJson(config.masterPath, emptyMaster<T>(), (master) => {
+    const data: ContentMaster<T> = {
+      version: 1,
+      items: change(master.items || []),
+    };
+    assertCanonical(config.schema, data, master);
+    return data;
+  });
 }
 
 export async function upsertContent<T extends { id: string; publishedAt?: string }>(
   contentType: string,
   item: T
 ): Promise<void> {
-  const items = await readContent<T>(contentType);
-  const existingIndex = items.findIndex((i) => i.id === item.id);
-
   const updatedItem = {
     ...item,
     publishedAt: item.publishedAt || new Date().toISOString(),
   };
 
-  const nextItems =
-    existingIndex >= 0
+  await updateContentItems<T>(contentType, (items) =>
+    items.some((i) => i.id === item.id)
       ? items.map((i) => (i.id === item.id ? updatedItem : i))
-      : [...items, updatedItem];
-
-  await writeContent(contentType, nextItems);
+      : [...items, updatedItem]
+  );
 }
 
 export async function archiveContent<T extends { id: string }>(
   contentType: string,
   id: string
 ): Promise<void> {
-  const items = await readContent<T>(contentType);
-  const nextItems = items.filter((i) => i.id !== id);
-  await writeContent(contentType, nextItems);
+  await updateContentItems<T>(contentType, (items) => items.filter((i) => i.id !== id));
 }
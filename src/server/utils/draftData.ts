@@ -14,6 +14,7 @@ import {
   TRAINING_CONTENT_DRAFTS_ROOT,
   ROUTE_INTEL_DRAFTS_ROOT,
 } from "./paths.js";
+import { removeFileSync, writeJsonAtomic } from "./storage.js";
 import type {
   DraftMeta,
   DraftType,
@@ -140,10 +141,7 @@ export async function writeTrainingContentDraft(
   // Update the updatedAt timestamp
   draft._draftMeta.draftUpdatedAt = new Date().toISOString();
 
-  // Atomic write: write to temp file, then rename
-  const tempPath = filePath + ".tmp";
-  await fs.writeFile(tempPath, JSON.stringify(draft, null, 2) + "\n", "utf8");
-  await fs.rename(tempPath, filePath);
+  await writeJsonAtomic(filePath, draft);
 }
 
 export async function writeRouteIntelDraft(
@@ -155,31 +153,30 @@ export async function writeRouteIntelDraft(
   // Update the updatedAt timestamp
   draft._draftMeta.draftUpdatedAt = new Date().toISOString();
 
-  // Atomic write: write to temp file, then rename
-  const tempPath = filePath + ".tmp";
-  await fs.writeFile(tempPath, JSON.stringify(draft, null, 2) + "\n", "utf8");
-  await fs.rename(tempPath, filePath);
+  await writeJsonAtomic(filePath, draft);
 }
 
 // Delete a draft
 export async function deleteTrainingContentDraft(draftId: string): Promise<boolean> {
   const filePath = getDraftPath("training-content", draftId);
   try {
-    await fs.unlink(filePath);
-    return true;
+    await fs.access(filePath);
   } catch {
     return false;
   }
+  removeFileSync(filePath);
+  return true;
 }
 
 export async function deleteRouteIntelDraft(draftId: string): Promise<boolean> {
   const filePath = getDraftPath("route-intel", draftId);
   try {
-    await fs.unlink(filePath);
-    return true;
+    await fs.access(filePath);
   } catch {
     return false;
   }
+  removeFileSync(filePath);
+  return true;
 }
 
 // Update draft status (for reject action)
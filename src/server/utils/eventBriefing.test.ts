@@ -0,0 +1,162 @@
+import assert from "assert/strict";
+import {
+  buildIntelSections,
+  renderBriefingHtml,
+  renderBriefingMarkdown,
+  type EventBriefing,
+} from "./eventBriefing";
+import type { RoutePoi } from "../types";
+
+// Climbs 100 m over the first half, flat after.
+const coords: [number, number][] = Array.from({ length: 11 }, (_, i) => [
+  -121.5,
+  38.5 + i * 0.002,
+]);
+const elevations = coords.map((_, i) => (i <= 5 ? i * 20 : 100));
+const track = { coords, elevations };
+
+const pois: RoutePoi[] = [
+  { id: "start-finish", type: "start-finish", system: true, routePointIndex: 0 },
+  { id: "aid-1", title: "Ridge Aid", type: "aid-station", routePointIndex: 5 },
+  { id: "view", title: "Overlook", type: "viewpoint", routePointIndex: 7 },
+];
+
+const race = buildIntelSections(track, pois, "MED", "race", [], {
+  "aid-1->finish": "Flat and fast to the end.",
+});
+assert.deepEqual(
+  race.map((section) => section.key),
+  ["start->aid-1", "aid-1->finish"]
+);
+assert.equal(race[0].from, "Start");
+assert.equal(race[0].to, "Ridge Aid");
+assert.ok(race[0].gainFt > 150, `gain ${race[0].gainFt}`);
+assert.ok(race[1].gainFt < race[0].gainFt);
+assert.equal(race[1].caption, "Flat and fast to the end.");
+assert.ok(Math.abs(race[0].endMi - race[1].startMi) < 1e-9);
+
+const allPoi = buildIntelSections(track, pois, "MED", "all-poi");
+assert.deepEqual(
+  allPoi.map((section) => section.to),
+  ["Ridge Aid", "Overlook", "Finish"]
+);
+const enabledOnly = buildIntelSections(track, pois, "MED", "all-poi", ["view"]);
+assert.deepEqual(
+  enabledOnly.map((section) => section.key),
+  ["start->view", "view->finish"]
+);
+
+const briefing: EventBriefing = {
+  generatedAt: "2026-05-01T12:00:00.000Z",
+  event: {
+    eventId: "SUC-050",
+    eventName: "Ridge Race <2026>",
+    eventDescription: "Bring a headlamp.\n\nPacket pickup at 6.",
+    eventDate: "2026-05-02",
+    eventTime: "7:00 AM",
+    type: "race",
+    startLocationName: "Trailhead",
+    startLocationUrl: "https://maps.example.com/?q=trailhead",
+    routeGroupIds: ["SUC-034"],
+  },
+  routeIntelId: "ri-50",
+  tiers: ["MED", "LRG"],
+  routes: [
+    {
+      routeGroupId: "SUC-034",
+      name: "Ridge Loop",
+      location: "Auburn",
+      notes: "",
+      sectionMode: "race",
+      caption: "Go easy on the climb.",
+      variants: [
+        {
+          label: "MED",
+          distanceMi: 13.1,
+          gainFt: 2100.4,
+          lossFt: 2099.6,
+          cueSheet: [
+            {
+              id: "start",
+              name: "Start",
+              kind: "start",
+              mile: 0,
+              segmentMi: 0,
+              gainFt: 0,
+              lossFt: 0,
+              services: [],
+              notes: "",
+              cutoffMin: null,
+              etaMin: { MED: 0, LRG: 0 },
+            },
+            {
+              id: "aid-1",
+              name: "Ridge | Aid",
+              kind: "aid",
+              mile: 6.2,
+              segmentMi: 6.2,
+              gainFt: 1500,
+              lossFt: 200,
+              services: ["Water", "Crew access"],
+              notes: "No cups",
+              cutoffMin: 150,
+              etaMin: { MED: 95.4, LRG: 88 },
+            },
+          ],
+          sections: race,
+        },
+        {
+          label: "LRG",
+          distanceMi: 0,
+          gainFt: 0,
+          lossFt: 0,
+          cueSheet: [],
+          sections: [],
+          error: "GPX missing",
+        },
+      ],
+    },
+  ],
+};
+
+const markdown = renderBriefingMarkdown(briefing);
+assert.ok(markdown.startsWith("# Ridge Race <2026>\n"));
+assert.ok(markdown.includes("**When:** 2026-05-02 · 7:00 AM · Race"));
+assert.ok(markdown.includes("**Start:** [Trailhead](https://maps.example.com/?q=trailhead)"));
+assert.ok(markdown.includes("### Coach notes\n\nGo easy on the climb."));
+assert.ok(markdown.includes("### SUC-034 MED — 13.1 mi · 2,100 ft gain / 2,100 ft loss"));
+assert.ok(
+  markdown.includes(
+    "| Station | Mile | Segment mi | Gain / loss ft | Services | Cutoff | MED | LRG |"
+  )
+);
+assert.ok(
+  markdown.includes(
+    "| Ridge \\| Aid | 6.20 | 6.20 | +1,500 / -200 | Water, Crew access — No cups | 2:30 | 1:35 | 1:28 |"
+  )
+);
+assert.ok(markdown.includes("| Ridge Aid → Finish |"));
+assert.ok(markdown.includes("Flat and fast to the end. |"));
+assert.ok(markdown.includes("### SUC-034 LRG\n\n_Unavailable: GPX missing_"));
+assert.ok(markdown.endsWith("_Generated 2026-05-01 12:00 UTC_\n"));
+
+const html = renderBriefingHtml(briefing);
+assert.ok(html.startsWith("<!DOCTYPE html>"));
+assert.ok(html.includes("<title>Ridge Race &lt;2026&gt; — Briefing</title>"));
+assert.ok(html.includes("@page"));
+assert.ok(html.includes('<a href="https://maps.example.com/?q=trailhead">Trailhead</a>'));
+assert.ok(html.includes("<p>Bring a headlamp.</p>\n<p>Packet pickup at 6.</p>"));
+assert.ok(html.includes("<td>Ridge | Aid</td><td>6.20</td>"));
+assert.ok(html.includes("<em>Unavailable: GPX missing</em>"));
+assert.ok(!html.includes("<2026>"));
+
+// Only http(s) start locations are linked.
+const unsafe = {
+  ...briefing,
+  event: { ...briefing.event, startLocationName: "Start", startLocationUrl: "javascript:alert(1)" },
+};
+assert.ok(renderBriefingHtml(unsafe).includes("<strong>Start:</strong> Start</p>"));
+assert.ok(!renderBriefingHtml(unsafe).includes("javascript:"));
+assert.ok(!renderBriefingMarkdown(unsafe).includes("javascript:"));
+
+console.log("eventBriefing tests passed");
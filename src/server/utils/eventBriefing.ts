@@ -0,0 +1,517 @@
+import { parseGPXText } from "./gpxParser.js";
+import {
+  getRouteGroup,
+  loadEventsMaster,
+  loadRoutePois,
+  loadRouteVariantGpx,
+} from "./sharedData.js";
+import { listRouteIntel } from "./routeIntelData.js";
+import { listRouteIntelDrafts } from "./draftData.js";
+import { resolveVariantPoiPlacements, type VariantTrack } from "./routePoiPlacements.js";
+import { buildRouteSplitTable, isSplitStationPoi, SPLIT_TIERS } from "./routeSplits.js";
+import {
+  computeSplitTable,
+  formatSplitMinutes,
+  type SplitStation,
+} from "../../route-stats/index.js";
+import type {
+  Event,
+  RouteIntelDoc,
+  RouteIntelSectionMode,
+  RouteLabel,
+  RoutePoi,
+} from "../types.js";
+
+export interface BriefingCueRow {
+  id: string;
+  name: string;
+  kind: "start" | "aid" | "finish";
+  mile: number;
+  segmentMi: number;
+  gainFt: number;
+  lossFt: number;
+  /** Water, nutrition, crew access, drop bags (from POI metadata). */
+  services: string[];
+  notes: string;
+  cutoffMin: number | null;
+  /** Elapsed minutes per roster tier. */
+  etaMin: Record<string, number>;
+}
+
+export interface BriefingSection {
+  /** `<fromPoiId>-><toPoiId>`; also the key for per-section coach captions. */
+  key: string;
+  from: string;
+  to: string;
+  startMi: number;
+  endMi: number;
+  distanceMi: number;
+  gainFt: number;
+  lossFt: number;
+  caption: string;
+}
+
+export interface BriefingVariant {
+  label: RouteLabel;
+  distanceMi: number;
+  gainFt: number;
+  lossFt: number;
+  cueSheet: BriefingCueRow[];
+  sections: BriefingSection[];
+  /** Set when the variant's track could not be read; the rest is empty. */
+  error?: string;
+}
+
+export interface BriefingRoute {
+  routeGroupId: string;
+  name: string;
+  location: string;
+  notes: string;
+  sectionMode: RouteIntelSectionMode | null;
+  caption: string;
+  variants: BriefingVariant[];
+}
+
+export interface EventBriefing {
+  generatedAt: string;
+  event: Event;
+  routeIntelId: string | null;
+  tiers: string[];
+  routes: BriefingRoute[];
+}
+
+const SERVICE_LABELS: Array<[keyof NonNullable<RoutePoi["metadata"]>, string]> = [
+  ["water", "Water"],
+  ["nutrition", "Nutrition"],
+  ["crewAccess", "Crew access"],
+  ["dropBags", "Drop bags"],
+];
+
+function poiServices(poi: RoutePoi | undefined): string[] {
+  if (!poi?.metadata) return [];
+  return SERVICE_LABELS.filter(([key]) => poi.metadata?.[key]).map(([, label]) => label);
+}
+
+/**
+ * Route intel sections for one variant: "race" breaks at aid stations,
+ * "all-poi" at every POI (limited to enabledPoiIds when the intel lists them).
+ */
+export function buildIntelSections(
+  track: VariantTrack,
+  pois: RoutePoi[],
+  label: RouteLabel,
+  mode: RouteIntelSectionMode,
+  enabledPoiIds: string[] = [],
+  captions: Record<string, string> = {}
+): BriefingSection[] {
+  const enabled = new Set(enabledPoiIds);
+  const breakpoints = pois.filter(
+    (poi) =>
+      !poi.system &&
+      (mode === "all-poi" || isSplitStationPoi(poi)) &&
+      (enabled.size === 0 || enabled.has(poi.id))
+  );
+  const stations: SplitStation[] = resolveVariantPoiPlacements(breakpoints, label, track).map(
+    ({ poi, distanceMi }) => ({
+      id: poi.id,
+      name: (poi.title || poi.label || poi.id).trim(),
+      distanceMi,
+      cutoffMin: null,
+    })
+  );
+  const rows = computeSplitTable(track.coords, track.elevations, stations, {});
+  return rows.slice(1).map((row, index) => {
+    const previous = rows[index];
+    const key = `${previous.id}->${row.id}`;
+    return {
+      key,
+      from: previous.name,
+      to: row.name,
+      startMi: previous.distanceMi,
+      endMi: row.distanceMi,
+      distanceMi: row.segmentMi,
+      gainFt: row.gainFt,
+      lossFt: row.lossFt,
+      caption: captions[key] ?? "",
+    };
+  });
+}
+
+function buildBriefingVariant(
+  routeGroupId: string,
+  label: RouteLabel,
+  pois: RoutePoi[],
+  intelRoute: RouteIntelDoc["routes"][number] | undefined,
+  captions: Record<string, string>
+): BriefingVariant {
+  try {
+    const table = buildRouteSplitTable(routeGroupId, label);
+    const poisById = new Map(pois.map((poi) => [poi.id, poi]));
+    const cueSheet = table.rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      kind: row.kind,
+      mile: row.distanceMi,
+      segmentMi: row.segmentMi,
+      gainFt: row.gainFt,
+      lossFt: row.lossFt,
+      services: poiServices(poisById.get(row.id)),
+      notes: poisById.get(row.id)?.notes?.trim() ?? "",
+      cutoffMin: row.cutoffMin,
+      etaMin: Object.fromEntries(
+        Object.entries(row.eta).map(([tier, eta]) => [tier, eta.elapsedMin])
+      ),
+    }));
+    const track = parseGPXText(
+      loadRouteVariantGpx(routeGroupId, label),
+      `${routeGroupId}-${label}.gpx`
+    );
+    return {
+      label,
+      distanceMi: table.rows[table.rows.length - 1]?.distanceMi ?? 0,
+      gainFt: table.rows.reduce((sum, row) => sum + row.gainFt, 0),
+      lossFt: table.rows.reduce((sum, row) => sum + row.lossFt, 0),
+      cueSheet,
+      sections: intelRoute
+        ? buildIntelSections(
+            track,
+            pois,
+            label,
+            intelRoute.sectionMode ?? "race",
+            intelRoute.enabledPoiIds,
+            captions
+          )
+        : [],
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return {
+      label,
+      distanceMi: 0,
+      gainFt: 0,
+      lossFt: 0,
+      cueSheet: [],
+      sections: [],
+      error: message,
+    };
+  }
+}
+
+/**
+ * Assemble the briefing for one event from the event, its route groups,
+ * route.pois.json (aid stations and split plan), the event's route intel and
+ * the newest approved coach caption per route.
+ */
+export async function buildEventBriefing(eventId: string): Promise<EventBriefing> {
+  const event = loadEventsMaster().events.find((item) => item.eventId === eventId);
+  if (!event) {
+    throw new Error(`Event not found: ${eventId}`);
+  }
+
+  const intel =
+    (await listRouteIntel())
+      .filter((doc) => doc.eventId === eventId)
+      .sort((a, b) => String(b.updatedAt).localeCompare(String(a.updatedAt)))[0] ?? null;
+  const captionDrafts = (await listRouteIntelDrafts()).filter(
+    (draft) => draft._draftMeta.draftStatus === "approved" && draft.data.eventId === eventId
+  );
+
+  const routeIds = Array.from(
+    new Set([...event.routeGroupIds, ...(intel?.routes ?? []).map((route) => route.routeId)])
+  );
+  const routes: BriefingRoute[] = [];
+  for (const routeGroupId of routeIds) {
+    const meta = getRouteGroup(routeGroupId);
+    if (!meta) continue;
+    const intelRoute = intel?.routes.find((route) => route.routeId === routeGroupId);
+    // Drafts are sorted newest first.
+    const caption = captionDrafts.find((draft) => draft.data.routeId === routeGroupId)?.data;
+    const labels: RouteLabel[] =
+      intelRoute && intelRoute.distanceVariantIds.length > 0
+        ? intelRoute.distanceVariantIds
+            .map((label) => String(label).toUpperCase() as RouteLabel)
+            .filter((label) => meta.variants.includes(label))
+        : meta.variants;
+    const pois = loadRoutePois(routeGroupId).pois;
+
+    routes.push({
+      routeGroupId,
+      name: meta.name,
+      location: meta.location,
+      notes: meta.notes,
+      sectionMode: intelRoute ? intelRoute.sectionMode ?? "race" : null,
+      caption: caption?.caption.trim() ?? "",
+      variants: labels.map((label) =>
+        buildBriefingVariant(routeGroupId, label, pois, intelRoute, caption?.sectionCaptions ?? {})
+      ),
+    });
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    event,
+    routeIntelId: intel?.id ?? null,
+    tiers: [...SPLIT_TIERS],
+    routes,
+  };
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  "crew-run": "Crew Run",
+  "training-run": "Training Run",
+  race: "Race",
+  camp: "Camp",
+  social: "Social",
+};
+
+function formatMiles(value: number): string {
+  return value.toFixed(1);
+}
+
+function formatFeet(value: number): string {
+  return Math.round(value).toLocaleString("en-US");
+}
+
+function eventSummaryLine(event: Event): string {
+  return [event.eventDate, event.eventTime, TYPE_LABELS[event.type ?? ""] ?? event.type]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+function variantHeading(route: BriefingRoute, variant: BriefingVariant): string {
+  if (variant.error) return `${route.routeGroupId} ${variant.label}`;
+  return (
+    `${route.routeGroupId} ${variant.label} — ${formatMiles(variant.distanceMi)} mi · ` +
+    `${formatFeet(variant.gainFt)} ft gain / ${formatFeet(variant.lossFt)} ft loss`
+  );
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function markdownTable(header: string[], rows: string[][]): string[] {
+  return [
+    `| ${header.join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(markdownCell).join(" | ")} |`),
+  ];
+}
+
+function cueSheetCells(row: BriefingCueRow, tiers: string[]): string[] {
+  return [
+    row.name,
+    row.mile.toFixed(2),
+    row.kind === "start" ? "" : row.segmentMi.toFixed(2),
+    row.kind === "start" ? "" : `+${formatFeet(row.gainFt)} / -${formatFeet(row.lossFt)}`,
+    [row.services.join(", "), row.notes].filter(Boolean).join(" — "),
+    formatSplitMinutes(row.cutoffMin),
+    ...tiers.map((tier) => formatSplitMinutes(row.etaMin[tier] ?? null)),
+  ];
+}
+
+function cueSheetHeader(tiers: string[]): string[] {
+  return ["Station", "Mile", "Segment mi", "Gain / loss ft", "Services", "Cutoff", ...tiers];
+}
+
+function sectionCells(section: BriefingSection): string[] {
+  return [
+    `${section.from} → ${section.to}`,
+    `${section.startMi.toFixed(1)}–${section.endMi.toFixed(1)}`,
+    section.distanceMi.toFixed(2),
+    `+${formatFeet(section.gainFt)} / -${formatFeet(section.lossFt)}`,
+    section.caption,
+  ];
+}
+
+const SECTION_HEADER = ["Section", "Miles", "Distance mi", "Gain / loss ft", "Coach notes"];
+
+/**
+ * The start location link, only when it is http(s): events saved through the
+ * whole-file POST are not field-validated, so anything else (javascript:,
+ * data:) is shown as text instead of linked.
+ */
+function startLocationHref(url: string | undefined): string | null {
+  const trimmed = url?.trim() ?? "";
+  return /^https?:\/\/\S+$/i.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * Markdown briefing for posting (GitHub-flavoured tables).
+ */
+export function renderBriefingMarkdown(briefing: EventBriefing): string {
+  const { event } = briefing;
+  const lines: string[] = [`# ${event.eventName || event.eventId}`, ""];
+  const summary = eventSummaryLine(event);
+  if (summary) lines.push(`**When:** ${summary}  `);
+  if (event.startLocationName || event.startLocationUrl) {
+    const name = event.startLocationName || event.startLocationUrl || "";
+    const href = startLocationHref(event.startLocationUrl);
+    lines.push(
+      href ? `**Start:** [${name}](${href.replace(/[()]/g, encodeURIComponent)})` : `**Start:** ${name}`
+    );
+  }
+  if (event.eventDescription) lines.push("", event.eventDescription);
+
+  if (briefing.routes.length === 0) {
+    lines.push("", "_No routes linked to this event._");
+  }
+  for (const route of briefing.routes) {
+    lines.push("", `## ${route.routeGroupId} ${route.name}`.trim());
+    if (route.location) lines.push("", `_${route.location}_`);
+    if (route.notes) lines.push("", route.notes);
+    if (route.caption) lines.push("", "### Coach notes", "", route.caption);
+
+    for (const variant of route.variants) {
+      lines.push("", `### ${variantHeading(route, variant)}`);
+      if (variant.error) {
+        lines.push("", `_Unavailable: ${variant.error}_`);
+        continue;
+      }
+      lines.push(
+        "",
+        "#### Aid stations",
+        "",
+        ...markdownTable(
+          cueSheetHeader(briefing.tiers),
+          variant.cueSheet.map((row) => cueSheetCells(row, briefing.tiers))
+        )
+      );
+      if (variant.sections.length > 0) {
+        lines.push(
+          "",
+          "#### Sections",
+          "",
+          ...markdownTable(SECTION_HEADER, variant.sections.map(sectionCells))
+        );
+      }
+    }
+  }
+
+  lines.push("", `_Generated ${briefing.generatedAt.slice(0, 16).replace("T", " ")} UTC_`);
+  return `${lines.join("\n")}\n`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function htmlParagraphs(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, "<br>")}</p>`)
+    .join("\n");
+}
+
+function htmlTable(header: string[], rows: string[][]): string {
+  const head = header.map((cell) => `<th>${escapeHtml(cell)}</th>`).join("");
+  const body = rows
+    .map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`)
+    .join("\n");
+  return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+}
+
+const PRINT_STYLES = `
+@page { size: letter; margin: 0.6in; }
+body {
+  font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif;
+  color: #111;
+  font-size: 11pt;
+  line-height: 1.4;
+  max-width: 8in;
+  margin: 0 auto;
+}
+h1 { font-size: 20pt; margin: 0 0 0.2em; }
+h2 { font-size: 15pt; border-bottom: 2px solid #111; padding-bottom: 0.1em; margin-top: 1.4em; }
+h3 { font-size: 12pt; margin: 1.2em 0 0.4em; }
+h4 {
+  font-size: 10pt;
+  text-transform: uppercase;
+  letter-spacing: 0.05em;
+  color: #444;
+  margin: 0.8em 0 0.3em;
+}
+.meta { color: #444; margin: 0.2em 0; }
+.notes { border-left: 3px solid #111; padding-left: 0.8em; }
+table { width: 100%; border-collapse: collapse; font-size: 9.5pt; page-break-inside: avoid; }
+th, td { border: 1px solid #999; padding: 0.25em 0.4em; text-align: left; vertical-align: top; }
+th { background: #eee; }
+.variant { page-break-inside: avoid; }
+.route { page-break-before: auto; }
+footer { margin-top: 2em; font-size: 8pt; color: #666; }
+@media print { a { color: inherit; text-decoration: none; } }
+`.trim();
+
+/**
+ * Standalone, print-ready HTML briefing (one route per section, tables kept on one page).
+ */
+export function renderBriefingHtml(briefing: EventBriefing): string {
+  const { event } = briefing;
+  const title = event.eventName || event.eventId;
+  const parts: string[] = [`<h1>${escapeHtml(title)}</h1>`];
+  const summary = eventSummaryLine(event);
+  if (summary) parts.push(`<p class="meta"><strong>When:</strong> ${escapeHtml(summary)}</p>`);
+  if (event.startLocationName || event.startLocationUrl) {
+    const name = escapeHtml(event.startLocationName || event.startLocationUrl || "");
+    const href = startLocationHref(event.startLocationUrl);
+    const start = href ? `<a href="${escapeHtml(href)}">${name}</a>` : name;
+    parts.push(`<p class="meta"><strong>Start:</strong> ${start}</p>`);
+  }
+  if (event.eventDescription) parts.push(htmlParagraphs(event.eventDescription));
+  if (briefing.routes.length === 0) parts.push("<p><em>No routes linked to this event.</em></p>");
+
+  for (const route of briefing.routes) {
+    const routeParts = [`<h2>${escapeHtml(`${route.routeGroupId} ${route.name}`.trim())}</h2>`];
+    if (route.location) routeParts.push(`<p class="meta">${escapeHtml(route.location)}</p>`);
+    if (route.notes) routeParts.push(htmlParagraphs(route.notes));
+    if (route.caption) {
+      routeParts.push(
+        "<h3>Coach notes</h3>",
+        `<div class="notes">${htmlParagraphs(route.caption)}</div>`
+      );
+    }
+    for (const variant of route.variants) {
+      const variantParts = [`<h3>${escapeHtml(variantHeading(route, variant))}</h3>`];
+      if (variant.error) {
+        variantParts.push(`<p><em>Unavailable: ${escapeHtml(variant.error)}</em></p>`);
+      } else {
+        variantParts.push(
+          "<h4>Aid stations</h4>",
+          htmlTable(
+            cueSheetHeader(briefing.tiers),
+            variant.cueSheet.map((row) => cueSheetCells(row, briefing.tiers))
+          )
+        );
+        if (variant.sections.length > 0) {
+          variantParts.push(
+            "<h4>Sections</h4>",
+            htmlTable(SECTION_HEADER, variant.sections.map(sectionCells))
+          );
+        }
+      }
+      routeParts.push(`<div class="variant">\n${variantParts.join("\n")}\n</div>`);
+    }
+    parts.push(`<section class="route">\n${routeParts.join("\n")}\n</section>`);
+  }
+
+  const generated = escapeHtml(briefing.generatedAt.slice(0, 16).replace("T", " "));
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)} — Briefing</title>`,
+    `<style>\n${PRINT_STYLES}\n</style>`,
+    "</head>",
+    "<body>",
+    ...parts,
+    `<footer>Generated ${generated} UTC</footer>`,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
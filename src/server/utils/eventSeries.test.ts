@@ -0,0 +1,112 @@
+import assert from "assert/strict";
+import {
+  applyEventSeries,
+  expandEventSeries,
+  listSeriesDates,
+  normalizeEventSeries,
+  occurrenceOverride,
+  recordOccurrenceEdits,
+} from "./eventSeries";
+import type { Event, EventSeries } from "../types";
+
+const series: EventSeries = normalizeEventSeries({
+  seriesId: "TUE-CREW",
+  rule: {
+    frequency: "weekly",
+    dayOfWeek: 2,
+    interval: 1,
+    startDate: "2026-03-01",
+    endDate: "2026-03-31",
+    skipDates: ["2026-03-17"],
+  },
+  defaults: {
+    eventName: "Tuesday Crew Run",
+    eventTime: "6:00 PM",
+    routeGroupIds: ["SUC-001"],
+  },
+  overrides: {},
+});
+
+// First Tuesday on or after the start date, weekly, minus skip dates.
+assert.deepEqual(listSeriesDates(series.rule), [
+  "2026-03-03",
+  "2026-03-10",
+  "2026-03-24",
+  "2026-03-31",
+]);
+assert.deepEqual(listSeriesDates({ ...series.rule, interval: 2, skipDates: [] }), [
+  "2026-03-03",
+  "2026-03-17",
+  "2026-03-31",
+]);
+
+const events = expandEventSeries(series);
+assert.equal(events[0].eventId, "TUE-CREW-2026-03-03");
+assert.equal(events[0].type, "crew-run");
+assert.equal(events[0].seriesId, "TUE-CREW");
+
+// An edited occurrence becomes a sparse override, including a moved date.
+const edited: Event = {
+  ...events[1],
+  eventTime: "7:00 PM",
+  eventDate: "2026-03-11",
+  routeGroupIds: ["SUC-001"],
+};
+assert.deepEqual(occurrenceOverride(series, edited), { eventTime: "7:00 PM", eventDate: "2026-03-11" });
+
+// Overrides survive a change to the series defaults; untouched occurrences follow it.
+const standalone: Event = { eventId: "SUC-037", eventName: "Race", eventDescription: "", routeGroupIds: [] };
+const applied = applyEventSeries({
+  version: 1,
+  events: [standalone, ...events],
+  series: [
+    {
+      ...series,
+      defaults: { ...series.defaults, eventTime: "5:30 PM", startLocationName: "Southside Park" },
+      overrides: { "2026-03-10": occurrenceOverride(series, edited) },
+    },
+  ],
+});
+assert.equal(applied.events[0].eventId, "SUC-037");
+const moved = applied.events.find((event) => event.eventId === "TUE-CREW-2026-03-10");
+assert.equal(moved?.eventTime, "7:00 PM");
+assert.equal(moved?.eventDate, "2026-03-11");
+assert.equal(moved?.startLocationName, "Southside Park");
+const untouched = applied.events.find((event) => event.eventId === "TUE-CREW-2026-03-24");
+assert.equal(untouched?.eventTime, "5:30 PM");
+assert.equal(applied.events.length, 5);
+
+// Removing the series leaves its events as standalone events.
+const detached = applyEventSeries({ version: 1, events: applied.events, series: [] });
+assert.equal(detached.events.length, 5);
+assert(detached.events.every((event) => event.seriesId === undefined));
+
+// Fields edited directly on an occurrence in a whole-file save become overrides;
+// the series default change still reaches the untouched occurrences.
+const directEdit = applyEventSeries(
+  recordOccurrenceEdits(applied.events, {
+    version: 1,
+    events: applied.events.map((event) =>
+      event.eventId === "TUE-CREW-2026-03-24"
+        ? { ...event, eventName: "Hill Tuesday", eventTime: "5:30 PM" }
+        : event
+    ),
+    series: [{ ...applied.series![0], defaults: { ...applied.series![0].defaults, eventTime: "6:15 PM" } }],
+  })
+);
+const hills = directEdit.events.find((event) => event.eventId === "TUE-CREW-2026-03-24");
+assert.equal(hills?.eventName, "Hill Tuesday");
+assert.equal(hills?.eventTime, "6:15 PM", "only the edited field is pinned");
+assert.deepEqual(directEdit.series?.[0].overrides["2026-03-24"], { eventName: "Hill Tuesday" });
+assert.equal(directEdit.events.find((event) => event.eventId === "TUE-CREW-2026-03-31")?.eventTime, "6:15 PM");
+assert.equal(directEdit.events.find((event) => event.eventId === "TUE-CREW-2026-03-10")?.eventTime, "7:00 PM");
+
+const clash: Event = { ...standalone, eventId: "TUE-CREW-2026-03-03" };
+assert.throws(() => applyEventSeries({ version: 1, events: [clash], series: [series] }), /collides/);
+assert.throws(() => normalizeEventSeries({ ...series, rule: { ...series.rule, dayOfWeek: 7 } }), /dayOfWeek/);
+assert.throws(
+  () => normalizeEventSeries({ ...series, rule: { ...series.rule, endDate: "2026-02-30" } }),
+  /not a valid date/
+);
+
+console.log("eventSeries tests passed");
@@ -0,0 +1,269 @@
+import type {
+  Event,
+  EventOccurrenceOverride,
+  EventSeries,
+  EventSeriesFields,
+  EventSeriesRule,
+  EventsMaster,
+} from "../types.js";
+import { EVENT_TYPES } from "./eventValidation.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const SERIES_ID = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+const MAX_OCCURRENCES = 260;
+
+export const EVENT_SERIES_FIELDS: Array<keyof EventSeriesFields> = [
+  "eventName",
+  "eventDescription",
+  "eventTime",
+  "type",
+  "startLocationName",
+  "startLocationUrl",
+  "startLocationCoordinates",
+  "routeGroupIds",
+];
+
+function parseIsoDate(value: unknown, field: string): number {
+  if (typeof value !== "string" || !ISO_DATE.test(value)) {
+    throw new Error(`${field} must be a YYYY-MM-DD date.`);
+  }
+  const time = Date.parse(`${value}T00:00:00Z`);
+  if (!Number.isFinite(time) || new Date(time).toISOString().slice(0, 10) !== value) {
+    throw new Error(`${field} is not a valid date: ${value}`);
+  }
+  return time;
+}
+
+function formatIsoDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Scheduled dates for a weekly rule: the first `dayOfWeek` on or after startDate,
+ * then every `interval` weeks through endDate, minus skipDates.
+ */
+export function listSeriesDates(rule: EventSeriesRule): string[] {
+  const start = parseIsoDate(rule.startDate, "rule.startDate");
+  const end = parseIsoDate(rule.endDate, "rule.endDate");
+  const skip = new Set(rule.skipDates ?? []);
+  const offset = (rule.dayOfWeek - new Date(start).getUTCDay() + 7) % 7;
+  const dates: string[] = [];
+  for (let time = start + offset * DAY_MS; time <= end; time += rule.interval * 7 * DAY_MS) {
+    const date = formatIsoDate(time);
+    if (!skip.has(date)) dates.push(date);
+  }
+  return dates;
+}
+
+export function occurrenceEventId(seriesId: string, date: string): string {
+  return `${seriesId}-${date}`;
+}
+
+/**
+ * Scheduled date of an occurrence, recovered from its eventId (the eventDate
+ * itself may have been overridden).
+ */
+export function occurrenceDateFromEventId(seriesId: string, eventId: string): string | null {
+  const prefix = `${seriesId}-`;
+  if (!eventId.startsWith(prefix)) return null;
+  const date = eventId.slice(prefix.length);
+  return ISO_DATE.test(date) ? date : null;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Fields of an edited occurrence that differ from its series defaults.
+ */
+export function occurrenceOverride(series: EventSeries, event: Event): EventOccurrenceOverride {
+  const override: EventOccurrenceOverride = {};
+  for (const field of EVENT_SERIES_FIELDS) {
+    if (!sameValue(event[field], series.defaults[field])) {
+      (override as Record<string, unknown>)[field] = event[field];
+    }
+  }
+  const scheduled = occurrenceDateFromEventId(series.seriesId, event.eventId);
+  if (event.eventDate && scheduled && event.eventDate !== scheduled) {
+    override.eventDate = event.eventDate;
+  }
+  return override;
+}
+
+/**
+ * Fold direct edits to series occurrences into the series' overrides, so
+ * regenerating occurrences keeps them. An edit is a field that differs from
+ * the stored copy of the occurrence; occurrences the client did not touch
+ * follow the (possibly changed) series defaults.
+ */
+export function recordOccurrenceEdits(stored: Event[], master: EventsMaster): EventsMaster {
+  if (!master.series || master.series.length === 0) return master;
+  const previous = new Map(stored.map((event) => [event.eventId, event]));
+
+  const series = master.series.map((item) => {
+    let overrides = item.overrides ?? {};
+    for (const event of master.events) {
+      if (event.seriesId !== item.seriesId) continue;
+      const date = occurrenceDateFromEventId(item.seriesId, event.eventId);
+      const before = previous.get(event.eventId);
+      if (!date || !before || before.seriesId !== item.seriesId) continue;
+
+      const edits: EventOccurrenceOverride = {};
+      for (const field of EVENT_SERIES_FIELDS) {
+        if (!sameValue(event[field], before[field])) {
+          (edits as Record<string, unknown>)[field] = event[field];
+        }
+      }
+      if (event.eventDate && event.eventDate !== before.eventDate) edits.eventDate = event.eventDate;
+      if (Object.keys(edits).length === 0) continue;
+
+      const merged: EventOccurrenceOverride = { ...overrides[date], ...edits };
+      for (const field of EVENT_SERIES_FIELDS) {
+        if (field in edits && sameValue(merged[field], item.defaults?.[field])) delete merged[field];
+      }
+      if (merged.eventDate === date) delete merged.eventDate;
+      overrides = { ...overrides };
+      if (Object.keys(merged).length > 0) {
+        overrides[date] = merged;
+      } else {
+        delete overrides[date];
+      }
+    }
+    return overrides === item.overrides ? item : { ...item, overrides };
+  });
+
+  return { ...master, series };
+}
+
+/**
+ * Validate a series from a request. Throws with a field-specific message.
+ */
+export function normalizeEventSeries(raw: unknown): EventSeries {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("Series must be an object.");
+  }
+  const input = raw as Partial<EventSeries>;
+  const seriesId = String(input.seriesId ?? "").trim();
+  if (!SERIES_ID.test(seriesId)) {
+    throw new Error("seriesId is required (letters, numbers, - and _).");
+  }
+
+  const rawRule = (input.rule ?? {}) as Partial<EventSeriesRule>;
+  const dayOfWeek = Number(rawRule.dayOfWeek);
+  const interval = Number(rawRule.interval ?? 1);
+  if (!Number.isInteger(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6) {
+    throw new Error(`${seriesId}: rule.dayOfWeek must be 0 (Sunday) to 6 (Saturday).`);
+  }
+  if (!Number.isInteger(interval) || interval < 1 || interval > 52) {
+    throw new Error(`${seriesId}: rule.interval must be a whole number of weeks (1-52).`);
+  }
+  const skipDates = Array.isArray(rawRule.skipDates) ? rawRule.skipDates : [];
+  skipDates.forEach((date) => parseIsoDate(date, `${seriesId}: rule.skipDates`));
+  const rule: EventSeriesRule = {
+    frequency: "weekly",
+    dayOfWeek,
+    interval,
+    startDate: String(rawRule.startDate ?? ""),
+    endDate: String(rawRule.endDate ?? ""),
+    skipDates: Array.from(new Set(skipDates)).sort(),
+  };
+  const start = parseIsoDate(rule.startDate, `${seriesId}: rule.startDate`);
+  const end = parseIsoDate(rule.endDate, `${seriesId}: rule.endDate`);
+  if (end < start) {
+    throw new Error(`${seriesId}: rule.endDate is before rule.startDate.`);
+  }
+  if (listSeriesDates({ ...rule, skipDates: [] }).length > MAX_OCCURRENCES) {
+    throw new Error(`${seriesId}: series would create more than ${MAX_OCCURRENCES} events.`);
+  }
+
+  const defaults = (input.defaults ?? {}) as Partial<EventSeriesFields>;
+  const type = defaults.type ?? "crew-run";
+  if (!EVENT_TYPES.includes(type)) {
+    throw new Error(`${seriesId}: defaults.type must be one of ${EVENT_TYPES.join(", ")}.`);
+  }
+
+  const overrides: Record<string, EventOccurrenceOverride> = {};
+  for (const [date, override] of Object.entries(input.overrides ?? {})) {
+    parseIsoDate(date, `${seriesId}: overrides key`);
+    if (override && typeof override === "object" && Object.keys(override).length > 0) {
+      if (override.eventDate !== undefined) {
+        parseIsoDate(override.eventDate, `${seriesId}: overrides.${date}.eventDate`);
+      }
+      overrides[date] = override;
+    }
+  }
+
+  return {
+    seriesId,
+    rule,
+    defaults: {
+      eventName: defaults.eventName ?? "",
+      eventDescription: defaults.eventDescription ?? "",
+      eventTime: defaults.eventTime ?? "",
+      type,
+      startLocationName: defaults.startLocationName ?? "",
+      startLocationUrl: defaults.startLocationUrl ?? "",
+      startLocationCoordinates: defaults.startLocationCoordinates ?? { lat: 0, lng: 0 },
+      routeGroupIds: Array.isArray(defaults.routeGroupIds) ? defaults.routeGroupIds : [],
+    },
+    overrides,
+  };
+}
+
+/**
+ * Concrete events for a series: defaults, then the occurrence's overrides.
+ */
+export function expandEventSeries(series: EventSeries): Event[] {
+  return listSeriesDates(series.rule).map((date) => {
+    const { eventDate, ...fields } = series.overrides[date] ?? {};
+    return {
+      eventId: occurrenceEventId(series.seriesId, date),
+      ...series.defaults,
+      ...fields,
+      eventDate: eventDate ?? date,
+      seriesId: series.seriesId,
+    } as Event;
+  });
+}
+
+/**
+ * Regenerate every series' occurrences. Standalone events keep their order and
+ * occurrences follow, by date; events whose series was removed become standalone.
+ * Overrides for skipped or out-of-range dates are kept so they return with the date.
+ */
+export function applyEventSeries(master: EventsMaster): EventsMaster {
+  const series = (master.series ?? []).map(normalizeEventSeries);
+  const seriesIds = new Set<string>();
+  for (const item of series) {
+    if (seriesIds.has(item.seriesId)) {
+      throw new Error(`Duplicate seriesId: ${item.seriesId}`);
+    }
+    seriesIds.add(item.seriesId);
+  }
+
+  const standalone = master.events
+    .filter((event) => !event.seriesId || !seriesIds.has(event.seriesId))
+    .map(({ seriesId: _seriesId, ...event }) => event);
+  const standaloneIds = new Set(standalone.map((event) => event.eventId));
+  const previous = new Map(master.events.map((event) => [event.eventId, event]));
+  const occurrences = series
+    .flatMap(expandEventSeries)
+    .map((event) => {
+      const updatedAt = previous.get(event.eventId)?.updatedAt;
+      return updatedAt ? { ...event, updatedAt } : event;
+    })
+    .sort((a, b) => String(a.eventDate).localeCompare(String(b.eventDate)));
+  for (const event of occurrences) {
+    if (standaloneIds.has(event.eventId)) {
+      throw new Error(`Series occurrence ${event.eventId} collides with an existing event.`);
+    }
+  }
+
+  return {
+    ...master,
+    events: [...standalone, ...occurrences],
+    series,
+  };
+}
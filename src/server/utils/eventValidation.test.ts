@@ -0,0 +1,86 @@
+import assert from "assert/strict";
+import {
+  eventEtag,
+  findEventSetChanges,
+  findStaleEvents,
+  stampEventUpdates,
+  validateEvent,
+} from "./eventValidation";
+import type { Event } from "../types";
+
+const knownGroups = new Set(["SUC-001", "SUC-002"]);
+const exists = (id: string) => knownGroups.has(id);
+
+const valid = validateEvent(
+  {
+    eventId: "SUC-037",
+    eventName: " Tuesday Crew Run ",
+    eventDate: "2026-03-03",
+    eventTime: "6:00 PM",
+    type: "crew-run",
+    startLocationUrl: "https://maps.example.com/?q=park",
+    startLocationCoordinates: { lat: 38.57, lng: -121.5 },
+    routeGroupIds: ["SUC-001", "SUC-001", "SUC-002"],
+  },
+  exists
+);
+assert.deepEqual(valid.errors, []);
+assert.equal(valid.event?.eventName, "Tuesday Crew Run");
+assert.equal(valid.event?.eventDescription, "");
+assert.deepEqual(valid.event?.routeGroupIds, ["SUC-001", "SUC-002"]);
+
+// Every problem is reported at once.
+const invalid = validateEvent(
+  {
+    eventId: "bad id",
+    eventName: "",
+    eventDate: "2026-02-30",
+    eventTime: "after work",
+    type: "party",
+    startLocationUrl: "maps",
+    startLocationCoordinates: { lat: 91, lng: "x" },
+    routeGroupIds: ["SUC-001", "SUC-404"],
+  },
+  exists
+);
+assert.equal(invalid.event, null);
+assert.equal(invalid.errors.length, 9, invalid.errors.join("\n"));
+assert(invalid.errors.includes("Unknown route groups: SUC-404"));
+assert.deepEqual(validateEvent([], exists).errors, ["event must be an object"]);
+
+const stored: Event[] = [
+  { eventId: "A", eventName: "A", eventDescription: "", routeGroupIds: [], updatedAt: "t1" },
+  { eventId: "B", eventName: "B", eventDescription: "", routeGroupIds: [], updatedAt: "t1" },
+];
+const stamped = stampEventUpdates(
+  stored,
+  [
+    { ...stored[0] },
+    { ...stored[1], eventName: "B2" },
+    { eventId: "C", eventName: "C", eventDescription: "", routeGroupIds: [] },
+  ],
+  "t2"
+);
+assert.deepEqual(
+  stamped.map((event) => event.updatedAt),
+  ["t1", "t2", "t2"]
+);
+
+assert.notEqual(eventEtag(stamped[0]), eventEtag(stamped[1]));
+assert.equal(eventEtag(stored[0]), eventEtag({ ...stored[0] }));
+
+// A client that loaded B before it changed is stale; new events are not.
+assert.deepEqual(findStaleEvents(stamped, [stored[0], stored[1], { ...stored[0], eventId: "D" }]), [
+  "B",
+]);
+
+// Whole-file saves may not add or drop standalone events; detached occurrences keep their ids.
+assert.deepEqual(
+  findEventSetChanges(
+    [stamped[0], stamped[1], { ...stamped[2], seriesId: "TUE" }],
+    [stamped[0], { ...stamped[2], seriesId: undefined }, { ...stamped[0], eventId: "D" }]
+  ),
+  { added: ["D"], removed: ["B"] }
+);
+
+console.log("eventValidation tests passed");
@@ -0,0 +1,192 @@
+import { createHash } from "crypto";
+import { parseEventTime } from "./calendarFeed.js";
+import type { Event } from "../types.js";
+
+export const EVENT_TYPES: Array<NonNullable<Event["type"]>> = [
+  "crew-run",
+  "training-run",
+  "race",
+  "camp",
+  "social",
+];
+
+const EVENT_ID = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface EventValidationResult {
+  event: Event | null;
+  errors: string[];
+}
+
+function isValidIsoDate(value: string): boolean {
+  if (!ISO_DATE.test(value)) return false;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return Number.isFinite(time) && new Date(time).toISOString().slice(0, 10) === value;
+}
+
+function optionalString(
+  input: Record<string, unknown>,
+  field: string,
+  errors: string[]
+): string {
+  const value = input[field];
+  if (value === undefined || value === null) return "";
+  if (typeof value !== "string") {
+    errors.push(`${field} must be a string`);
+    return "";
+  }
+  return value.trim();
+}
+
+/**
+ * Validate an event from a request, collecting every problem rather than
+ * stopping at the first. `routeGroupExists` is getRouteGroup in the API.
+ */
+export function validateEvent(
+  raw: unknown,
+  routeGroupExists: (routeGroupId: string) => boolean
+): EventValidationResult {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { event: null, errors: ["event must be an object"] };
+  }
+  const input = raw as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const eventId = optionalString(input, "eventId", errors);
+  if (!EVENT_ID.test(eventId)) {
+    errors.push("eventId is required (letters, numbers, - and _)");
+  }
+  const eventName = optionalString(input, "eventName", errors);
+  if (!eventName) errors.push("eventName is required");
+  const eventDescription = optionalString(input, "eventDescription", errors);
+
+  const eventDate = optionalString(input, "eventDate", errors);
+  if (eventDate && !isValidIsoDate(eventDate)) {
+    errors.push(`eventDate must be a YYYY-MM-DD date (got "${eventDate}")`);
+  }
+  const eventTime = optionalString(input, "eventTime", errors);
+  if (eventTime && !parseEventTime(eventTime)) {
+    errors.push(`eventTime must look like "6:00 PM" or "18:00" (got "${eventTime}")`);
+  }
+
+  const type = (input.type ?? "training-run") as Event["type"];
+  if (!type || !EVENT_TYPES.includes(type)) {
+    errors.push(`type must be one of ${EVENT_TYPES.join(", ")}`);
+  }
+
+  const startLocationName = optionalString(input, "startLocationName", errors);
+  const startLocationUrl = optionalString(input, "startLocationUrl", errors);
+  if (startLocationUrl && !/^https?:\/\/\S+$/i.test(startLocationUrl)) {
+    errors.push("startLocationUrl must be an http(s) URL");
+  }
+
+  let startLocationCoordinates = { lat: 0, lng: 0 };
+  if (input.startLocationCoordinates !== undefined && input.startLocationCoordinates !== null) {
+    const coords = input.startLocationCoordinates as { lat?: unknown; lng?: unknown };
+    const lat = coords.lat;
+    const lng = coords.lng;
+    if (typeof lat !== "number" || !Number.isFinite(lat) || lat < -90 || lat > 90) {
+      errors.push("startLocationCoordinates.lat must be between -90 and 90");
+    }
+    if (typeof lng !== "number" || !Number.isFinite(lng) || lng < -180 || lng > 180) {
+      errors.push("startLocationCoordinates.lng must be between -180 and 180");
+    }
+    startLocationCoordinates = { lat: Number(lat), lng: Number(lng) };
+  }
+
+  let routeGroupIds: string[] = [];
+  if (input.routeGroupIds !== undefined) {
+    if (
+      !Array.isArray(input.routeGroupIds) ||
+      input.routeGroupIds.some((id) => typeof id !== "string" || !id.trim())
+    ) {
+      errors.push("routeGroupIds must be an array of route group ids");
+    } else {
+      routeGroupIds = Array.from(new Set(input.routeGroupIds.map((id: string) => id.trim())));
+      const missing = routeGroupIds.filter((id) => !routeGroupExists(id));
+      if (missing.length > 0) {
+        errors.push(`Unknown route groups: ${missing.join(", ")}`);
+      }
+    }
+  }
+
+  if (errors.length > 0) return { event: null, errors };
+  return {
+    event: {
+      eventId,
+      eventName,
+      eventDescription,
+      eventDate,
+      eventTime,
+      type,
+      startLocationName,
+      startLocationUrl,
+      startLocationCoordinates,
+      routeGroupIds,
+    },
+    errors,
+  };
+}
+
+/**
+ * Strong ETag for an event's stored content (updatedAt included, so any write changes it).
+ */
+export function eventEtag(event: Event): string {
+  const hash = createHash("sha1").update(JSON.stringify(event)).digest("hex").slice(0, 16);
+  return `"${hash}"`;
+}
+
+function sameContent(a: Event, b: Event): boolean {
+  const { updatedAt: _a, ...restA } = a;
+  const { updatedAt: _b, ...restB } = b;
+  return JSON.stringify(restA) === JSON.stringify(restB);
+}
+
+/**
+ * Carry updatedAt over from the stored copy for unchanged events and stamp
+ * `now` on new or changed ones.
+ */
+export function stampEventUpdates(previous: Event[], next: Event[], now: string): Event[] {
+  const stored = new Map(previous.map((event) => [event.eventId, event]));
+  return next.map((event) => {
+    const existing = stored.get(event.eventId);
+    if (existing && sameContent({ ...event, updatedAt: existing.updatedAt }, existing)) {
+      return { ...event, updatedAt: existing.updatedAt };
+    }
+    return { ...event, updatedAt: now };
+  });
+}
+
+/**
+ * Events the client last saw at a different updatedAt than what is stored now.
+ * Events the client never loaded (no stored counterpart) are not conflicts.
+ */
+export function findStaleEvents(stored: Event[], incoming: Event[]): string[] {
+  const current = new Map(stored.map((event) => [event.eventId, event]));
+  return incoming
+    .filter((event) => {
+      const existing = current.get(event.eventId);
+      return existing !== undefined && (existing.updatedAt ?? "") !== (event.updatedAt ?? "");
+    })
+    .map((event) => event.eventId);
+}
+
+/**
+ * Standalone events a whole-file save would add or remove. Without the file's
+ * revision these cannot be told apart from events someone else added or
+ * deleted meanwhile. Series occurrences are regenerated, so they are ignored.
+ */
+export function findEventSetChanges(
+  stored: Event[],
+  incoming: Event[]
+): { added: string[]; removed: string[] } {
+  const standaloneIds = (events: Event[]) =>
+    events.filter((event) => !event.seriesId).map((event) => event.eventId);
+  const storedIds = new Set(stored.map((event) => event.eventId));
+  const incomingIds = new Set(incoming.map((event) => event.eventId));
+  // An occurrence whose series was removed comes back standalone under the same id.
+  return {
+    added: standaloneIds(incoming).filter((id) => !storedIds.has(id)),
+    removed: standaloneIds(stored).filter((id) => !incomingIds.has(id)),
+  };
+}
@@ -0,0 +1,350 @@
+/**
+ * Minimal Garmin FIT protocol decoder and encoder.
+ * Reads definition + data records and returns raw field values keyed by
+ * field definition number, and writes messages back out the same way.
+ * Profile-level interpretation (scales, offsets, message meaning) is left
+ * to the caller.
+ */
+
+export type FitValue = number | string | number[] | null;
+
+export interface FitMessage {
+  globalMessageNumber: number;
+  fields: Record<number, FitValue>;
+}
+
+/** One field of a message to encode; `baseType` is the base type number (FIT_BASE_TYPE). */
+export interface FitOutputField {
+  fieldNumber: number;
+  baseType: number;
+  value: number | string;
+}
+
+export interface FitOutputMessage {
+  globalMessageNumber: number;
+  fields: FitOutputField[];
+}
+
+type FitFieldDefinition = {
+  fieldNumber: number;
+  size: number;
+  baseType: number;
+};
+
+type FitDefinition = {
+  littleEndian: boolean;
+  globalMessageNumber: number;
+  fields: FitFieldDefinition[];
+  developerDataSize: number;
+};
+
+export const FIT_MESSAGE = {
+  fileId: 0,
+  record: 20,
+  workout: 26,
+  workoutStep: 27,
+} as const;
+
+export const FIT_BASE_TYPE = {
+  enum: 0,
+  uint8: 2,
+  uint16: 4,
+  uint32: 6,
+  string: 7,
+  uint32z: 12,
+} as const;
+
+const FIT_SIGNATURE = ".FIT";
+const FIT_PROTOCOL_VERSION = 0x10;
+const FIT_PROFILE_VERSION = 2132;
+
+/** Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z). */
+export const FIT_EPOCH_OFFSET_SECONDS = 631065600;
+
+type BaseTypeInfo = { size: number; invalid: number | null };
+
+// Keyed by the base type number (low 5 bits of the base type byte).
+const BASE_TYPES: Record<number, BaseTypeInfo> = {
+  0: { size: 1, invalid: 0xff }, // enum
+  1: { size: 1, invalid: 0x7f }, // sint8
+  2: { size: 1, invalid: 0xff }, // uint8
+  3: { size: 2, invalid: 0x7fff }, // sint16
+  4: { size: 2, invalid: 0xffff }, // uint16
+  5: { size: 4, invalid: 0x7fffffff }, // sint32
+  6: { size: 4, invalid: 0xffffffff }, // uint32
+  7: { size: 1, invalid: null }, // string
+  8: { size: 4, invalid: null }, // float32
+  9: { size: 8, invalid: null }, // float64
+  10: { size: 1, invalid: 0 }, // uint8z
+  11: { size: 2, invalid: 0 }, // uint16z
+  12: { size: 4, invalid: 0 }, // uint32z
+  13: { size: 1, invalid: 0xff }, // byte
+  14: { size: 8, invalid: null }, // sint64
+  15: { size: 8, invalid: null }, // uint64
+  16: { size: 8, invalid: null }, // uint64z
+};
+
+/**
+ * True when the buffer starts with a FIT file header.
+ */
+export function isFitBuffer(buffer: Uint8Array): boolean {
+  if (buffer.length < 12) return false;
+  const headerSize = buffer[0];
+  if (headerSize !== 12 && headerSize !== 14) return false;
+  const signature = String.fromCharCode(buffer[8], buffer[9], buffer[10], buffer[11]);
+  return signature === FIT_SIGNATURE;
+}
+
+function readScalar(
+  view: DataView,
+  offset: number,
+  baseTypeNumber: number,
+  littleEndian: boolean
+): number | null {
+  switch (baseTypeNumber) {
+    case 0:
+    case 2:
+    case 10:
+    case 13:
+      return view.getUint8(offset);
+    case 1:
+      return view.getInt8(offset);
+    case 3:
+      return view.getInt16(offset, littleEndian);
+    case 4:
+    case 11:
+      return view.getUint16(offset, littleEndian);
+    case 5:
+      return view.getInt32(offset, littleEndian);
+    case 6:
+    case 12:
+      return view.getUint32(offset, littleEndian);
+    case 8:
+      return view.getFloat32(offset, littleEndian);
+    case 9:
+      return view.getFloat64(offset, littleEndian);
+    case 14:
+      return Number(view.getBigInt64(offset, littleEndian));
+    case 15:
+    case 16:
+      return Number(view.getBigUint64(offset, littleEndian));
+    default:
+      return null;
+  }
+}
+
+function readFieldValue(
+  view: DataView,
+  offset: number,
+  field: FitFieldDefinition,
+  littleEndian: boolean
+): FitValue {
+  const baseTypeNumber = field.baseType & 0x1f;
+  const info = BASE_TYPES[baseTypeNumber];
+
+  if (!info) return null;
+
+  if (baseTypeNumber === 7) {
+    let text = "";
+    for (let i = 0; i < field.size; i += 1) {
+      const code = view.getUint8(offset + i);
+      if (code === 0) break;
+      text += String.fromCharCode(code);
+    }
+    return text ? decodeUtf8(text) : null;
+  }
+
+  const count = Math.max(1, Math.floor(field.size / info.size));
+  const values: Array<number | null> = [];
+  for (let i = 0; i < count; i += 1) {
+    const raw = readScalar(view, offset + i * info.size, baseTypeNumber, littleEndian);
+    values.push(raw === info.invalid ? null : raw);
+  }
+
+  if (count === 1) return values[0];
+  const valid = values.filter((value): value is number => value !== null);
+  return valid.length ? valid : null;
+}
+
+function decodeUtf8(binary: string): string {
+  try {
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    return new TextDecoder("utf-8").decode(bytes);
+  } catch {
+    return binary;
+  }
+}
+
+/**
+ * Decode every data message in a FIT file, in file order.
+ */
+export function decodeFitFile(buffer: Uint8Array, fileName = "file.fit"): FitMessage[] {
+  if (!isFitBuffer(buffer)) {
+    throw new Error(`Not a FIT file: ${fileName}`);
+  }
+
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const headerSize = buffer[0];
+  const dataSize = view.getUint32(4, true);
+  const end = Math.min(buffer.length, headerSize + dataSize);
+  const definitions = new Map<number, FitDefinition>();
+  const messages: FitMessage[] = [];
+
+  let offset = headerSize;
+  while (offset < end) {
+    const header = buffer[offset];
+    offset += 1;
+
+    const isCompressedTimestamp = (header & 0x80) !== 0;
+    const isDefinition = !isCompressedTimestamp && (header & 0x40) !== 0;
+    const localType = isCompressedTimestamp ? (header >> 5) & 0x03 : header & 0x0f;
+
+    if (isDefinition) {
+      const hasDeveloperData = (header & 0x20) !== 0;
+      const littleEndian = buffer[offset + 1] === 0;
+      const globalMessageNumber = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = buffer[offset + 4];
+      offset += 5;
+
+      const fields: FitFieldDefinition[] = [];
+      for (let i = 0; i < fieldCount; i += 1) {
+        fields.push({
+          fieldNumber: buffer[offset],
+          size: buffer[offset + 1],
+          baseType: buffer[offset + 2],
+        });
+        offset += 3;
+      }
+
+      let developerDataSize = 0;
+      if (hasDeveloperData) {
+        const developerFieldCount = buffer[offset];
+        offset += 1;
+        for (let i = 0; i < developerFieldCount; i += 1) {
+          developerDataSize += buffer[offset + 1];
+          offset += 3;
+        }
+      }
+
+      definitions.set(localType, {
+        littleEndian,
+        globalMessageNumber,
+        fields,
+        developerDataSize,
+      });
+      continue;
+    }
+
+    const definition = definitions.get(localType);
+    if (!definition) {
+      throw new Error(`FIT data message without definition (local type ${localType}) in ${fileName}`);
+    }
+
+    const fields: Record<number, FitValue> = {};
+    for (const field of definition.fields) {
+      if (offset + field.size > buffer.length) {
+        throw new Error(`Truncated FIT record in ${fileName}`);
+      }
+      fields[field.fieldNumber] = readFieldValue(view, offset, field, definition.littleEndian);
+      offset += field.size;
+    }
+    offset += definition.developerDataSize;
+
+    messages.push({ globalMessageNumber: definition.globalMessageNumber, fields });
+  }
+
+  return messages;
+}
+
+/**
+ * Convert FIT semicircles to decimal degrees.
+ */
+export function semicirclesToDegrees(value: number): number {
+  return value * (180 / 2 ** 31);
+}
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401, 0xa001, 0x6c00, 0x7800, 0xb401,
+  0x5000, 0x9c01, 0x8801, 0x4400,
+];
+
+/**
+ * FIT CRC-16 over `bytes`.
+ */
+export function fitCrc(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = ((crc >> 4) & 0x0fff) ^ tmp ^ CRC_TABLE[byte & 0xf];
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = ((crc >> 4) & 0x0fff) ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  }
+  return crc;
+}
+
+function fieldBytes(field: FitOutputField): number[] {
+  if (field.baseType === FIT_BASE_TYPE.string) {
+    return [...new TextEncoder().encode(String(field.value)), 0];
+  }
+  const info = BASE_TYPES[field.baseType];
+  if (!info || typeof field.value !== "number") {
+    throw new Error(`Cannot encode FIT field ${field.fieldNumber} (base type ${field.baseType})`);
+  }
+  const bytes = new Uint8Array(info.size);
+  const view = new DataView(bytes.buffer);
+  if (info.size === 1) view.setUint8(0, field.value);
+  else if (info.size === 2) view.setUint16(0, field.value, true);
+  else view.setUint32(0, field.value, true);
+  return [...bytes];
+}
+
+/**
+ * Encode messages as a FIT file (little-endian, local message type 0). A new
+ * definition is written whenever the field layout changes.
+ */
+export function encodeFitFile(messages: FitOutputMessage[]): Uint8Array {
+  const records: number[] = [];
+  let currentLayout = "";
+
+  for (const message of messages) {
+    const values = message.fields.map(fieldBytes);
+    const layout = [
+      message.globalMessageNumber,
+      ...message.fields.map(
+        (field, i) => `${field.fieldNumber}:${values[i].length}:${field.baseType}`
+      ),
+    ].join(",");
+    if (layout !== currentLayout) {
+      const { globalMessageNumber } = message;
+      records.push(0x40, 0, 0, globalMessageNumber & 0xff, globalMessageNumber >> 8);
+      records.push(message.fields.length);
+      message.fields.forEach((field, i) => {
+        // Multi-byte base types carry the endian-ability bit.
+        const endianBit = (BASE_TYPES[field.baseType]?.size ?? 1) > 1 ? 0x80 : 0;
+        records.push(field.fieldNumber, values[i].length, field.baseType | endianBit);
+      });
+      currentLayout = layout;
+    }
+    records.push(0x00);
+    for (const value of values) records.push(...value);
+  }
+
+  const header = new Uint8Array(14);
+  const headerView = new DataView(header.buffer);
+  header[0] = 14;
+  header[1] = FIT_PROTOCOL_VERSION;
+  headerView.setUint16(2, FIT_PROFILE_VERSION, true);
+  headerView.setUint32(4, records.length, true);
+  header.set([...FIT_SIGNATURE].map((char) => char.charCodeAt(0)), 8);
+  headerView.setUint16(12, fitCrc(header.subarray(0, 12)), true);
+
+  const file = new Uint8Array(14 + records.length + 2);
+  file.set(header, 0);
+  file.set(records, 14);
+  new DataView(file.buffer).setUint16(
+    file.length - 2,
+    fitCrc(file.subarray(0, file.length - 2)),
+    true
+  );
+  return file;
+}
@@ -1,61 +1,29 @@
 import { DOMParser } from "xmldom";
 import { gpx } from "@tmcw/togeojson";
+import { computeRouteElevationStats } from "../../route-stats/index.js";
 import type { ParsedRoute } from "../types.js";
 
 /**
- * Haversine distance (meters) between two [lon, lat] pairs.
+ * Build a ParsedRoute from a flattened track, computing distance/elevation stats.
  */
-function haversine(a: [number, number], b: [number, number]): number {
-  const R = 6371000; // meters
-  const toRad = (deg: number) => (deg * Math.PI) / 180;
-
-  const [lon1, lat1] = a;
-  const [lon2, lat2] = b;
-
-  const dLat = toRad(lat2 - lat1);
-  const dLon = toRad(lon2 - lon1);
-
-  const sLat1 = toRad(lat1);
-  const sLat2 = toRad(lat2);
-
-  const sinDLat = Math.sin(dLat / 2);
-  const sinDLon = Math.sin(dLon / 2);
-
-  const h =
-    sinDLat * sinDLat +
-    Math.cos(sLat1) * Math.cos(sLat2) * sinDLon * sinDLon;
-
-  return 2 * R * Math.asin(Math.sqrt(h));
-}
-
-/**
- * Compute distance and elevation stats from coordinates and elevations.
- */
-function computeStats(
+export function buildParsedRoute(
+  fileName: string,
   coords: [number, number][],
   elevations: number[]
-): {
-  distanceMi: number;
-  elevationFt: number;
-} {
-  let totalDist = 0;
-
-  // Calculate total distance
-  for (let i = 1; i < coords.length; i++) {
-    const d = haversine(coords[i - 1], coords[i]);
-    totalDist += d;
+): ParsedRoute {
+  if (coords.length < 2) {
+    throw new Error(`Not enough coordinates in ${fileName}`);
   }
 
-  // Calculate elevation gain
-  let elevGain = 0;
-  for (let i = 1; i < elevations.length; i++) {
-    const diff = elevations[i] - elevations[i - 1];
-    if (diff > 0) elevGain += diff;
-  }
+  const stats = computeRouteElevationStats(coords, elevations);
 
   return {
-    distanceMi: totalDist / 1609.344,
-    elevationFt: elevGain * 3.28084,
+    fileName,
+    coords,
+    elevations,
+    distanceMi: stats.distanceMi,
+    elevationFt: stats.gainFt,
+    elevationStats: stats,
   };
 }
 
@@ -91,17 +59,5 @@ export function parseGPXText(
     }
   }
 
-  if (allCoords.length < 2) {
-    throw new Error(`Not enough coordinates in ${fileName}`);
-  }
-
-  const stats = computeStats(allCoords, allElevs);
-
-  return {
-    fileName,
-    coords: allCoords,
-    elevations: allElevs,
-    distanceMi: stats.distanceMi,
-    elevationFt: stats.elevationFt,
-  };
+  return buildParsedRoute(fileName, allCoords, allElevs);
 }
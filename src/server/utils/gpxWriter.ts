@@ -0,0 +1,117 @@
+import type { ParsedRoute } from "../types.js";
+
+const GPX_CREATOR = "SUC Studio";
+const GPX_EXTENSIONS_NS = "urn:suc-os:gpx:poi:1";
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function formatCoordinate(value: number): string {
+  return Number(value.toFixed(7)).toString();
+}
+
+function formatElevation(value: number): string {
+  return Number(value.toFixed(1)).toString();
+}
+
+export type GpxWaypointExtensions = Record<string, string | number | boolean>;
+
+export type GpxWaypoint = {
+  lat: number;
+  lon: number;
+  ele?: number;
+  name: string;
+  desc?: string;
+  type?: string;
+  /** Written as <suc:key>value</suc:key> inside <extensions>. */
+  extensions?: GpxWaypointExtensions;
+};
+
+export type GpxDocument = {
+  name: string;
+  desc?: string;
+  track: Pick<ParsedRoute, "coords" | "elevations">;
+  waypoints?: GpxWaypoint[];
+};
+
+function trackLines(route: Pick<ParsedRoute, "coords" | "elevations">, name: string): string[] {
+  const lines: string[] = ["  <trk>", `    <name>${escapeXml(name)}</name>`, "    <trkseg>"];
+  route.coords.forEach(([lon, lat], index) => {
+    const ele = route.elevations[index];
+    const attrs = `lat="${formatCoordinate(lat)}" lon="${formatCoordinate(lon)}"`;
+    if (Number.isFinite(ele)) {
+      lines.push(`      <trkpt ${attrs}><ele>${formatElevation(ele)}</ele></trkpt>`);
+    } else {
+      lines.push(`      <trkpt ${attrs}/>`);
+    }
+  });
+  lines.push("    </trkseg>", "  </trk>");
+  return lines;
+}
+
+function waypointLines(waypoint: GpxWaypoint): string[] {
+  const lines = [
+    `  <wpt lat="${formatCoordinate(waypoint.lat)}" lon="${formatCoordinate(waypoint.lon)}">`,
+  ];
+  // GPX 1.1 requires ele, name, desc, type, extensions in this order.
+  if (Number.isFinite(waypoint.ele)) {
+    lines.push(`    <ele>${formatElevation(waypoint.ele as number)}</ele>`);
+  }
+  lines.push(`    <name>${escapeXml(waypoint.name)}</name>`);
+  if (waypoint.desc) lines.push(`    <desc>${escapeXml(waypoint.desc)}</desc>`);
+  if (waypoint.type) lines.push(`    <type>${escapeXml(waypoint.type)}</type>`);
+  const extensions = Object.entries(waypoint.extensions ?? {});
+  if (extensions.length > 0) {
+    lines.push("    <extensions>");
+    extensions.forEach(([key, value]) => {
+      lines.push(`      <suc:${key}>${escapeXml(String(value))}</suc:${key}>`);
+    });
+    lines.push("    </extensions>");
+  }
+  lines.push("  </wpt>");
+  return lines;
+}
+
+function gpxOpenTag(withExtensions: boolean): string {
+  const namespaces = withExtensions ? ` xmlns:suc="${GPX_EXTENSIONS_NS}"` : "";
+  return `<gpx version="1.1" creator="${GPX_CREATOR}" xmlns="http://www.topografix.com/GPX/1/1"${namespaces}>`;
+}
+
+/**
+ * Serialize a parsed track to a GPX 1.1 document with a single <trk>.
+ * Used to store non-GPX imports (FIT, TCX, GeoJSON) in the canonical GPX layout.
+ */
+export function buildTrackGpx(route: Pick<ParsedRoute, "coords" | "elevations">, name: string): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    gpxOpenTag(false),
+    ...trackLines(route, name),
+    "</gpx>",
+  ];
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Serialize a track plus waypoints (e.g. route POIs) to a GPX 1.1 document.
+ * Waypoint extensions use the SUC namespace so watches and editors that do not
+ * know it can safely ignore them.
+ */
+export function buildGpxDocument(doc: GpxDocument): string {
+  const waypoints = doc.waypoints ?? [];
+  const hasExtensions = waypoints.some(
+    (waypoint) => Object.keys(waypoint.extensions ?? {}).length > 0
+  );
+  const lines: string[] = ['<?xml version="1.0" encoding="UTF-8"?>', gpxOpenTag(hasExtensions)];
+  lines.push("  <metadata>", `    <name>${escapeXml(doc.name)}</name>`);
+  if (doc.desc) lines.push(`    <desc>${escapeXml(doc.desc)}</desc>`);
+  lines.push("  </metadata>");
+  waypoints.forEach((waypoint) => lines.push(...waypointLines(waypoint)));
+  lines.push(...trackLines(doc.track, doc.name), "</gpx>");
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,95 @@
+import assert from "assert/strict";
+import { memberZoneProfile, resolveMemberWorkout } from "./memberTargets";
+import { validateCanonical } from "./schemaValidation";
+import type { IntervalSegment, RosterMember, Workout } from "../types";
+
+const segment = (
+  reps: number,
+  duration: string,
+  zone: string,
+  rest: string | null = null,
+  type: "pace" | "hr" | "power" = "pace"
+): IntervalSegment => ({
+  type: "interval",
+  reps,
+  work: { duration, target: { type, zone }, cues: [] },
+  rest: rest ? { duration: rest, target: { type: "pace", zone: "Z1" }, cues: [] } : null,
+});
+
+const workout: Workout = {
+  workoutId: "threshold-40",
+  version: 3,
+  status: "published",
+  name: "Threshold 40",
+  description: "",
+  focus: [],
+  coachNotes: "",
+  tiers: {
+    LRG: {
+      name: "Threshold 40 (LRG)",
+      structure: [
+        segment(1, "10min", "Z1"),
+        segment(4, "1mi", "Z4", "90sec"),
+        segment(6, "30sec", "Z5", null, "hr"),
+        segment(1, "5min", "Z3", null, "power"),
+        segment(1, "10min", "Z2"),
+      ],
+    },
+  },
+  createdAt: "2026-10-01T00:00:00.000Z",
+  updatedAt: "2026-10-01T00:00:00.000Z",
+  publishedAt: "2026-10-01T00:00:00.000Z",
+};
+
+const member: RosterMember = {
+  id: "m-1",
+  name: "Sam Rivera",
+  email: "sam@example.com",
+  status: "active",
+  tier: "LRG",
+  joinedDate: "2025-03-01",
+  consent: { publicName: true, publicStory: false, publicPhotos: false, publicMetrics: false },
+  zones: {
+    hr: { max: 190, zones: { Z5: [176, 190] } },
+    pace: { zones: { Z1: "6:15-6:30/km", Z4: "4:35-4:40/km" } },
+  },
+};
+
+assert.deepEqual(memberZoneProfile(member), { athleteId: "m-1", ...member.zones });
+assert.deepEqual(validateCanonical("roster", [member]), { ok: true });
+const badPace = validateCanonical("roster", [
+  { ...member, zones: { pace: { zones: { Z1: "fast" } } } },
+]);
+assert.equal(badPace.ok ? null : badPace.errors[0].field, "[0].zones.pace.zones.Z1");
+
+// Units follow the pace zones when the member has no preference.
+const resolved = resolveMemberWorkout(workout, "LRG", member);
+assert.equal(resolved.units, "km");
+assert.equal(resolved.version, 3);
+assert.deepEqual(resolved.steps[1], {
+  index: 1,
+  work: { type: "pace", minSeconds: 275, maxSeconds: 280, unit: "km", text: "4:35–4:40 / km" },
+  rest: { type: "pace", minSeconds: 375, maxSeconds: 390, unit: "km", text: "6:15–6:30 / km" },
+});
+assert.deepEqual(resolved.steps[2].work, { type: "hr", min: 176, max: 190, text: "176–190 bpm" });
+assert.equal(resolved.steps[3].work, null, "power targets have no member numbers");
+assert.equal(resolved.steps[4].work, null);
+assert.deepEqual(resolved.issues, ["Missing pace zone Z2 for athlete."]);
+
+// Asking for miles converts the member's km zones.
+const inMiles = resolveMemberWorkout(workout, "LRG", member, { units: "mi" });
+assert.equal(inMiles.steps[1].work?.text, "7:23–7:31 / mi");
+
+// HR zones fall back to % of max HR.
+const percentOnly = resolveMemberWorkout(workout, "LRG", {
+  ...member,
+  zones: { hr: { max: 200 }, preferredUnits: "mi" },
+});
+assert.deepEqual(percentOnly.steps[2].work, { type: "hr", min: 180, max: 200, text: "180–200 bpm" });
+assert.equal(percentOnly.units, "mi");
+
+const noZones = resolveMemberWorkout(workout, "LRG", { ...member, zones: undefined });
+assert.deepEqual(noZones.issues, ["Sam Rivera has no training zones on the roster."]);
+assert.ok(noZones.steps.every((step) => step.work === null && step.rest === null));
+
+console.log("memberTargets tests passed");
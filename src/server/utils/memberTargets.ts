@@ -0,0 +1,100 @@
+import {
+  inferUnitsFromPaceZone,
+  resolveWorkoutPreview,
+  type AthleteZoneProfile,
+  type ResolvedTargetResult,
+  type UnitSystem,
+} from "../../targetResolution.js";
+import type {
+  IntervalTarget,
+  MemberStepTargets,
+  MemberTarget,
+  MemberWorkoutTargets,
+  RosterMember,
+  TierLabel,
+  Workout,
+} from "../types.js";
+import { tierWorkoutDefinition } from "./workoutDefinition.js";
+
+/** A roster member's zones in the shape target resolution takes. */
+export function memberZoneProfile(member: RosterMember): AthleteZoneProfile {
+  return { athleteId: member.id, ...member.zones };
+}
+
+/** Units for a member's numbers: their preference, else the unit their pace zones use. */
+function memberUnits(profile: AthleteZoneProfile): UnitSystem {
+  if (profile.preferredUnits) return profile.preferredUnits;
+  for (const zone of Object.values(profile.pace?.zones ?? {})) {
+    const units = inferUnitsFromPaceZone(zone);
+    if (units) return units;
+  }
+  return "mi";
+}
+
+// Only HR and pace zones have member numbers; open and power targets stay as they are.
+const hasZoneTarget = (target: IntervalTarget | null | undefined): boolean =>
+  Boolean(target?.zone) && (target?.type === "hr" || target?.type === "pace");
+
+function toMemberTarget(
+  result: ResolvedTargetResult | undefined,
+  issues: Set<string>
+): MemberTarget | null {
+  if (!result) return null;
+  if (result.status === "unresolved") {
+    result.issues.forEach((issue) => issues.add(issue));
+    return null;
+  }
+  const { target, preview } = result;
+  if (target.type === "hr") {
+    return { type: "hr", min: target.min, max: target.max, text: preview };
+  }
+  if (target.type === "pace") {
+    return {
+      type: "pace",
+      minSeconds: Math.round(target.minSeconds),
+      maxSeconds: Math.round(target.maxSeconds),
+      unit: target.unit,
+      text: preview,
+    };
+  }
+  return null;
+}
+
+/**
+ * One tier of a workout in a member's own HR and pace numbers. Steps line up
+ * with the tier's structure; zones the member's profile cannot fill are
+ * listed in `issues` and left null.
+ */
+export function resolveMemberWorkout(
+  workout: Workout,
+  tier: TierLabel,
+  member: RosterMember,
+  options: { units?: UnitSystem } = {}
+): MemberWorkoutTargets {
+  const profile = memberZoneProfile(member);
+  const units = options.units ?? memberUnits(profile);
+  const preview = resolveWorkoutPreview(tierWorkoutDefinition(workout, tier), profile, { units });
+  const segments = workout.tiers[tier]?.structure ?? [];
+  const issues = new Set<string>();
+
+  const steps = preview.sections.map((section, index): MemberStepTargets => {
+    const segment = segments[index];
+    const work = section.type === "interval" ? section.work.targetPreview : section.targetPreview;
+    const rest = section.type === "interval" ? section.rest.targetPreview : undefined;
+    return {
+      index,
+      work: hasZoneTarget(segment?.work?.target) ? toMemberTarget(work, issues) : null,
+      rest: hasZoneTarget(segment?.rest?.target) ? toMemberTarget(rest, issues) : null,
+    };
+  });
+
+  return {
+    workoutId: workout.workoutId,
+    version: workout.version,
+    tier,
+    memberId: member.id,
+    units,
+    steps,
+    issues: member.zones ? [...issues] : [`${member.name} has no training zones on the roster.`],
+  };
+}
@@ -4,7 +4,12 @@ import { fileURLToPath } from "url";
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-export const SHARED_DATA_ROOT = path.resolve(__dirname, "../../../../suc-shared-data");
+/** suc-shared-data next to the studio checkout; SUC_SHARED_DATA_ROOT points tests at a temp copy. */
+export const SHARED_DATA_ROOT = process.env.SUC_SHARED_DATA_ROOT
+  ? path.resolve(process.env.SUC_SHARED_DATA_ROOT)
+  : path.resolve(__dirname, "../../../../suc-shared-data");
+/** JSON Schemas for canonical files, shipped with the studio (repo-root schemas/). */
+export const STUDIO_SCHEMAS_ROOT = path.resolve(__dirname, "../../../schemas");
 export const ROUTES_ROOT = path.join(SHARED_DATA_ROOT, "routes");
 export const EVENTS_ROOT = path.join(SHARED_DATA_ROOT, "events");
 export const WORKOUTS_ROOT = path.join(SHARED_DATA_ROOT, "workouts");
@@ -18,6 +23,8 @@ export const FOOTWEAR_REVIEWS_ROOT = path.join(SHARED_DATA_ROOT, "footwear-revie
 export const GEAR_REVIEWS_ROOT = path.join(SHARED_DATA_ROOT, "gear-reviews");
 export const RACE_RECAPS_ROOT = path.join(SHARED_DATA_ROOT, "race-recaps");
 export const CREW_RUN_RECAPS_ROOT = path.join(SHARED_DATA_ROOT, "crew-run-recaps");
+export const ATTENDANCE_ROOT = path.join(SHARED_DATA_ROOT, "attendance");
+export const AUDIT_ROOT = path.join(SHARED_DATA_ROOT, "audit");
 export const ROUTE_MEDIA_SCHEMA_PATH = path.join(SHARED_DATA_ROOT, "schemas", "route-media.schema.json");
 
 // Draft directories (mobile capture → desktop approval workflow)
@@ -42,3 +49,4 @@ export const FOOTWEAR_REVIEWS_MASTER_PATH = path.join(FOOTWEAR_REVIEWS_ROOT, "fo
 export const GEAR_REVIEWS_MASTER_PATH = path.join(GEAR_REVIEWS_ROOT, "gear-reviews.master.json");
 export const RACE_RECAPS_MASTER_PATH = path.join(RACE_RECAPS_ROOT, "race-recaps.master.json");
 export const CREW_RUN_RECAPS_MASTER_PATH = path.join(CREW_RUN_RECAPS_ROOT, "crew-run-recaps.master.json");
+export const AUDIT_LOG_PATH = path.join(AUDIT_ROOT, "audit.log.jsonl");
@@ -0,0 +1,91 @@
+import assert from "assert/strict";
+import {
+  buildPoiImportItem,
+  parsePoiCsv,
+  parsePoiImportFile,
+  parsePoiWaypointsGpx,
+} from "./poiImport";
+import type { RoutePoi } from "../types";
+
+const gpx = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="RD" xmlns="http://www.topografix.com/GPX/1/1">
+  <wpt lat="37.8055" lon="-121.9"><name>Ridge Aid</name><desc>Water only</desc><type>Aid</type></wpt>
+  <wpt lat="37.81" lon="-121.9"><name>Summit</name><sym>Summit</sym></wpt>
+  <wpt lat="137.81" lon="-121.9"><name>Typo</name></wpt>
+  <wpt lat="37.82" lon="-121.9"></wpt>
+</gpx>`;
+
+const fromGpx = parsePoiWaypointsGpx(gpx);
+assert.equal(fromGpx.format, "gpx");
+assert.deepEqual(fromGpx.rows[0], {
+  row: 1,
+  lat: 37.8055,
+  lon: -121.9,
+  type: "aid",
+  title: "Ridge Aid",
+  notes: "Water only",
+});
+assert.equal(fromGpx.rows[1].type, "summit", "sym is the type fallback");
+assert.deepEqual(
+  fromGpx.skipped.map((skip) => skip.row),
+  [3, 4]
+);
+assert.throws(() => parsePoiWaypointsGpx("<gpx></gpx>"), /No <wpt>/);
+
+// Header columns may come in any order; quoted cells keep commas.
+const csv = [
+  "Name,Latitude,Longitude,Notes,Type",
+  '"Ridge Aid, upper",37.8055,-121.9,"Crew ""A"" only",aid',
+  "Summit,37.81,-121.9,,",
+  "Bad,abc,-121.9,,aid",
+].join("\r\n");
+const fromCsv = parsePoiCsv(csv);
+assert.equal(fromCsv.rows.length, 2);
+assert.equal(fromCsv.rows[0].title, "Ridge Aid, upper");
+assert.equal(fromCsv.rows[0].notes, 'Crew "A" only');
+assert.equal(fromCsv.rows[1].type, "");
+assert.equal(fromCsv.rows[1].notes, undefined);
+assert.deepEqual(fromCsv.skipped, [{ row: 4, reason: "lat/lon must be numbers" }]);
+
+// Without a header the columns are lat, lon, type, title, notes.
+const headerless = parsePoiCsv("37.8,-121.9,water,Creek,\n");
+assert.deepEqual(headerless.rows[0], { row: 1, lat: 37.8, lon: -121.9, type: "water", title: "Creek" });
+assert.throws(() => parsePoiCsv("name,notes\nA,B"), /lat, lon and title/);
+
+assert.equal(parsePoiImportFile(Buffer.from(gpx), "aid.gpx").format, "gpx");
+assert.equal(parsePoiImportFile(Buffer.from(csv), "aid.csv").format, "csv");
+
+const existing: RoutePoi[] = [
+  { id: "aid-ridge-aid", title: "Ridge Aid", type: "aid", variants: {} },
+];
+const taken = new Set<string>();
+const row = { row: 1, lat: 37.8055, lon: -121.9, type: "aid", title: "Ridge Aid" };
+const onRoute = { lat: 37.8055, lon: -121.90005, distanceM: 611, distanceMi: 0.38, snapIndex: 5 };
+const item = buildPoiImportItem(
+  row,
+  {
+    MED: onRoute,
+    LRG: [
+      { ...onRoute, passIndex: 0, direction: "forward" },
+      { ...onRoute, distanceM: 3800, distanceMi: 2.36, passIndex: 1, direction: "reverse" },
+    ],
+    XL: { ...onRoute, lat: 37.8058 },
+  },
+  existing,
+  taken
+);
+assert.equal(item.action, "update");
+assert.equal(item.poi.id, "aid-ridge-aid");
+assert.deepEqual(item.poi.drop, { lat: 37.8055, lon: -121.9 });
+assert(item.snapDistanceM.MED !== undefined && item.snapDistanceM.MED < 5);
+assert.equal(item.passes.LRG, 2);
+assert(item.warnings.some((warning) => warning.startsWith("LRG: passed 2 times")));
+assert(item.warnings.some((warning) => warning.startsWith("XL: 34 m off route")));
+
+const duplicate = buildPoiImportItem({ ...row, row: 2, type: "" }, {}, existing, taken);
+assert.equal(duplicate.action, "create");
+assert.equal(duplicate.poi.type, "aid", "missing type defaults to aid");
+assert.equal(duplicate.poi.id, "aid-ridge-aid-2", "ids are unique within one import");
+assert.equal(duplicate.warnings.length, 2);
+
+console.log("poiImport tests passed");
@@ -0,0 +1,328 @@
+import { DOMParser } from "xmldom";
+import { haversineMeters } from "../../route-stats/index.js";
+import { loadRoutePois, saveRoutePois } from "./sharedData.js";
+import { DEFAULT_SNAP_TOLERANCE_M, snapPointToVariants } from "./routeSnapping.js";
+import type {
+  RouteLabel,
+  RoutePoi,
+  RoutePoiImportItem,
+  RoutePoiImportPreview,
+  RoutePoiImportRow,
+  RoutePoiImportSkip,
+  RoutePoiVariantValue,
+} from "../types.js";
+
+/** Imported points without a type are assumed to be aid stations. */
+const DEFAULT_IMPORT_TYPE = "aid";
+/** Snaps further than this from every pass are almost always bad coordinates. */
+const FAR_SNAP_WARNING_M = 200;
+
+type ParsedPoiImport = {
+  format: RoutePoiImportPreview["format"];
+  rows: RoutePoiImportRow[];
+  skipped: RoutePoiImportSkip[];
+};
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/(^-|-$)+/g, "")
+    .slice(0, 64);
+}
+
+function validateCoordinates(lat: number, lon: number): string | null {
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return "lat/lon must be numbers";
+  if (lat < -90 || lat > 90) return `lat ${lat} is out of range`;
+  if (lon < -180 || lon > 180) return `lon ${lon} is out of range`;
+  return null;
+}
+
+function childText(element: Element, tagName: string): string {
+  const child = element.getElementsByTagName(tagName)[0];
+  return child?.textContent?.trim() ?? "";
+}
+
+/**
+ * Read `<wpt>` elements from a GPX file. The name becomes the title, desc/cmt
+ * the notes, and type (or sym) the POI type.
+ */
+export function parsePoiWaypointsGpx(xml: string): ParsedPoiImport {
+  const dom = new DOMParser().parseFromString(xml, "text/xml");
+  const waypoints = Array.from(dom.getElementsByTagName("wpt"));
+  const rows: RoutePoiImportRow[] = [];
+  const skipped: RoutePoiImportSkip[] = [];
+
+  waypoints.forEach((wpt, index) => {
+    const row = index + 1;
+    const lat = Number(wpt.getAttribute("lat"));
+    const lon = Number(wpt.getAttribute("lon"));
+    const title = childText(wpt, "name");
+    const coordinateError = validateCoordinates(lat, lon);
+    if (coordinateError) {
+      skipped.push({ row, reason: coordinateError });
+      return;
+    }
+    if (!title) {
+      skipped.push({ row, reason: "waypoint has no <name>" });
+      return;
+    }
+    const notes = childText(wpt, "desc") || childText(wpt, "cmt");
+    rows.push({
+      row,
+      lat,
+      lon,
+      type: (childText(wpt, "type") || childText(wpt, "sym")).toLowerCase(),
+      title,
+      ...(notes ? { notes } : {}),
+    });
+  });
+
+  if (waypoints.length === 0) {
+    throw new Error("No <wpt> waypoints found in GPX.");
+  }
+  return { format: "gpx", rows, skipped };
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i += 1) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+const CSV_COLUMN_ALIASES: Record<keyof Omit<RoutePoiImportRow, "row">, string[]> = {
+  lat: ["lat", "latitude"],
+  lon: ["lon", "lng", "long", "longitude"],
+  type: ["type", "kind", "category"],
+  title: ["title", "name"],
+  notes: ["notes", "note", "description", "desc"],
+};
+
+/**
+ * Read a CSV of lat, lon, type, title, notes. A header row is optional; when
+ * present, columns are matched by name and may appear in any order.
+ */
+export function parsePoiCsv(text: string): ParsedPoiImport {
+  const lines = text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .map((line, index) => ({ line, row: index + 1 }))
+    .filter((entry) => entry.line.trim().length > 0);
+  if (lines.length === 0) {
+    throw new Error("CSV is empty.");
+  }
+
+  const first = splitCsvLine(lines[0].line).map((cell) => cell.toLowerCase());
+  const hasHeader = !Number.isFinite(Number(first[0])) || first[0] === "";
+  const columns: Record<keyof typeof CSV_COLUMN_ALIASES, number> = hasHeader
+    ? {
+        lat: first.findIndex((cell) => CSV_COLUMN_ALIASES.lat.includes(cell)),
+        lon: first.findIndex((cell) => CSV_COLUMN_ALIASES.lon.includes(cell)),
+        type: first.findIndex((cell) => CSV_COLUMN_ALIASES.type.includes(cell)),
+        title: first.findIndex((cell) => CSV_COLUMN_ALIASES.title.includes(cell)),
+        notes: first.findIndex((cell) => CSV_COLUMN_ALIASES.notes.includes(cell)),
+      }
+    : { lat: 0, lon: 1, type: 2, title: 3, notes: 4 };
+  if (columns.lat < 0 || columns.lon < 0 || columns.title < 0) {
+    throw new Error("CSV header must include lat, lon and title columns.");
+  }
+
+  const rows: RoutePoiImportRow[] = [];
+  const skipped: RoutePoiImportSkip[] = [];
+  (hasHeader ? lines.slice(1) : lines).forEach(({ line, row }) => {
+    const cells = splitCsvLine(line);
+    const cell = (index: number) => (index >= 0 ? cells[index] ?? "" : "");
+    const lat = Number(cell(columns.lat));
+    const lon = Number(cell(columns.lon));
+    const title = cell(columns.title);
+    const coordinateError = validateCoordinates(lat, lon);
+    if (coordinateError || !cell(columns.lat) || !cell(columns.lon)) {
+      skipped.push({ row, reason: coordinateError ?? "lat/lon must be numbers" });
+      return;
+    }
+    if (!title) {
+      skipped.push({ row, reason: "title is required" });
+      return;
+    }
+    const notes = cell(columns.notes);
+    rows.push({
+      row,
+      lat,
+      lon,
+      type: cell(columns.type).toLowerCase(),
+      title,
+      ...(notes ? { notes } : {}),
+    });
+  });
+
+  return { format: "csv", rows, skipped };
+}
+
+/**
+ * Parse an uploaded POI list by extension (.gpx or .csv), sniffing XML otherwise.
+ */
+export function parsePoiImportFile(buffer: Buffer, fileName: string): ParsedPoiImport {
+  const text = buffer.toString("utf8");
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "gpx" || (extension !== "csv" && text.trimStart().startsWith("<"))) {
+    return parsePoiWaypointsGpx(text);
+  }
+  return parsePoiCsv(text);
+}
+
+function closestPassMeters(value: RoutePoiVariantValue, row: RoutePoiImportRow): number {
+  const placements = Array.isArray(value) ? value : [value];
+  return Math.min(
+    ...placements.map((placement) =>
+      haversineMeters([row.lon, row.lat], [placement.lon, placement.lat])
+    )
+  );
+}
+
+/**
+ * Turn one parsed row and its snapped placements into a preview item with
+ * per-variant snap distances and warnings. `takenIds` guards against two rows
+ * in the same file producing the same POI id.
+ */
+export function buildPoiImportItem(
+  row: RoutePoiImportRow,
+  snapped: Partial<Record<RouteLabel, RoutePoiVariantValue>>,
+  existingPois: RoutePoi[],
+  takenIds: Set<string>,
+  toleranceM = DEFAULT_SNAP_TOLERANCE_M
+): RoutePoiImportItem {
+  const warnings: string[] = [];
+  const type = row.type || DEFAULT_IMPORT_TYPE;
+  if (!row.type) warnings.push(`No type given; defaulted to "${DEFAULT_IMPORT_TYPE}".`);
+
+  const baseId = `${slugify(type)}-${slugify(row.title)}`.slice(0, 80);
+  let id = baseId;
+  for (let suffix = 2; takenIds.has(id); suffix += 1) id = `${baseId}-${suffix}`;
+  if (id !== baseId) warnings.push(`Duplicate name in import; saved as ${id}.`);
+  takenIds.add(id);
+
+  const existing = existingPois.find((poi) => poi.id === id);
+  if (existing?.system || existing?.locked) {
+    warnings.push(`${id} is a locked system POI and will not be changed.`);
+  }
+
+  const snapDistanceM: Partial<Record<RouteLabel, number>> = {};
+  const passes: Partial<Record<RouteLabel, number>> = {};
+  for (const [label, value] of Object.entries(snapped) as Array<[RouteLabel, RoutePoiVariantValue]>) {
+    const distanceM = closestPassMeters(value, row);
+    snapDistanceM[label] = distanceM;
+    passes[label] = Array.isArray(value) ? value.length : 1;
+    if (distanceM > FAR_SNAP_WARNING_M) {
+      warnings.push(`${label}: ${Math.round(distanceM)} m from the route; check the coordinates.`);
+    } else if (distanceM > toleranceM) {
+      warnings.push(`${label}: ${Math.round(distanceM)} m off route; snapped to the nearest point.`);
+    }
+    if (Array.isArray(value)) {
+      warnings.push(`${label}: passed ${value.length} times; review passes after import.`);
+    }
+  }
+
+  return {
+    row: row.row,
+    action: existing ? "update" : "create",
+    poi: {
+      id,
+      title: row.title,
+      type,
+      ...(row.notes ? { notes: row.notes } : {}),
+      drop: { lat: row.lat, lon: row.lon },
+      variants: snapped,
+    },
+    snapDistanceM,
+    passes,
+    warnings,
+  };
+}
+
+function mergeImportedPoi(existing: RoutePoi | undefined, imported: RoutePoi): RoutePoi {
+  if (!existing) return imported;
+  return {
+    ...existing,
+    title: imported.title,
+    type: imported.type,
+    ...(imported.notes ? { notes: imported.notes } : {}),
+    drop: imported.drop,
+    variants: { ...(existing.variants ?? {}), ...(imported.variants ?? {}) },
+  };
+}
+
+/**
+ * Snap every parsed row to the selected variants and build the import preview.
+ * With `commit`, non-excluded items are merged into route.pois.json (locked
+ * system POIs are never overwritten).
+ */
+export function importRoutePois(
+  routeGroupId: string,
+  parsed: ParsedPoiImport,
+  variants: RouteLabel[],
+  options: { toleranceM?: number; commit?: boolean; excludeRows?: number[] } = {}
+): RoutePoiImportPreview {
+  const doc = loadRoutePois(routeGroupId);
+  const toleranceM = options.toleranceM ?? DEFAULT_SNAP_TOLERANCE_M;
+  const takenIds = new Set<string>();
+  const excluded = new Set(options.excludeRows ?? []);
+
+  const items = parsed.rows.map((row) =>
+    buildPoiImportItem(
+      row,
+      snapPointToVariants(routeGroupId, variants, { lat: row.lat, lon: row.lon }, { toleranceM }),
+      doc.pois,
+      takenIds,
+      toleranceM
+    )
+  );
+
+  const preview: RoutePoiImportPreview = {
+    routeGroupId,
+    format: parsed.format,
+    variants,
+    toleranceM,
+    items,
+    skipped: parsed.skipped,
+    committed: false,
+  };
+  if (!options.commit) return preview;
+
+  const nextPois = [...doc.pois];
+  items.forEach((item) => {
+    if (excluded.has(item.row)) return;
+    const index = nextPois.findIndex((poi) => poi.id === item.poi.id);
+    const existing = index >= 0 ? nextPois[index] : undefined;
+    if (existing?.system || existing?.locked) return;
+    const merged = mergeImportedPoi(existing, item.poi);
+    if (index >= 0) nextPois[index] = merged;
+    else nextPois.push(merged);
+  });
+
+  const nextDoc = { ...doc, pois: nextPois };
+  console.log("[SAVE_ROUTE_POIS] POI count:", nextDoc.pois.length);
+  saveRoutePois(routeGroupId, nextDoc);
+  return { ...preview, committed: true, pois: nextDoc.pois };
+}
@@ -0,0 +1,181 @@
+import assert from "assert/strict";
+import {
+  collectReferences,
+  describeReferences,
+  findBrokenReferences,
+  findReferencesTo,
+  type IntegritySnapshot,
+} from "./referenceIntegrity";
+import type { Event, RouteIntelDoc, RouteMediaDoc, Workout } from "../types";
+import type { Season } from "../season-builder/types";
+
+const event = (eventId: string, routeGroupIds: string[], seriesId?: string): Event => ({
+  eventId,
+  eventName: eventId,
+  eventDescription: "",
+  routeGroupIds,
+  ...(seriesId ? { seriesId } : {}),
+});
+
+const workout = (workoutId: string, routeId: string | null): Workout =>
+  ({ workoutId, version: 1, status: "published", routeId }) as Workout;
+
+const season: Season = {
+  seasonId: "S1",
+  status: "published",
+  startDate: "2026-03-02",
+  seasonMarkers: [],
+  blocks: [
+    {
+      blockId: "b1",
+      name: "Base",
+      tags: [],
+      weeks: [
+        {
+          weekId: "w1",
+          focus: "base",
+          stress: "low",
+          volume: "low",
+          intensity: "low",
+          eventIds: ["SUC-001", "GONE-EVENT"],
+          days: {
+            mon: {},
+            tue: { workoutIds: ["tempo", "ghost-workout"] },
+            wed: { workoutId: "tempo" },
+            thu: {},
+            fri: {},
+            sat: {},
+            sun: {},
+          },
+        },
+      ],
+    },
+  ],
+};
+
+const snapshot: IntegritySnapshot = {
+  routeGroups: [
+    { routeGroupId: "SUC-034", variants: ["MED", "LRG"] },
+    { routeGroupId: "SUC-040", variants: ["MED"] },
+  ],
+  events: {
+    version: 1,
+    events: [
+      event("SUC-001", ["SUC-034", "SUC-099"]),
+      event("TUE-2026-03-03", ["SUC-099"], "TUE"),
+    ],
+    series: [
+      {
+        seriesId: "TUE",
+        rule: {
+          frequency: "weekly",
+          dayOfWeek: 2,
+          interval: 1,
+          startDate: "2026-03-01",
+          endDate: "2026-03-08",
+          skipDates: [],
+        },
+        defaults: {
+          eventName: "Tuesday",
+          eventDescription: "",
+          routeGroupIds: ["SUC-040"],
+        },
+        overrides: { "2026-03-03": { routeGroupIds: ["SUC-099"] } },
+      },
+    ],
+  },
+  selection: { version: 1, selectedEventIds: ["SUC-001", "OLD-EVENT"] },
+  workouts: [workout("tempo", "SUC-034"), workout("hills", "SUC-041"), workout("easy", null)],
+  routeIntel: [
+    {
+      id: "ri-1",
+      type: "route-intel",
+      eventId: "SUC-001",
+      routes: [{ routeId: "SUC-034", distanceVariantIds: ["MED", "XL"] }],
+    } as RouteIntelDoc,
+  ],
+  routeMedia: [
+    { id: "rm-1", eventId: "", routeId: "SUC-040", distanceVariantId: "MED" } as RouteMediaDoc,
+  ],
+  attendance: [
+    {
+      eventId: "SUC-001",
+      updatedAt: "2026-03-07T16:00:00.000Z",
+      entries: [
+        {
+          memberId: "m1",
+          status: "finished",
+          routeGroupId: "SUC-040",
+          variant: "LRG",
+          checkedInAt: "2026-03-07T14:00:00.000Z",
+          updatedAt: "2026-03-07T16:00:00.000Z",
+        },
+        {
+          memberId: "m2",
+          status: "dns",
+          routeGroupId: null,
+          variant: null,
+          checkedInAt: null,
+          updatedAt: "2026-03-07T14:00:00.000Z",
+        },
+      ],
+    },
+  ],
+  challenges: [{ id: "c1", linkedRoutes: ["SUC-040"], linkedWorkouts: ["hills", "nope"] }],
+  seasons: [{ file: "seasons/season.published.json", season }],
+};
+
+const refs = collectReferences(snapshot);
+// Occurrence events are covered by their series; empty ids are not references.
+assert.equal(refs.some((ref) => ref.source === "event TUE-2026-03-03"), false);
+assert.equal(refs.some((ref) => ref.path === "eventId" && ref.source === "route media rm-1"), false);
+assert.equal(refs.some((ref) => ref.source === "workout easy (published v1)"), false);
+
+const broken = findBrokenReferences(snapshot).map((ref) => `${ref.file} ${ref.path} -> ${ref.targetId}`);
+assert.deepEqual(broken, [
+  "events/events.master.json events[0].routeGroupIds[1] -> SUC-099",
+  "events/events.master.json series[0].overrides.2026-03-03.routeGroupIds[0] -> SUC-099",
+  "events/events.selection.json selectedEventIds[1] -> OLD-EVENT",
+  "workouts/workouts.master.json workouts[1].routeId -> SUC-041",
+  "route-intel/ri-1.json routes[0].distanceVariantIds[1] -> SUC-034/XL",
+  "attendance/SUC-001.json entries[0].variant -> SUC-040/LRG",
+  "data/challenges.json [0].linkedWorkouts[1] -> nope",
+  "seasons/season.published.json blocks[0].weeks[0].eventIds[1] -> GONE-EVENT",
+  "seasons/season.published.json blocks[0].weeks[0].days.tue.workoutIds[1] -> ghost-workout",
+]);
+
+// Deleting a route group orphans its variants' references too.
+const groupRefs = findReferencesTo(snapshot, "route-group", "SUC-034");
+assert.deepEqual(
+  groupRefs.map((ref) => ref.path),
+  [
+    "events[0].routeGroupIds[0]",
+    "workouts[0].routeId",
+    "routes[0].routeId",
+    "routes[0].distanceVariantIds[0]",
+    "routes[0].distanceVariantIds[1]",
+  ]
+);
+assert.equal(describeReferences(groupRefs), "event SUC-001, workout tempo (published v1), route intel ri-1");
+
+const variantRefs = findReferencesTo(snapshot, "route-variant", "SUC-040/MED");
+assert.deepEqual(variantRefs.map((ref) => ref.source), ["route media rm-1"]);
+
+const workoutRefs = findReferencesTo(snapshot, "workout", "tempo");
+assert.deepEqual(
+  workoutRefs.map((ref) => ref.path),
+  ["blocks[0].weeks[0].days.tue.workoutIds[0]", "blocks[0].weeks[0].days.wed.workoutId"]
+);
+
+const eventRefs = findReferencesTo(snapshot, "event", "SUC-001");
+assert.deepEqual(
+  eventRefs.map((ref) => ref.file),
+  [
+    "events/events.selection.json",
+    "route-intel/ri-1.json",
+    "attendance/SUC-001.json",
+    "seasons/season.published.json",
+  ]
+);
+
+console.log("referenceIntegrity tests passed");
@@ -0,0 +1,322 @@
+import {
+  listRouteGroups,
+  loadEventsMaster,
+  loadEventsSelection,
+  loadWorkoutsMaster,
+} from "./sharedData.js";
+import { listRouteIntel } from "./routeIntelData.js";
+import { listRouteMedia } from "./routeMediaData.js";
+import { listAttendance } from "./attendanceData.js";
+import { readChallenges } from "./studioData.js";
+import { loadDraftSeason, loadPublishedSeason } from "../season-builder/persistence.js";
+import { DAY_KEYS } from "../season-builder/types.js";
+import type { Season } from "../season-builder/types.js";
+import type {
+  EventAttendance,
+  EventsMaster,
+  EventsSelection,
+  RouteIntelDoc,
+  RouteLabel,
+  RouteMediaDoc,
+  Workout,
+} from "../types.js";
+
+export type ReferenceTargetKind = "route-group" | "route-variant" | "event" | "workout";
+
+export interface EntityReference {
+  /** Shared-data file holding the reference, relative to the shared data root. */
+  file: string;
+  /** Human-readable owner of the reference, e.g. "event SUC-034". */
+  source: string;
+  /** Field path inside the owning document, e.g. "routes[0].routeId". */
+  path: string;
+  kind: ReferenceTargetKind;
+  /** Referenced id; variants are "<routeGroupId>/<label>". */
+  targetId: string;
+}
+
+/** Challenges are only read for their links. */
+export interface ChallengeLinks {
+  id: string;
+  linkedWorkouts?: string[];
+  linkedRoutes?: string[];
+}
+
+export interface IntegritySnapshot {
+  routeGroups: Array<{ routeGroupId: string; variants: RouteLabel[] }>;
+  events: EventsMaster;
+  selection: EventsSelection;
+  workouts: Workout[];
+  routeIntel: RouteIntelDoc[];
+  routeMedia: RouteMediaDoc[];
+  attendance: EventAttendance[];
+  challenges: ChallengeLinks[];
+  seasons: Array<{ file: string; season: Season }>;
+}
+
+export interface IntegrityReport {
+  checkedAt: string;
+  counts: Record<string, number>;
+  references: number;
+  broken: EntityReference[];
+}
+
+export function variantTargetId(routeGroupId: string, label: string): string {
+  return `${routeGroupId}/${label}`;
+}
+
+function isId(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/**
+ * Every cross-entity reference in the snapshot. Series occurrences are
+ * generated from their series, so their route links are reported on the
+ * series defaults and overrides rather than once per occurrence.
+ */
+export function collectReferences(snapshot: IntegritySnapshot): EntityReference[] {
+  const refs: EntityReference[] = [];
+  const add = (
+    file: string,
+    source: string,
+    path: string,
+    kind: ReferenceTargetKind,
+    targetId: unknown
+  ) => {
+    if (isId(targetId)) refs.push({ file, source, path, kind, targetId: targetId.trim() });
+  };
+
+  const eventsFile = "events/events.master.json";
+  snapshot.events.events.forEach((event, index) => {
+    if (event.seriesId) return;
+    const source = `event ${event.eventId}`;
+    (event.routeGroupIds ?? []).forEach((id, i) =>
+      add(eventsFile, source, `events[${index}].routeGroupIds[${i}]`, "route-group", id)
+    );
+  });
+  (snapshot.events.series ?? []).forEach((series, index) => {
+    const source = `series ${series.seriesId}`;
+    (series.defaults.routeGroupIds ?? []).forEach((id, i) =>
+      add(eventsFile, source, `series[${index}].defaults.routeGroupIds[${i}]`, "route-group", id)
+    );
+    Object.entries(series.overrides ?? {}).forEach(([date, override]) =>
+      (override.routeGroupIds ?? []).forEach((id, i) => {
+        const path = `series[${index}].overrides.${date}.routeGroupIds[${i}]`;
+        add(eventsFile, source, path, "route-group", id);
+      })
+    );
+  });
+  snapshot.selection.selectedEventIds.forEach((id, i) =>
+    add("events/events.selection.json", "event selection", `selectedEventIds[${i}]`, "event", id)
+  );
+
+  snapshot.workouts.forEach((workout, index) => {
+    add(
+      "workouts/workouts.master.json",
+      `workout ${workout.workoutId} (${workout.status} v${workout.version})`,
+      `workouts[${index}].routeId`,
+      "route-group",
+      workout.routeId
+    );
+  });
+
+  for (const doc of snapshot.routeIntel) {
+    const file = `route-intel/${doc.id}.json`;
+    const source = `route intel ${doc.id}`;
+    add(file, source, "eventId", "event", doc.eventId);
+    (doc.routes ?? []).forEach((route, index) => {
+      add(file, source, `routes[${index}].routeId`, "route-group", route.routeId);
+      (route.distanceVariantIds ?? []).forEach((label, i) => {
+        if (!isId(route.routeId) || !isId(label)) return;
+        add(
+          file,
+          source,
+          `routes[${index}].distanceVariantIds[${i}]`,
+          "route-variant",
+          variantTargetId(route.routeId, label)
+        );
+      });
+    });
+  }
+
+  for (const doc of snapshot.routeMedia) {
+    const file = `route-media/${doc.id}.json`;
+    const source = `route media ${doc.id}`;
+    add(file, source, "eventId", "event", doc.eventId);
+    add(file, source, "routeId", "route-group", doc.routeId);
+    if (isId(doc.routeId) && isId(doc.distanceVariantId)) {
+      const targetId = variantTargetId(doc.routeId, doc.distanceVariantId);
+      add(file, source, "distanceVariantId", "route-variant", targetId);
+    }
+  }
+
+  for (const doc of snapshot.attendance) {
+    const file = `attendance/${doc.eventId}.json`;
+    const source = `attendance ${doc.eventId}`;
+    add(file, source, "eventId", "event", doc.eventId);
+    doc.entries.forEach((entry, index) => {
+      add(file, source, `entries[${index}].routeGroupId`, "route-group", entry.routeGroupId);
+      if (isId(entry.routeGroupId) && isId(entry.variant)) {
+        const targetId = variantTargetId(entry.routeGroupId, entry.variant);
+        add(file, source, `entries[${index}].variant`, "route-variant", targetId);
+      }
+    });
+  }
+
+  snapshot.challenges.forEach((challenge, index) => {
+    const source = `challenge ${challenge.id}`;
+    (challenge.linkedRoutes ?? []).forEach((id, i) =>
+      add("data/challenges.json", source, `[${index}].linkedRoutes[${i}]`, "route-group", id)
+    );
+    (challenge.linkedWorkouts ?? []).forEach((id, i) =>
+      add("data/challenges.json", source, `[${index}].linkedWorkouts[${i}]`, "workout", id)
+    );
+  });
+
+  for (const { file, season } of snapshot.seasons) {
+    const source = `season ${season.seasonId}`;
+    season.blocks.forEach((block, b) =>
+      block.weeks.forEach((week, w) => {
+        const weekPath = `blocks[${b}].weeks[${w}]`;
+        (week.eventIds ?? []).forEach((id, i) =>
+          add(file, source, `${weekPath}.eventIds[${i}]`, "event", id)
+        );
+        for (const day of DAY_KEYS) {
+          const assignment = week.days?.[day];
+          if (!assignment) continue;
+          add(file, source, `${weekPath}.days.${day}.workoutId`, "workout", assignment.workoutId);
+          (assignment.workoutIds ?? []).forEach((id, i) =>
+            add(file, source, `${weekPath}.days.${day}.workoutIds[${i}]`, "workout", id)
+          );
+        }
+      })
+    );
+  }
+
+  return refs;
+}
+
+function referenceTargets(snapshot: IntegritySnapshot): Record<ReferenceTargetKind, Set<string>> {
+  return {
+    "route-group": new Set(snapshot.routeGroups.map((group) => group.routeGroupId)),
+    "route-variant": new Set(
+      snapshot.routeGroups.flatMap((group) =>
+        group.variants.map((label) => variantTargetId(group.routeGroupId, label))
+      )
+    ),
+    event: new Set(snapshot.events.events.map((event) => event.eventId)),
+    workout: new Set(snapshot.workouts.map((workout) => workout.workoutId)),
+  };
+}
+
+/**
+ * References whose target does not exist.
+ */
+export function findBrokenReferences(snapshot: IntegritySnapshot): EntityReference[] {
+  const targets = referenceTargets(snapshot);
+  return collectReferences(snapshot).filter((ref) => !targets[ref.kind].has(ref.targetId));
+}
+
+/**
+ * References that point at a target. A route group also owns its variants,
+ * so references to those are included for "route-group".
+ */
+export function findReferencesTo(
+  snapshot: IntegritySnapshot,
+  kind: ReferenceTargetKind,
+  targetId: string
+): EntityReference[] {
+  return collectReferences(snapshot).filter(
+    (ref) =>
+      (ref.kind === kind && ref.targetId === targetId) ||
+      (kind === "route-group" &&
+        ref.kind === "route-variant" &&
+        ref.targetId.startsWith(`${targetId}/`))
+  );
+}
+
+/**
+ * One-line summary for delete responses, e.g. "referenced by event SUC-034, route intel ri-1".
+ */
+export function describeReferences(refs: EntityReference[]): string {
+  const sources = Array.from(new Set(refs.map((ref) => ref.source)));
+  const shown = sources.slice(0, 5).join(", ");
+  return sources.length > 5 ? `${shown} and ${sources.length - 5} more` : shown;
+}
+
+/**
+ * Delete endpoints refuse to orphan references unless called with `?force=true`.
+ */
+export function isForcedDelete(query: Record<string, unknown>): boolean {
+  return query.force === "true" || query.force === "1";
+}
+
+async function readOptional<T>(label: string, read: () => T | Promise<T>, fallback: T): Promise<T> {
+  try {
+    return await read();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.includes("File not found") || message.includes("ENOENT")) {
+      return fallback;
+    }
+    throw new Error(`Failed to read ${label}: ${message}`);
+  }
+}
+
+/**
+ * Load everything that holds or receives references. Missing files count as empty.
+ */
+export async function loadIntegritySnapshot(): Promise<IntegritySnapshot> {
+  const events = await readOptional("events master", loadEventsMaster, { version: 1, events: [] });
+  const selection = await readOptional("events selection", loadEventsSelection, {
+    version: 1,
+    selectedEventIds: [],
+  });
+  const workouts = await readOptional("workouts master", loadWorkoutsMaster, {
+    version: 1,
+    workouts: [],
+  });
+  const challenges = await readOptional<ChallengeLinks[]>("challenges", readChallenges, []);
+  const draft = await readOptional("draft season", loadDraftSeason, null);
+  const published = await readOptional("published season", loadPublishedSeason, null);
+
+  return {
+    routeGroups: listRouteGroups(),
+    events: { ...events, events: Array.isArray(events.events) ? events.events : [] },
+    selection: {
+      ...selection,
+      selectedEventIds: Array.isArray(selection.selectedEventIds) ? selection.selectedEventIds : [],
+    },
+    workouts: Array.isArray(workouts.workouts) ? workouts.workouts : [],
+    routeIntel: await listRouteIntel(),
+    routeMedia: await listRouteMedia(),
+    attendance: await listAttendance(),
+    challenges: Array.isArray(challenges) ? challenges : [],
+    seasons: [
+      ...(draft ? [{ file: "seasons/season.draft.json", season: draft }] : []),
+      ...(published ? [{ file: "seasons/season.published.json", season: published }] : []),
+    ],
+  };
+}
+
+/**
+ * Scan all shared data and report every broken reference.
+ */
+export async function checkReferenceIntegrity(): Promise<IntegrityReport> {
+  const snapshot = await loadIntegritySnapshot();
+  return {
+    checkedAt: new Date().toISOString(),
+    counts: {
+      routeGroups: snapshot.routeGroups.length,
+      events: snapshot.events.events.length,
+      workouts: snapshot.workouts.length,
+      routeIntel: snapshot.routeIntel.length,
+      routeMedia: snapshot.routeMedia.length,
+      attendance: snapshot.attendance.length,
+      challenges: snapshot.challenges.length,
+      seasons: snapshot.seasons.length,
+    },
+    references: collectReferences(snapshot).length,
+    broken: findBrokenReferences(snapshot),
+  };
+}
@@ -1,25 +1,13 @@
-import fs from "fs/promises";
-import path from "path";
 import { ROSTER_PATH } from "./paths.js";
+import { assertCanonical } from "./schemaValidation.js";
+import { readJson, readStoredJsonSync, writeJsonAtomic, type WriteOptions } from "./storage.js";
 import type { RosterMember } from "../types.js";
 
-async function ensureRosterFile(): Promise<void> {
-  const dir = path.dirname(ROSTER_PATH);
-  await fs.mkdir(dir, { recursive: true });
-  try {
-    await fs.access(ROSTER_PATH);
-  } catch {
-    await fs.writeFile(ROSTER_PATH, "[]\n", "utf8");
-  }
-}
-
 export async function readRoster(): Promise<RosterMember[]> {
-  await ensureRosterFile();
-  const raw = await fs.readFile(ROSTER_PATH, "utf8");
-  return JSON.parse(raw) as RosterMember[];
+  return readJson<RosterMember[]>(ROSTER_PATH, []);
 }
 
-export async function writeRoster(data: RosterMember[]): Promise<void> {
-  await ensureRosterFile();
-  await fs.writeFile(ROSTER_PATH, `${JSON.stringify(data, null, 2)}\n`, "utf8");
+export async function writeRoster(data: RosterMember[], options?: WriteOptions): Promise<string> {
+  assertCanonical("roster", data, readStoredJsonSync(ROSTER_PATH));
+  return writeJsonAtomic(ROSTER_PATH, data, options);
 }
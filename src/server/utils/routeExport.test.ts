@@ -0,0 +1,91 @@
+import assert from "assert/strict";
+import { DOMParser } from "xmldom";
+import { parseGPXText } from "./gpxParser";
+import { buildGpxDocument } from "./gpxWriter";
+import { buildVariantWaypoints } from "./routeExport";
+import type { RoutePoi } from "../types";
+
+const track = {
+  coords: Array.from({ length: 20 }, (_, index): [number, number] => [-121.9, 37.8 + index * 0.001]),
+  elevations: Array.from({ length: 20 }, (_, index) => 100 + index),
+};
+
+const pois: RoutePoi[] = [
+  {
+    id: "aid-1",
+    title: "Ridge Aid",
+    type: "aid-station",
+    routePointIndex: 12,
+    notes: "Tailwind & gels",
+    metadata: { water: true, nutrition: true, crewAccess: false, dropBags: true },
+    variants: {},
+  },
+  {
+    id: "view-1",
+    title: "Overlook",
+    type: "viewpoint",
+    variants: {
+      MED: [
+        { lat: 37.802, lon: -121.9, distanceMi: 0.14, distanceM: 220, snapIndex: 2, direction: "forward" },
+        { lat: 37.802, lon: -121.9, distanceMi: 1.1, distanceM: 1770, snapIndex: 18, direction: "reverse" },
+      ],
+    },
+  },
+  {
+    id: "lrg-only",
+    title: "LRG Turn",
+    type: "turn",
+    variants: {
+      LRG: { lat: 37.81, lon: -121.9, distanceMi: 0.7, distanceM: 1100, snapIndex: 10 },
+    },
+  },
+  // Out of range for this track: skipped rather than clamped.
+  { id: "aid-far", title: "Far Aid", type: "aid-station", routePointIndex: 99 },
+];
+
+const waypoints = buildVariantWaypoints(pois, "MED", track);
+assert.deepEqual(
+  waypoints.map((waypoint) => `${waypoint.name}:${waypoint.extensions?.direction ?? "-"}`),
+  ["Overlook:forward", "Ridge Aid:-", "Overlook:reverse"]
+);
+const aid = waypoints[1];
+assert.equal(aid.lat, track.coords[12][1]);
+assert.equal(aid.ele, 112);
+assert.equal(aid.desc, "Tailwind & gels");
+assert.deepEqual(
+  [aid.extensions?.water, aid.extensions?.nutrition, aid.extensions?.crewAccess, aid.extensions?.dropBags],
+  [true, true, false, true]
+);
+assert.equal(waypoints[0].extensions?.water, undefined, "non-aid POIs carry no aid flags");
+
+const gpx = buildGpxDocument({ name: "Test <Route> MED", desc: "Oakland", track, waypoints });
+const dom = new DOMParser().parseFromString(gpx, "text/xml");
+const root = dom.documentElement;
+assert.equal(root.getAttribute("version"), "1.1");
+assert.equal(root.getAttribute("xmlns:suc"), "urn:suc-os:gpx:poi:1");
+
+const wpts = Array.from(dom.getElementsByTagName("wpt"));
+assert.equal(wpts.length, 3);
+const aidWpt = wpts[1];
+assert.equal(aidWpt.getElementsByTagName("name")[0]?.textContent, "Ridge Aid");
+assert.equal(aidWpt.getElementsByTagName("type")[0]?.textContent, "aid-station");
+assert.equal(aidWpt.getElementsByTagName("desc")[0]?.textContent, "Tailwind & gels");
+assert.equal(aidWpt.getElementsByTagName("suc:dropBags")[0]?.textContent, "true");
+assert.equal(aidWpt.getElementsByTagName("suc:crewAccess")[0]?.textContent, "false");
+// GPX 1.1 child order: ele before name, extensions last.
+const childNames = Array.from(aidWpt.childNodes)
+  .filter((node) => node.nodeType === 1)
+  .map((node) => node.nodeName);
+assert.deepEqual(childNames, ["ele", "name", "desc", "type", "extensions"]);
+
+// The exported track still round-trips through the importer.
+const reparsed = parseGPXText(gpx, "export.gpx");
+assert.equal(reparsed.coords.length, track.coords.length);
+assert.equal(reparsed.elevations[5], 105);
+
+// Plain track exports stay free of the extension namespace.
+const bare = buildGpxDocument({ name: "Bare", track });
+assert(!bare.includes("xmlns:suc"));
+assert(!bare.includes("<wpt"));
+
+console.log("routeExport tests passed");
@@ -0,0 +1,71 @@
+import { parseGPXText } from "./gpxParser.js";
+import { buildGpxDocument, type GpxWaypoint } from "./gpxWriter.js";
+import { getRouteGroup, loadRoutePois, loadRouteVariantGpx } from "./sharedData.js";
+import { resolveVariantPoiPlacements, type VariantTrack } from "./routePoiPlacements.js";
+import type { RouteLabel, RoutePoi, RoutePoiVariantPlacement } from "../types.js";
+
+const AID_STATION_FLAGS = ["water", "nutrition", "crewAccess", "dropBags"] as const;
+
+function poiName(poi: RoutePoi): string {
+  return (poi.title || poi.label || poi.id).trim();
+}
+
+function poiExtensions(
+  poi: RoutePoi,
+  distanceMi: number,
+  placement?: RoutePoiVariantPlacement
+): GpxWaypoint["extensions"] {
+  const extensions: NonNullable<GpxWaypoint["extensions"]> = {
+    id: poi.id,
+    distanceMi: Number(distanceMi.toFixed(2)),
+  };
+  if (placement?.direction) extensions.direction = placement.direction;
+  if (poi.type === "aid-station" || poi.metadata) {
+    AID_STATION_FLAGS.forEach((flag) => {
+      extensions[flag] = Boolean(poi.metadata?.[flag]);
+    });
+  }
+  return extensions;
+}
+
+/**
+ * Every POI placed on `label` as a GPX waypoint, ordered by distance along the variant.
+ */
+export function buildVariantWaypoints(
+  pois: RoutePoi[],
+  label: RouteLabel,
+  track: VariantTrack
+): GpxWaypoint[] {
+  return resolveVariantPoiPlacements(pois, label, track).map(
+    ({ poi, lat, lon, ele, distanceMi, placement }) => ({
+      lat,
+      lon,
+      ele,
+      name: poiName(poi),
+      desc: poi.notes?.trim() || undefined,
+      type: poi.type,
+      extensions: poiExtensions(poi, distanceMi, placement),
+    })
+  );
+}
+
+/**
+ * Build a GPX 1.1 export for one variant: the stored track plus its POIs as <wpt>.
+ */
+export function exportRouteVariantGpx(groupId: string, label: string): string {
+  const meta = getRouteGroup(groupId);
+  if (!meta) {
+    throw new Error(`Route group not found: ${groupId}`);
+  }
+  const normalized = String(label).toUpperCase() as RouteLabel;
+  const gpxRaw = loadRouteVariantGpx(groupId, normalized);
+  const track = parseGPXText(gpxRaw, `${groupId}-${normalized}.gpx`);
+  const pois = loadRoutePois(groupId).pois;
+
+  return buildGpxDocument({
+    name: `${meta.name || groupId} ${normalized}`.trim(),
+    desc: meta.location || undefined,
+    track,
+    waypoints: buildVariantWaypoints(pois, normalized, track),
+  });
+}
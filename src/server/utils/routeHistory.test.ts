@@ -0,0 +1,110 @@
+import assert from "assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "suc-history-"));
+process.env.SUC_SHARED_DATA_ROOT = root;
+const { ROUTES_ROOT } = await import("./paths");
+const {
+  MAX_REVISIONS,
+  RouteRevisionError,
+  diffRouteRevisions,
+  ensureRouteHistoryBaseline,
+  listRouteRevisions,
+  recordRouteRevision,
+  restoreRouteRevision,
+} = await import("./routeHistory");
+const { deleteRouteVariant, saveRoutePois, saveRouteVariant } = await import("./sharedData");
+
+const groupId = "SUC-034";
+const dir = path.join(ROUTES_ROOT, groupId);
+const trackPoint = '<trkpt lat="38.58" lon="-121.5"></trkpt>';
+const gpx = (points: number) =>
+  `<gpx><trk><trkseg>${trackPoint.repeat(points)}</trkseg></trk></gpx>`;
+const writeMeta = (notes: string) =>
+  fs.writeFileSync(
+    path.join(dir, "route.meta.json"),
+    JSON.stringify({ routeGroupId: groupId, name: "Loop", notes, variants: ["MED"] })
+  );
+const latest = () => listRouteRevisions(groupId)[0];
+const readMeta = () => JSON.parse(fs.readFileSync(path.join(dir, "route.meta.json"), "utf8"));
+const rejectsWith = (status: number, run: () => unknown) =>
+  assert.throws(
+    run,
+    (error: unknown) => error instanceof RouteRevisionError && error.status === status
+  );
+
+try {
+  // A group from before history: the first tracked write snapshots it once.
+  fs.mkdirSync(dir, { recursive: true });
+  writeMeta("");
+  fs.writeFileSync(path.join(dir, "MED.gpx"), gpx(2));
+  ensureRouteHistoryBaseline(groupId);
+  ensureRouteHistoryBaseline(groupId);
+  assert.equal(listRouteRevisions(groupId).length, 1);
+  const baseline = latest();
+  assert.equal(baseline.action, "baseline");
+  assert.deepEqual(baseline.summary, ["State before history was recorded"]);
+
+  // Nothing changed, nothing recorded.
+  assert.equal(recordRouteRevision(groupId, "save-group"), null);
+  assert.equal(listRouteRevisions(groupId).length, 1);
+
+  // POI and GPX writes are recorded with what they changed.
+  const poi = { id: "aid-1", type: "aid", variants: {} };
+  saveRoutePois(groupId, { routeGroupId: groupId, pois: [poi] });
+  assert.equal(latest().action, "save-pois");
+  assert.deepEqual(latest().summary, ["POIs: +1 / -0 / ~0"]);
+  saveRouteVariant(groupId, "MED", gpx(3));
+  assert.deepEqual(latest().summary, ["Replaced MED GPX (2 -> 3 points)"]);
+  saveRouteVariant(groupId, "LRG", gpx(4));
+  const withLrg = latest();
+  assert.equal(withLrg.action, "save-variant");
+  assert.deepEqual(withLrg.summary, ["Updated variants", "Added LRG GPX"]);
+  assert.deepEqual(diffRouteRevisions(groupId, withLrg.revisionId).variants, {
+    added: ["LRG"],
+    removed: [],
+    changed: [],
+  });
+
+  // Restore snapshots unrecorded live changes first and brings deleted files back.
+  deleteRouteVariant(groupId, "LRG");
+  assert.equal(fs.existsSync(path.join(dir, "LRG.gpx")), false);
+  writeMeta("edited by hand");
+  const restored = restoreRouteRevision(groupId, withLrg.revisionId);
+  const [restoreEntry, beforeRestore] = listRouteRevisions(groupId);
+  assert.equal(restoreEntry.revisionId, restored.revisionId);
+  assert.equal(restored.restoredFrom, withLrg.revisionId);
+  assert.equal(beforeRestore.action, "before-restore");
+  assert.deepEqual(beforeRestore.summary, ["Updated notes"]);
+  assert.equal(fs.readFileSync(path.join(dir, "LRG.gpx"), "utf8"), gpx(4));
+  assert.deepEqual(readMeta().variants, ["MED", "LRG"]);
+
+  // Malformed ids are 400, unknown ones 404.
+  rejectsWith(400, () => diffRouteRevisions(groupId, "../SUC-040"));
+  rejectsWith(400, () => restoreRouteRevision(groupId, "latest"));
+  const unknown = "2020-01-01T00-00-00-000Z";
+  rejectsWith(404, () => diffRouteRevisions(groupId, unknown));
+  rejectsWith(404, () => diffRouteRevisions(groupId, withLrg.revisionId, unknown));
+  rejectsWith(404, () => restoreRouteRevision(groupId, unknown));
+
+  // History keeps the newest MAX_REVISIONS, in order.
+  for (let i = 0; i < MAX_REVISIONS + 5; i += 1) {
+    writeMeta(`note ${i}`);
+    recordRouteRevision(groupId, "save-group");
+  }
+  const kept = listRouteRevisions(groupId);
+  assert.equal(kept.length, MAX_REVISIONS);
+  assert.ok(kept.every((revision) => revision.revisionId !== baseline.revisionId));
+  assert.deepEqual(diffRouteRevisions(groupId, kept[0].revisionId, "current").meta, []);
+  assert.deepEqual(
+    kept.map((revision) => revision.revisionId).sort(),
+    fs.readdirSync(path.join(dir, ".history")).sort(),
+    "pruned revisions leave no directory behind"
+  );
+} finally {
+  fs.rmSync(root, { recursive: true, force: true });
+}
+
+console.log("routeHistory tests passed");
@@ -0,0 +1,402 @@
+import fs from "fs";
+import path from "path";
+import { ROUTES_ROOT } from "./paths.js";
+import { removeFileSync, writeFileAtomicSync } from "./storage.js";
+import type {
+  RouteLabel,
+  RouteMeta,
+  RoutePoi,
+  RouteRevision,
+  RouteRevisionAction,
+  RouteRevisionDiff,
+} from "../types.js";
+
+/**
+ * Route-group revision history.
+ *
+ * Every write to a route group stores a full copy of the group's canonical
+ * files (route.meta.json, route.pois.json and variant GPX) under
+ * routes/:groupId/.history/:revisionId/, alongside a revision.json that records
+ * when, why and what changed. Restoring copies a snapshot back over the live
+ * files and records a new revision, so a restore can itself be undone.
+ */
+
+const HISTORY_DIR = ".history";
+const REVISION_FILE = "revision.json";
+/** Revisions kept per group; older ones are pruned as new ones are recorded. */
+export const MAX_REVISIONS = 50;
+// Timestamp ids from nextRevisionId, with an optional -N suffix for same-millisecond writes.
+const REVISION_ID_PATTERN = /^[0-9TZ-]+$/;
+const META_FIELDS: Array<keyof RouteMeta> = [
+  "name",
+  "location",
+  "source",
+  "notes",
+  "variants",
+  "simplification",
+];
+
+type GroupFiles = Map<string, string>;
+
+/** A revision id that is malformed (400) or not stored for the group (404). */
+export class RouteRevisionError extends Error {
+  readonly status: 400 | 404;
+
+  constructor(message: string, status: 400 | 404) {
+    super(message);
+    this.name = "RouteRevisionError";
+    this.status = status;
+  }
+}
+
+function groupDir(groupId: string): string {
+  return path.join(ROUTES_ROOT, groupId);
+}
+
+function historyDir(groupId: string): string {
+  return path.join(groupDir(groupId), HISTORY_DIR);
+}
+
+function isTrackedFile(relativePath: string): boolean {
+  if (relativePath === "route.meta.json" || relativePath === "route.pois.json") return true;
+  return relativePath.toLowerCase().endsWith(".gpx");
+}
+
+/**
+ * Read the canonical files of a group (or snapshot) directory as relative path -> content.
+ */
+function readGroupFiles(baseDir: string): GroupFiles {
+  const files: GroupFiles = new Map();
+  if (!fs.existsSync(baseDir)) return files;
+
+  const visit = (relativeDir: string) => {
+    const absoluteDir = path.join(baseDir, relativeDir);
+    for (const entry of fs.readdirSync(absoluteDir, { withFileTypes: true })) {
+      const relativePath = relativeDir ? path.join(relativeDir, entry.name) : entry.name;
+      if (entry.isDirectory()) {
+        // Only the legacy variants/ folder holds canonical files.
+        if (!relativeDir && entry.name === "variants") visit(relativePath);
+        continue;
+      }
+      if (!isTrackedFile(relativePath)) continue;
+      files.set(relativePath, fs.readFileSync(path.join(baseDir, relativePath), "utf8"));
+    }
+  };
+
+  visit("");
+  return files;
+}
+
+function parseJson<T>(raw: string | undefined): T | null {
+  if (raw === undefined) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+function variantLabelFromPath(relativePath: string, groupId: string): string {
+  const base = path.basename(relativePath, path.extname(relativePath)).toUpperCase();
+  const prefix = `${groupId.toUpperCase()}-`;
+  return base.startsWith(prefix) ? base.slice(prefix.length) : base;
+}
+
+function countTrackPoints(gpx: string): number {
+  return (gpx.match(/<trkpt[\s>]/gi) ?? []).length;
+}
+
+function gpxByLabel(files: GroupFiles, groupId: string): Map<string, string> {
+  const byLabel = new Map<string, string>();
+  for (const [relativePath, content] of files) {
+    if (!relativePath.toLowerCase().endsWith(".gpx")) continue;
+    byLabel.set(variantLabelFromPath(relativePath, groupId), content);
+  }
+  return byLabel;
+}
+
+function splitPlanOf(files: GroupFiles): string {
+  const doc = parseJson<{ splitPlan?: unknown }>(files.get("route.pois.json"));
+  return JSON.stringify(doc?.splitPlan ?? null);
+}
+
+function poisById(files: GroupFiles): Map<string, RoutePoi> {
+  const doc = parseJson<{ pois?: RoutePoi[] }>(files.get("route.pois.json"));
+  const map = new Map<string, RoutePoi>();
+  for (const poi of Array.isArray(doc?.pois) ? doc!.pois : []) {
+    if (poi && typeof poi.id === "string") map.set(poi.id, poi);
+  }
+  return map;
+}
+
+function diffGroupFiles(groupId: string, before: GroupFiles, after: GroupFiles) {
+  const metaBefore = parseJson<RouteMeta>(before.get("route.meta.json"));
+  const metaAfter = parseJson<RouteMeta>(after.get("route.meta.json"));
+  const meta: RouteRevisionDiff["meta"] = [];
+  for (const field of META_FIELDS) {
+    const valueBefore = metaBefore?.[field] ?? null;
+    const valueAfter = metaAfter?.[field] ?? null;
+    if (JSON.stringify(valueBefore) !== JSON.stringify(valueAfter)) {
+      meta.push({ field, before: valueBefore, after: valueAfter });
+    }
+  }
+
+  const gpxBefore = gpxByLabel(before, groupId);
+  const gpxAfter = gpxByLabel(after, groupId);
+  const variants: RouteRevisionDiff["variants"] = { added: [], removed: [], changed: [] };
+  for (const [label, content] of gpxAfter) {
+    const previous = gpxBefore.get(label);
+    if (previous === undefined) {
+      variants.added.push(label);
+    } else if (previous !== content) {
+      variants.changed.push({
+        label,
+        pointsBefore: countTrackPoints(previous),
+        pointsAfter: countTrackPoints(content),
+      });
+    }
+  }
+  for (const label of gpxBefore.keys()) {
+    if (!gpxAfter.has(label)) variants.removed.push(label);
+  }
+
+  const poisBefore = poisById(before);
+  const poisAfter = poisById(after);
+  const pois: RouteRevisionDiff["pois"] = { added: [], removed: [], changed: [] };
+  for (const [id, poi] of poisAfter) {
+    const previous = poisBefore.get(id);
+    if (!previous) pois.added.push(id);
+    else if (JSON.stringify(previous) !== JSON.stringify(poi)) pois.changed.push(id);
+  }
+  for (const id of poisBefore.keys()) {
+    if (!poisAfter.has(id)) pois.removed.push(id);
+  }
+
+  const splitPlanChanged = splitPlanOf(before) !== splitPlanOf(after);
+
+  return { meta, variants, pois, splitPlanChanged };
+}
+
+function summarizeDiff(diff: ReturnType<typeof diffGroupFiles>): string[] {
+  const summary: string[] = [];
+  if (diff.meta.length > 0) {
+    summary.push(`Updated ${diff.meta.map((entry) => entry.field).join(", ")}`);
+  }
+  diff.variants.added.forEach((label) => summary.push(`Added ${label} GPX`));
+  diff.variants.changed.forEach((entry) =>
+    summary.push(`Replaced ${entry.label} GPX (${entry.pointsBefore} -> ${entry.pointsAfter} points)`)
+  );
+  diff.variants.removed.forEach((label) => summary.push(`Removed ${label} GPX`));
+  const poiChanges = diff.pois.added.length + diff.pois.removed.length + diff.pois.changed.length;
+  if (poiChanges > 0) {
+    summary.push(
+      `POIs: +${diff.pois.added.length} / -${diff.pois.removed.length} / ~${diff.pois.changed.length}`
+    );
+  }
+  if (diff.splitPlanChanged) summary.push("Updated split plan");
+  return summary;
+}
+
+function readRevision(groupId: string, revisionId: string): RouteRevision | null {
+  const revisionPath = path.join(historyDir(groupId), revisionId, REVISION_FILE);
+  if (!fs.existsSync(revisionPath)) return null;
+  return parseJson<RouteRevision>(fs.readFileSync(revisionPath, "utf8"));
+}
+
+/** Oldest first: by timestamp, then by numeric suffix (so "-10" follows "-9"). */
+function compareRevisionIds(a: string, b: string): number {
+  const split = (id: string) => {
+    const match = id.match(/^(.*Z)(?:-(\d+))?$/);
+    return match ? { stamp: match[1], suffix: Number(match[2] ?? 0) } : { stamp: id, suffix: 0 };
+  };
+  const left = split(a);
+  const right = split(b);
+  if (left.stamp !== right.stamp) return left.stamp < right.stamp ? -1 : 1;
+  return left.suffix - right.suffix;
+}
+
+function revisionIds(groupId: string): string[] {
+  const dir = historyDir(groupId);
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort(compareRevisionIds);
+}
+
+function assertRevisionId(groupId: string, revisionId: string, ids = revisionIds(groupId)): void {
+  if (!REVISION_ID_PATTERN.test(revisionId)) {
+    throw new RouteRevisionError(`Invalid revision id: ${revisionId}`, 400);
+  }
+  if (!ids.includes(revisionId)) {
+    throw new RouteRevisionError(`Revision not found: ${revisionId}`, 404);
+  }
+}
+
+function nextRevisionId(groupId: string): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const existing = new Set(revisionIds(groupId));
+  let candidate = stamp;
+  let suffix = 1;
+  while (existing.has(candidate)) {
+    candidate = `${stamp}-${suffix}`;
+    suffix += 1;
+  }
+  return candidate;
+}
+
+function snapshotFiles(groupId: string, revisionId: string): GroupFiles {
+  return readGroupFiles(path.join(historyDir(groupId), revisionId));
+}
+
+function pruneHistory(groupId: string): void {
+  const ids = revisionIds(groupId);
+  const excess = ids.length - MAX_REVISIONS;
+  for (let i = 0; i < excess; i += 1) {
+    fs.rmSync(path.join(historyDir(groupId), ids[i]), { recursive: true, force: true });
+  }
+}
+
+function writeSnapshot(
+  groupId: string,
+  files: GroupFiles,
+  action: RouteRevisionAction,
+  summary: string[],
+  restoredFrom?: string
+): RouteRevision {
+  const revisionId = nextRevisionId(groupId);
+  const dir = path.join(historyDir(groupId), revisionId);
+  fs.mkdirSync(dir, { recursive: true });
+  for (const [relativePath, content] of files) {
+    const target = path.join(dir, relativePath);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content, "utf8");
+  }
+
+  const meta = parseJson<RouteMeta>(files.get("route.meta.json"));
+  const revision: RouteRevision = {
+    revisionId,
+    routeGroupId: groupId,
+    createdAt: new Date().toISOString(),
+    action,
+    summary,
+    variants: (meta?.variants ?? []) as RouteLabel[],
+    ...(restoredFrom ? { restoredFrom } : {}),
+  };
+  fs.writeFileSync(path.join(dir, REVISION_FILE), JSON.stringify(revision, null, 2), "utf8");
+  pruneHistory(groupId);
+  return revision;
+}
+
+/**
+ * Snapshot the group as it is before its first tracked write, so the state
+ * that predates history can still be restored.
+ */
+export function ensureRouteHistoryBaseline(groupId: string): void {
+  if (revisionIds(groupId).length > 0) return;
+  const files = readGroupFiles(groupDir(groupId));
+  if (files.size === 0) return;
+  writeSnapshot(groupId, files, "baseline", ["State before history was recorded"]);
+}
+
+/**
+ * Record the group's current on-disk state as a new revision.
+ * Returns null when nothing changed since the latest revision.
+ */
+export function recordRouteRevision(
+  groupId: string,
+  action: RouteRevisionAction
+): RouteRevision | null {
+  const current = readGroupFiles(groupDir(groupId));
+  const ids = revisionIds(groupId);
+  const previous = ids.length > 0 ? snapshotFiles(groupId, ids[ids.length - 1]) : new Map();
+  const summary = summarizeDiff(diffGroupFiles(groupId, previous, current));
+  if (summary.length === 0) return null;
+  return writeSnapshot(groupId, current, action, summary);
+}
+
+/**
+ * List revisions for a route group, newest first.
+ */
+export function listRouteRevisions(groupId: string): RouteRevision[] {
+  return revisionIds(groupId)
+    .map((id) => readRevision(groupId, id))
+    .filter((revision): revision is RouteRevision => Boolean(revision))
+    .reverse();
+}
+
+/**
+ * Diff a revision against another revision, or against the live files when
+ * `against` is "current". Defaults to the revision immediately before it.
+ */
+export function diffRouteRevisions(
+  groupId: string,
+  revisionId: string,
+  against?: string
+): RouteRevisionDiff {
+  const ids = revisionIds(groupId);
+  assertRevisionId(groupId, revisionId, ids);
+  const index = ids.indexOf(revisionId);
+
+  let baseId: string | null;
+  let baseFiles: GroupFiles;
+  if (against === "current") {
+    baseId = "current";
+    baseFiles = readGroupFiles(groupDir(groupId));
+  } else if (against) {
+    assertRevisionId(groupId, against, ids);
+    baseId = against;
+    baseFiles = snapshotFiles(groupId, against);
+  } else {
+    baseId = index > 0 ? ids[index - 1] : null;
+    baseFiles = baseId ? snapshotFiles(groupId, baseId) : new Map();
+  }
+
+  // Changes read as "going from the base to this revision" (for "current": what a restore would do).
+  const diff = diffGroupFiles(groupId, baseFiles, snapshotFiles(groupId, revisionId));
+
+  return {
+    routeGroupId: groupId,
+    revisionId,
+    against: baseId,
+    ...diff,
+  };
+}
+
+/**
+ * Replace the live group files with a revision's snapshot and record the restore.
+ * Live changes not yet in history are recorded first, so the restore can be undone.
+ */
+export function restoreRouteRevision(groupId: string, revisionId: string): RouteRevision {
+  assertRevisionId(groupId, revisionId);
+  if (!readRevision(groupId, revisionId)) {
+    throw new RouteRevisionError(`Revision not found: ${revisionId}`, 404);
+  }
+  // Read before recording: pruning may drop the revision being restored.
+  const snapshot = snapshotFiles(groupId, revisionId);
+  if (!snapshot.has("route.meta.json")) {
+    throw new Error(`Revision ${revisionId} has no route.meta.json`);
+  }
+  recordRouteRevision(groupId, "before-restore");
+
+  const dir = groupDir(groupId);
+  const live = readGroupFiles(dir);
+  for (const relativePath of live.keys()) {
+    if (!snapshot.has(relativePath)) {
+      removeFileSync(path.join(dir, relativePath));
+    }
+  }
+  for (const [relativePath, content] of snapshot) {
+    writeFileAtomicSync(path.join(dir, relativePath), content);
+  }
+
+  const summary = summarizeDiff(diffGroupFiles(groupId, live, snapshot));
+  return writeSnapshot(
+    groupId,
+    snapshot,
+    "restore",
+    [`Restored revision ${revisionId}`, ...summary],
+    revisionId
+  );
+}
@@ -1,6 +1,13 @@
 import fs from "fs/promises";
 import path from "path";
 import { ROUTE_INTEL_ROOT } from "./paths.js";
+import { assertCanonical } from "./schemaValidation.js";
+import {
+  readStoredJsonSync,
+  removeFileSync,
+  writeJsonAtomic,
+  type WriteOptions,
+} from "./storage.js";
 import type { RouteIntelDoc } from "../types.js";
 
 async function ensureRouteIntelRoot(): Promise<void> {
@@ -37,14 +44,15 @@ export async function readRouteIntel(id: string): Promise<RouteIntelDoc> {
   return JSON.parse(raw) as RouteIntelDoc;
 }
 
-export async function writeRouteIntel(doc: RouteIntelDoc): Promise<void> {
-  await ensureRouteIntelRoot();
+export async function writeRouteIntel(doc: RouteIntelDoc, options?: WriteOptions): Promise<string> {
   const filePath = resolveRouteIntelPath(doc.id);
-  await fs.writeFile(filePath, JSON.stringify(doc, null, 2) + "\n", "utf8");
+  assertCanonical("route-intel", doc, readStoredJsonSync(filePath));
+  return writeJsonAtomic(filePath, doc, options);
 }
 
 export async function deleteRouteIntel(id: string): Promise<void> {
   await ensureRouteIntelRoot();
   const filePath = resolveRouteIntelPath(id);
-  await fs.unlink(filePath);
+  await fs.access(filePath);
+  removeFileSync(filePath);
 }
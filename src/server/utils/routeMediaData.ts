@@ -1,6 +1,7 @@
 import fs from "fs/promises";
 import path from "path";
 import { ROUTE_MEDIA_ROOT } from "./paths.js";
+import { writeFileAtomicSync } from "./storage.js";
 import type { RouteMediaDoc } from "../types.js";
 
 async function ensureRouteMediaRoot(): Promise<void> {
@@ -129,7 +130,5 @@ export async function readRouteMedia(id: string): Promise<RouteMediaDoc> {
 }
 
 export async function writeRouteMedia(doc: RouteMediaDoc): Promise<void> {
-  await ensureRouteMediaRoot();
-  const filePath = resolveRouteMediaPath(doc.id);
-  await fs.writeFile(filePath, serializeRouteMediaDoc(doc), "utf8");
+  writeFileAtomicSync(resolveRouteMediaPath(doc.id), serializeRouteMediaDoc(doc));
 }
@@ -0,0 +1,72 @@
+import { cumulativeDistanceMeters, METERS_PER_MILE } from "../../route-stats/index.js";
+import type {
+  ParsedRoute,
+  RouteLabel,
+  RoutePoi,
+  RoutePoiVariantPlacement,
+} from "../types.js";
+
+export type VariantTrack = Pick<ParsedRoute, "coords" | "elevations">;
+
+export type ResolvedPoiPlacement = {
+  poi: RoutePoi;
+  lat: number;
+  lon: number;
+  ele?: number;
+  distanceMi: number;
+  /** Stored snap placement, absent for routePointIndex POIs. */
+  placement?: RoutePoiVariantPlacement;
+};
+
+function placementsFor(poi: RoutePoi, label: RouteLabel): RoutePoiVariantPlacement[] {
+  const value = poi.variants?.[label];
+  if (!value) return [];
+  return (Array.isArray(value) ? value : [value]).filter(
+    (placement) => Number.isFinite(placement?.lat) && Number.isFinite(placement?.lon)
+  );
+}
+
+/**
+ * Resolve every POI placed on `label` to a point on that variant, ordered by
+ * distance. Snapped POIs use their stored placements (one entry per pass);
+ * aid stations and workouts use routePointIndex on this track.
+ */
+export function resolveVariantPoiPlacements(
+  pois: RoutePoi[],
+  label: RouteLabel,
+  track: VariantTrack
+): ResolvedPoiPlacement[] {
+  const cumulative = cumulativeDistanceMeters(track.coords);
+  const resolved: ResolvedPoiPlacement[] = [];
+
+  for (const poi of pois) {
+    const placements = placementsFor(poi, label);
+    if (placements.length > 0) {
+      placements.forEach((placement) => {
+        const index = Number.isFinite(placement.snapIndex) ? placement.snapIndex : -1;
+        resolved.push({
+          poi,
+          lat: placement.lat,
+          lon: placement.lon,
+          ele: track.elevations[index],
+          distanceMi: placement.distanceMi,
+          placement,
+        });
+      });
+      continue;
+    }
+
+    const index = Number(poi.routePointIndex);
+    if (!Number.isInteger(index) || index < 0 || index >= track.coords.length) continue;
+    const [lon, lat] = track.coords[index];
+    resolved.push({
+      poi,
+      lat,
+      lon,
+      ele: track.elevations[index],
+      distanceMi: (cumulative[index] ?? 0) / METERS_PER_MILE,
+    });
+  }
+
+  return resolved.sort((a, b) => a.distanceMi - b.distanceMi);
+}
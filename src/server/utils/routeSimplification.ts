@@ -0,0 +1,71 @@
+import { DEFAULT_TRACK_SIMPLIFICATION, simplifyTrack } from "../../route-stats/index.js";
+import { buildParsedRoute } from "./gpxParser.js";
+import type { ParsedRoute, RouteSimplificationConfig } from "../types.js";
+
+/** Simplification is opt-in: imports keep every point unless a group or upload turns it on. */
+export const DEFAULT_ROUTE_SIMPLIFICATION: RouteSimplificationConfig = {
+  enabled: false,
+  ...DEFAULT_TRACK_SIMPLIFICATION,
+};
+
+function optionalNumber(value: unknown, field: string, min: number, max: number): number {
+  const parsed = typeof value === "string" && value.trim() ? Number(value) : value;
+  if (typeof parsed !== "number" || !Number.isFinite(parsed) || parsed < min || parsed > max) {
+    throw new Error(`simplification.${field} must be a number between ${min} and ${max}.`);
+  }
+  return parsed;
+}
+
+/**
+ * Validate a (partial) simplification config from a request, filling gaps from
+ * `base`. maxPoints null (or 0) removes the point budget.
+ */
+export function normalizeRouteSimplification(
+  raw: unknown,
+  base: RouteSimplificationConfig = DEFAULT_ROUTE_SIMPLIFICATION
+): RouteSimplificationConfig {
+  if (raw === undefined || raw === null) return base;
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("simplification must be an object.");
+  }
+  const input = raw as Partial<Record<keyof RouteSimplificationConfig, unknown>>;
+  const next: RouteSimplificationConfig = { ...base };
+
+  if (input.enabled !== undefined) next.enabled = Boolean(input.enabled);
+  if (input.algorithm !== undefined) {
+    if (input.algorithm !== "douglas-peucker" && input.algorithm !== "visvalingam") {
+      throw new Error("simplification.algorithm must be douglas-peucker or visvalingam.");
+    }
+    next.algorithm = input.algorithm;
+  }
+  if (input.toleranceM !== undefined) next.toleranceM = optionalNumber(input.toleranceM, "toleranceM", 0, 100);
+  if (input.maxSegmentM !== undefined) {
+    next.maxSegmentM = optionalNumber(input.maxSegmentM, "maxSegmentM", 0, 1000);
+  }
+  if (input.preserveElevation !== undefined) next.preserveElevation = Boolean(input.preserveElevation);
+  if (input.maxPoints !== undefined) {
+    next.maxPoints =
+      input.maxPoints === null || input.maxPoints === 0 || input.maxPoints === ""
+        ? null
+        : Math.floor(optionalNumber(input.maxPoints, "maxPoints", 2, 1000000));
+  }
+  return next;
+}
+
+/**
+ * Apply a group's simplification config to a parsed track. Returns the route
+ * unchanged when disabled or when simplification would not drop any points.
+ */
+export function applyRouteSimplification(
+  parsed: ParsedRoute,
+  config: RouteSimplificationConfig
+): ParsedRoute {
+  if (!config.enabled || parsed.coords.length <= 2) return parsed;
+  const result = simplifyTrack(parsed.coords, parsed.elevations, config);
+  if (result.summary.pointsAfter >= result.summary.pointsBefore) return parsed;
+  return {
+    ...buildParsedRoute(parsed.fileName, result.coords, result.elevations),
+    sourceFormat: parsed.sourceFormat,
+    simplification: result.summary,
+  };
+}
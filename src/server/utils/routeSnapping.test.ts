@@ -0,0 +1,57 @@
+import assert from "assert/strict";
+import { findRoutePasses, removePlacementPass } from "./routeSnapping";
+import type { RoutePoiVariantPlacement } from "../types";
+
+// ~111 m per 0.001 deg latitude.
+const outbound = Array.from({ length: 21 }, (_, index): [number, number] => [-121.9, 37.8 + index * 0.001]);
+// Out-and-back: return leg runs 5 m east of the outbound leg.
+const inbound = outbound
+  .slice(0, -1)
+  .reverse()
+  .map(([lon, lat]): [number, number] => [lon + 0.00005, lat]);
+const outAndBack = [...outbound, ...inbound];
+
+const aid = { lat: 37.8055, lon: -121.89998 };
+const passes = findRoutePasses(outAndBack, aid);
+assert.equal(passes.length, 2, "out-and-back aid station is passed twice");
+assert.deepEqual(
+  passes.map((pass) => pass.passIndex),
+  [0, 1]
+);
+assert.deepEqual(
+  passes.map((pass) => pass.direction),
+  ["forward", "reverse"]
+);
+assert(passes[0].distanceMi < passes[1].distanceMi, "passes are ordered along the track");
+assert(Math.abs(passes[0].distanceM - 611) < 10, `outbound pass at ${passes[0].distanceM} m`);
+
+// The turnaround is a single pass even though the track doubles back on it.
+const turnaround = findRoutePasses(outAndBack, { lat: 37.82, lon: -121.9 });
+assert.equal(turnaround.length, 1);
+
+// Lollipop: stem out, loop, stem back. The stem is passed twice, the loop once.
+const stem = Array.from({ length: 11 }, (_, index): [number, number] => [-121.9, 37.8 + index * 0.001]);
+const loop: [number, number][] = [
+  [-121.898, 37.811],
+  [-121.898, 37.813],
+  [-121.902, 37.813],
+  [-121.902, 37.811],
+  [-121.9, 37.81],
+];
+const lollipop = [...stem, ...loop, ...stem.slice(0, -1).reverse()];
+assert.equal(findRoutePasses(lollipop, { lat: 37.805, lon: -121.9 }).length, 2);
+assert.equal(findRoutePasses(lollipop, { lat: 37.813, lon: -121.9 }).length, 1);
+
+// Outside tolerance there are no passes; a wider tolerance picks them up.
+assert.equal(findRoutePasses(outAndBack, { lat: 37.805, lon: -121.8996 }).length, 0);
+assert.equal(findRoutePasses(outAndBack, { lat: 37.805, lon: -121.8996 }, { toleranceM: 50 }).length, 2);
+
+// Pruning renumbers the remaining passes and collapses to a single placement.
+const pruned = removePlacementPass(passes, 0) as RoutePoiVariantPlacement;
+assert(!Array.isArray(pruned));
+assert.equal(pruned.passIndex, 0);
+assert.equal(pruned.direction, "reverse");
+assert.equal(removePlacementPass(pruned, 0), null, "the only pass cannot be pruned");
+assert.equal(removePlacementPass(passes, 5), null);
+
+console.log("routeSnapping tests passed");
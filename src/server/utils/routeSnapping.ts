@@ -8,6 +8,7 @@ type ProjectedHit = {
   lon: number;
   distanceM: number;
   snapIndex: number;
+  segmentIndex: number;
   distanceToClick: number;
 };
 
@@ -96,104 +97,116 @@ function projectPointToSegment(
   return { lat, lon, t };
 }
 
-function dedupeHits(hits: ProjectedHit[], toleranceM: number): ProjectedHit[] {
-  if (hits.length <= 1) return hits;
-  const next: ProjectedHit[] = [];
-  for (const hit of hits) {
-    const last = next[next.length - 1];
-    if (!last) {
-      next.push(hit);
-      continue;
-    }
-    const separation = haversineMeters(
-      { lat: last.lat, lon: last.lon },
-      { lat: hit.lat, lon: hit.lon }
-    );
-    if (separation <= toleranceM) continue;
-    next.push(hit);
-  }
-  return next;
-}
+export type RoutePassOptions = {
+  /** Max distance (m) between the click and the track for a pass to count. */
+  toleranceM?: number;
+  /** Along-track gaps shorter than this (m) are GPS noise within one pass. */
+  passGapM?: number;
+};
 
-function mergeHitsByDistance(
-  hits: ProjectedHit[],
-  distanceToleranceM: number
-): ProjectedHit[] {
-  if (hits.length <= 1) return hits;
-  const merged: ProjectedHit[] = [];
-  let bucket: ProjectedHit[] = [];
-
-  const flush = () => {
-    if (bucket.length === 0) return;
-    let best = bucket[0];
-    for (const candidate of bucket) {
-      if (candidate.distanceToClick < best.distanceToClick) {
-        best = candidate;
-      }
-    }
-    merged.push(best);
-    bucket = [];
-  };
+export const DEFAULT_SNAP_TOLERANCE_M = 12;
+const DEFAULT_PASS_GAP_M = 50;
+
+function segmentVector(a: LatLon, b: LatLon): { x: number; y: number } {
+  const cosLat = Math.cos(toRad((a.lat + b.lat) / 2));
+  return { x: (b.lon - a.lon) * cosLat, y: b.lat - a.lat };
+}
 
+/**
+ * Group in-tolerance hits into passes: consecutive segments (allowing short
+ * along-track gaps) belong to the same pass; the closest hit represents it.
+ */
+function groupHitsIntoPasses(hits: ProjectedHit[], passGapM: number): ProjectedHit[][] {
+  const passes: ProjectedHit[][] = [];
+  let current: ProjectedHit[] = [];
   for (const hit of hits) {
-    if (bucket.length === 0) {
-      bucket.push(hit);
-      continue;
-    }
-    const last = bucket[bucket.length - 1];
-    if (Math.abs(hit.distanceM - last.distanceM) <= distanceToleranceM) {
-      bucket.push(hit);
-    } else {
-      flush();
-      bucket.push(hit);
+    const last = current[current.length - 1];
+    if (last && hit.distanceM - last.distanceM > passGapM && hit.segmentIndex > last.segmentIndex + 1) {
+      passes.push(current);
+      current = [];
     }
+    current.push(hit);
   }
-  flush();
-
-  return merged;
+  if (current.length > 0) passes.push(current);
+  return passes;
 }
 
-export function snapPointToRouteVariant(
-  routeGroupId: string,
-  label: RouteLabel,
-  click: LatLon
-): RoutePoiVariantValue {
-  const gpxRaw = loadRouteVariantGpx(routeGroupId, label);
-  const parsed = parseGPXText(gpxRaw, `${routeGroupId}-${label}.gpx`);
-
-  if (!parsed.coords.length) {
-    throw new Error(`No coordinates found for ${routeGroupId} ${label}`);
-  }
-
-  const distances = cumulativeDistancesMeters(parsed.coords);
-  const SNAP_TOLERANCE_M = 12;
-  const DEDUPE_TOLERANCE_M = 6;
-  const DISTANCE_CLUSTER_M = 12;
-  const hits: ProjectedHit[] = [];
+/**
+ * Every pass of a track within tolerance of a point, ordered along the track.
+ * Direction is relative to the first pass: an out-and-back aid station is
+ * passed forward on the way out and reverse on the way back.
+ */
+export function findRoutePasses(
+  coords: [number, number][],
+  click: LatLon,
+  options: RoutePassOptions = {}
+): RoutePoiVariantPlacement[] {
+  const toleranceM = options.toleranceM ?? DEFAULT_SNAP_TOLERANCE_M;
+  const passGapM = options.passGapM ?? DEFAULT_PASS_GAP_M;
+  const distances = cumulativeDistancesMeters(coords);
   const lat0Rad = toRad(click.lat);
+  const hits: ProjectedHit[] = [];
 
-  for (let i = 0; i < parsed.coords.length - 1; i += 1) {
-    const start = { lon: parsed.coords[i][0], lat: parsed.coords[i][1] };
-    const end = { lon: parsed.coords[i + 1][0], lat: parsed.coords[i + 1][1] };
+  for (let i = 0; i < coords.length - 1; i += 1) {
+    const start = { lon: coords[i][0], lat: coords[i][1] };
+    const end = { lon: coords[i + 1][0], lat: coords[i + 1][1] };
     const projection = projectPointToSegment(start, end, click, lat0Rad);
     const distanceToClick = haversineMeters(
       { lat: projection.lat, lon: projection.lon },
       click
     );
-    if (distanceToClick > SNAP_TOLERANCE_M) continue;
+    if (distanceToClick > toleranceM) continue;
     const segmentLength = haversineMeters(start, end);
-    const distanceM = (distances[i] ?? 0) + segmentLength * projection.t;
-    const snapIndex = projection.t <= 0.5 ? i : i + 1;
     hits.push({
       lat: projection.lat,
       lon: projection.lon,
-      distanceM,
-      snapIndex,
+      distanceM: (distances[i] ?? 0) + segmentLength * projection.t,
+      snapIndex: projection.t <= 0.5 ? i : i + 1,
+      segmentIndex: i,
       distanceToClick,
     });
   }
 
-  if (hits.length === 0) {
+  const passes = groupHitsIntoPasses(hits, passGapM).map((pass) =>
+    pass.reduce((best, hit) => (hit.distanceToClick < best.distanceToClick ? hit : best))
+  );
+
+  let reference: { x: number; y: number } | null = null;
+  return passes.map((hit, index) => {
+    const a = { lon: coords[hit.segmentIndex][0], lat: coords[hit.segmentIndex][1] };
+    const b = { lon: coords[hit.segmentIndex + 1][0], lat: coords[hit.segmentIndex + 1][1] };
+    const vector = segmentVector(a, b);
+    if (!reference) reference = vector;
+    const dot = vector.x * reference.x + vector.y * reference.y;
+    return {
+      lat: hit.lat,
+      lon: hit.lon,
+      snapIndex: hit.snapIndex,
+      distanceM: hit.distanceM,
+      distanceMi: hit.distanceM / 1609.344,
+      passIndex: index,
+      direction: dot < 0 ? "reverse" : "forward",
+    };
+  });
+}
+
+export function snapPointToRouteVariant(
+  routeGroupId: string,
+  label: RouteLabel,
+  click: LatLon,
+  options: RoutePassOptions = {}
+): RoutePoiVariantValue {
+  const gpxRaw = loadRouteVariantGpx(routeGroupId, label);
+  const parsed = parseGPXText(gpxRaw, `${routeGroupId}-${label}.gpx`);
+
+  if (!parsed.coords.length) {
+    throw new Error(`No coordinates found for ${routeGroupId} ${label}`);
+  }
+
+  const placements = findRoutePasses(parsed.coords, click, options);
+
+  if (placements.length === 0) {
+    const distances = cumulativeDistancesMeters(parsed.coords);
     const nearest = findNearestPointIndex(parsed.coords, click);
     const snapped = parsed.coords[nearest.index];
     const distanceM = distances[nearest.index] ?? 0;
@@ -206,30 +219,36 @@ export function snapPointToRouteVariant(
     };
   }
 
-  hits.sort((a, b) => a.distanceM - b.distanceM);
-  const deduped = dedupeHits(hits, DEDUPE_TOLERANCE_M);
-  const mergedByDistance = mergeHitsByDistance(deduped, DISTANCE_CLUSTER_M);
-
-  const placements: RoutePoiVariantPlacement[] = mergedByDistance.map((hit, index) => ({
-    lat: hit.lat,
-    lon: hit.lon,
-    snapIndex: hit.snapIndex,
-    distanceM: hit.distanceM,
-    distanceMi: hit.distanceM / 1609.344,
-    passIndex: index,
-  }));
-
   return placements.length === 1 ? placements[0] : placements;
 }
 
+/**
+ * Remove one pass from a variant value and renumber the rest. Returns null when
+ * the pass does not exist or is the only placement (delete the POI instead).
+ */
+export function removePlacementPass(
+  value: RoutePoiVariantValue,
+  passIndex: number
+): RoutePoiVariantValue | null {
+  const placements = Array.isArray(value) ? value : [value];
+  if (placements.length <= 1) return null;
+  const position = placements.findIndex((placement, index) => (placement.passIndex ?? index) === passIndex);
+  if (position < 0) return null;
+  const remaining = placements
+    .filter((_, index) => index !== position)
+    .map((placement, index) => ({ ...placement, passIndex: index }));
+  return remaining.length === 1 ? remaining[0] : remaining;
+}
+
 export function snapPointToVariants(
   routeGroupId: string,
   labels: RouteLabel[],
-  click: LatLon
+  click: LatLon,
+  options: RoutePassOptions = {}
 ): Record<RouteLabel, RoutePoiVariantValue> {
   const result = {} as Record<RouteLabel, RoutePoiVariantValue>;
   for (const label of labels) {
-    result[label] = snapPointToRouteVariant(routeGroupId, label, click);
+    result[label] = snapPointToRouteVariant(routeGroupId, label, click, options);
   }
   return result;
 }
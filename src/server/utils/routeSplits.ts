@@ -0,0 +1,151 @@
+import { parseGPXText } from "./gpxParser.js";
+import { getRouteGroup, loadRoutePois, loadRouteVariantGpx, saveRoutePois } from "./sharedData.js";
+import { resolveVariantPoiPlacements, type VariantTrack } from "./routePoiPlacements.js";
+import { computeSplitTable, type SplitStation } from "../../route-stats/index.js";
+import type {
+  RosterTier,
+  RouteLabel,
+  RoutePoi,
+  RoutePoisDoc,
+  RouteSplitPlan,
+  RouteSplitPlanUpdate,
+  RouteSplitTable,
+} from "../types.js";
+
+export const SPLIT_TIERS: RosterTier[] = ["MED", "LRG", "XL"];
+
+export const DEFAULT_SPLIT_PACES: Record<RosterTier, number> = {
+  MED: 12,
+  LRG: 11,
+  XL: 10,
+};
+
+const START_FINISH_POI_ID = "start-finish";
+const MAX_PACE_MIN_PER_MI = 60;
+
+/**
+ * POIs that break the split table: authored aid stations and snapped "aid" POIs.
+ */
+export function isSplitStationPoi(poi: RoutePoi): boolean {
+  return poi.type === "aid-station" || poi.type === "aid";
+}
+
+export function resolveSplitPlan(doc: RoutePoisDoc): RouteSplitPlan {
+  return {
+    paceMinPerMi: { ...DEFAULT_SPLIT_PACES, ...(doc.splitPlan?.paceMinPerMi ?? {}) },
+  };
+}
+
+/**
+ * Aid stations on one variant as split stations. Multi-pass stations appear once
+ * per pass and share the cutoff stored for that variant.
+ */
+export function collectSplitStations(
+  pois: RoutePoi[],
+  label: RouteLabel,
+  track: VariantTrack
+): SplitStation[] {
+  const resolved = resolveVariantPoiPlacements(
+    pois.filter(isSplitStationPoi),
+    label,
+    track
+  );
+  const passCounts = new Map<string, number>();
+  resolved.forEach(({ poi }) => passCounts.set(poi.id, (passCounts.get(poi.id) ?? 0) + 1));
+  const seen = new Map<string, number>();
+
+  return resolved.map(({ poi, distanceMi }) => {
+    const pass = (seen.get(poi.id) ?? 0) + 1;
+    seen.set(poi.id, pass);
+    const baseName = (poi.title || poi.label || poi.id).trim();
+    return {
+      id: poi.id,
+      name: (passCounts.get(poi.id) ?? 1) > 1 ? `${baseName} (pass ${pass})` : baseName,
+      distanceMi,
+      cutoffMin: poi.cutoffs?.[label] ?? null,
+    };
+  });
+}
+
+/**
+ * Build the Start -> aid stations -> Finish split table for one variant.
+ */
+export function buildRouteSplitTable(groupId: string, label: string): RouteSplitTable {
+  if (!getRouteGroup(groupId)) {
+    throw new Error(`Route group not found: ${groupId}`);
+  }
+  const normalized = String(label).toUpperCase() as RouteLabel;
+  const gpxRaw = loadRouteVariantGpx(groupId, normalized);
+  const track = parseGPXText(gpxRaw, `${groupId}-${normalized}.gpx`);
+  const doc = loadRoutePois(groupId);
+  const plan = resolveSplitPlan(doc);
+  const startFinish = doc.pois.find((poi) => poi.id === START_FINISH_POI_ID);
+
+  return {
+    routeGroupId: groupId,
+    label: normalized,
+    paceMinPerMi: plan.paceMinPerMi,
+    rows: computeSplitTable(
+      track.coords,
+      track.elevations,
+      collectSplitStations(doc.pois, normalized, track),
+      plan.paceMinPerMi,
+      { finishCutoffMin: startFinish?.cutoffs?.[normalized] ?? null }
+    ),
+  };
+}
+
+/**
+ * Apply pace and cutoff edits to route.pois.json. Cutoffs may be set on aid
+ * stations and on the start/finish POI (course cutoff).
+ */
+export function updateRouteSplitPlan(groupId: string, update: RouteSplitPlanUpdate): RoutePoisDoc {
+  if (!getRouteGroup(groupId)) {
+    throw new Error(`Route group not found: ${groupId}`);
+  }
+  const doc = loadRoutePois(groupId);
+  const plan = resolveSplitPlan(doc);
+
+  Object.entries(update.paceMinPerMi ?? {}).forEach(([tier, value]) => {
+    if (!SPLIT_TIERS.includes(tier as RosterTier)) {
+      throw new Error(`Unknown pace tier: ${tier}`);
+    }
+    const pace = Number(value);
+    if (!Number.isFinite(pace) || pace <= 0 || pace > MAX_PACE_MIN_PER_MI) {
+      throw new Error(`Pace for ${tier} must be between 0 and ${MAX_PACE_MIN_PER_MI} min/mi.`);
+    }
+    plan.paceMinPerMi[tier as RosterTier] = pace;
+  });
+
+  Object.entries(update.cutoffs ?? {}).forEach(([poiId, byVariant]) => {
+    const poi = doc.pois.find((item) => item.id === poiId);
+    if (!poi) {
+      throw new Error(`POI not found: ${poiId}`);
+    }
+    if (!isSplitStationPoi(poi) && poi.id !== START_FINISH_POI_ID) {
+      throw new Error(`Cutoffs can only be set on aid stations or the finish (${poiId}).`);
+    }
+    const cutoffs: Partial<Record<RouteLabel, number>> = { ...(poi.cutoffs ?? {}) };
+    Object.entries(byVariant ?? {}).forEach(([label, value]) => {
+      const variant = label.toUpperCase() as RouteLabel;
+      if (value === null || value === undefined) {
+        delete cutoffs[variant];
+        return;
+      }
+      const minutes = Number(value);
+      if (!Number.isFinite(minutes) || minutes <= 0) {
+        throw new Error(`Cutoff for ${poiId} ${variant} must be a positive number of minutes.`);
+      }
+      cutoffs[variant] = Math.round(minutes);
+    });
+    if (Object.keys(cutoffs).length > 0) {
+      poi.cutoffs = cutoffs;
+    } else {
+      delete poi.cutoffs;
+    }
+  });
+
+  doc.splitPlan = plan;
+  saveRoutePois(groupId, doc);
+  return doc;
+}
@@ -0,0 +1,92 @@
+import assert from "assert/strict";
+import { compareVariantTracks } from "./routeVariantDiff";
+
+const STEP_DEG = 0.0005; // ~55 m of latitude per point
+
+function northbound(startLat: number, lon: number, count: number): [number, number][] {
+  return Array.from({ length: count }, (_, index) => [lon, startLat + index * STEP_DEG]);
+}
+
+// MED: straight 4.4 km line north.
+const med = northbound(37.8, -121.9, 81);
+
+// LRG: same first 20 points, a loop ~400 m east for 20 points, then back on MED's line.
+const lrg: [number, number][] = [
+  ...med.slice(0, 20),
+  ...Array.from({ length: 21 }, (_, index): [number, number] => [
+    -121.9 + 0.0045,
+    37.8 + (20 + index) * STEP_DEG,
+  ]),
+  ...med.slice(41),
+];
+
+// XL: MED's first 30 points, then heads west and never comes back.
+const xl: [number, number][] = [
+  ...med.slice(0, 30),
+  ...Array.from({ length: 30 }, (_, index): [number, number] => [
+    -121.9 - (index + 1) * 0.0006,
+    37.8 + 29 * STEP_DEG,
+  ]),
+];
+
+const diff = compareVariantTracks("test-group", [
+  { label: "MED", coords: med },
+  { label: "LRG", coords: lrg },
+  { label: "XL", coords: xl },
+]);
+
+assert.equal(diff.routeGroupId, "test-group");
+assert.deepEqual(
+  diff.variants.map((entry) => entry.label),
+  ["MED", "LRG", "XL"]
+);
+
+const medLrg = diff.sharedSegments.filter(
+  (segment) => segment.variants[0] === "MED" && segment.variants[1] === "LRG"
+);
+assert.equal(medLrg.length, 2, "MED/LRG share the opening and closing trail");
+assert(medLrg[0].ranges.MED!.startMi < 0.01);
+assert(Math.abs(medLrg[0].ranges.MED!.endMi - medLrg[0].ranges.LRG!.endMi) < 0.01);
+
+const medLrgForks = diff.forks.filter(
+  (fork) => fork.variants[0] === "MED" && fork.variants[1] === "LRG"
+);
+assert.deepEqual(
+  medLrgForks.map((fork) => fork.type),
+  ["diverge", "rejoin"]
+);
+const [diverge, rejoin] = medLrgForks;
+assert(diverge.miles.MED! > 0.6 && diverge.miles.MED! < 0.75, `diverge at ${diverge.miles.MED}`);
+assert(rejoin.miles.MED! > 1.35 && rejoin.miles.MED! < 1.5, `rejoin at ${rejoin.miles.MED}`);
+// LRG's detour adds ~0.5 mi, so it rejoins later on its own odometer.
+assert(rejoin.miles.LRG! > rejoin.miles.MED! + 0.4);
+
+const xlFork = diff.forks.find(
+  (fork) => fork.variants.includes("XL") && fork.variants.includes("MED")
+);
+assert(xlFork && xlFork.type === "diverge");
+assert(!diff.forks.some((fork) => fork.variants.includes("XL") && fork.type === "rejoin"));
+
+const summary = Object.fromEntries(diff.variants.map((entry) => [entry.label, entry]));
+// XL's western leg is its own. MED is only exclusive between XL's fork and LRG's rejoin.
+assert(summary.XL.exclusiveMi > 0.9, `XL exclusive ${summary.XL.exclusiveMi}`);
+assert(summary.MED.exclusiveMi > 0.35 && summary.MED.exclusiveMi < 0.5, `MED exclusive ${summary.MED.exclusiveMi}`);
+for (const entry of diff.variants) {
+  assert(Math.abs(entry.sharedMi + entry.exclusiveMi - entry.distanceMi) < 1e-9);
+}
+
+// Tracks that only cross do not count as shared trail.
+const crossing = compareVariantTracks("crossing", [
+  { label: "MED", coords: northbound(37.8, -121.9, 40) },
+  {
+    label: "LRG",
+    coords: Array.from({ length: 40 }, (_, index): [number, number] => [
+      -121.91 + index * 0.0005,
+      37.8 + 20 * STEP_DEG,
+    ]),
+  },
+]);
+assert.equal(crossing.sharedSegments.length, 0);
+assert.equal(crossing.forks.length, 0);
+
+console.log("routeVariantDiff tests passed");
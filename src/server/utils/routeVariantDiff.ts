@@ -0,0 +1,305 @@
+import { parseGPXText } from "./gpxParser.js";
+import { loadRouteVariantGpx } from "./sharedData.js";
+import { cumulativeDistanceMeters, METERS_PER_MILE } from "../../route-stats/index.js";
+import type {
+  RouteLabel,
+  RouteVariantDiff,
+  RouteVariantForkPoint,
+  RouteVariantOverlapSummary,
+  RouteVariantSharedSegment,
+} from "../types.js";
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+export const VARIANT_DIFF_DEFAULTS = {
+  /** Max lateral distance between two tracks to count as the same trail. */
+  toleranceM: 25,
+  /** Shared runs shorter than this are treated as crossings, not shared trail. */
+  minSharedM: 150,
+  /** Off-track gaps shorter than this inside a shared run are GPS noise. */
+  maxGapM: 60,
+};
+
+export type VariantDiffOptions = Partial<typeof VARIANT_DIFF_DEFAULTS>;
+
+export type VariantTrack = {
+  label: RouteLabel;
+  coords: [number, number][];
+};
+
+type IndexedTrack = VariantTrack & {
+  cumulativeMeters: number[];
+  cells: Map<string, number[]>;
+  cellLat: number;
+  cellLon: number;
+};
+
+type TrackHit = { distanceM: number; alongM: number };
+
+type SharedRun = { startIndex: number; endIndex: number };
+
+function cellKey(row: number, col: number): string {
+  return `${row}:${col}`;
+}
+
+/**
+ * Bucket each segment into a lat/lon grid sized to the match tolerance so
+ * nearest-segment lookups only scan a 3x3 neighbourhood.
+ */
+function indexTrack(track: VariantTrack, toleranceM: number): IndexedTrack {
+  const midLat = track.coords[Math.floor(track.coords.length / 2)]?.[1] ?? 0;
+  const cellLat = Math.max(1e-6, toleranceM / METERS_PER_DEGREE_LAT);
+  const cellLon = Math.max(
+    1e-6,
+    toleranceM / (METERS_PER_DEGREE_LAT * Math.max(0.01, Math.cos((midLat * Math.PI) / 180)))
+  );
+  const cells = new Map<string, number[]>();
+
+  for (let i = 0; i < track.coords.length - 1; i += 1) {
+    const [lonA, latA] = track.coords[i];
+    const [lonB, latB] = track.coords[i + 1];
+    const rowStart = Math.floor(Math.min(latA, latB) / cellLat);
+    const rowEnd = Math.floor(Math.max(latA, latB) / cellLat);
+    const colStart = Math.floor(Math.min(lonA, lonB) / cellLon);
+    const colEnd = Math.floor(Math.max(lonA, lonB) / cellLon);
+    for (let row = rowStart; row <= rowEnd; row += 1) {
+      for (let col = colStart; col <= colEnd; col += 1) {
+        const key = cellKey(row, col);
+        const bucket = cells.get(key);
+        if (bucket) bucket.push(i);
+        else cells.set(key, [i]);
+      }
+    }
+  }
+
+  return {
+    ...track,
+    cumulativeMeters: cumulativeDistanceMeters(track.coords),
+    cells,
+    cellLat,
+    cellLon,
+  };
+}
+
+/**
+ * Nearest point on the indexed track (local equirectangular projection),
+ * or null when nothing lies within the neighbouring grid cells.
+ */
+function nearestOnTrack(track: IndexedTrack, point: [number, number]): TrackHit | null {
+  const [lon, lat] = point;
+  const row = Math.floor(lat / track.cellLat);
+  const col = Math.floor(lon / track.cellLon);
+  const cosLat = Math.cos((lat * Math.PI) / 180);
+  const seen = new Set<number>();
+  let best: TrackHit | null = null;
+
+  for (let dr = -1; dr <= 1; dr += 1) {
+    for (let dc = -1; dc <= 1; dc += 1) {
+      const bucket = track.cells.get(cellKey(row + dr, col + dc));
+      if (!bucket) continue;
+      for (const segmentIndex of bucket) {
+        if (seen.has(segmentIndex)) continue;
+        seen.add(segmentIndex);
+        const [lonA, latA] = track.coords[segmentIndex];
+        const [lonB, latB] = track.coords[segmentIndex + 1];
+        const ax = (lonA - lon) * cosLat * METERS_PER_DEGREE_LAT;
+        const ay = (latA - lat) * METERS_PER_DEGREE_LAT;
+        const bx = (lonB - lon) * cosLat * METERS_PER_DEGREE_LAT;
+        const by = (latB - lat) * METERS_PER_DEGREE_LAT;
+        const abx = bx - ax;
+        const aby = by - ay;
+        const lengthSq = abx * abx + aby * aby;
+        const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(ax * abx + ay * aby) / lengthSq));
+        const px = ax + t * abx;
+        const py = ay + t * aby;
+        const distanceM = Math.sqrt(px * px + py * py);
+        if (!best || distanceM < best.distanceM) {
+          const segmentM =
+            track.cumulativeMeters[segmentIndex + 1] - track.cumulativeMeters[segmentIndex];
+          best = {
+            distanceM,
+            alongM: track.cumulativeMeters[segmentIndex] + segmentM * t,
+          };
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+function findSharedRuns(
+  source: IndexedTrack,
+  within: boolean[],
+  options: typeof VARIANT_DIFF_DEFAULTS
+): SharedRun[] {
+  const raw: SharedRun[] = [];
+  let start = -1;
+  for (let i = 0; i < within.length; i += 1) {
+    if (within[i] && start < 0) start = i;
+    if (!within[i] && start >= 0) {
+      raw.push({ startIndex: start, endIndex: i - 1 });
+      start = -1;
+    }
+  }
+  if (start >= 0) raw.push({ startIndex: start, endIndex: within.length - 1 });
+
+  const merged: SharedRun[] = [];
+  for (const run of raw) {
+    const last = merged[merged.length - 1];
+    if (
+      last &&
+      source.cumulativeMeters[run.startIndex] - source.cumulativeMeters[last.endIndex] <= options.maxGapM
+    ) {
+      last.endIndex = run.endIndex;
+    } else {
+      merged.push({ ...run });
+    }
+  }
+
+  return merged.filter(
+    (run) =>
+      source.cumulativeMeters[run.endIndex] - source.cumulativeMeters[run.startIndex] >=
+      options.minSharedM
+  );
+}
+
+function toMiles(meters: number): number {
+  return meters / METERS_PER_MILE;
+}
+
+/**
+ * Compare variant tracks pairwise: shared trail, fork points (where one
+ * variant leaves or rejoins another) and per-variant exclusive mileage.
+ * Shared segments and forks are reported once per pair, from the
+ * perspective of the first label in track order.
+ */
+export function compareVariantTracks(
+  routeGroupId: string,
+  tracks: VariantTrack[],
+  options: VariantDiffOptions = {}
+): RouteVariantDiff {
+  const resolved = {
+    toleranceM: options.toleranceM ?? VARIANT_DIFF_DEFAULTS.toleranceM,
+    minSharedM: options.minSharedM ?? VARIANT_DIFF_DEFAULTS.minSharedM,
+    maxGapM: options.maxGapM ?? VARIANT_DIFF_DEFAULTS.maxGapM,
+  };
+  const indexed = tracks
+    .filter((track) => track.coords.length >= 2)
+    .map((track) => indexTrack(track, resolved.toleranceM));
+
+  const sharedAny = new Map<RouteLabel, boolean[]>(
+    indexed.map((track) => [track.label, new Array(track.coords.length).fill(false)])
+  );
+  const sharedSegments: RouteVariantSharedSegment[] = [];
+  const forks: RouteVariantForkPoint[] = [];
+
+  indexed.forEach((source, sourceOrder) => {
+    indexed.forEach((target, targetOrder) => {
+      if (source === target) return;
+      const hits = source.coords.map((coord) => nearestOnTrack(target, coord));
+      const within = hits.map((hit) => Boolean(hit && hit.distanceM <= resolved.toleranceM));
+      const runs = findSharedRuns(source, within, resolved);
+      const sourceShared = sharedAny.get(source.label)!;
+      for (const run of runs) {
+        for (let i = run.startIndex; i <= run.endIndex; i += 1) sourceShared[i] = true;
+      }
+
+      // Report each pair once; the reverse pass only feeds exclusive mileage.
+      if (sourceOrder > targetOrder) return;
+      const pair: [RouteLabel, RouteLabel] = [source.label, target.label];
+      const lastIndex = source.coords.length - 1;
+      for (const run of runs) {
+        const startHit = hits[run.startIndex];
+        const endHit = hits[run.endIndex];
+        const startCoord = source.coords[run.startIndex];
+        const endCoord = source.coords[run.endIndex];
+        sharedSegments.push({
+          variants: pair,
+          distanceMi: toMiles(
+            source.cumulativeMeters[run.endIndex] - source.cumulativeMeters[run.startIndex]
+          ),
+          ranges: {
+            [source.label]: {
+              startMi: toMiles(source.cumulativeMeters[run.startIndex]),
+              endMi: toMiles(source.cumulativeMeters[run.endIndex]),
+            },
+            [target.label]: {
+              startMi: toMiles(startHit?.alongM ?? 0),
+              endMi: toMiles(endHit?.alongM ?? 0),
+            },
+          },
+          start: { lat: startCoord[1], lon: startCoord[0] },
+          end: { lat: endCoord[1], lon: endCoord[0] },
+        });
+
+        if (run.startIndex > 0) {
+          forks.push({
+            type: "rejoin",
+            variants: pair,
+            lat: startCoord[1],
+            lon: startCoord[0],
+            miles: {
+              [source.label]: toMiles(source.cumulativeMeters[run.startIndex]),
+              [target.label]: toMiles(startHit?.alongM ?? 0),
+            },
+          });
+        }
+        if (run.endIndex < lastIndex) {
+          forks.push({
+            type: "diverge",
+            variants: pair,
+            lat: endCoord[1],
+            lon: endCoord[0],
+            miles: {
+              [source.label]: toMiles(source.cumulativeMeters[run.endIndex]),
+              [target.label]: toMiles(endHit?.alongM ?? 0),
+            },
+          });
+        }
+      }
+    });
+  });
+
+  const variants: RouteVariantOverlapSummary[] = indexed.map((track) => {
+    const shared = sharedAny.get(track.label)!;
+    const totalM = track.cumulativeMeters[track.cumulativeMeters.length - 1] ?? 0;
+    let exclusiveM = 0;
+    for (let i = 0; i < track.coords.length - 1; i += 1) {
+      if (shared[i] && shared[i + 1]) continue;
+      exclusiveM += track.cumulativeMeters[i + 1] - track.cumulativeMeters[i];
+    }
+    return {
+      label: track.label,
+      distanceMi: toMiles(totalM),
+      sharedMi: toMiles(totalM - exclusiveM),
+      exclusiveMi: toMiles(exclusiveM),
+    };
+  });
+
+  forks.sort((a, b) => (a.miles[a.variants[0]] ?? 0) - (b.miles[b.variants[0]] ?? 0));
+
+  return {
+    routeGroupId,
+    toleranceM: resolved.toleranceM,
+    variants,
+    sharedSegments,
+    forks,
+  };
+}
+
+/**
+ * Load the stored GPX for each variant label and compare them.
+ */
+export function analyzeRouteGroupVariants(
+  routeGroupId: string,
+  labels: RouteLabel[],
+  options: VariantDiffOptions = {}
+): RouteVariantDiff {
+  const tracks: VariantTrack[] = labels.map((label) => {
+    const gpxRaw = loadRouteVariantGpx(routeGroupId, label);
+    const parsed = parseGPXText(gpxRaw, `${routeGroupId}-${label}.gpx`);
+    return { label, coords: parsed.coords };
+  });
+  return compareVariantTracks(routeGroupId, tracks, options);
+}
@@ -0,0 +1,294 @@
+import assert from "assert/strict";
+import {
+  CANONICAL_SCHEMAS,
+  SchemaValidationError,
+  assertCanonical,
+  validateCanonical,
+  type CanonicalFile,
+} from "./schemaValidation";
+
+const NOW = "2026-10-01T12:00:00.000Z";
+
+function fields(file: CanonicalFile, data: unknown): string[] {
+  const result = validateCanonical(file, data);
+  return result.ok ? [] : result.errors.map((error) => error.field);
+}
+
+// Every registered schema compiles and resolves its $refs.
+for (const file of Object.keys(CANONICAL_SCHEMAS) as CanonicalFile[]) {
+  assert.doesNotThrow(() => validateCanonical(file, {}), file);
+}
+
+const event = {
+  event_id: "SUC-RUN-01",
+  event_name: "Thursday crew run",
+  event_description: "",
+  event_date: "2026-10-08",
+  event_time: "6:00 PM",
+  type: "crew-run",
+  start_location_name: "Tower Bridge",
+  start_location_url: "",
+  start_lat: 38.5804,
+  start_lng: -121.5083,
+  route_group_ids: ["SUC-034"],
+  updated_at: NOW,
+};
+assert.deepEqual(validateCanonical("events.master", { version: 1, events: [event] }), { ok: true });
+
+// Errors point at the offending value, including missing properties.
+const { event_name: _name, ...nameless } = event;
+assert.deepEqual(
+  fields("events.master", {
+    version: 1,
+    events: [event, { ...nameless, start_lat: 123, type: "party" }],
+  }),
+  ["events[1].event_name", "events[1].type", "events[1].start_lat"]
+);
+assert.deepEqual(
+  fields("events.master", {
+    version: 1,
+    events: [],
+    series: [
+      {
+        series_id: "thursday",
+        rule: {
+          frequency: "weekly",
+          day_of_week: 7,
+          interval: 1,
+          start_date: "2026-10-01",
+          end_date: "2026-12-31",
+          skip_dates: ["Nov 26"],
+        },
+        defaults: { event_name: "Thursday crew run" },
+        overrides: { "2026-10-08": { start_lat: -91 } },
+      },
+    ],
+  }),
+  ["series[0].rule.day_of_week", "series[0].rule.skip_dates[0]", "series[0].overrides.2026-10-08.start_lat"]
+);
+
+const workout = {
+  workoutId: "threshold-40",
+  version: 0,
+  status: "draft",
+  domain: "run",
+  strengthType: null,
+  name: "Threshold 40",
+  description: "",
+  focus: ["threshold"],
+  coachNotes: "",
+  tiers: {
+    MED: {
+      name: "Threshold 40 (MED)",
+      structure: [
+        {
+          type: "interval",
+          reps: 4,
+          work: { duration: "8min", target: { type: "pace", zone: "Z4" }, cues: [] },
+          rest: null,
+        },
+      ],
+    },
+  },
+  routeId: null,
+  routeMode: null,
+  sectionEfforts: [],
+  createdAt: NOW,
+  updatedAt: NOW,
+  publishedAt: null,
+};
+assert.deepEqual(validateCanonical("workouts.master", { version: 1, workouts: [workout] }), {
+  ok: true,
+});
+const brokenTier = {
+  ...workout.tiers.MED,
+  structure: [{ ...workout.tiers.MED.structure[0], reps: 0 }],
+};
+assert.deepEqual(
+  fields("workouts.master", {
+    version: 1,
+    workouts: [{ ...workout, tiers: { MED: brokenTier }, publishedAt: "yesterday" }],
+  }),
+  ["workouts[0].tiers.MED.structure[0].reps", "workouts[0].publishedAt"]
+);
+assert.deepEqual(
+  fields("workouts.master", {
+    version: 1,
+    workouts: [
+      {
+        ...workout,
+        domain: "strength",
+        strengthType: "circuit",
+        tiers: {},
+        strengthStructure: [
+          {
+            type: "circuit_block",
+            id: "c1",
+            rounds: 3,
+            exercises: [{ type: "strength_exercise", id: "e1" }],
+          },
+        ],
+      },
+    ],
+  }),
+  ["workouts[0].strengthStructure[0].exercises[0].name"]
+);
+
+// Top-level arrays index from the root.
+const member = {
+  id: "m-1",
+  name: "Sam Rivera",
+  email: "sam@example.com",
+  status: "active",
+  tier: "LRG",
+  joinedDate: "2025-03-01",
+  consent: { publicName: true, publicStory: false, publicPhotos: false, publicMetrics: false },
+};
+assert.deepEqual(validateCanonical("roster", [member]), { ok: true });
+assert.deepEqual(fields("roster", [member, { ...member, id: "m-2", tier: "XXL", email: "sam" }]), [
+  "[1].email",
+  "[1].tier",
+]);
+
+// POI placements may be one pass or a list of passes.
+const placement = { lat: 38.58, lon: -121.5, distanceMi: 3.1, distanceM: 4989, snapIndex: 120 };
+const aid = {
+  id: "aid-1",
+  type: "aid",
+  variants: { MED: placement, LRG: [placement, { ...placement, passIndex: 1 }] },
+};
+assert.deepEqual(validateCanonical("route.pois", { routeGroupId: "SUC-034", pois: [aid] }), { ok: true });
+assert.deepEqual(
+  fields("route.pois", {
+    routeGroupId: "SUC-034",
+    pois: [{ ...aid, variants: { LRG: [{ ...placement, snapIndex: -1 }] }, cutoffs: { HUGE: 90 } }],
+  }),
+  ["pois[0].variants.LRG[0].snapIndex", "pois[0].cutoffs.HUGE"]
+);
+
+// Content masters check each item against the item schema by file name.
+const footwear = {
+  id: "speedgoat-6",
+  brand: "Hoka",
+  model: "Speedgoat 6",
+  category: "trail",
+  topics: ["gear", "footwear"],
+  tier: "public",
+  author: "Sam",
+  publishedAt: NOW,
+};
+assert.deepEqual(validateCanonical("footwear-reviews.master", { version: 1, items: [footwear] }), {
+  ok: true,
+});
+assert.deepEqual(
+  fields("footwear-reviews.master", {
+    version: 1,
+    items: [{ ...footwear, rating: 9, colorway: "orange" }],
+  }),
+  ["items[0].colorway", "items[0].rating"]
+);
+
+// Season builder drafts carry days, events and a start date.
+const week = {
+  weekId: "w1",
+  focus: "base",
+  stress: "low",
+  volume: "med",
+  intensity: "low",
+  days: {
+    mon: {},
+    tue: { workoutIds: ["threshold-40"] },
+    wed: {},
+    thu: { workoutId: "threshold-40", notes: "Crew run" },
+    fri: {},
+    sat: {},
+    sun: {},
+  },
+  eventIds: ["SUC-RUN-01"],
+  eventRoles: { "SUC-RUN-01": "social" },
+};
+const season = {
+  seasonId: "s-2026",
+  status: "draft",
+  startDate: "2026-11-02",
+  blocks: [{ blockId: "b1", name: "Base", tags: [], weeks: [week] }],
+  seasonMarkers: [],
+};
+assert.deepEqual(validateCanonical("season", season), { ok: true });
+assert.deepEqual(validateCanonical("season", { ...season, startDate: null }), { ok: true });
+
+// assertCanonical refuses with the full list of issues.
+assert.throws(
+  () => assertCanonical("events.selection", { version: 1, selectedEventIds: ["a", "a", ""] }),
+  (error: unknown) => {
+    assert.ok(error instanceof SchemaValidationError);
+    assert.equal(error.file, "events.selection");
+    assert.deepEqual(
+      error.toResponse().details.map((issue) => issue.field),
+      ["selectedEventIds[2]", "selectedEventIds"]
+    );
+    assert.match(error.message, /^events\.selection failed schema validation: selectedEventIds\[2\] .+ \(\+1 more\)$/);
+    return true;
+  }
+);
+assert.doesNotThrow(() => assertCanonical("events.selection", { version: 1, selectedEventIds: [] }));
+
+// A legacy record that predates the schema does not block writes that leave it alone.
+const legacy = { ...event, event_id: "SUC-LEGACY", event_name: "" };
+const stored = { version: 1, events: [legacy, event] };
+const added = { ...event, event_id: "SUC-RUN-02", event_date: "2026-10-15" };
+assert.deepEqual(
+  fields("events.master", { version: 1, events: [legacy, event, added] }),
+  ["events[0].event_name"],
+  "without the stored file the whole document is checked"
+);
+assert.deepEqual(
+  validateCanonical("events.master", { version: 1, events: [added, { ...legacy }, event] }, stored),
+  { ok: true },
+  "unchanged legacy records pass wherever they move to"
+);
+assert.deepEqual(
+  fields("events.master", { version: 1, events: [{ ...added, start_lat: 123 }, legacy] }),
+  ["events[0].start_lat", "events[1].event_name"]
+);
+assert.throws(
+  () =>
+    assertCanonical(
+      "events.master",
+      { version: 1, events: [{ ...added, start_lat: 123 }, legacy] },
+      stored
+    ),
+  (error: unknown) => {
+    assert.ok(error instanceof SchemaValidationError);
+    assert.deepEqual(error.errors.map((issue) => issue.field), ["events[0].start_lat"]);
+    return true;
+  },
+  "only the records being changed are reported"
+);
+assert.throws(
+  () =>
+    assertCanonical(
+      "events.master",
+      { version: 1, events: [{ ...legacy, event_time: "7:00 PM" }, event] },
+      stored
+    ),
+  SchemaValidationError,
+  "editing a legacy record means fixing it"
+);
+assert.deepEqual(
+  validateCanonical("events.selection", { version: 1, selectedEventIds: ["a", "a"] }, {
+    version: 1,
+    selectedEventIds: ["a", "a"],
+  }),
+  { ok: true },
+  "values outside any list compare at the same path"
+);
+assert.equal(
+  validateCanonical("events.selection", { version: 1, selectedEventIds: ["a", "a", "b"] }, {
+    version: 1,
+    selectedEventIds: ["a", "a"],
+  }).ok,
+  false
+);
+
+console.log("schemaValidation tests passed");
@@ -0,0 +1,219 @@
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import Ajv2020, { type ErrorObject, type ValidateFunction } from "ajv/dist/2020.js";
+import addFormats from "ajv-formats";
+import { STUDIO_SCHEMAS_ROOT } from "./paths.js";
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Every JSON file the studio writes into suc-shared-data, mapped to the
+ * schema in schemas/ that it must satisfy before it is written.
+ */
+export const CANONICAL_SCHEMAS = {
+  "events.master": "events.master.schema.json",
+  "events.selection": "events.selection.schema.json",
+  "workouts.master": "workouts.master.schema.json",
+  "workout.draft": "workout.schema.json",
+  "workout.published": "workout.schema.json",
+  "route.meta": "route.meta.schema.json",
+  "route.pois": "route.pois.schema.json",
+  "route-intel": "route-intel.schema.json",
+  roster: "roster.schema.json",
+  attendance: "attendance.schema.json",
+  "studio.seasons": "studio.seasons.schema.json",
+  "studio.blocks": "studio.blocks.schema.json",
+  "studio.weeks": "studio.weeks.schema.json",
+  "studio.challenges": "challenges.schema.json",
+  season: "season.schema.json",
+  "training-content.master": "training-content.master.schema.json",
+  "footwear-reviews.master": "footwear-reviews.master.schema.json",
+  "gear-reviews.master": "gear-reviews.master.schema.json",
+  "race-recaps.master": "race-recaps.master.schema.json",
+  "crew-run-recaps.master": "crew-run-recaps.master.schema.json",
+} as const;
+
+export type CanonicalFile = keyof typeof CANONICAL_SCHEMAS;
+
+export type SchemaIssue = { field: string; message: string };
+
+export type SchemaValidationResult = { ok: true } | { ok: false; errors: SchemaIssue[] };
+
+/**
+ * Thrown by write paths when data fails its canonical schema; nothing has
+ * been written. API handlers answer 400 with `toResponse()` via sendWriteError.
+ */
+export class SchemaValidationError extends Error {
+  readonly file: CanonicalFile;
+  readonly errors: SchemaIssue[];
+
+  constructor(file: CanonicalFile, errors: SchemaIssue[]) {
+    const first = errors[0];
+    const more = errors.length > 1 ? ` (+${errors.length - 1} more)` : "";
+    super(`${file} failed schema validation: ${first.field} ${first.message}${more}`);
+    this.name = "SchemaValidationError";
+    this.file = file;
+    this.errors = errors;
+  }
+
+  toResponse(): { error: string; details: SchemaIssue[] } {
+    return { error: this.message, details: this.errors };
+  }
+}
+
+let ajv: Ajv2020 | null = null;
+const validators = new Map<CanonicalFile, ValidateFunction>();
+
+/**
+ * Schemas in schemas/ are a mix of draft-07 and 2020-12, and the content
+ * masters $ref their item schemas by file name, so every file is registered
+ * under its name up front.
+ */
+function getAjv(): Ajv2020 {
+  if (ajv) return ajv;
+  const instance = new Ajv2020({ allErrors: true, strict: false });
+  instance.addMetaSchema(require("ajv/dist/refs/json-schema-draft-07.json"));
+  addFormats(instance);
+  for (const fileName of fs.readdirSync(STUDIO_SCHEMAS_ROOT)) {
+    if (!fileName.endsWith(".schema.json")) continue;
+    const raw = fs.readFileSync(path.join(STUDIO_SCHEMAS_ROOT, fileName), "utf8");
+    instance.addSchema(JSON.parse(raw.replace(/^\uFEFF/, "")), fileName);
+  }
+  ajv = instance;
+  return instance;
+}
+
+function getValidator(file: CanonicalFile): ValidateFunction {
+  let validator = validators.get(file);
+  if (!validator) {
+    const schemaName = CANONICAL_SCHEMAS[file];
+    validator = getAjv().getSchema(schemaName);
+    if (!validator) {
+      throw new Error(`Schema not found: ${path.join(STUDIO_SCHEMAS_ROOT, schemaName)}`);
+    }
+    validators.set(file, validator);
+  }
+  return validator;
+}
+
+function pointerParts(instancePath: string): string[] {
+  return instancePath
+    .split("/")
+    .filter(Boolean)
+    .map((part) => part.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+function formatInstancePath(instancePath: string): string {
+  let result = "";
+  for (const key of pointerParts(instancePath)) {
+    result += /^\d+$/.test(key) ? `[${key}]` : result ? `.${key}` : key;
+  }
+  return result;
+}
+
+function toIssue(error: ErrorObject): SchemaIssue {
+  const base = formatInstancePath(error.instancePath);
+  const params = error.params as { missingProperty?: string; additionalProperty?: string };
+  const child =
+    error.keyword === "required"
+      ? params.missingProperty
+      : error.keyword === "additionalProperties"
+        ? params.additionalProperty
+        : error.propertyName;
+  const field = child ? (base ? `${base}.${child}` : child) : base;
+  return { field: field || "form", message: error.message || "is invalid" };
+}
+
+function valueAt(data: unknown, parts: string[]): unknown {
+  let value = data;
+  for (const part of parts) {
+    if (!value || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+/** JSON with sorted keys, so records compare equal whatever their key order. */
+function stableJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableJson(record[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "undefined";
+}
+
+/**
+ * Whether an error sits in a record the write leaves as it was stored. The
+ * record is the list item the error falls in (`events[3]`), matched anywhere
+ * in the stored list so inserts and reorders don't count as edits; errors
+ * outside any list compare the offending value at the same path.
+ */
+function isUnchanged(error: ErrorObject, data: unknown, stored: unknown): boolean {
+  const parts = pointerParts(error.instancePath);
+  const index = parts.findIndex((part) => /^\d+$/.test(part));
+  if (index === -1) {
+    const params = error.params as { missingProperty?: string; additionalProperty?: string };
+    const child = params.missingProperty ?? params.additionalProperty;
+    const valuePath = child ? [...parts, child] : parts;
+    return stableJson(valueAt(data, valuePath)) === stableJson(valueAt(stored, valuePath));
+  }
+  const list = valueAt(stored, parts.slice(0, index));
+  if (!Array.isArray(list)) return false;
+  const record = stableJson(valueAt(data, parts.slice(0, index + 1)));
+  return list.some((item) => stableJson(item) === record);
+}
+
+/**
+ * Check data against the schema for a canonical file. Errors carry the
+ * field path (`events[3].start_lat`) so the UI can point at the bad value.
+ *
+ * With the document as stored, errors in records the write does not change
+ * are let through: a legacy record that predates the schema only has to be
+ * fixed when someone edits it, not before any other record can be saved.
+ */
+export function validateCanonical(
+  file: CanonicalFile,
+  data: unknown,
+  stored?: unknown
+): SchemaValidationResult {
+  const validator = getValidator(file);
+  if (validator(data)) return { ok: true };
+  const seen = new Set<string>();
+  const errors: SchemaIssue[] = [];
+  // if/then and propertyNames failures repeat the nested errors they wrap.
+  const reported = (validator.errors ?? []).filter(
+    (error) => error.keyword !== "if" && error.keyword !== "propertyNames"
+  );
+  const changed =
+    stored === undefined
+      ? reported
+      : reported.filter((error) => !isUnchanged(error, data, stored));
+  if (reported.length > 0 && changed.length === 0) return { ok: true };
+  for (const issue of changed.map(toIssue)) {
+    const key = `${issue.field}\u0000${issue.message}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    errors.push(issue);
+  }
+  return {
+    ok: false,
+    errors: errors.length > 0 ? errors : [{ field: "form", message: "Validation failed" }],
+  };
+}
+
+/**
+ * Guard for write paths: throws SchemaValidationError instead of writing bad
+ * data. Pass the stored document (readStoredJsonSync) so only the records
+ * being changed are held to the schema.
+ */
+export function assertCanonical(file: CanonicalFile, data: unknown, stored?: unknown): void {
+  const result = validateCanonical(file, data, stored);
+  if (!result.ok) {
+    throw new SchemaValidationError(file, result.errors);
+  }
+}
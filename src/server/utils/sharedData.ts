@@ -8,11 +8,25 @@ import {
   WORKOUT_DRAFT_PATH,
   WORKOUT_PUBLISHED_PATH,
 } from "./paths.js";
+import { ensureRouteHistoryBaseline, recordRouteRevision } from "./routeHistory.js";
+import { assertCanonical } from "./schemaValidation.js";
+import {
+  readRevisionSync,
+  readStoredJsonSync,
+  removeDirSync,
+  removeFileSync,
+  writeFileAtomicSync,
+  writeJsonAtomicSync,
+  type WriteOptions,
+} from "./storage.js";
 import type {
   RouteMeta,
   RoutePoisDoc,
   EventsMaster,
   EventsSelection,
+  EventSeries,
+  EventSeriesFields,
+  EventOccurrenceOverride,
   WorkoutsMaster,
   RouteGroupSummary,
 } from "../types.js";
@@ -35,16 +49,10 @@ function readJsonFile<T>(filePath: string): T {
 }
 
 /**
- * Write JSON file atomically to suc-shared-data.
+ * Write JSON file atomically to suc-shared-data. Returns the new revision.
  */
-function writeJsonFile(filePath: string, data: unknown): void {
-  const dir = path.dirname(filePath);
-  if (!fs.existsSync(dir)) {
-    fs.mkdirSync(dir, { recursive: true });
-  }
-  const tmpPath = `${filePath}.tmp`;
-  fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2), "utf8");
-  fs.renameSync(tmpPath, filePath);
+function writeJsonFile(filePath: string, data: unknown, options?: WriteOptions): string {
+  return writeJsonAtomicSync(filePath, data, options);
 }
 
 /**
@@ -106,11 +114,13 @@ export function saveRouteGroup(
   variants: Array<{ label: string; gpxContent: string }>
 ): void {
   const groupDir = path.join(ROUTES_ROOT, groupId);
+  assertCanonical("route.meta", meta, readStoredJsonSync(path.join(groupDir, "route.meta.json")));
 
   // Create directory if it doesn't exist
   if (!fs.existsSync(groupDir)) {
     fs.mkdirSync(groupDir, { recursive: true });
   }
+  ensureRouteHistoryBaseline(groupId);
 
   // Write route.meta.json
   const metaPath = path.join(groupDir, "route.meta.json");
@@ -119,8 +129,10 @@ export function saveRouteGroup(
   // Write GPX files
   for (const variant of variants) {
     const gpxPath = path.join(groupDir, `${variant.label}.gpx`);
-    fs.writeFileSync(gpxPath, variant.gpxContent, "utf8");
+    writeFileAtomicSync(gpxPath, variant.gpxContent);
   }
+
+  recordRouteRevision(groupId, "save-group");
 }
 
 function normalizeVariantLabel(label: string): string {
@@ -174,6 +186,8 @@ function normalizeEventFromCanonical(raw: any) {
         ? { lat: raw.start_lat, lng: raw.start_lng }
         : { lat: 0, lng: 0 },
     routeGroupIds: getRouteGroupIds(raw),
+    ...(raw.seriesId ?? raw.series_id ? { seriesId: raw.seriesId ?? raw.series_id } : {}),
+    ...(raw.updatedAt ?? raw.updated_at ? { updatedAt: raw.updatedAt ?? raw.updated_at } : {}),
   };
 }
 
@@ -199,6 +213,91 @@ function normalizeEventToCanonical(raw: any) {
       raw.start_lng ??
       (coords && typeof coords.lng === "number" ? coords.lng : 0),
     route_group_ids: getRouteGroupIds(raw),
+    ...(raw.series_id ?? raw.seriesId ? { series_id: raw.series_id ?? raw.seriesId } : {}),
+    ...(raw.updated_at ?? raw.updatedAt ? { updated_at: raw.updated_at ?? raw.updatedAt } : {}),
+  };
+}
+
+const EVENT_FIELD_CANONICAL: Array<[keyof EventOccurrenceOverride, string]> = [
+  ["eventName", "event_name"],
+  ["eventDescription", "event_description"],
+  ["eventDate", "event_date"],
+  ["eventTime", "event_time"],
+  ["type", "type"],
+  ["startLocationName", "start_location_name"],
+  ["startLocationUrl", "start_location_url"],
+  ["routeGroupIds", "route_group_ids"],
+];
+
+/**
+ * Map the (possibly partial) event fields of a series default or override,
+ * leaving absent fields absent so overrides stay sparse.
+ */
+function eventFieldsToCanonical(fields: EventOccurrenceOverride): Record<string, unknown> {
+  const canonical: Record<string, unknown> = {};
+  for (const [key, canonicalKey] of EVENT_FIELD_CANONICAL) {
+    if (fields[key] !== undefined) canonical[canonicalKey] = fields[key];
+  }
+  if (fields.startLocationCoordinates) {
+    canonical.start_lat = fields.startLocationCoordinates.lat;
+    canonical.start_lng = fields.startLocationCoordinates.lng;
+  }
+  return canonical;
+}
+
+function eventFieldsFromCanonical(raw: any): EventOccurrenceOverride {
+  const fields: Record<string, unknown> = {};
+  if (!raw || typeof raw !== "object") return fields;
+  for (const [key, canonicalKey] of EVENT_FIELD_CANONICAL) {
+    const value = raw[canonicalKey] ?? raw[key];
+    if (value !== undefined) fields[key] = value;
+  }
+  if (raw.start_lat != null && raw.start_lng != null) {
+    fields.startLocationCoordinates = { lat: raw.start_lat, lng: raw.start_lng };
+  } else if (raw.startLocationCoordinates) {
+    fields.startLocationCoordinates = raw.startLocationCoordinates;
+  }
+  return fields;
+}
+
+function normalizeSeriesFromCanonical(raw: any): EventSeries {
+  const rule = raw?.rule ?? {};
+  const overrides: Record<string, EventOccurrenceOverride> = {};
+  for (const [date, override] of Object.entries(raw?.overrides ?? {})) {
+    overrides[date] = eventFieldsFromCanonical(override);
+  }
+  return {
+    seriesId: raw?.series_id ?? raw?.seriesId ?? "",
+    rule: {
+      frequency: "weekly",
+      dayOfWeek: rule.day_of_week ?? rule.dayOfWeek ?? 0,
+      interval: rule.interval ?? 1,
+      startDate: rule.start_date ?? rule.startDate ?? "",
+      endDate: rule.end_date ?? rule.endDate ?? "",
+      skipDates: rule.skip_dates ?? rule.skipDates ?? [],
+    },
+    defaults: eventFieldsFromCanonical(raw?.defaults) as EventSeriesFields,
+    overrides,
+  };
+}
+
+function normalizeSeriesToCanonical(series: EventSeries) {
+  const overrides: Record<string, unknown> = {};
+  for (const [date, override] of Object.entries(series.overrides ?? {})) {
+    overrides[date] = eventFieldsToCanonical(override);
+  }
+  return {
+    series_id: series.seriesId,
+    rule: {
+      frequency: series.rule.frequency,
+      day_of_week: series.rule.dayOfWeek,
+      interval: series.rule.interval,
+      start_date: series.rule.startDate,
+      end_date: series.rule.endDate,
+      skip_dates: series.rule.skipDates,
+    },
+    defaults: eventFieldsToCanonical(series.defaults),
+    overrides,
   };
 }
 
@@ -214,11 +313,9 @@ export function saveRouteVariant(
   if (!fs.existsSync(groupDir)) {
     fs.mkdirSync(groupDir, { recursive: true });
   }
+  ensureRouteHistoryBaseline(groupId);
 
   const normalizedLabel = normalizeVariantLabel(label);
-  const gpxPath = path.join(groupDir, `${normalizedLabel}.gpx`);
-  fs.writeFileSync(gpxPath, gpxContent, "utf8");
-
   const metaPath = path.join(groupDir, "route.meta.json");
   let meta: RouteMeta;
   if (fs.existsSync(metaPath)) {
@@ -237,11 +334,38 @@ export function saveRouteVariant(
   const variants = new Set((meta.variants ?? []).map(normalizeVariantLabel));
   variants.add(normalizedLabel);
   meta.variants = Array.from(variants);
+  assertCanonical("route.meta", meta, readStoredJsonSync(metaPath));
 
+  const gpxPath = path.join(groupDir, `${normalizedLabel}.gpx`);
+  writeFileAtomicSync(gpxPath, gpxContent);
   writeJsonFile(metaPath, meta);
+  recordRouteRevision(groupId, "save-variant");
   return meta;
 }
 
+/**
+ * Keep the uploaded file for a variant verbatim under source/ (not tracked by
+ * route history) so a simplified track can always be rebuilt from the original.
+ * Each upload gets its own timestamped name (<LABEL>-<timestamp><ext>).
+ */
+export function archiveRouteVariantSource(
+  groupId: string,
+  label: string,
+  fileName: string,
+  content: Buffer
+): string {
+  const sourceDir = path.join(ROUTES_ROOT, groupId, "source");
+  const extension = path.extname(fileName).toLowerCase() || ".gpx";
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const baseName = `${normalizeVariantLabel(label)}-${stamp}`;
+  let archivePath = path.join(sourceDir, `${baseName}${extension}`);
+  for (let suffix = 1; fs.existsSync(archivePath); suffix += 1) {
+    archivePath = path.join(sourceDir, `${baseName}-${suffix}${extension}`);
+  }
+  writeFileAtomicSync(archivePath, content);
+  return archivePath;
+}
+
 /**
  * Delete an entire route group directory.
  */
@@ -250,7 +374,7 @@ export function deleteRouteGroup(groupId: string): void {
   if (!fs.existsSync(groupDir)) {
     throw new Error(`Route group not found: ${groupId}`);
   }
-  fs.rmSync(groupDir, { recursive: true, force: true });
+  removeDirSync(groupDir);
 }
 
 /**
@@ -268,6 +392,13 @@ export function deleteRouteVariant(groupId: string, label: string): RouteMeta {
   }
 
   const normalizedLabel = normalizeVariantLabel(label);
+  const meta = readJsonFile<RouteMeta>(metaPath);
+  meta.variants = (meta.variants ?? []).filter(
+    (variant) => normalizeVariantLabel(variant) !== normalizedLabel
+  );
+  assertCanonical("route.meta", meta, readStoredJsonSync(metaPath));
+
+  ensureRouteHistoryBaseline(groupId);
   const candidates = [
     `${normalizedLabel}.gpx`,
     `${groupId}-${normalizedLabel}.gpx`,
@@ -277,16 +408,11 @@ export function deleteRouteVariant(groupId: string, label: string): RouteMeta {
 
   for (const name of candidates) {
     const filePath = path.join(groupDir, name);
-    if (fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath);
-    }
+    removeFileSync(filePath);
   }
 
-  const meta = readJsonFile<RouteMeta>(metaPath);
-  meta.variants = (meta.variants ?? []).filter(
-    (variant) => normalizeVariantLabel(variant) !== normalizedLabel
-  );
   writeJsonFile(metaPath, meta);
+  recordRouteRevision(groupId, "delete-variant");
   return meta;
 }
 
@@ -309,6 +435,7 @@ export function loadRoutePois(groupId: string): RoutePoisDoc {
       version: parsed.version,
       routeGroupId: parsed.routeGroupId ?? groupId,
       pois: parsed.pois,
+      ...(parsed.splitPlan ? { splitPlan: parsed.splitPlan } : {}),
     };
   } catch (error) {
     console.error(`Failed to read route.pois.json for ${groupId}:`, error);
@@ -321,11 +448,16 @@ export function loadRoutePois(groupId: string): RoutePoisDoc {
  */
 export function saveRoutePois(groupId: string, data: RoutePoisDoc): void {
   const poisPath = path.join(ROUTES_ROOT, groupId, "route.pois.json");
-  writeJsonFile(poisPath, {
+  const doc = {
     version: data.version,
     routeGroupId: data.routeGroupId ?? groupId,
     pois: Array.isArray(data.pois) ? data.pois : [],
-  });
+    ...(data.splitPlan ? { splitPlan: data.splitPlan } : {}),
+  };
+  assertCanonical("route.pois", doc, readStoredJsonSync(poisPath));
+  ensureRouteHistoryBaseline(groupId);
+  writeJsonFile(poisPath, doc);
+  recordRouteRevision(groupId, "save-pois");
 }
 
 /**
@@ -362,22 +494,37 @@ export function loadEventsMaster(): EventsMaster {
     EVENTS_MASTER_PATH
   );
   const events = Array.isArray(raw.events) ? raw.events : [];
+  const series = Array.isArray((raw as { series?: unknown }).series)
+    ? ((raw as { series: unknown[] }).series)
+    : [];
   return {
     version: typeof (raw as EventsMaster).version === "number" ? (raw as EventsMaster).version : 1,
     events: events.map(normalizeEventFromCanonical),
+    ...(series.length > 0 ? { series: series.map(normalizeSeriesFromCanonical) } : {}),
   };
 }
 
+/**
+ * Revision of events.master.json as stored, or null before the first save.
+ */
+export function eventsMasterRevision(): string | null {
+  return readRevisionSync(EVENTS_MASTER_PATH);
+}
+
 /**
  * Write events.master.json
  */
-export function saveEventsMaster(data: EventsMaster): void {
+export function saveEventsMaster(data: EventsMaster, options?: WriteOptions): string {
   const events = Array.isArray(data.events) ? data.events : [];
   const normalized = {
     version: typeof data.version === "number" ? data.version : 1,
     events: events.map(normalizeEventToCanonical),
+    ...(data.series && data.series.length > 0
+      ? { series: data.series.map(normalizeSeriesToCanonical) }
+      : {}),
   };
-  writeJsonFile(EVENTS_MASTER_PATH, normalized);
+  assertCanonical("events.master", normalized, readStoredJsonSync(EVENTS_MASTER_PATH));
+  return writeJsonFile(EVENTS_MASTER_PATH, normalized, options);
 }
 
 /**
@@ -387,11 +534,19 @@ export function loadEventsSelection(): EventsSelection {
   return readJsonFile<EventsSelection>(EVENTS_SELECTION_PATH);
 }
 
+/**
+ * Revision of events.selection.json as stored, or null before the first save.
+ */
+export function eventsSelectionRevision(): string | null {
+  return readRevisionSync(EVENTS_SELECTION_PATH);
+}
+
 /**
  * Write events.selection.json
  */
-export function saveEventsSelection(data: EventsSelection): void {
-  writeJsonFile(EVENTS_SELECTION_PATH, data);
+export function saveEventsSelection(data: EventsSelection, options?: WriteOptions): string {
+  assertCanonical("events.selection", data, readStoredJsonSync(EVENTS_SELECTION_PATH));
+  return writeJsonFile(EVENTS_SELECTION_PATH, data, options);
 }
 
 /**
@@ -401,11 +556,19 @@ export function loadWorkoutsMaster(): WorkoutsMaster {
   return readJsonFile<WorkoutsMaster>(WORKOUTS_MASTER_PATH);
 }
 
+/**
+ * Revision of workouts.master.json as stored, or null before the first save.
+ */
+export function workoutsMasterRevision(): string | null {
+  return readRevisionSync(WORKOUTS_MASTER_PATH);
+}
+
 /**
  * Write workouts.master.json
  */
-export function saveWorkoutsMaster(data: WorkoutsMaster): void {
-  writeJsonFile(WORKOUTS_MASTER_PATH, data);
+export function saveWorkoutsMaster(data: WorkoutsMaster, options?: WriteOptions): string {
+  assertCanonical("workouts.master", data, readStoredJsonSync(WORKOUTS_MASTER_PATH));
+  return writeJsonFile(WORKOUTS_MASTER_PATH, data, options);
 }
 
 /**
@@ -425,6 +588,7 @@ export function loadWorkoutDraft(): unknown | null {
  * Deprecated: drafts live in workouts.master.json
  */
 export function saveWorkoutDraft(data: unknown): void {
+  assertCanonical("workout.draft", data, readStoredJsonSync(WORKOUT_DRAFT_PATH));
   writeJsonFile(WORKOUT_DRAFT_PATH, data);
 }
 
@@ -433,9 +597,7 @@ export function saveWorkoutDraft(data: unknown): void {
  * Deprecated: drafts live in workouts.master.json
  */
 export function deleteWorkoutDraft(): void {
-  if (fs.existsSync(WORKOUT_DRAFT_PATH)) {
-    fs.unlinkSync(WORKOUT_DRAFT_PATH);
-  }
+  removeFileSync(WORKOUT_DRAFT_PATH);
 }
 
 /**
@@ -455,6 +617,7 @@ export function loadWorkoutPublished(): unknown | null {
  * Deprecated: published workouts live in workouts.master.json
  */
 export function saveWorkoutPublished(data: unknown): void {
+  assertCanonical("workout.published", data, readStoredJsonSync(WORKOUT_PUBLISHED_PATH));
   writeJsonFile(WORKOUT_PUBLISHED_PATH, data);
 }
 
@@ -463,7 +626,5 @@ export function saveWorkoutPublished(data: unknown): void {
  * Deprecated: published workouts live in workouts.master.json
  */
 export function deleteWorkoutPublished(): void {
-  if (fs.existsSync(WORKOUT_PUBLISHED_PATH)) {
-    fs.unlinkSync(WORKOUT_PUBLISHED_PATH);
-  }
+  removeFileSync(WORKOUT_PUBLISHED_PATH);
 }
@@ -0,0 +1,86 @@
+import assert from "assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  StaleWriteError,
+  parseIfMatch,
+  readJson,
+  readRevisionSync,
+  revisionOf,
+  updateJson,
+  writeJsonAtomic,
+  writeJsonAtomicSync,
+} from "./storage";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "suc-storage-"));
+const file = path.join(dir, "nested", "roster.json");
+
+try {
+  // Missing files read as the fallback and accept any expected revision.
+  assert.deepEqual(await readJson(file, []), []);
+  assert.equal(readRevisionSync(file), null);
+  const first = await writeJsonAtomic(file, [{ id: "a" }], { expectedRevision: revisionOf([]) });
+  assert.equal(first, revisionOf([{ id: "a" }]));
+  assert.equal(fs.readFileSync(file, "utf8"), '[\n  {\n    "id": "a"\n  }\n]\n');
+
+  // Revisions follow content, not formatting.
+  fs.writeFileSync(file, '[{"id":"a"}]');
+  assert.equal(readRevisionSync(file), first);
+
+  // A write from a stale copy is refused and leaves the file alone.
+  const second = writeJsonAtomicSync(file, [{ id: "b" }], { expectedRevision: first });
+  await assert.rejects(
+    writeJsonAtomic(file, [{ id: "c" }], { expectedRevision: first }),
+    (error: unknown) => {
+      assert.ok(error instanceof StaleWriteError);
+      assert.equal(error.currentRevision, second);
+      assert.deepEqual(error.toResponse(), {
+        error: "roster.json was changed by someone else; reload it before saving.",
+        revision: second,
+      });
+      return true;
+    }
+  );
+  assert.throws(() => writeJsonAtomicSync(file, [], { expectedRevision: first }), StaleWriteError);
+  assert.deepEqual(await readJson(file, []), [{ id: "b" }]);
+
+  // Overlapping read-modify-write cycles on one file all land.
+  const counter = path.join(dir, "counter.json");
+  await Promise.all(
+    Array.from({ length: 25 }, () =>
+      updateJson(counter, { count: 0 }, async (current) => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return { count: current.count + 1 };
+      })
+    )
+  );
+  assert.deepEqual(await readJson(counter, { count: 0 }), { count: 25 });
+
+  // A synchronous writer landing mid-update makes the update fail, not overwrite it.
+  await assert.rejects(
+    updateJson(counter, { count: 0 }, async (current) => {
+      writeJsonAtomicSync(counter, { count: 100 });
+      return { count: current.count + 1 };
+    }),
+    StaleWriteError
+  );
+  assert.deepEqual(await readJson(counter, { count: 0 }), { count: 100 });
+
+  // Returning null leaves the file untouched.
+  const unchanged = await updateJson(counter, { count: 0 }, () => null);
+  assert.deepEqual(unchanged, { count: 100 });
+
+  // No temp files are left behind, even after refused writes.
+  assert.deepEqual(fs.readdirSync(dir).sort(), ["counter.json", "nested"]);
+  assert.deepEqual(fs.readdirSync(path.dirname(file)), ["roster.json"]);
+
+  assert.equal(parseIfMatch('"abc123"'), "abc123");
+  assert.equal(parseIfMatch('W/"abc123", "def"'), "abc123");
+  assert.equal(parseIfMatch("*"), undefined);
+  assert.equal(parseIfMatch(undefined), undefined);
+} finally {
+  fs.rmSync(dir, { recursive: true, force: true });
+}
+
+console.log("storage tests passed");
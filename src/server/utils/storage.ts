@@ -0,0 +1,318 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+
+/**
+ * Every write into suc-shared-data goes through here:
+ *
+ * - files are replaced atomically (temp file in the same directory + rename),
+ *   so readers never see half-written JSON;
+ * - read-modify-write cycles on one file run one at a time (withFileLock);
+ * - writes can carry the revision the caller read, and fail with
+ *   StaleWriteError (HTTP 409) when the file has changed since.
+ *
+ * A revision is a hash of the parsed document, so it survives restarts and
+ * reformatting, and a GET handler can compute it from the data it returns.
+ *
+ * Listeners registered with onFileChange (the audit log) see every write and
+ * removal with the file's bytes before and after.
+ */
+
+export type WriteOptions = {
+  /** Revision the caller read; the write is refused if the file has moved on. */
+  expectedRevision?: string;
+};
+
+export class StaleWriteError extends Error {
+  readonly filePath: string;
+  readonly expectedRevision: string;
+  readonly currentRevision: string | null;
+
+  constructor(filePath: string, expectedRevision: string, currentRevision: string | null) {
+    super(`${path.basename(filePath)} was changed by someone else; reload it before saving.`);
+    this.name = "StaleWriteError";
+    this.filePath = filePath;
+    this.expectedRevision = expectedRevision;
+    this.currentRevision = currentRevision;
+  }
+
+  toResponse(): { error: string; revision: string | null } {
+    return { error: this.message, revision: this.currentRevision };
+  }
+}
+
+export function revisionOf(data: unknown): string {
+  return createHash("sha1").update(JSON.stringify(data)).digest("hex").slice(0, 16);
+}
+
+/** ETag header value for a revision. */
+export function toEtag(revision: string): string {
+  return `"${revision}"`;
+}
+
+/**
+ * The revision a client sent back in If-Match, or undefined for none / `*`.
+ */
+export function parseIfMatch(header: string | undefined): string | undefined {
+  const tag = header?.split(",")[0]?.trim().replace(/^W\//, "").replace(/^"|"$/g, "");
+  return tag && tag !== "*" ? tag : undefined;
+}
+
+export function serializeJson(data: unknown): string {
+  return `${JSON.stringify(data, null, 2)}\n`;
+}
+
+/**
+ * Revision of the file on disk, or null when it does not exist. Files that do
+ * not parse are hashed as text so any change still moves the revision.
+ */
+export function readRevisionSync(filePath: string): string | null {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+  try {
+    return revisionOf(JSON.parse(raw));
+  } catch {
+    return revisionOf(raw);
+  }
+}
+
+/**
+ * Parsed JSON of the file on disk, or undefined when it is missing or does
+ * not parse. Write paths hand it to assertCanonical as the stored document.
+ */
+export function readStoredJsonSync(filePath: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch {
+    return undefined;
+  }
+}
+
+/** One file written or removed; `before`/`after` are null when absent. */
+export type FileChange = {
+  filePath: string;
+  before: Buffer | null;
+  after: Buffer | null;
+};
+
+type FileChangeListener = (change: FileChange) => void;
+
+const fileChangeListeners = new Set<FileChangeListener>();
+
+/**
+ * Observe every change made through this module. Returns an unsubscribe function.
+ */
+export function onFileChange(listener: FileChangeListener): () => void {
+  fileChangeListeners.add(listener);
+  return () => {
+    fileChangeListeners.delete(listener);
+  };
+}
+
+function readBytesSync(filePath: string): Buffer | null {
+  if (fileChangeListeners.size === 0) return null;
+  try {
+    return fs.readFileSync(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+// The file has already changed; a failing listener must not fail the write.
+function notifyFileChange(change: FileChange): void {
+  if (change.before && change.after && change.before.equals(change.after)) return;
+  for (const listener of fileChangeListeners) {
+    try {
+      listener(change);
+    } catch (error) {
+      console.error(`File change listener failed for ${change.filePath}:`, error);
+    }
+  }
+}
+
+let tempCounter = 0;
+
+function tempPathFor(filePath: string): string {
+  tempCounter += 1;
+  return `${filePath}.${process.pid}-${tempCounter}.tmp`;
+}
+
+/**
+ * A file that does not exist yet matches any revision: readers serve a
+ * default document for it, and the first write simply creates it.
+ */
+function checkRevision(filePath: string, expectedRevision: string | undefined): void {
+  if (expectedRevision === undefined) return;
+  const current = readRevisionSync(filePath);
+  if (current !== null && current !== expectedRevision) {
+    throw new StaleWriteError(filePath, expectedRevision, current);
+  }
+}
+
+function removeTemp(tempPath: string): void {
+  try {
+    fs.unlinkSync(tempPath);
+  } catch {
+    // Already renamed or never created.
+  }
+}
+
+/**
+ * Atomically replace a file's contents from synchronous code.
+ */
+export function writeFileAtomicSync(
+  filePath: string,
+  content: string | Buffer,
+  options: WriteOptions = {}
+): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  checkRevision(filePath, options.expectedRevision);
+  const tempPath = tempPathFor(filePath);
+  const before = readBytesSync(filePath);
+  try {
+    fs.writeFileSync(tempPath, content);
+    fs.renameSync(tempPath, filePath);
+  } finally {
+    removeTemp(tempPath);
+  }
+  notifyFileChange({ filePath, before, after: Buffer.from(content) });
+}
+
+/**
+ * Delete a file (no-op when it is already gone).
+ */
+export function removeFileSync(filePath: string): void {
+  const before = readBytesSync(filePath);
+  fs.rmSync(filePath, { force: true });
+  if (before) notifyFileChange({ filePath, before, after: null });
+}
+
+/**
+ * Delete a directory and everything under it.
+ */
+export function removeDirSync(dirPath: string): void {
+  const removed: FileChange[] = [];
+  if (fileChangeListeners.size > 0 && fs.existsSync(dirPath)) {
+    const entries = fs.readdirSync(dirPath, { recursive: true, withFileTypes: true });
+    for (const entry of entries) {
+      if (!entry.isFile()) continue;
+      const filePath = path.join(entry.parentPath ?? entry.path, entry.name);
+      removed.push({ filePath, before: fs.readFileSync(filePath), after: null });
+    }
+  }
+  fs.rmSync(dirPath, { recursive: true, force: true });
+  removed.forEach(notifyFileChange);
+}
+
+/**
+ * Atomically write JSON from synchronous code. Returns the new revision.
+ */
+export function writeJsonAtomicSync(
+  filePath: string,
+  data: unknown,
+  options: WriteOptions = {}
+): string {
+  writeFileAtomicSync(filePath, serializeJson(data), options);
+  return revisionOf(data);
+}
+
+const fileLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Run `task` once every earlier task for the same file has settled.
+ */
+export function withFileLock<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+  const key = path.resolve(filePath);
+  const previous = fileLocks.get(key) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  fileLocks.set(key, next);
+  next
+    .catch(() => undefined)
+    .then(() => {
+      if (fileLocks.get(key) === next) fileLocks.delete(key);
+    });
+  return next;
+}
+
+/**
+ * The temp file is written asynchronously, then the revision check and the
+ * rename happen in one synchronous step so no other write can land between.
+ */
+async function commitJson(
+  filePath: string,
+  data: unknown,
+  expectedRevision?: string
+): Promise<string> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = tempPathFor(filePath);
+  const content = serializeJson(data);
+  let before: Buffer | null;
+  try {
+    await fs.promises.writeFile(tempPath, content, "utf8");
+    checkRevision(filePath, expectedRevision);
+    before = readBytesSync(filePath);
+    fs.renameSync(tempPath, filePath);
+  } finally {
+    removeTemp(tempPath);
+  }
+  notifyFileChange({ filePath, before, after: Buffer.from(content) });
+  return revisionOf(data);
+}
+
+/**
+ * Parsed JSON file, or `fallback` when it does not exist yet.
+ */
+export async function readJson<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.promises.readFile(filePath, "utf8");
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    if (error instanceof SyntaxError) {
+      throw new Error(`Failed to parse JSON: ${filePath} (${error.message})`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Atomically write JSON, queued behind other writes to the same file.
+ * Returns the new revision.
+ */
+export function writeJsonAtomic(
+  filePath: string,
+  data: unknown,
+  options: WriteOptions = {}
+): Promise<string> {
+  return withFileLock(filePath, () => commitJson(filePath, data, options.expectedRevision));
+}
+
+/**
+ * Locked read-modify-write. `mutate` returns the new document, or null to
+ * leave the file untouched. The write is also refused if something outside
+ * the lock (a synchronous writer) changed the file while `mutate` ran.
+ */
+export function updateJson<T>(
+  filePath: string,
+  fallback: T,
+  mutate: (current: T) => T | null | Promise<T | null>,
+  options: WriteOptions = {}
+): Promise<T> {
+  return withFileLock(filePath, async () => {
+    const current = await readJson(filePath, fallback);
+    const revision = revisionOf(current);
+    if (options.expectedRevision !== undefined && options.expectedRevision !== revision) {
+      throw new StaleWriteError(filePath, options.expectedRevision, revision);
+    }
+    const next = await mutate(current);
+    if (next === null) return current;
+    await commitJson(filePath, next, revision);
+    return next;
+  });
+}
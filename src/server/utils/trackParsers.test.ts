@@ -0,0 +1,101 @@
+import assert from "assert/strict";
+import { detectTrackFormat, parseTrackFile } from "./trackParsers";
+import { parseGPXText } from "./gpxParser";
+import { buildTrackGpx } from "./gpxWriter";
+
+const TRACK: Array<{ lat: number; lon: number; ele: number }> = [
+  { lat: 37.8835, lon: -121.935, ele: 120 },
+  { lat: 37.8845, lon: -121.934, ele: 130 },
+  { lat: 37.8855, lon: -121.933, ele: 125 },
+];
+
+function degreesToSemicircles(value: number): number {
+  return Math.round(value * (2 ** 31 / 180));
+}
+
+function buildFitBuffer(): Buffer {
+  const records: number[] = [];
+  // Definition: local 0 -> global 20 (record), little endian, 3 fields
+  records.push(0x40, 0, 0, 20, 0, 3);
+  records.push(0, 4, 0x85); // position_lat sint32
+  records.push(1, 4, 0x85); // position_long sint32
+  records.push(2, 2, 0x84); // altitude uint16 (scale 5, offset 500)
+
+  for (const point of TRACK) {
+    const data = Buffer.alloc(11);
+    data.writeUInt8(0x00, 0);
+    data.writeInt32LE(degreesToSemicircles(point.lat), 1);
+    data.writeInt32LE(degreesToSemicircles(point.lon), 5);
+    data.writeUInt16LE(Math.round((point.ele + 500) * 5), 9);
+    records.push(...data);
+  }
+
+  const header = Buffer.alloc(14);
+  header.writeUInt8(14, 0);
+  header.writeUInt8(0x20, 1);
+  header.writeUInt16LE(2132, 2);
+  header.writeUInt32LE(records.length, 4);
+  header.write(".FIT", 8, "ascii");
+  return Buffer.concat([header, Buffer.from(records), Buffer.from([0, 0])]);
+}
+
+const tcx = `<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">
+  <Activities><Activity Sport="Running"><Lap><Track>
+${TRACK.map(
+  (p) =>
+    `    <Trackpoint><Position><LatitudeDegrees>${p.lat}</LatitudeDegrees><LongitudeDegrees>${p.lon}</LongitudeDegrees></Position><AltitudeMeters>${p.ele}</AltitudeMeters></Trackpoint>`
+).join("\n")}
+    <Trackpoint><HeartRateBpm><Value>140</Value></HeartRateBpm></Trackpoint>
+  </Track></Lap></Activity></Activities>
+</TrainingCenterDatabase>`;
+
+const geojson = JSON.stringify({
+  type: "FeatureCollection",
+  features: [
+    {
+      type: "Feature",
+      properties: {},
+      geometry: { type: "LineString", coordinates: TRACK.map((p) => [p.lon, p.lat, p.ele]) },
+    },
+  ],
+});
+
+const gpx = buildTrackGpx(
+  { coords: TRACK.map((p) => [p.lon, p.lat]), elevations: TRACK.map((p) => p.ele) },
+  "Test & Track"
+);
+
+const reference = parseGPXText(gpx, "reference.gpx");
+
+const cases: Array<{ name: string; buffer: Buffer; format: string }> = [
+  { name: "recce.fit", buffer: buildFitBuffer(), format: "fit" },
+  { name: "recce.tcx", buffer: Buffer.from(tcx, "utf8"), format: "tcx" },
+  { name: "recce.geojson", buffer: Buffer.from(geojson, "utf8"), format: "geojson" },
+  { name: "recce.gpx", buffer: Buffer.from(gpx, "utf8"), format: "gpx" },
+  // Content sniffing without a helpful extension
+  { name: "upload.bin", buffer: buildFitBuffer(), format: "fit" },
+  { name: "upload.xml", buffer: Buffer.from(tcx, "utf8"), format: "tcx" },
+];
+
+for (const testCase of cases) {
+  assert.equal(detectTrackFormat(testCase.buffer, testCase.name), testCase.format, testCase.name);
+  const parsed = parseTrackFile(testCase.buffer, testCase.name);
+  assert.equal(parsed.sourceFormat, testCase.format);
+  assert.equal(parsed.fileName, testCase.name);
+  assert.equal(parsed.coords.length, TRACK.length, `${testCase.name} point count`);
+  parsed.coords.forEach(([lon, lat], index) => {
+    assert(Math.abs(lat - TRACK[index].lat) < 1e-6, `${testCase.name} lat ${index}`);
+    assert(Math.abs(lon - TRACK[index].lon) < 1e-6, `${testCase.name} lon ${index}`);
+  });
+  parsed.elevations.forEach((ele, index) => {
+    assert(Math.abs(ele - TRACK[index].ele) < 0.5, `${testCase.name} elevation ${index}`);
+  });
+  assert(Math.abs(parsed.distanceMi - reference.distanceMi) < 1e-3, `${testCase.name} distance`);
+  assert(Math.abs(parsed.elevationFt - reference.elevationFt) < 2, `${testCase.name} gain`);
+}
+
+assert(gpx.includes("<name>Test &amp; Track</name>"), "GPX names must be XML-escaped");
+assert.throws(() => parseTrackFile(Buffer.from("hello"), "notes.txt"), /Unsupported track format/);
+
+console.log("trackParsers tests passed");
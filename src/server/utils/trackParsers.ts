@@ -0,0 +1,216 @@
+import { DOMParser } from "xmldom";
+import { buildParsedRoute, parseGPXText } from "./gpxParser.js";
+import { decodeFitFile, FIT_MESSAGE, isFitBuffer, semicirclesToDegrees } from "./fitFile.js";
+import type { ParsedRoute, TrackFormat } from "../types.js";
+
+/**
+ * A track parser turns an uploaded file into the canonical ParsedRoute shape.
+ * Parsers are tried in registration order; the first whose detect() matches wins.
+ */
+export interface TrackParser {
+  format: TrackFormat;
+  detect(buffer: Buffer, fileName: string): boolean;
+  parse(buffer: Buffer, fileName: string): ParsedRoute;
+}
+
+function extensionOf(fileName: string): string {
+  const match = fileName.toLowerCase().match(/\.([a-z0-9]+)$/);
+  return match ? match[1] : "";
+}
+
+function leadingText(buffer: Buffer, length = 512): string {
+  return buffer.subarray(0, length).toString("utf8").replace(/^\uFEFF/, "").trimStart();
+}
+
+function toFiniteNumber(value: unknown): number | null {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+const gpxParser: TrackParser = {
+  format: "gpx",
+  detect(buffer, fileName) {
+    if (extensionOf(fileName) === "gpx") return true;
+    const head = leadingText(buffer);
+    return head.startsWith("<") && /<gpx[\s>]/i.test(head);
+  },
+  parse(buffer, fileName) {
+    return parseGPXText(buffer.toString("utf8"), fileName);
+  },
+};
+
+function firstChildText(parent: Element, tagName: string): string | null {
+  const nodes = parent.getElementsByTagName(tagName);
+  if (!nodes.length) return null;
+  return nodes[0].textContent;
+}
+
+const tcxParser: TrackParser = {
+  format: "tcx",
+  detect(buffer, fileName) {
+    if (extensionOf(fileName) === "tcx") return true;
+    const head = leadingText(buffer);
+    return head.startsWith("<") && /<TrainingCenterDatabase[\s>]/.test(head);
+  },
+  parse(buffer, fileName) {
+    const dom = new DOMParser().parseFromString(buffer.toString("utf8"), "text/xml");
+    const trackpoints = dom.getElementsByTagName("Trackpoint");
+    const coords: [number, number][] = [];
+    const elevations: number[] = [];
+
+    for (let i = 0; i < trackpoints.length; i += 1) {
+      const point = trackpoints[i];
+      const position = point.getElementsByTagName("Position")[0];
+      if (!position) continue;
+      const lat = toFiniteNumber(firstChildText(position, "LatitudeDegrees"));
+      const lon = toFiniteNumber(firstChildText(position, "LongitudeDegrees"));
+      if (lat == null || lon == null) continue;
+      const ele = toFiniteNumber(firstChildText(point, "AltitudeMeters"));
+      coords.push([lon, lat]);
+      elevations.push(ele ?? 0);
+    }
+
+    if (coords.length === 0) {
+      throw new Error(`No positioned Trackpoints found in ${fileName}`);
+    }
+
+    return buildParsedRoute(fileName, coords, elevations);
+  },
+};
+
+// FIT record message fields (profile: record)
+const RECORD_POSITION_LAT = 0;
+const RECORD_POSITION_LONG = 1;
+const RECORD_ALTITUDE = 2;
+const RECORD_ENHANCED_ALTITUDE = 78;
+
+function fitAltitudeMeters(raw: unknown): number | null {
+  const value = toFiniteNumber(raw);
+  if (value == null) return null;
+  return value / 5 - 500;
+}
+
+const fitParser: TrackParser = {
+  format: "fit",
+  detect(buffer) {
+    return isFitBuffer(buffer);
+  },
+  parse(buffer, fileName) {
+    const messages = decodeFitFile(buffer, fileName);
+    const coords: [number, number][] = [];
+    const elevations: number[] = [];
+
+    for (const message of messages) {
+      if (message.globalMessageNumber !== FIT_MESSAGE.record) continue;
+      const lat = toFiniteNumber(message.fields[RECORD_POSITION_LAT]);
+      const lon = toFiniteNumber(message.fields[RECORD_POSITION_LONG]);
+      if (lat == null || lon == null) continue;
+      const ele =
+        fitAltitudeMeters(message.fields[RECORD_ENHANCED_ALTITUDE]) ??
+        fitAltitudeMeters(message.fields[RECORD_ALTITUDE]);
+      coords.push([semicirclesToDegrees(lon), semicirclesToDegrees(lat)]);
+      elevations.push(ele ?? 0);
+    }
+
+    if (coords.length === 0) {
+      throw new Error(`No positioned records found in ${fileName}`);
+    }
+
+    return buildParsedRoute(fileName, coords, elevations);
+  },
+};
+
+function collectGeoJsonLines(node: any, lines: number[][][]): void {
+  if (!node || typeof node !== "object") return;
+  switch (node.type) {
+    case "FeatureCollection":
+      (Array.isArray(node.features) ? node.features : []).forEach((feature: unknown) =>
+        collectGeoJsonLines(feature, lines)
+      );
+      return;
+    case "Feature":
+      collectGeoJsonLines(node.geometry, lines);
+      return;
+    case "GeometryCollection":
+      (Array.isArray(node.geometries) ? node.geometries : []).forEach((geometry: unknown) =>
+        collectGeoJsonLines(geometry, lines)
+      );
+      return;
+    case "LineString":
+      if (Array.isArray(node.coordinates)) lines.push(node.coordinates);
+      return;
+    case "MultiLineString":
+      (Array.isArray(node.coordinates) ? node.coordinates : []).forEach((line: unknown) => {
+        if (Array.isArray(line)) lines.push(line as number[][]);
+      });
+      return;
+    default:
+      return;
+  }
+}
+
+const geoJsonParser: TrackParser = {
+  format: "geojson",
+  detect(buffer, fileName) {
+    const ext = extensionOf(fileName);
+    if (ext === "geojson") return true;
+    const head = leadingText(buffer);
+    return (ext === "json" || head.startsWith("{")) && /"type"\s*:/.test(head);
+  },
+  parse(buffer, fileName) {
+    let doc: unknown;
+    try {
+      doc = JSON.parse(buffer.toString("utf8").replace(/^\uFEFF/, ""));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      throw new Error(`Failed to parse GeoJSON ${fileName} (${message})`);
+    }
+
+    const lines: number[][][] = [];
+    collectGeoJsonLines(doc, lines);
+    if (lines.length === 0) {
+      throw new Error(`No LineString found in ${fileName}`);
+    }
+
+    const coords: [number, number][] = [];
+    const elevations: number[] = [];
+    for (const line of lines) {
+      for (const position of line) {
+        if (!Array.isArray(position)) continue;
+        const lon = toFiniteNumber(position[0]);
+        const lat = toFiniteNumber(position[1]);
+        if (lon == null || lat == null) continue;
+        coords.push([lon, lat]);
+        elevations.push(toFiniteNumber(position[2]) ?? 0);
+      }
+    }
+
+    return buildParsedRoute(fileName, coords, elevations);
+  },
+};
+
+const TRACK_PARSERS: TrackParser[] = [fitParser, gpxParser, tcxParser, geoJsonParser];
+
+/**
+ * Register an additional track parser. Later registrations are tried first so
+ * a custom parser can take over a format from the built-ins.
+ */
+export function registerTrackParser(parser: TrackParser): void {
+  TRACK_PARSERS.unshift(parser);
+}
+
+export function detectTrackFormat(buffer: Buffer, fileName: string): TrackFormat | null {
+  const parser = TRACK_PARSERS.find((candidate) => candidate.detect(buffer, fileName));
+  return parser ? parser.format : null;
+}
+
+/**
+ * Parse any supported track upload (GPX, TCX, FIT, GeoJSON) into a ParsedRoute.
+ */
+export function parseTrackFile(buffer: Buffer, fileName: string): ParsedRoute {
+  const parser = TRACK_PARSERS.find((candidate) => candidate.detect(buffer, fileName));
+  if (!parser) {
+    throw new Error(`Unsupported track format: ${fileName} (expected GPX, TCX, FIT or GeoJSON)`);
+  }
+  return { ...parser.parse(buffer, fileName), sourceFormat: parser.format };
+}
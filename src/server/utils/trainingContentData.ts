@@ -1,6 +1,12 @@
-import fs from "fs/promises";
-import path from "path";
-import { TRAINING_CONTENT_MASTER_PATH, TRAINING_CONTENT_ROOT } from "./paths.js";
+import { TRAINING_CONTENT_MASTER_PATH } from "./paths.js";
+import { assertCanonical } from "./schemaValidation.js";
+import {
+  readJson,
+  readStoredJsonSync,
+  updateJson,
+  writeJsonAtomic,
+  type WriteOptions,
+} from "./storage.js";
 
 export type TrainingContent = {
   id: string;
@@ -22,62 +28,57 @@ type TrainingContentMaster = {
   items: TrainingContent[];
 };
 
-async function ensureTrainingContentFile(): Promise<void> {
-  await fs.mkdir(TRAINING_CONTENT_ROOT, { recursive: true });
-  try {
-    await fs.access(TRAINING_CONTENT_MASTER_PATH);
-  } catch {
-    const initialData: TrainingContentMaster = {
-      version: 1,
-      items: [],
-    };
-    await fs.writeFile(
-      TRAINING_CONTENT_MASTER_PATH,
-      JSON.stringify(initialData, null, 2) + "\n",
-      "utf8"
-    );
-  }
+function emptyMaster(): TrainingContentMaster {
+  return { version: 1, items: [] };
 }
 
 export async function readTrainingContent(): Promise<TrainingContent[]> {
-  await ensureTrainingContentFile();
-  const raw = await fs.readFile(TRAINING_CONTENT_MASTER_PATH, "utf8");
-  const data = JSON.parse(raw) as TrainingContentMaster;
+  const data = await readJson(TRAINING_CONTENT_MASTER_PATH, emptyMaster());
   return data.items || [];
 }
 
-export async function writeTrainingContent(items: TrainingContent[]): Promise<void> {
-  await ensureTrainingContentFile();
+export async function writeTrainingContent(
+  items: TrainingContent[],
+  options?: WriteOptions
+): Promise<string> {
   const data: TrainingContentMaster = {
     version: 1,
     items,
   };
-  await fs.writeFile(
-    TRAINING_CONTENT_MASTER_PATH,
-    JSON.stringify(data, null, 2) + "\n",
-    "utf8"
+  assertCanonical(
+    "training-content.master",
+    data,
+    readStoredJsonSync(TRAINING_CONTENT_MASTER_PATH)
   );
+  return writeJsonAtomic(TRAINING_CONTENT_MASTER_PATH, data, options);
 }
 
-export async function upsertTrainingContent(item: TrainingContent): Promise<void> {
-  const items = await readTrainingContent();
-  const existingIndex = items.findIndex((t) => t.id === item.id);
+async function updateTrainingContentItems(
+  change: (items: TrainingContent[]) => TrainingContent[]
+): Promise<void> {
+  await updateJson(TRAINING_CONTENT_MASTER_PATH, emptyMaster(), (master) => {
+    const data: TrainingContentMaster = {
+      version: 1,
+      items: change(master.items || []),
+    };
+    assertCanonical("training-content.master", data, master);
+    return data;
+  });
+}
 
+export async function upsertTrainingContent(item: TrainingContent): Promise<void> {
   const updatedItem = {
     ...item,
     publishedAt: item.publishedAt || new Date().toISOString(),
   };
 
-  const nextItems =
-    existingIndex >= 0
+  await updateTrainingContentItems((items) =>
+    items.some((t) => t.id === item.id)
       ? items.map((t) => (t.id === item.id ? updatedItem : t))
-      : [...items, updatedItem];
-
-  await writeTrainingContent(nextItems);
+      : [...items, updatedItem]
+  );
 }
 
 export async function archiveTrainingContent(id: string): Promise<void> {
-  const items = await readTrainingContent();
-  const nextItems = items.filter((t) => t.id !== id);
-  await writeTrainingContent(nextItems);
+  await updateTrainingContentItems((items) => items.filter((t) => t.id !== id));
 }
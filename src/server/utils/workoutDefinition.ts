@@ -0,0 +1,89 @@
+import type {
+  Target,
+  WorkoutDefinition,
+  WorkoutSection,
+  ZoneRange,
+} from "../../targetResolution.js";
+import type { IntervalSegment, IntervalTarget, TierLabel, Workout } from "../types.js";
+
+/** %max HR for each studio zone, as shown on the Workout Builder effort blocks. */
+export const ZONE_PERCENT_MAX: Record<string, ZoneRange> = {
+  Z1: [0.55, 0.65],
+  Z2: [0.65, 0.75],
+  Z3: [0.75, 0.85],
+  Z4: [0.85, 0.9],
+  Z5: [0.9, 1],
+};
+
+function toTarget(target: IntervalTarget | null | undefined): Target | undefined {
+  if (!target?.zone) return undefined;
+  if (target.type === "hr") {
+    const percentMax = ZONE_PERCENT_MAX[target.zone.toUpperCase()];
+    return percentMax ? { type: "hr", zone: target.zone, percentMax } : undefined;
+  }
+  if (target.type === "pace") return { type: "pace", zone: target.zone };
+  // Power targets have no runner-side equivalent yet.
+  return undefined;
+}
+
+function isEasySingle(segment: IntervalSegment): boolean {
+  const zone = segment.work?.target?.zone ?? "";
+  return (segment.reps ?? 1) <= 1 && !segment.rest && /^Z1$/i.test(zone);
+}
+
+function toSection(
+  segment: IntervalSegment,
+  index: number,
+  segments: IntervalSegment[]
+): WorkoutSection {
+  const workTarget = toTarget(segment.work?.target);
+  if ((segment.reps ?? 1) <= 1 && !segment.rest) {
+    // An easy opening or closing block is the warm-up or cool-down.
+    let type: "warmup" | "steady" | "cooldown" = "steady";
+    if (segments.length > 1 && isEasySingle(segment)) {
+      if (index === 0) type = "warmup";
+      else if (index === segments.length - 1) type = "cooldown";
+    }
+    return {
+      type,
+      duration: segment.work?.duration || undefined,
+      target: workTarget,
+      label: segment.work?.target?.zone,
+      cues: segment.work?.cues,
+    };
+  }
+  return {
+    type: "interval",
+    reps: Math.max(1, segment.reps ?? 1),
+    label: segment.work?.target?.zone,
+    work: {
+      duration: segment.work?.duration ?? "",
+      target: workTarget as Target,
+      cues: segment.work?.cues,
+    },
+    rest: {
+      // No rest period: a zero-length step the exporters drop.
+      duration: segment.rest ? segment.rest.duration : "0s",
+      target: toTarget(segment.rest?.target) as Target,
+      cues: segment.rest?.cues,
+    },
+  };
+}
+
+/**
+ * One tier of a studio workout in the shape target resolution and the
+ * workout exporters work on.
+ */
+export function tierWorkoutDefinition(workout: Workout, tier: TierLabel): WorkoutDefinition {
+  const variant = workout.tiers?.[tier];
+  if (!variant) {
+    throw new Error(`Workout ${workout.workoutId} has no ${tier} tier`);
+  }
+  const segments = Array.isArray(variant.structure) ? variant.structure : [];
+  return {
+    workoutId: workout.workoutId,
+    name: variant.name || `${workout.name} (${tier})`,
+    structure: segments.map(toSection),
+    cues: workout.coachNotes ? [workout.coachNotes] : undefined,
+  };
+}
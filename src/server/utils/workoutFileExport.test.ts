@@ -0,0 +1,219 @@
+import assert from "assert/strict";
+import { resolveWorkoutPreview, type AthleteZoneProfile } from "../../targetResolution";
+import { FIT_MESSAGE, decodeFitFile, fitCrc } from "./fitFile";
+import { tierWorkoutDefinition } from "./workoutDefinition";
+import { WorkoutExportError } from "../../trainingPeaksExport";
+import { computeTierMetrics } from "../../workoutMetrics";
+import {
+  buildExportSteps,
+  exportFitWorkout,
+  exportZwiftWorkout,
+  type ExportStep,
+} from "./workoutFileExport";
+import type { IntervalSegment, Workout } from "../types";
+
+const segment = (
+  reps: number,
+  duration: string,
+  zone: string,
+  rest: string | null = null,
+  type: "pace" | "hr" = "pace"
+): IntervalSegment => ({
+  type: "interval",
+  reps,
+  work: { duration, target: { type, zone }, cues: [] },
+  rest: rest ? { duration: rest, target: { type: "pace", zone: "Z1" }, cues: [] } : null,
+});
+
+const workout: Workout = {
+  workoutId: "threshold-40",
+  version: 2,
+  status: "published",
+  name: "Threshold 40",
+  description: "Cruise intervals",
+  focus: ["threshold"],
+  coachNotes: "",
+  tiers: {
+    MED: {
+      name: "Threshold 40 (MED)",
+      structure: [
+        segment(1, "10min", "Z1"),
+        segment(4, "1mi", "Z4", "90sec"),
+        segment(6, "30sec", "Z5", null, "hr"),
+        segment(1, "", "Z2"),
+        segment(1, "10min", "Z1"),
+      ],
+    },
+  },
+  createdAt: "2026-10-01T00:00:00.000Z",
+  updatedAt: "2026-10-01T00:00:00.000Z",
+  publishedAt: "2026-10-01T00:00:00.000Z",
+};
+
+const athlete: AthleteZoneProfile = {
+  athleteId: "m-1",
+  hr: { max: 190 },
+  pace: { zones: { Z1: "10:00-10:30/mi", Z2: "9:00-9:30/mi", Z4: "7:20-7:30/mi" } },
+};
+
+const definition = tierWorkoutDefinition(workout, "MED");
+assert.deepEqual(
+  definition.structure.map((section) => section.type),
+  ["warmup", "interval", "interval", "steady", "cooldown"]
+);
+assert.throws(() => tierWorkoutDefinition(workout, "XL"), /has no XL tier/);
+
+// Repeats keep their rest; a repeat without rest has only the work step.
+const resolved = resolveWorkoutPreview(definition, athlete);
+const steps = buildExportSteps(resolved);
+assert.deepEqual(steps[1], {
+  reps: 4,
+  steps: [
+    {
+      intensity: "active",
+      duration: { distance: 1609, unit: "m" },
+      target: { type: "pace", minSeconds: 440, maxSeconds: 450, unit: "mi" },
+      name: "Z4",
+    },
+    {
+      intensity: "rest",
+      duration: { time: 90 },
+      target: { type: "pace", minSeconds: 600, maxSeconds: 630, unit: "mi" },
+      name: "Recover",
+    },
+  ],
+});
+assert.deepEqual(steps[2], {
+  reps: 6,
+  steps: [
+    {
+      intensity: "active",
+      duration: { time: 30 },
+      target: { type: "hr", min: 171, max: 190 },
+      name: "Z5",
+    },
+  ],
+});
+assert.deepEqual(steps[3], {
+  intensity: "active",
+  duration: { open: true },
+  target: { type: "pace", minSeconds: 540, maxSeconds: 570, unit: "mi" },
+  name: "Z2",
+});
+
+// FIT: valid header and CRC, one workout step per step plus one per repeat.
+const fit = exportFitWorkout(resolved, { createdAt: new Date("2026-10-08T18:00:00Z") });
+assert.equal(String.fromCharCode(...fit.subarray(8, 12)), ".FIT");
+assert.equal(fitCrc(fit), 0, "a file followed by its CRC checks to zero");
+const messages = decodeFitFile(fit);
+assert.deepEqual(messages[0].fields, { 0: 5, 1: 255, 2: 0, 3: 1, 4: 1160416800 });
+assert.equal(messages[1].globalMessageNumber, FIT_MESSAGE.workout);
+assert.equal(messages[1].fields[8], "Threshold 40 (M");
+assert.equal(messages[1].fields[6], 8);
+const fitSteps = messages.filter(
+  (message) => message.globalMessageNumber === FIT_MESSAGE.workoutStep
+);
+assert.deepEqual(
+  fitSteps.map((message) => [message.fields[254], message.fields[1], message.fields[2]]),
+  [
+    [0, 0, 600000], // warm-up, 10 min
+    [1, 1, 160900], // 1 mi in cm
+    [2, 0, 90000],
+    [3, 6, 1], // repeat from step 1...
+    [4, 0, 30000],
+    [5, 6, 4], // repeat from step 4...
+    [6, 5, null], // open: lap button
+    [7, 0, 600000],
+  ]
+);
+assert.equal(fitSteps[3].fields[4], 4, "...4 times");
+assert.equal(fitSteps[5].fields[4], 6, "...6 times");
+assert.deepEqual(
+  [fitSteps[1].fields[3], fitSteps[1].fields[5], fitSteps[1].fields[6]],
+  [0, 3576, 3658],
+  "pace ranges become speed in mm/s, slow to fast"
+);
+assert.deepEqual(
+  [fitSteps[4].fields[3], fitSteps[4].fields[5], fitSteps[4].fields[6]],
+  [1, 271, 290],
+  "HR ranges are bpm + 100"
+);
+assert.deepEqual(
+  [fitSteps[0].fields[7], fitSteps[2].fields[7], fitSteps[7].fields[7]],
+  [2, 1, 3],
+  "warm-up, rest and cool-down intensities"
+);
+
+// Without athlete numbers the steps keep their structure with open targets.
+const anonymous = buildExportSteps(
+  resolveWorkoutPreview(definition, { athleteId: "anonymous" })
+);
+assert.deepEqual(anonymous[0], {
+  intensity: "warmup",
+  duration: { time: 600 },
+  target: { type: "open" },
+  name: "Z1",
+});
+
+// ZWO: pace targets relative to threshold, HR and open steps as free runs.
+const zwo = exportZwiftWorkout(resolved, { thresholdPace: { seconds: 450, unit: "mi" } });
+assert.match(zwo, /<sportType>run<\/sportType>/);
+assert.match(zwo, /<Warmup Duration="600" PowerLow="0.714" PowerHigh="0.75"/);
+assert.match(
+  zwo,
+  /<IntervalsT Repeat="4" OnDuration="445" OffDuration="90" OnPower="1.011" OffPower="0.732"\/>/
+);
+assert.equal(zwo.match(/<FreeRide Duration="30">/g)?.length, 6, "HR repeats are unrolled");
+assert.match(zwo, /message="Z5 · 171-190 bpm"/);
+assert.match(
+  zwo,
+  /<SteadyState Duration="300" Power="0.811">\s*<textevent[^>]*message="Z2 · open/
+);
+assert.match(zwo, /<Cooldown Duration="600" PowerLow="0.75" PowerHigh="0.714"/);
+
+// Distance steps need a pace to be timed on Zwift.
+assert.throws(
+  () =>
+    exportZwiftWorkout(
+      resolveWorkoutPreview(definition, { athleteId: "anonymous", hr: { max: 190 } })
+    ),
+  (error: unknown) =>
+    error instanceof WorkoutExportError &&
+    /Zwift needs a pace target or threshold pace/.test(error.message)
+);
+
+// Durations the formats cannot express are export errors too (422 from the API).
+const unreadable = {
+  ...workout,
+  tiers: { LRG: { name: "", structure: [segment(1, "a while", "Z1")] } },
+};
+assert.throws(
+  () => buildExportSteps(resolveWorkoutPreview(tierWorkoutDefinition(unreadable, "LRG"), athlete)),
+  (error: unknown) =>
+    error instanceof WorkoutExportError &&
+    error.message === 'Unsupported duration format "a while".'
+);
+
+// The exported steps add up to the tier's metrics: every rep, single ones
+// included, is followed by its rest.
+const timedStructure = [
+  segment(1, "10min", "Z1", "2min"),
+  segment(3, "3min", "Z4", "1min"),
+  segment(1, "10min", "Z1"),
+];
+const stepSeconds = (step: ExportStep) => ("time" in step.duration ? step.duration.time : 0);
+const timedWorkout = { ...workout, tiers: { LRG: { name: "", structure: timedStructure } } };
+const exportedSeconds = buildExportSteps(
+  resolveWorkoutPreview(tierWorkoutDefinition(timedWorkout, "LRG"), athlete)
+).reduce(
+  (sum, block) =>
+    sum +
+    ("reps" in block
+      ? block.reps * block.steps.reduce((total, step) => total + stepSeconds(step), 0)
+      : stepSeconds(block)),
+  0
+);
+assert.equal(exportedSeconds, 600 + 120 + 3 * 240 + 600);
+assert.equal(computeTierMetrics(timedStructure).seconds, exportedSeconds);
+
+console.log("workoutFileExport tests passed");
@@ -0,0 +1,372 @@
+import type {
+  ExportTarget,
+  ResolvedSectionPreview,
+  ResolvedWorkoutPreview,
+  UnitSystem,
+} from "../../targetResolution.js";
+import {
+  WorkoutExportError,
+  parseDuration,
+  type TrainingPeaksDuration,
+} from "../../trainingPeaksExport.js";
+import {
+  FIT_BASE_TYPE,
+  FIT_EPOCH_OFFSET_SECONDS,
+  FIT_MESSAGE,
+  encodeFitFile,
+  type FitOutputField,
+  type FitOutputMessage,
+} from "./fitFile.js";
+import { escapeXml } from "./gpxWriter.js";
+
+export type WorkoutFileFormat = "fit" | "zwo";
+
+export const WORKOUT_FILE_FORMATS: WorkoutFileFormat[] = ["fit", "zwo"];
+
+export type StepIntensity = "warmup" | "active" | "rest" | "cooldown";
+
+export type StepTarget =
+  | { type: "open" }
+  | { type: "hr"; min: number; max: number }
+  | { type: "pace"; minSeconds: number; maxSeconds: number; unit: UnitSystem };
+
+export interface ExportStep {
+  intensity: StepIntensity;
+  duration: TrainingPeaksDuration;
+  target: StepTarget;
+  name?: string;
+}
+
+export interface ExportRepeat {
+  reps: number;
+  steps: ExportStep[];
+}
+
+export type ExportBlock = ExportStep | ExportRepeat;
+
+const METERS_PER_UNIT: Record<UnitSystem, number> = { km: 1000, mi: 1609.34 };
+
+const isRepeat = (block: ExportBlock): block is ExportRepeat => "reps" in block;
+
+function toStepTarget(exportTarget: ExportTarget | undefined): StepTarget {
+  if (exportTarget?.hr) {
+    return { type: "hr", min: exportTarget.hr.min, max: exportTarget.hr.max };
+  }
+  if (exportTarget?.pace) {
+    return { type: "pace", ...exportTarget.pace };
+  }
+  // Percent targets have no absolute basis and unresolved zones have no
+  // numbers; both go out as open targets with the zone kept in the step name.
+  return { type: "open" };
+}
+
+function isEmptyDuration(duration: TrainingPeaksDuration): boolean {
+  if ("time" in duration) return duration.time <= 0;
+  if ("distance" in duration) return duration.distance <= 0;
+  return false;
+}
+
+function sectionBlocks(section: ResolvedSectionPreview): ExportBlock[] {
+  if (section.type === "interval") {
+    const steps: ExportStep[] = [
+      {
+        intensity: "active" as const,
+        duration: parseDuration(section.work.duration),
+        target: toStepTarget(section.work.exportTarget),
+        name: section.label,
+      },
+      {
+        intensity: "rest" as const,
+        duration: parseDuration(section.rest.duration),
+        target: toStepTarget(section.rest.exportTarget),
+        name: "Recover",
+      },
+    ].filter((step) => !isEmptyDuration(step.duration));
+    if (steps.length === 0) return [];
+    return section.reps > 1 ? [{ reps: section.reps, steps }] : steps;
+  }
+
+  const intensity: StepIntensity =
+    section.type === "warmup" || section.type === "cooldown" ? section.type : "active";
+  const step: ExportStep = {
+    intensity,
+    duration: parseDuration(section.duration),
+    target: toStepTarget(section.exportTarget),
+    name: section.label,
+  };
+  return isEmptyDuration(step.duration) ? [] : [step];
+}
+
+/**
+ * Flatten a resolved workout into steps and repeat blocks. Single-rep
+ * intervals become plain steps and zero-length rests are dropped.
+ */
+export function buildExportSteps(workout: ResolvedWorkoutPreview): ExportBlock[] {
+  return workout.sections.flatMap(sectionBlocks);
+}
+
+// FIT workout profile values (messages: file_id, workout, workout_step)
+const FIT_FILE_TYPE_WORKOUT = 5;
+const FIT_MANUFACTURER_DEVELOPMENT = 255;
+const FIT_SPORT_RUNNING = 1;
+const FIT_DURATION = { time: 0, distance: 1, open: 5, repeatUntilStepsComplete: 6 } as const;
+const FIT_TARGET = { speed: 0, heartRate: 1, open: 2 } as const;
+const FIT_INTENSITY: Record<StepIntensity, number> = {
+  active: 0,
+  rest: 1,
+  warmup: 2,
+  cooldown: 3,
+};
+// Custom heart rate targets are stored as bpm + 100 (values up to 100 are % of max).
+const FIT_HR_OFFSET = 100;
+const FIT_STRING_MAX_BYTES = 15;
+const FIT_INVALID_UINT32 = 0xffffffff;
+const FIT_INVALID_ENUM = 0xff;
+
+function fitString(value: string): string {
+  let text = value;
+  while (new TextEncoder().encode(text).length > FIT_STRING_MAX_BYTES) {
+    text = text.slice(0, -1);
+  }
+  return text;
+}
+
+function fitField(fieldNumber: number, baseType: number, value: number | string): FitOutputField {
+  return { fieldNumber, baseType, value };
+}
+
+function fitDuration(duration: TrainingPeaksDuration): [number, number] {
+  if ("time" in duration) return [FIT_DURATION.time, duration.time * 1000];
+  if ("distance" in duration) return [FIT_DURATION.distance, duration.distance * 100];
+  return [FIT_DURATION.open, FIT_INVALID_UINT32];
+}
+
+function fitTarget(target: StepTarget): [number, number, number] {
+  if (target.type === "hr") {
+    return [FIT_TARGET.heartRate, target.min + FIT_HR_OFFSET, target.max + FIT_HR_OFFSET];
+  }
+  if (target.type === "pace") {
+    // Speed in mm/s; the slower end of the pace range is the low speed.
+    const meters = METERS_PER_UNIT[target.unit];
+    return [
+      FIT_TARGET.speed,
+      Math.round((meters / target.maxSeconds) * 1000),
+      Math.round((meters / target.minSeconds) * 1000),
+    ];
+  }
+  return [FIT_TARGET.open, FIT_INVALID_UINT32, FIT_INVALID_UINT32];
+}
+
+function fitStepMessage(index: number, step: ExportStep): FitOutputMessage {
+  const [durationType, durationValue] = fitDuration(step.duration);
+  const [targetType, low, high] = fitTarget(step.target);
+  const fields = [
+    fitField(254, FIT_BASE_TYPE.uint16, index),
+    fitField(1, FIT_BASE_TYPE.enum, durationType),
+    fitField(2, FIT_BASE_TYPE.uint32, durationValue),
+    fitField(3, FIT_BASE_TYPE.enum, targetType),
+    fitField(4, FIT_BASE_TYPE.uint32, targetType === FIT_TARGET.open ? FIT_INVALID_UINT32 : 0),
+    fitField(5, FIT_BASE_TYPE.uint32, low),
+    fitField(6, FIT_BASE_TYPE.uint32, high),
+    fitField(7, FIT_BASE_TYPE.enum, FIT_INTENSITY[step.intensity]),
+  ];
+  if (step.name) fields.push(fitField(0, FIT_BASE_TYPE.string, fitString(step.name)));
+  return { globalMessageNumber: FIT_MESSAGE.workoutStep, fields };
+}
+
+function fitRepeatMessage(index: number, firstStepIndex: number, reps: number): FitOutputMessage {
+  return {
+    globalMessageNumber: FIT_MESSAGE.workoutStep,
+    fields: [
+      fitField(254, FIT_BASE_TYPE.uint16, index),
+      fitField(1, FIT_BASE_TYPE.enum, FIT_DURATION.repeatUntilStepsComplete),
+      fitField(2, FIT_BASE_TYPE.uint32, firstStepIndex),
+      fitField(3, FIT_BASE_TYPE.enum, FIT_INVALID_ENUM),
+      fitField(4, FIT_BASE_TYPE.uint32, reps),
+    ],
+  };
+}
+
+/**
+ * Encode a resolved workout as a FIT workout file for Garmin and other
+ * watches. Repeats become "repeat until steps complete" steps, open durations
+ * are ended with the lap button, and HR/pace targets become custom ranges.
+ */
+export function exportFitWorkout(
+  workout: ResolvedWorkoutPreview,
+  options: { createdAt?: Date } = {}
+): Uint8Array {
+  const steps: FitOutputMessage[] = [];
+  for (const block of buildExportSteps(workout)) {
+    if (!isRepeat(block)) {
+      steps.push(fitStepMessage(steps.length, block));
+      continue;
+    }
+    const firstStepIndex = steps.length;
+    for (const step of block.steps) steps.push(fitStepMessage(steps.length, step));
+    steps.push(fitRepeatMessage(steps.length, firstStepIndex, block.reps));
+  }
+
+  const createdAt = options.createdAt ?? new Date();
+  const timeCreated = Math.floor(createdAt.getTime() / 1000) - FIT_EPOCH_OFFSET_SECONDS;
+  return encodeFitFile([
+    {
+      globalMessageNumber: FIT_MESSAGE.fileId,
+      fields: [
+        fitField(0, FIT_BASE_TYPE.enum, FIT_FILE_TYPE_WORKOUT),
+        fitField(1, FIT_BASE_TYPE.uint16, FIT_MANUFACTURER_DEVELOPMENT),
+        fitField(2, FIT_BASE_TYPE.uint16, 0),
+        fitField(3, FIT_BASE_TYPE.uint32z, 1),
+        fitField(4, FIT_BASE_TYPE.uint32, timeCreated),
+      ],
+    },
+    {
+      globalMessageNumber: FIT_MESSAGE.workout,
+      fields: [
+        fitField(4, FIT_BASE_TYPE.enum, FIT_SPORT_RUNNING),
+        fitField(6, FIT_BASE_TYPE.uint16, steps.length),
+        fitField(8, FIT_BASE_TYPE.string, fitString(workout.name)),
+      ],
+    },
+    ...steps,
+  ]);
+}
+
+export interface ZwiftExportOptions {
+  /** Threshold pace; Zwift run intensities are fractions of threshold speed. */
+  thresholdPace?: { seconds: number; unit: UnitSystem };
+  /** Length given to open steps, which Zwift cannot end on a lap press. */
+  openDurationSeconds?: number;
+  author?: string;
+  description?: string;
+}
+
+const DEFAULT_OPEN_DURATION_SECONDS = 300;
+
+function formatFraction(value: number): string {
+  return Number(value.toFixed(3)).toString();
+}
+
+/** [slow, fast] as fractions of threshold speed, when the step has a pace target. */
+function speedFractions(
+  target: StepTarget,
+  threshold: ZwiftExportOptions["thresholdPace"]
+): [number, number] | null {
+  if (target.type !== "pace" || !threshold) return null;
+  const thresholdSpeed = METERS_PER_UNIT[threshold.unit] / threshold.seconds;
+  const meters = METERS_PER_UNIT[target.unit];
+  return [
+    meters / target.maxSeconds / thresholdSpeed,
+    meters / target.minSeconds / thresholdSpeed,
+  ];
+}
+
+function zwiftSeconds(step: ExportStep, options: ZwiftExportOptions): number {
+  if ("time" in step.duration) return step.duration.time;
+  if ("open" in step.duration) {
+    return options.openDurationSeconds ?? DEFAULT_OPEN_DURATION_SECONDS;
+  }
+  const { distance } = step.duration;
+  if (step.target.type === "pace") {
+    const meters = METERS_PER_UNIT[step.target.unit];
+    const seconds = (step.target.minSeconds + step.target.maxSeconds) / 2;
+    return Math.round((distance / meters) * seconds);
+  }
+  if (options.thresholdPace) {
+    const { seconds, unit } = options.thresholdPace;
+    return Math.round((distance / METERS_PER_UNIT[unit]) * seconds);
+  }
+  throw new WorkoutExportError(
+    `${step.name ?? "A step"} is ${distance} m long; Zwift needs a pace target or ` +
+      "threshold pace to time it."
+  );
+}
+
+function stepMessage(step: ExportStep): string | null {
+  const parts: string[] = [];
+  if (step.name) parts.push(step.name);
+  if (step.target.type === "hr") parts.push(`${step.target.min}-${step.target.max} bpm`);
+  if ("open" in step.duration) parts.push("open: move on when ready");
+  return parts.length ? parts.join(" · ") : null;
+}
+
+function zwiftElement(step: ExportStep, options: ZwiftExportOptions): string {
+  const duration = zwiftSeconds(step, options);
+  const fractions = speedFractions(step.target, options.thresholdPace);
+  const message = stepMessage(step);
+  const body = message
+    ? `>\n      <textevent timeoffset="0" message="${escapeXml(message)}"/>\n    </`
+    : null;
+  const close = (tag: string, attributes: string) =>
+    body ? `<${tag} ${attributes}${body}${tag}>` : `<${tag} ${attributes}/>`;
+
+  if (!fractions) {
+    return close("FreeRide", `Duration="${duration}"`);
+  }
+  const [slow, fast] = fractions.map(formatFraction);
+  if (step.intensity === "warmup") {
+    return close("Warmup", `Duration="${duration}" PowerLow="${slow}" PowerHigh="${fast}"`);
+  }
+  if (step.intensity === "cooldown") {
+    return close("Cooldown", `Duration="${duration}" PowerLow="${fast}" PowerHigh="${slow}"`);
+  }
+  const power = formatFraction((fractions[0] + fractions[1]) / 2);
+  return close("SteadyState", `Duration="${duration}" Power="${power}"`);
+}
+
+function zwiftIntervals(block: ExportRepeat, options: ZwiftExportOptions): string | null {
+  if (block.steps.length !== 2) return null;
+  const [on, off] = block.steps;
+  const onFractions = speedFractions(on.target, options.thresholdPace);
+  const offFractions = speedFractions(off.target, options.thresholdPace);
+  if (!onFractions || !offFractions || "open" in on.duration || "open" in off.duration) {
+    return null;
+  }
+  const average = ([slow, fast]: [number, number]) => formatFraction((slow + fast) / 2);
+  return (
+    `<IntervalsT Repeat="${block.reps}" OnDuration="${zwiftSeconds(on, options)}" ` +
+    `OffDuration="${zwiftSeconds(off, options)}" OnPower="${average(onFractions)}" ` +
+    `OffPower="${average(offFractions)}"/>`
+  );
+}
+
+/**
+ * Encode a resolved workout as a Zwift .zwo run workout for treadmill
+ * sessions. Pace targets become fractions of threshold speed (so
+ * `thresholdPace` is needed for them); HR targets and open steps are free runs
+ * with an on-screen message, since Zwift has no HR targets or lap-ended steps.
+ */
+export function exportZwiftWorkout(
+  workout: ResolvedWorkoutPreview,
+  options: ZwiftExportOptions = {}
+): string {
+  const elements: string[] = [];
+  for (const block of buildExportSteps(workout)) {
+    if (!isRepeat(block)) {
+      elements.push(zwiftElement(block, options));
+      continue;
+    }
+    const intervals = zwiftIntervals(block, options);
+    if (intervals) {
+      elements.push(intervals);
+      continue;
+    }
+    for (let rep = 0; rep < block.reps; rep += 1) {
+      for (const step of block.steps) elements.push(zwiftElement(step, options));
+    }
+  }
+
+  return [
+    "<workout_file>",
+    `  <author>${escapeXml(options.author ?? "SUC Studio")}</author>`,
+    `  <name>${escapeXml(workout.name)}</name>`,
+    `  <description>${escapeXml(options.description ?? "")}</description>`,
+    "  <sportType>run</sportType>",
+    "  <tags/>",
+    "  <workout>",
+    ...elements.map((element) => `    ${element}`),
+    "  </workout>",
+    "</workout_file>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,283 @@
+import assert from "assert/strict";
+import { resolveWorkoutPreview, type AthleteZoneProfile } from "../../targetResolution";
+import { exportTrainingPeaksWorkout } from "../../trainingPeaksExport";
+import { FIT_BASE_TYPE, FIT_MESSAGE, encodeFitFile, type FitOutputField } from "./fitFile";
+import { tierWorkoutDefinition } from "./workoutDefinition";
+import { exportFitWorkout } from "./workoutFileExport";
+import {
+  buildImportedWorkout,
+  formatStudioDuration,
+  parseTrainingPeaksWorkout,
+  parseWorkoutFile,
+} from "./workoutImport";
+import type { IntervalSegment, Workout } from "../types";
+
+const segment = (
+  reps: number,
+  duration: string,
+  zone: string,
+  rest: string | null = null,
+  type: "pace" | "hr" = "pace"
+): IntervalSegment => ({
+  type: "interval",
+  reps,
+  work: { duration, target: { type, zone }, cues: [] },
+  rest: rest ? { duration: rest, target: { type: "pace", zone: "Z1" }, cues: [] } : null,
+});
+
+const structure = [
+  segment(1, "10min", "Z1"),
+  segment(4, "1mi", "Z4", "90sec"),
+  segment(6, "30sec", "Z5", null, "hr"),
+  segment(1, "10min", "Z1"),
+];
+
+const workout: Workout = {
+  workoutId: "threshold-40",
+  version: 2,
+  status: "published",
+  name: "Threshold 40",
+  description: "",
+  focus: ["threshold"],
+  coachNotes: "",
+  tiers: { MED: { name: "Threshold 40 (MED)", structure } },
+  createdAt: "2026-10-01T00:00:00.000Z",
+  updatedAt: "2026-10-01T00:00:00.000Z",
+  publishedAt: "2026-10-01T00:00:00.000Z",
+};
+
+const athlete: AthleteZoneProfile = {
+  athleteId: "m-1",
+  hr: { max: 190 },
+  pace: { zones: { Z1: "10:00-10:30/mi", Z4: "7:20-7:30/mi" } },
+};
+
+const options = { tier: "LRG" as const, workoutId: "workout-1", now: "2026-10-19T00:00:00.000Z" };
+const resolved = resolveWorkoutPreview(tierWorkoutDefinition(workout, "MED"), athlete);
+
+// TrainingPeaks round trip: with the same athlete's zones every target maps back.
+const trainingPeaks = exportTrainingPeaksWorkout(resolved);
+const fromTp = buildImportedWorkout(parseTrainingPeaksWorkout(trainingPeaks), {
+  ...options,
+  athlete,
+});
+assert.deepEqual(fromTp.issues, []);
+assert.equal(fromTp.workout.name, "Threshold 40", "the tier label is dropped from the name");
+assert.equal(fromTp.workout.status, "draft");
+assert.equal(fromTp.workout.version, 0);
+assert.deepEqual(Object.keys(fromTp.workout.tiers), ["LRG"]);
+assert.deepEqual(fromTp.workout.tiers.LRG?.structure, structure);
+
+// Without zones, absolute targets are reported and kept as cues instead of guessed.
+const anonymous = buildImportedWorkout(parseTrainingPeaksWorkout(trainingPeaks), options);
+assert.equal(anonymous.issues.length, 5);
+assert.deepEqual(anonymous.issues[1], {
+  step: "Step 3",
+  kind: "target",
+  message: "Target 7:20-7:30/mi has no studio zone; pick one in the builder.",
+});
+assert.deepEqual(anonymous.workout.tiers.LRG?.structure[1].work, {
+  duration: "1mi",
+  target: { type: "pace", zone: "" },
+  cues: ["Imported target: 7:20-7:30/mi"],
+});
+
+// FIT round trip.
+const fit = exportFitWorkout(resolved, { createdAt: new Date("2026-10-08T18:00:00Z") });
+const fromFit = buildImportedWorkout(parseWorkoutFile(fit, "threshold.fit"), {
+  ...options,
+  athlete,
+});
+assert.deepEqual(fromFit.issues, []);
+assert.deepEqual(
+  fromFit.workout.tiers.LRG?.structure.map((item) => [
+    item.reps,
+    item.work.duration,
+    item.work.target.type,
+    item.work.target.zone,
+    item.rest?.duration ?? null,
+  ]),
+  [
+    [1, "10min", "pace", "Z1", null],
+    [4, "1mi", "pace", "Z4", "90sec"],
+    [6, "30sec", "hr", "Z5", null],
+    [1, "10min", "pace", "Z1", null],
+  ]
+);
+assert.equal(fromFit.workout.description, "Imported from a FIT workout file.");
+
+// TrainingPeaks' native structure with %threshold HR targets.
+const native = buildImportedWorkout(
+  parseTrainingPeaksWorkout({
+    Title: "Cruise",
+    Structure: JSON.stringify({
+      primaryIntensityMetric: "percentOfThresholdHr",
+      structure: [
+        {
+          type: "step",
+          steps: [
+            {
+              name: "Warm up",
+              intensityClass: "warmUp",
+              length: { value: 10, unit: "minute" },
+              targets: [{ minValue: 65, maxValue: 75 }],
+            },
+          ],
+        },
+        {
+          type: "repetition",
+          length: { value: 5, unit: "repetition" },
+          steps: [
+            {
+              name: "Hard",
+              intensityClass: "active",
+              length: { value: 1, unit: "kilometer" },
+              targets: [{ minValue: 95, maxValue: 100 }],
+            },
+            {
+              name: "Easy",
+              intensityClass: "rest",
+              length: { value: 2, unit: "minute" },
+              targets: [{ minValue: 65, maxValue: 75 }],
+            },
+          ],
+        },
+      ],
+    }),
+  }),
+  options
+);
+assert.deepEqual(native.issues, []);
+assert.equal(native.workout.name, "Cruise");
+assert.deepEqual(native.workout.tiers.LRG?.structure[1], {
+  type: "interval",
+  reps: 5,
+  work: { duration: "1km", target: { type: "hr", zone: "Z4" }, cues: ["Hard"] },
+  rest: { duration: "2min", target: { type: "hr", zone: "Z1" }, cues: ["Easy"] },
+});
+
+// Rests outside a repeat stay their own steps instead of one rep's rest.
+const tpStep = (
+  name: string,
+  intensityClass: string,
+  minutes: number,
+  low: number,
+  high: number
+) => ({
+  type: "step",
+  steps: [
+    {
+      name,
+      intensityClass,
+      length: { value: minutes, unit: "minute" },
+      targets: [{ minValue: low, maxValue: high }],
+    },
+  ],
+});
+const loose = buildImportedWorkout(
+  parseTrainingPeaksWorkout({
+    Title: "Two tempos",
+    Structure: JSON.stringify({
+      primaryIntensityMetric: "percentOfThresholdHr",
+      structure: [
+        tpStep("Tempo", "active", 10, 95, 100),
+        tpStep("Easy", "rest", 2, 65, 75),
+        tpStep("Tempo", "active", 10, 95, 100),
+        tpStep("Easy", "rest", 2, 65, 75),
+      ],
+    }),
+  }),
+  options
+);
+assert.deepEqual(loose.issues, []);
+assert.deepEqual(
+  loose.workout.tiers.LRG?.structure.map((item) => [
+    item.reps,
+    item.work.duration,
+    item.work.target.zone,
+    item.rest,
+  ]),
+  [
+    [1, "10min", "Z4", null],
+    [1, "2min", "Z1", null],
+    [1, "10min", "Z4", null],
+    [1, "2min", "Z1", null],
+  ]
+);
+
+// Power targets, open work steps and three-step repeats are all reported.
+const step = (index: number, fields: FitOutputField[]) => ({
+  globalMessageNumber: FIT_MESSAGE.workoutStep,
+  fields: [{ fieldNumber: 254, baseType: FIT_BASE_TYPE.uint16, value: index }, ...fields],
+});
+const timed = (ms: number, targetType: number, low = 0, high = 0): FitOutputField[] => [
+  { fieldNumber: 1, baseType: FIT_BASE_TYPE.enum, value: 0 },
+  { fieldNumber: 2, baseType: FIT_BASE_TYPE.uint32, value: ms },
+  { fieldNumber: 3, baseType: FIT_BASE_TYPE.enum, value: targetType },
+  { fieldNumber: 5, baseType: FIT_BASE_TYPE.uint32, value: low },
+  { fieldNumber: 6, baseType: FIT_BASE_TYPE.uint32, value: high },
+];
+const handmade = encodeFitFile([
+  {
+    globalMessageNumber: FIT_MESSAGE.fileId,
+    fields: [{ fieldNumber: 0, baseType: FIT_BASE_TYPE.enum, value: 5 }],
+  },
+  step(0, timed(60000, 4, 1250, 1300)),
+  step(1, timed(30000, 2)),
+  step(2, timed(30000, 2)),
+  step(3, timed(30000, 2)),
+  step(4, [
+    { fieldNumber: 1, baseType: FIT_BASE_TYPE.enum, value: 6 },
+    { fieldNumber: 2, baseType: FIT_BASE_TYPE.uint32, value: 1 },
+    { fieldNumber: 4, baseType: FIT_BASE_TYPE.uint32, value: 2 },
+  ]),
+]);
+const reported = buildImportedWorkout(parseWorkoutFile(handmade, "hills.fit"), options);
+assert.equal(reported.workout.name, "Imported workout");
+assert.equal(reported.workout.tiers.LRG?.structure.length, 7, "1 + 2 x 3 steps");
+assert.deepEqual(reported.workout.tiers.LRG?.structure[0].work.target, {
+  type: "pace",
+  zone: "",
+});
+assert.deepEqual(
+  reported.issues.map((issue) => [issue.step, issue.kind]),
+  [
+    ["Step 1", "target"],
+    ["Repeat at step 2", "structure"],
+    ["Step 2", "target"],
+    ["Step 3", "target"],
+    ["Step 4", "target"],
+  ]
+);
+assert.equal(
+  reported.issues[0].message,
+  "Target power 1250-1300 has no studio zone; pick one in the builder."
+);
+assert.equal(reported.issues[2].message, "No target; set to Z1.");
+
+assert.throws(
+  () =>
+    parseWorkoutFile(
+      encodeFitFile([
+        {
+          globalMessageNumber: FIT_MESSAGE.fileId,
+          fields: [{ fieldNumber: 0, baseType: FIT_BASE_TYPE.enum, value: 4 }],
+        },
+      ]),
+      "ride.fit"
+    ),
+  /ride\.fit is not a FIT workout file \(file type 4\)/
+);
+assert.throws(
+  () => parseWorkoutFile(new TextEncoder().encode("not json"), "notes.txt"),
+  /neither a FIT workout nor TrainingPeaks JSON/
+);
+
+assert.equal(formatStudioDuration({ seconds: 90 }), "90sec");
+assert.equal(formatStudioDuration({ seconds: 7200 }), "2hr");
+assert.equal(formatStudioDuration({ meters: 1609 }), "1mi");
+assert.equal(formatStudioDuration({ meters: 5000 }), "5km");
+assert.equal(formatStudioDuration({ meters: 400 }), "400m");
+assert.equal(formatStudioDuration({ open: true }), "");
+
+console.log("workoutImport tests passed");
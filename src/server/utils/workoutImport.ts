@@ -0,0 +1,700 @@
+import {
+  parsePaceRange,
+  type AthleteZoneProfile,
+  type UnitSystem,
+} from "../../targetResolution.js";
+import { FIT_MESSAGE, decodeFitFile, isFitBuffer, type FitMessage } from "./fitFile.js";
+import { ZONE_PERCENT_MAX } from "./workoutDefinition.js";
+import type {
+  IntervalSegment,
+  IntervalTarget,
+  TierLabel,
+  Workout,
+  WorkoutImportIssue,
+  WorkoutImportSource,
+} from "../types.js";
+
+type StepIntensity = "warmup" | "active" | "rest" | "cooldown";
+
+type ImportedDuration = { seconds: number } | { meters: number } | { open: true };
+
+type ImportedTarget =
+  | { kind: "open" }
+  | { kind: "zone"; metric: "hr" | "pace"; zone: number }
+  | { kind: "hr-bpm"; min: number; max: number }
+  | { kind: "hr-percent-max"; min: number; max: number }
+  | { kind: "pace"; minSeconds: number; maxSeconds: number; unit: UnitSystem }
+  | { kind: "percent-threshold"; metric: "hr" | "pace"; min: number; max: number }
+  | { kind: "unsupported"; description: string };
+
+interface ImportedStep {
+  label: string;
+  intensity: StepIntensity;
+  duration: ImportedDuration;
+  target: ImportedTarget;
+  note?: string;
+}
+
+interface ImportedRepeat {
+  label: string;
+  reps: number;
+  blocks: ImportedBlock[];
+}
+
+type ImportedBlock = ImportedStep | ImportedRepeat;
+
+/** A workout file read into steps, before targets are mapped to studio zones. */
+export interface ParsedWorkoutFile {
+  source: WorkoutImportSource;
+  name: string;
+  blocks: ImportedBlock[];
+  issues: WorkoutImportIssue[];
+}
+
+const isRepeat = (block: ImportedBlock): block is ImportedRepeat => "reps" in block;
+
+const METERS_PER_UNIT: Record<UnitSystem, number> = { km: 1000, mi: 1609.34 };
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+/** TrainingPeaks exports use both camelCase and PascalCase keys. */
+function field(source: JsonObject, key: string): unknown {
+  return source[key] ?? source[key[0].toUpperCase() + key.slice(1)];
+}
+
+function numberField(source: JsonObject, key: string): number | null {
+  const value = Number(field(source, key));
+  return Number.isFinite(value) ? value : null;
+}
+
+// ---------------------------------------------------------------------------
+// TrainingPeaks JSON
+
+const TP_INTENSITY: Record<string, StepIntensity> = {
+  warmup: "warmup",
+  active: "active",
+  rest: "rest",
+  recovery: "rest",
+  cooldown: "cooldown",
+};
+
+const TP_LENGTH_UNITS: Record<string, { seconds?: number; meters?: number }> = {
+  second: { seconds: 1 },
+  minute: { seconds: 60 },
+  hour: { seconds: 3600 },
+  meter: { meters: 1 },
+  kilometer: { meters: 1000 },
+  mile: { meters: 1609.34 },
+};
+
+/** The shape written by `exportTrainingPeaksWorkout`. */
+function parseStudioTrainingPeaksSteps(
+  steps: unknown[],
+  issues: WorkoutImportIssue[],
+  counter: { next: number }
+): ImportedBlock[] {
+  return steps.filter(isObject).map((step): ImportedBlock => {
+    const label = `Step ${counter.next++}`;
+    if (step.type === "repetition") {
+      return {
+        label: `Repeat at ${label.toLowerCase()}`,
+        reps: Math.max(1, Math.round(Number(step.reps) || 1)),
+        blocks: parseStudioTrainingPeaksSteps(
+          Array.isArray(step.steps) ? step.steps : [],
+          issues,
+          counter
+        ),
+      };
+    }
+    const duration = isObject(step.duration) ? step.duration : {};
+    const target = isObject(step.target) ? step.target : {};
+    let importedDuration: ImportedDuration = { open: true };
+    if (typeof duration.time === "number") {
+      importedDuration = { seconds: duration.time };
+    } else if (typeof duration.distance === "number") {
+      importedDuration = { meters: duration.distance };
+    }
+
+    let importedTarget: ImportedTarget = { kind: "open" };
+    if (target.type === "heartRate") {
+      importedTarget = { kind: "hr-bpm", min: Number(target.min), max: Number(target.max) };
+    } else if (target.type === "pace") {
+      importedTarget = {
+        kind: "pace",
+        minSeconds: Number(target.min),
+        maxSeconds: Number(target.max),
+        unit: target.unit === "secPerKm" ? "km" : "mi",
+      };
+    } else if (target.type) {
+      importedTarget = { kind: "unsupported", description: `${String(target.type)} target` };
+    }
+    return {
+      label,
+      intensity: TP_INTENSITY[String(step.type).toLowerCase()] ?? "active",
+      duration: importedDuration,
+      target: importedTarget,
+    };
+  });
+}
+
+function tpLength(
+  length: unknown,
+  defaultUnit: string,
+  label: string,
+  issues: WorkoutImportIssue[]
+): ImportedDuration {
+  if (!isObject(length)) return { open: true };
+  const value = numberField(length, "value");
+  const unit = String(field(length, "unit") ?? defaultUnit).toLowerCase().replace(/s$/, "");
+  const scale = TP_LENGTH_UNITS[unit];
+  if (value === null || !scale) {
+    issues.push({
+      step: label,
+      kind: "duration",
+      message: `Length ${value ?? "?"} ${unit} is not a time or distance; imported as open.`,
+    });
+    return { open: true };
+  }
+  if (scale.seconds) return { seconds: Math.round(value * scale.seconds) };
+  return { meters: Math.round(value * (scale.meters ?? 1)) };
+}
+
+function tpTarget(step: JsonObject, metric: string): ImportedTarget {
+  const targets = field(step, "targets");
+  const first = Array.isArray(targets) ? targets.find(isObject) : undefined;
+  if (!first) return { kind: "open" };
+  const min = numberField(first, "minValue");
+  const max = numberField(first, "maxValue") ?? min;
+  if (min === null || max === null) return { kind: "open" };
+  switch (metric.toLowerCase()) {
+    case "percentofthresholdhr":
+      return { kind: "percent-threshold", metric: "hr", min, max };
+    case "percentofthresholdpace":
+    case "percentofthresholdspeed":
+      return { kind: "percent-threshold", metric: "pace", min, max };
+    case "percentofmaxhr":
+      return { kind: "hr-percent-max", min: min / 100, max: max / 100 };
+    case "heartrate":
+      return { kind: "hr-bpm", min, max };
+    default:
+      return { kind: "unsupported", description: `${metric || "unknown"} ${min}-${max}` };
+  }
+}
+
+/** TrainingPeaks' own structured workout format (`structure` blocks of `steps`). */
+function parseNativeTrainingPeaksStructure(
+  container: JsonObject,
+  issues: WorkoutImportIssue[]
+): ImportedBlock[] {
+  const structure = field(container, "structure") as unknown[];
+  const metric = String(field(container, "primaryIntensityMetric") ?? "");
+  const lengthMetric = String(field(container, "primaryLengthMetric") ?? "duration");
+  const defaultUnit = lengthMetric === "distance" ? "meter" : "second";
+  let counter = 1;
+
+  const readStep = (step: JsonObject): ImportedStep => {
+    const label = `Step ${counter++}`;
+    const name = field(step, "name");
+    return {
+      label,
+      intensity:
+        TP_INTENSITY[String(field(step, "intensityClass") ?? "").toLowerCase()] ?? "active",
+      duration: tpLength(field(step, "length"), defaultUnit, label, issues),
+      target: tpTarget(step, metric),
+      note: typeof name === "string" && name.trim() ? name.trim() : undefined,
+    };
+  };
+
+  return structure.filter(isObject).flatMap((block): ImportedBlock[] => {
+    const steps = field(block, "steps");
+    const children = Array.isArray(steps) ? steps.filter(isObject) : [];
+    const type = String(field(block, "type") ?? "step").toLowerCase();
+    if (type === "repetition") {
+      const length = field(block, "length");
+      const reps = isObject(length) ? numberField(length, "value") : null;
+      const label = `Repeat at step ${counter}`;
+      return [{ label, reps: Math.max(1, Math.round(reps ?? 1)), blocks: children.map(readStep) }];
+    }
+    if (type !== "step") {
+      issues.push({
+        step: `Step ${counter}`,
+        kind: "structure",
+        message: `${type} blocks are not supported; imported as steady steps.`,
+      });
+    }
+    return children.map(readStep);
+  });
+}
+
+/**
+ * Read a TrainingPeaks workout: either the shape `exportTrainingPeaksWorkout`
+ * writes (`steps`) or a TrainingPeaks structured workout (`structure`).
+ */
+export function parseTrainingPeaksWorkout(data: unknown): ParsedWorkoutFile {
+  if (!isObject(data)) {
+    throw new Error("TrainingPeaks workout must be a JSON object");
+  }
+  const issues: WorkoutImportIssue[] = [];
+  const name = String(field(data, "name") ?? field(data, "title") ?? "").trim();
+
+  if (Array.isArray(data.steps)) {
+    return {
+      source: "trainingpeaks",
+      name,
+      blocks: parseStudioTrainingPeaksSteps(data.steps, issues, { next: 1 }),
+      issues,
+    };
+  }
+
+  let container: unknown = field(data, "structure");
+  if (typeof container === "string") {
+    try {
+      container = JSON.parse(container);
+    } catch {
+      throw new Error("TrainingPeaks structure is not valid JSON");
+    }
+  }
+  if (Array.isArray(container)) container = { ...data, structure: container };
+  if (!isObject(container) || !Array.isArray(field(container, "structure"))) {
+    throw new Error("Not a TrainingPeaks workout: expected `steps` or `structure`");
+  }
+  return {
+    source: "trainingpeaks",
+    name,
+    blocks: parseNativeTrainingPeaksStructure(container, issues),
+    issues,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// FIT workout files
+
+// Profile values for file_id, workout and workout_step messages.
+const FIT_FILE_TYPE_WORKOUT = 5;
+const FIT_DURATION_NAMES: Record<number, string> = {
+  2: "heart rate below a value",
+  3: "heart rate above a value",
+  4: "calories",
+  7: "repeat until time",
+  8: "repeat until distance",
+  9: "repeat until calories",
+  10: "repeat until heart rate below",
+  11: "repeat until heart rate above",
+  14: "power below a value",
+  15: "power above a value",
+};
+const FIT_TARGET_NAMES: Record<number, string> = {
+  3: "cadence",
+  4: "power",
+  5: "grade",
+  6: "resistance",
+  7: "power (3s)",
+  8: "power (10s)",
+  9: "power (30s)",
+  10: "power (lap)",
+  11: "swim stroke",
+  12: "speed (lap)",
+  13: "heart rate (lap)",
+};
+const FIT_INTENSITY: Record<number, StepIntensity> = {
+  0: "active",
+  1: "rest",
+  2: "warmup",
+  3: "cooldown",
+  4: "rest",
+  5: "active",
+};
+
+const fitNumber = (message: FitMessage, fieldNumber: number): number | null => {
+  const value = message.fields[fieldNumber];
+  return typeof value === "number" ? value : null;
+};
+
+function fitTarget(message: FitMessage): ImportedTarget {
+  const type = fitNumber(message, 3);
+  const zone = fitNumber(message, 4);
+  const low = fitNumber(message, 5);
+  const high = fitNumber(message, 6);
+  if (type === null || type === 2) return { kind: "open" };
+  if (type === 0) {
+    if (zone) return { kind: "zone", metric: "pace", zone };
+    if (!low || !high) return { kind: "open" };
+    // mm/s to seconds per km; the higher speed is the faster pace.
+    return {
+      kind: "pace",
+      minSeconds: Math.round(1_000_000 / high),
+      maxSeconds: Math.round(1_000_000 / low),
+      unit: "km",
+    };
+  }
+  if (type === 1) {
+    if (zone) return { kind: "zone", metric: "hr", zone };
+    if (low === null || high === null) return { kind: "open" };
+    // Up to 100 is % of max HR; above that, bpm + 100.
+    if (high <= 100) return { kind: "hr-percent-max", min: low / 100, max: high / 100 };
+    return { kind: "hr-bpm", min: low - 100, max: high - 100 };
+  }
+  const range = low !== null && high !== null ? ` ${low}-${high}` : zone ? ` zone ${zone}` : "";
+  return {
+    kind: "unsupported",
+    description: `${FIT_TARGET_NAMES[type] ?? `target type ${type}`}${range}`,
+  };
+}
+
+/**
+ * Read a FIT workout file (Garmin Connect and other platforms).
+ */
+export function parseFitWorkout(buffer: Uint8Array, fileName = "workout.fit"): ParsedWorkoutFile {
+  const messages = decodeFitFile(buffer, fileName);
+  const fileId = messages.find((message) => message.globalMessageNumber === FIT_MESSAGE.fileId);
+  const fileType = fileId ? fitNumber(fileId, 0) : null;
+  if (fileType !== FIT_FILE_TYPE_WORKOUT) {
+    throw new Error(`${fileName} is not a FIT workout file (file type ${fileType ?? "unknown"})`);
+  }
+  const workout = messages.find((message) => message.globalMessageNumber === FIT_MESSAGE.workout);
+  const steps = messages
+    .filter((message) => message.globalMessageNumber === FIT_MESSAGE.workoutStep)
+    .map((message, order) => ({ message, index: fitNumber(message, 254) ?? order }))
+    .sort((a, b) => a.index - b.index);
+
+  const issues: WorkoutImportIssue[] = [];
+  // Blocks so far, with the step index each one starts at.
+  const blocks: Array<{ start: number; block: ImportedBlock }> = [];
+
+  for (const { message, index } of steps) {
+    const label = `Step ${index + 1}`;
+    const durationType = fitNumber(message, 1);
+    const durationValue = fitNumber(message, 2);
+
+    if (durationType === 6) {
+      const from = durationValue ?? 0;
+      const children: typeof blocks = [];
+      while (blocks.length && blocks[blocks.length - 1].start >= from) {
+        children.unshift(blocks.pop()!);
+      }
+      blocks.push({
+        start: children[0]?.start ?? index,
+        block: {
+          label: `Repeat at step ${from + 1}`,
+          reps: Math.max(1, fitNumber(message, 4) ?? 1),
+          blocks: children.map((child) => child.block),
+        },
+      });
+      continue;
+    }
+
+    let duration: ImportedDuration = { open: true };
+    if (durationType === 0 && durationValue !== null) {
+      duration = { seconds: Math.round(durationValue / 1000) };
+    } else if (durationType === 1 && durationValue !== null) {
+      duration = { meters: Math.round(durationValue / 100) };
+    } else if (durationType !== 5 && durationType !== null) {
+      const ending = FIT_DURATION_NAMES[durationType] ?? `duration type ${durationType}`;
+      issues.push({
+        step: label,
+        kind: "duration",
+        message: `Ends on ${ending}; imported as open.`,
+      });
+    }
+
+    const name = message.fields[0];
+    const notes = message.fields[8];
+    const note = [name, notes].filter((text) => typeof text === "string" && text.trim()).join(": ");
+    blocks.push({
+      start: index,
+      block: {
+        label,
+        intensity: FIT_INTENSITY[fitNumber(message, 7) ?? 0] ?? "active",
+        duration,
+        target: fitTarget(message),
+        note: note || undefined,
+      },
+    });
+  }
+
+  const name = workout?.fields[8];
+  return {
+    source: "fit",
+    name: typeof name === "string" ? name.trim() : "",
+    blocks: blocks.map((entry) => entry.block),
+    issues,
+  };
+}
+
+/**
+ * Read an uploaded workout file: FIT by its header, anything else as
+ * TrainingPeaks JSON.
+ */
+export function parseWorkoutFile(buffer: Uint8Array, fileName: string): ParsedWorkoutFile {
+  if (isFitBuffer(buffer)) return parseFitWorkout(buffer, fileName);
+  let data: unknown;
+  try {
+    data = JSON.parse(new TextDecoder("utf-8").decode(buffer));
+  } catch {
+    throw new Error(`${fileName} is neither a FIT workout nor TrainingPeaks JSON`);
+  }
+  return parseTrainingPeaksWorkout(data);
+}
+
+// ---------------------------------------------------------------------------
+// Studio model
+
+/** Lower bounds of Z2..Z5 as % of threshold HR (running LTHR zones). */
+const THRESHOLD_HR_ZONE_BOUNDS = [85, 90, 95, 100];
+/** Lower bounds of Z2..Z5 as % of threshold speed. */
+const THRESHOLD_PACE_ZONE_BOUNDS = [78, 88, 95, 100];
+const PERCENT_MAX_ZONE_BOUNDS = ["Z2", "Z3", "Z4", "Z5"].map((zone) => ZONE_PERCENT_MAX[zone][0]);
+
+function zoneByBounds(value: number, bounds: number[]): string {
+  return `Z${1 + bounds.filter((bound) => value >= bound).length}`;
+}
+
+/** The athlete zone whose range holds `value`, else the one with the nearest middle. */
+function nearestZone(value: number, zones: Array<[string, number, number]>): string | null {
+  const containing = zones.find(([, min, max]) => value >= min && value <= max);
+  if (containing) return containing[0];
+  let best: [string, number] | null = null;
+  for (const [zone, min, max] of zones) {
+    const distance = Math.abs((min + max) / 2 - value);
+    if (!best || distance < best[1]) best = [zone, distance];
+  }
+  return best?.[0] ?? null;
+}
+
+function formatPace(seconds: number): string {
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, "0")}`;
+}
+
+function describeTarget(target: ImportedTarget): string {
+  switch (target.kind) {
+    case "hr-bpm":
+      return `${target.min}-${target.max} bpm`;
+    case "hr-percent-max":
+      return `${Math.round(target.min * 100)}-${Math.round(target.max * 100)}% max HR`;
+    case "pace":
+      return `${formatPace(target.minSeconds)}-${formatPace(target.maxSeconds)}/${target.unit}`;
+    case "percent-threshold":
+      return `${target.min}-${target.max}% threshold ${target.metric === "hr" ? "HR" : "pace"}`;
+    case "zone":
+      return `${target.metric === "hr" ? "HR" : "pace"} zone ${target.zone}`;
+    case "unsupported":
+      return target.description;
+    default:
+      return "open";
+  }
+}
+
+function athleteHrZone(bpm: number, athlete: AthleteZoneProfile): string | null {
+  const max = athlete.hr?.max;
+  const zones = Object.entries(athlete.hr?.zones ?? {}).map(
+    ([zone, [low, high]]): [string, number, number] =>
+      low <= 1 && high <= 1 && max ? [zone, low * max, high * max] : [zone, low, high]
+  );
+  if (zones.length) return nearestZone(bpm, zones);
+  return max ? zoneByBounds(bpm / max, PERCENT_MAX_ZONE_BOUNDS) : null;
+}
+
+function athletePaceZone(
+  target: Extract<ImportedTarget, { kind: "pace" }>,
+  athlete: AthleteZoneProfile
+): string | null {
+  // Compared as seconds per km.
+  const toKm = (seconds: number, unit: UnitSystem) => (seconds * 1000) / METERS_PER_UNIT[unit];
+  const zones: Array<[string, number, number]> = [];
+  for (const [zone, text] of Object.entries(athlete.pace?.zones ?? {})) {
+    const range = parsePaceRange(text, athlete.preferredUnits ?? "mi");
+    if (!range) continue;
+    zones.push([zone, toKm(range.minSeconds, range.unit), toKm(range.maxSeconds, range.unit)]);
+  }
+  if (!zones.length) return null;
+  return nearestZone(toKm((target.minSeconds + target.maxSeconds) / 2, target.unit), zones);
+}
+
+/** Studio target for an imported one; `zone` is empty when nothing maps. */
+function mapTarget(
+  target: ImportedTarget,
+  athlete: AthleteZoneProfile
+): { target: IntervalTarget; mapped: boolean } {
+  const metric = target.kind === "hr-bpm" || target.kind === "hr-percent-max" ? "hr" : "pace";
+  let zone: string | null = null;
+  switch (target.kind) {
+    case "open":
+      zone = "Z1";
+      break;
+    case "zone":
+      return {
+        target: { type: target.metric, zone: `Z${Math.min(5, Math.max(1, target.zone))}` },
+        mapped: target.zone >= 1 && target.zone <= 5,
+      };
+    case "hr-percent-max":
+      zone = zoneByBounds((target.min + target.max) / 2, PERCENT_MAX_ZONE_BOUNDS);
+      break;
+    case "hr-bpm":
+      zone = athleteHrZone((target.min + target.max) / 2, athlete);
+      break;
+    case "pace":
+      zone = athletePaceZone(target, athlete);
+      break;
+    case "percent-threshold":
+      zone = zoneByBounds(
+        (target.min + target.max) / 2,
+        target.metric === "hr" ? THRESHOLD_HR_ZONE_BOUNDS : THRESHOLD_PACE_ZONE_BOUNDS
+      );
+      return { target: { type: target.metric, zone }, mapped: true };
+  }
+  return { target: { type: metric, zone: zone ?? "" }, mapped: zone !== null };
+}
+
+const MILE_METERS = 1609.34;
+
+/** Duration in the studio's notation ("10min", "90sec", "1mi", "400m"); open is "". */
+export function formatStudioDuration(duration: ImportedDuration): string {
+  if ("seconds" in duration) {
+    const { seconds } = duration;
+    if (seconds >= 3600 && seconds % 3600 === 0) return `${seconds / 3600}hr`;
+    if (seconds % 60 === 0) return `${seconds / 60}min`;
+    return `${seconds}sec`;
+  }
+  if ("meters" in duration) {
+    const { meters } = duration;
+    if (meters >= 1000 && meters % 1000 === 0) return `${meters / 1000}km`;
+    const miles = Math.round((meters / MILE_METERS) * 100) / 100;
+    if (miles > 0 && Math.abs(miles * MILE_METERS - meters) < 2) return `${miles}mi`;
+    return `${meters}m`;
+  }
+  return "";
+}
+
+interface ImportOptions {
+  tier: TierLabel;
+  athlete?: AthleteZoneProfile;
+  workoutId: string;
+  now: string;
+  name?: string;
+}
+
+function effortFor(
+  step: ImportedStep,
+  athlete: AthleteZoneProfile,
+  issues: WorkoutImportIssue[]
+): IntervalSegment["work"] {
+  const { target, mapped } = mapTarget(step.target, athlete);
+  const cues: string[] = [];
+  if (!mapped) {
+    const original = describeTarget(step.target);
+    issues.push({
+      step: step.label,
+      kind: "target",
+      message:
+        target.zone === ""
+          ? `Target ${original} has no studio zone; pick one in the builder.`
+          : `Target ${original} is outside Z1-Z5; set to ${target.zone}.`,
+    });
+    cues.push(`Imported target: ${original}`);
+  } else if (step.target.kind === "open" && step.intensity === "active") {
+    issues.push({ step: step.label, kind: "target", message: "No target; set to Z1." });
+  }
+  if (step.note) cues.push(step.note);
+  return { duration: formatStudioDuration(step.duration), target, cues };
+}
+
+/** Zero-length steps pad repeats in some exports (ours included); they carry nothing. */
+const isEmptyStep = (block: ImportedBlock): boolean =>
+  !isRepeat(block) &&
+  (("seconds" in block.duration && block.duration.seconds <= 0) ||
+    ("meters" in block.duration && block.duration.meters <= 0));
+
+function toSegments(
+  allBlocks: ImportedBlock[],
+  athlete: AthleteZoneProfile,
+  issues: WorkoutImportIssue[]
+): IntervalSegment[] {
+  const blocks = allBlocks.filter((block) => !isEmptyStep(block));
+  const segments: IntervalSegment[] = [];
+  for (const block of blocks) {
+    if (!isRepeat(block)) {
+      // Every step outside a repeat is its own segment, rests included, so the
+      // builder shows them as steps instead of hiding them in one rep's rest.
+      segments.push({
+        type: "interval",
+        reps: 1,
+        work: effortFor(block, athlete, issues),
+        rest: null,
+      });
+      continue;
+    }
+
+    const steps = block.blocks.filter((inner) => !isEmptyStep(inner));
+    const [work, rest, ...extra] = steps;
+    if (work && !isRepeat(work) && (!rest || !isRepeat(rest)) && extra.length === 0) {
+      segments.push({
+        type: "interval",
+        reps: block.reps,
+        work: effortFor(work, athlete, issues),
+        rest: rest ? effortFor(rest as ImportedStep, athlete, issues) : null,
+      });
+      continue;
+    }
+
+    // Studio segments repeat one work/rest pair; anything larger is written out.
+    if (steps.length > 0) {
+      issues.push({
+        step: block.label,
+        kind: "structure",
+        message:
+          `${block.reps} x ${steps.length} steps cannot be one segment; ` +
+          "written out in full.",
+      });
+    }
+    const inner = toSegments(steps, athlete, issues);
+    for (let rep = 0; rep < block.reps; rep += 1) {
+      segments.push(...inner.map((segment) => structuredClone(segment)));
+    }
+  }
+  return segments;
+}
+
+/**
+ * Turn a parsed workout file into a studio draft with the steps in `tier`.
+ * Targets map to Z1-Z5 (absolute HR and pace need the athlete's zones);
+ * anything that does not map is listed in `issues` and kept as a cue.
+ */
+export function buildImportedWorkout(
+  parsed: ParsedWorkoutFile,
+  options: ImportOptions
+): { workout: Workout; issues: WorkoutImportIssue[] } {
+  const issues = [...parsed.issues];
+  const structure = toSegments(parsed.blocks, options.athlete ?? { athleteId: "import" }, issues);
+  if (structure.length === 0) {
+    issues.push({ step: "Workout", kind: "structure", message: "The file has no steps." });
+  }
+  // Files exported from a tier carry its label; the draft names the tier itself.
+  const fileName = parsed.name.replace(/\s*\((?:MED|LRG|XL|XXL)\)$/, "");
+  const name = options.name?.trim() || fileName || "Imported workout";
+  const source = parsed.source === "fit" ? "a FIT workout file" : "TrainingPeaks";
+  return {
+    workout: {
+      workoutId: options.workoutId,
+      version: 0,
+      status: "draft",
+      domain: "run",
+      strengthType: null,
+      name,
+      description: `Imported from ${source}.`,
+      focus: [],
+      coachNotes: "",
+      tiers: { [options.tier]: { name: `${name} (${options.tier})`, structure } },
+      routeId: null,
+      routeMode: null,
+      sectionEfforts: [],
+      createdAt: options.now,
+      updatedAt: options.now,
+      publishedAt: null,
+    },
+    issues,
+  };
+}
@@ -0,0 +1,21 @@
+import type { Response } from "express";
+import { SchemaValidationError } from "./schemaValidation.js";
+import { StaleWriteError } from "./storage.js";
+
+/**
+ * Answer the errors any shared-data write can throw: 400 with the schema
+ * issues when the data fails its canonical schema, 409 with the current
+ * revision when If-Match is stale. Returns false for other errors, which the
+ * handler reports itself.
+ */
+export function sendWriteError(res: Response, error: unknown): boolean {
+  if (error instanceof SchemaValidationError) {
+    res.status(400).json(error.toResponse());
+    return true;
+  }
+  if (error instanceof StaleWriteError) {
+    res.status(409).json(error.toResponse());
+    return true;
+  }
+  return false;
+}
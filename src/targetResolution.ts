@@ -134,7 +134,7 @@ export type ResolutionOptions = {
 const KM_PER_MILE = 1.60934;
 const PACE_UNIT_PATTERN = /(mi|km)/i;
 
-function formatRange(min: number, max: number): string {
+function formatRange(min: number | string, max: number | string): string {
   return `${min}\u2013${max}`;
 }
 
@@ -178,7 +178,7 @@ function normalizeUnit(
   return unitCandidate.toLowerCase() === "km" ? "km" : "mi";
 }
 
-function parsePaceRange(
+export function parsePaceRange(
   value: string,
   fallbackUnit: UnitSystem
 ): { minSeconds: number; maxSeconds: number; unit: UnitSystem } | null {
@@ -416,7 +416,7 @@ export function resolveWorkoutPreview(
   athlete: AthleteZoneProfile,
   options: ResolutionOptions = {}
 ): ResolvedWorkoutPreview {
-  const sections = workout.structure.map((section) => {
+  const sections = workout.structure.map((section): ResolvedSectionPreview => {
     if (section.type === "interval") {
       const work = resolveSectionTarget(section.work.target, athlete, options);
       const rest = resolveSectionTarget(section.rest.target, athlete, options);
@@ -39,7 +39,18 @@ const DISTANCE_UNITS: Record<string, number> = {
 const DURATION_PATTERN =
   /^(\d+(?:\.\d+)?)(s|sec|secs|second|seconds|min|mins|minute|minutes|hr|hrs|hour|hours|m|meter|meters|km|kilometer|kilometers|mi|mile|miles|yd|yard|yards)$/;
 
-type TrainingPeaksDuration =
+/**
+ * A workout the export format cannot express as built (an unreadable
+ * duration, a distance Zwift cannot time). The API answers it with 422.
+ */
+export class WorkoutExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkoutExportError";
+  }
+}
+
+export type TrainingPeaksDuration =
   | { time: number }
   | { distance: number; unit: "m" }
   | { open: true };
@@ -67,18 +78,18 @@ export type TrainingPeaksWorkout = {
   steps: TrainingPeaksStep[];
 };
 
-function parseDuration(duration?: string): TrainingPeaksDuration {
+export function parseDuration(duration?: string): TrainingPeaksDuration {
   if (!duration) {
     return { open: true };
   }
   const match = duration.trim().match(DURATION_PATTERN);
   if (!match) {
-    throw new Error(`Unsupported duration format "${duration}".`);
+    throw new WorkoutExportError(`Unsupported duration format "${duration}".`);
   }
   const value = Number(match[1]);
   const unit = match[2];
   if (Number.isNaN(value)) {
-    throw new Error(`Invalid duration value "${duration}".`);
+    throw new WorkoutExportError(`Invalid duration value "${duration}".`);
   }
   if (TIME_UNITS[unit]) {
     return { time: Math.round(value * TIME_UNITS[unit]) };
@@ -86,7 +97,7 @@ function parseDuration(duration?: string): TrainingPeaksDuration {
   if (DISTANCE_UNITS[unit]) {
     return { distance: Math.round(value * DISTANCE_UNITS[unit]), unit: "m" };
   }
-  throw new Error(`Unsupported duration unit "${unit}".`);
+  throw new WorkoutExportError(`Unsupported duration unit "${unit}".`);
 }
 
 function buildTarget(
@@ -1,5 +1,12 @@
 import { useState, useCallback } from "react";
 
+const TRACK_EXTENSIONS = [".gpx", ".tcx", ".fit", ".geojson", ".json"];
+
+function isTrackFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return TRACK_EXTENSIONS.some((ext) => name.endsWith(ext));
+}
+
 interface DropZoneProps {
   onFilesSelected: (files: File[]) => void;
   disabled?: boolean;
@@ -26,9 +33,7 @@ export default function DropZone({ onFilesSelected, disabled = false }: DropZone
 
     if (disabled) return;
 
-    const files = Array.from(e.dataTransfer.files).filter((file) =>
-      file.name.toLowerCase().endsWith(".gpx")
-    );
+    const files = Array.from(e.dataTransfer.files).filter(isTrackFile);
 
     if (files.length > 0) {
       onFilesSelected(files);
@@ -65,7 +70,7 @@ export default function DropZone({ onFilesSelected, disabled = false }: DropZone
     >
       <div style={{ marginBottom: "1rem", fontSize: "2rem" }}>📁</div>
       <div style={{ marginBottom: "0.5rem", fontWeight: "500", color: "var(--text-primary)" }}>
-        Drop GPX files here
+        Drop GPX, TCX, FIT or GeoJSON files here
       </div>
       <div style={{ color: "var(--text-secondary)", fontSize: "0.875rem", marginBottom: "1rem" }}>
         or
@@ -73,7 +78,7 @@ export default function DropZone({ onFilesSelected, disabled = false }: DropZone
       <label>
         <input
           type="file"
-          accept=".gpx"
+          accept={TRACK_EXTENSIONS.join(",")}
           multiple
           onChange={handleFileInput}
           disabled={disabled}
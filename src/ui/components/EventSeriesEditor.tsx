@@ -0,0 +1,286 @@
+import { useState } from "react";
+import type { Event, EventSeries, RouteGroupSummary } from "../types";
+import { WEEKDAY_LABELS } from "../utils/eventSeries";
+
+interface EventSeriesEditorProps {
+  series: EventSeries;
+  isCreating: boolean;
+  routeGroups: RouteGroupSummary[];
+  error: string | null;
+  onSave: (series: EventSeries) => void;
+  onCancel: () => void;
+}
+
+const inputStyle = {
+  padding: "0.5rem",
+  border: "1px solid #2b2b2b",
+  borderRadius: "4px",
+  backgroundColor: "#0b0b0b",
+  color: "#f5f5f5",
+};
+
+const labelStyle = { fontSize: "0.85rem", color: "#999999" };
+
+export default function EventSeriesEditor({
+  series,
+  isCreating,
+  routeGroups,
+  error,
+  onSave,
+  onCancel,
+}: EventSeriesEditorProps) {
+  const [draft, setDraft] = useState<EventSeries>(series);
+  const [skipDatesText, setSkipDatesText] = useState(series.rule.skipDates.join(", "));
+
+  const setRule = (patch: Partial<EventSeries["rule"]>) =>
+    setDraft((prev) => ({ ...prev, rule: { ...prev.rule, ...patch } }));
+  const setDefaults = (patch: Partial<EventSeries["defaults"]>) =>
+    setDraft((prev) => ({ ...prev, defaults: { ...prev.defaults, ...patch } }));
+
+  const handleSave = () => {
+    const skipDates = skipDatesText
+      .split(/[\s,]+/)
+      .map((value) => value.trim())
+      .filter(Boolean);
+    onSave({ ...draft, seriesId: draft.seriesId.trim(), rule: { ...draft.rule, skipDates } });
+  };
+
+  const overrideCount = Object.keys(draft.overrides).length;
+
+  return (
+    <div style={{ padding: "2rem", maxWidth: "900px", margin: "0 auto", backgroundColor: "#0a0e14", minHeight: "100%" }}>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          marginBottom: "1.5rem",
+        }}
+      >
+        <h2 style={{ margin: 0, color: "#f5f5f5" }}>
+          {isCreating ? "Create Event Series" : `Edit Series ${series.seriesId}`}
+        </h2>
+        <div style={{ display: "flex", gap: "0.5rem" }}>
+          <button
+            onClick={onCancel}
+            style={{
+              padding: "0.5rem 1rem",
+              backgroundColor: "#1a1a1a",
+              color: "#f5f5f5",
+              border: "1px solid #3a3a3a",
+              borderRadius: "4px",
+              cursor: "pointer",
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            style={{
+              padding: "0.5rem 1rem",
+              backgroundColor: "#111827",
+              color: "white",
+              border: "none",
+              borderRadius: "4px",
+              cursor: "pointer",
+            }}
+          >
+            {isCreating ? "Create" : "Update"}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div
+          style={{
+            marginBottom: "1rem",
+            padding: "1rem",
+            backgroundColor: "#2a1a1a",
+            borderRadius: "4px",
+            color: "#ff9999",
+            border: "1px solid #ff5a5a",
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      <div style={{ display: "grid", gap: "1rem" }}>
+        <div style={{ display: "grid", gap: "0.5rem" }}>
+          <label style={labelStyle}>Series ID</label>
+          <input
+            value={draft.seriesId}
+            disabled={!isCreating}
+            onChange={(e) => setDraft({ ...draft, seriesId: e.target.value })}
+            style={inputStyle}
+            placeholder="TUE-CREW"
+          />
+          <div style={{ fontSize: "0.75rem", color: "#7e8798" }}>
+            Occurrences get event IDs like {draft.seriesId || "TUE-CREW"}-2026-03-03.
+          </div>
+        </div>
+
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr 1fr", gap: "1rem" }}>
+          <div style={{ display: "grid", gap: "0.5rem" }}>
+            <label style={labelStyle}>Day</label>
+            <select
+              value={draft.rule.dayOfWeek}
+              onChange={(e) => setRule({ dayOfWeek: Number(e.target.value) })}
+              style={inputStyle}
+            >
+              {WEEKDAY_LABELS.map((label, index) => (
+                <option key={label} value={index}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div style={{ display: "grid", gap: "0.5rem" }}>
+            <label style={labelStyle}>Every N weeks</label>
+            <input
+              type="number"
+              min={1}
+              max={52}
+              value={draft.rule.interval}
+              onChange={(e) => setRule({ interval: Math.max(1, Number(e.target.value) || 1) })}
+              style={inputStyle}
+            />
+          </div>
+          <div style={{ display: "grid", gap: "0.5rem" }}>
+            <label style={labelStyle}>Start Date</label>
+            <input
+              value={draft.rule.startDate}
+              onChange={(e) => setRule({ startDate: e.target.value })}
+              style={inputStyle}
+              placeholder="2026-03-03"
+            />
+          </div>
+          <div style={{ display: "grid", gap: "0.5rem" }}>
+            <label style={labelStyle}>End Date</label>
+            <input
+              value={draft.rule.endDate}
+              onChange={(e) => setRule({ endDate: e.target.value })}
+              style={inputStyle}
+              placeholder="2026-06-30"
+            />
+          </div>
+        </div>
+
+        <div style={{ display: "grid", gap: "0.5rem" }}>
+          <label style={labelStyle}>Skip Dates</label>
+          <input
+            value={skipDatesText}
+            onChange={(e) => setSkipDatesText(e.target.value)}
+            style={inputStyle}
+            placeholder="2026-04-07, 2026-05-26"
+          />
+        </div>
+
+        <div style={{ display: "grid", gridTemplateColumns: "2fr 1fr 1fr", gap: "1rem" }}>
+          <div style={{ display: "grid", gap: "0.5rem" }}>
+            <label style={labelStyle}>Event Name</label>
+            <input
+              value={draft.defaults.eventName}
+              onChange={(e) => setDefaults({ eventName: e.target.value })}
+              style={inputStyle}
+              placeholder="Tuesday Crew Run"
+            />
+          </div>
+          <div style={{ display: "grid", gap: "0.5rem" }}>
+            <label style={labelStyle}>Event Type</label>
+            <select
+              value={draft.defaults.type ?? "crew-run"}
+              onChange={(e) => setDefaults({ type: e.target.value as Event["type"] })}
+              style={inputStyle}
+            >
+              <option value="crew-run">Crew Run</option>
+              <option value="training-run">Training Run</option>
+              <option value="race">Race</option>
+              <option value="camp">Camp</option>
+              <option value="social">Social</option>
+            </select>
+          </div>
+          <div style={{ display: "grid", gap: "0.5rem" }}>
+            <label style={labelStyle}>Event Time</label>
+            <input
+              value={draft.defaults.eventTime ?? ""}
+              onChange={(e) => setDefaults({ eventTime: e.target.value })}
+              style={inputStyle}
+              placeholder="6:00 PM"
+            />
+          </div>
+        </div>
+
+        <div style={{ display: "grid", gap: "0.5rem" }}>
+          <label style={labelStyle}>Event Description</label>
+          <textarea
+            value={draft.defaults.eventDescription}
+            onChange={(e) => setDefaults({ eventDescription: e.target.value })}
+            style={{ ...inputStyle, minHeight: "80px" }}
+          />
+        </div>
+
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "1rem" }}>
+          <div style={{ display: "grid", gap: "0.5rem" }}>
+            <label style={labelStyle}>Start Location Name</label>
+            <input
+              value={draft.defaults.startLocationName ?? ""}
+              onChange={(e) => setDefaults({ startLocationName: e.target.value })}
+              style={inputStyle}
+              placeholder="Southside Park"
+            />
+          </div>
+          <div style={{ display: "grid", gap: "0.5rem" }}>
+            <label style={labelStyle}>Start Location URL</label>
+            <input
+              value={draft.defaults.startLocationUrl ?? ""}
+              onChange={(e) => setDefaults({ startLocationUrl: e.target.value })}
+              style={inputStyle}
+              placeholder="https://maps.google.com/..."
+            />
+          </div>
+        </div>
+
+        <div style={{ display: "grid", gap: "0.5rem" }}>
+          <label style={labelStyle}>Default Route Groups</label>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem" }}>
+            {routeGroups.map((group) => {
+              const isSelected = draft.defaults.routeGroupIds.includes(group.routeGroupId);
+              return (
+                <button
+                  key={group.routeGroupId}
+                  type="button"
+                  onClick={() =>
+                    setDefaults({
+                      routeGroupIds: isSelected
+                        ? draft.defaults.routeGroupIds.filter((id) => id !== group.routeGroupId)
+                        : [...draft.defaults.routeGroupIds, group.routeGroupId],
+                    })
+                  }
+                  style={{
+                    padding: "0.5rem 1rem",
+                    fontSize: "0.875rem",
+                    borderRadius: "4px",
+                    border: `1px solid ${isSelected ? "#16a34a" : "#3a3a3a"}`,
+                    backgroundColor: isSelected ? "#1a2e22" : "#1a1a1a",
+                    color: isSelected ? "#4ade80" : "#f5f5f5",
+                    cursor: "pointer",
+                  }}
+                >
+                  {group.routeGroupId} - {group.name}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {overrideCount > 0 && (
+          <div style={{ fontSize: "0.8rem", color: "#9ca3af" }}>
+            Occurrences with their own changes ({Object.keys(draft.overrides).sort().join(", ")})
+            keep them when the series defaults change.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,12 @@ interface RouteCardProps {
   onLabelChange: (id: string, label: RouteLabel) => void;
 }
 
+function formatDelta(value: number, digits: number): string {
+  const fixed = value.toFixed(digits);
+  if (Number(fixed) === 0) return (0).toFixed(digits);
+  return value > 0 ? `+${fixed}` : fixed;
+}
+
 export default function RouteCard({ route, onLabelChange }: RouteCardProps) {
   const color = ROUTE_COLORS[route.label];
   const distanceKm = route.distanceMi * 1.609344;
@@ -98,6 +104,13 @@ export default function RouteCard({ route, onLabelChange }: RouteCardProps) {
               ({elevationM.toFixed(0)} m)
             </span>
           </div>
+          {route.elevationStats && (
+            <div style={{ color: "var(--text-tertiary)", fontSize: "0.75rem" }}>
+              -{route.elevationStats.lossFt.toFixed(0)} ft loss
+              {route.elevationStats.maxElevationFt !== null &&
+                ` · high ${route.elevationStats.maxElevationFt.toFixed(0)} ft`}
+            </div>
+          )}
         </div>
 
         <div>
@@ -105,6 +118,19 @@ export default function RouteCard({ route, onLabelChange }: RouteCardProps) {
           <div style={{ fontSize: "0.875rem", color: "var(--text-primary)" }}>
             {route.coords.length.toLocaleString()}
           </div>
+          {route.simplification && (
+            <div style={{ color: "var(--text-tertiary)", fontSize: "0.75rem" }}>
+              Simplified from {route.simplification.pointsBefore.toLocaleString()} (
+              {route.simplification.algorithm}, {route.simplification.toleranceM} m) ·{" "}
+              {formatDelta(
+                route.simplification.distanceMiAfter - route.simplification.distanceMiBefore,
+                2
+              )}{" "}
+              mi ·{" "}
+              {formatDelta(route.simplification.gainFtAfter - route.simplification.gainFtBefore, 0)}{" "}
+              ft gain
+            </div>
+          )}
         </div>
       </div>
     </div>
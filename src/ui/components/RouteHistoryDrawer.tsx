@@ -0,0 +1,291 @@
+import { useCallback, useEffect, useState } from "react";
+import type { RouteMeta, RouteRevision, RouteRevisionDiff } from "../types";
+import { diffRouteRevision, listRouteRevisions, restoreRouteRevision } from "../utils/api";
+
+interface RouteHistoryDrawerProps {
+  routeGroupId: string;
+  onClose: () => void;
+  onRestored: (meta: RouteMeta) => void;
+}
+
+const ACTION_LABELS: Record<RouteRevision["action"], string> = {
+  baseline: "Baseline",
+  "save-group": "Saved group",
+  "save-variant": "Imported variant",
+  "delete-variant": "Deleted variant",
+  "save-pois": "Saved POIs",
+  "before-restore": "Before restore",
+  restore: "Restored",
+};
+
+function formatTimestamp(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString();
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function DiffDetails({ diff }: { diff: RouteRevisionDiff }) {
+  const hasVariantChanges =
+    diff.variants.added.length + diff.variants.removed.length + diff.variants.changed.length > 0;
+  const hasPoiChanges =
+    diff.pois.added.length + diff.pois.removed.length + diff.pois.changed.length > 0;
+
+  if (diff.meta.length === 0 && !hasVariantChanges && !hasPoiChanges && !diff.splitPlanChanged) {
+    return <div style={{ color: "#7e8798", fontSize: "0.75rem" }}>No differences.</div>;
+  }
+
+  return (
+    <div style={{ display: "grid", gap: "0.4rem", fontSize: "0.75rem", color: "#cbd5f5" }}>
+      {diff.meta.map((entry) => (
+        <div key={entry.field}>
+          <span style={{ color: "#7e8798" }}>{entry.field}: </span>
+          <span style={{ textDecoration: "line-through", color: "#ff9c9c" }}>
+            {formatValue(entry.before)}
+          </span>{" "}
+          <span style={{ color: "#4ade80" }}>{formatValue(entry.after)}</span>
+        </div>
+      ))}
+      {diff.variants.added.map((label) => (
+        <div key={`added-${label}`} style={{ color: "#4ade80" }}>
+          + {label} GPX
+        </div>
+      ))}
+      {diff.variants.removed.map((label) => (
+        <div key={`removed-${label}`} style={{ color: "#ff9c9c" }}>
+          - {label} GPX
+        </div>
+      ))}
+      {diff.variants.changed.map((entry) => (
+        <div key={`changed-${entry.label}`}>
+          ~ {entry.label} GPX ({entry.pointsBefore} → {entry.pointsAfter} points)
+        </div>
+      ))}
+      {hasPoiChanges && (
+        <div>
+          POIs:{" "}
+          {[
+            ...diff.pois.added.map((id) => `+${id}`),
+            ...diff.pois.removed.map((id) => `-${id}`),
+            ...diff.pois.changed.map((id) => `~${id}`),
+          ].join(", ")}
+        </div>
+      )}
+      {diff.splitPlanChanged && <div>~ Split plan</div>}
+    </div>
+  );
+}
+
+export default function RouteHistoryDrawer({
+  routeGroupId,
+  onClose,
+  onRestored,
+}: RouteHistoryDrawerProps) {
+  const [revisions, setRevisions] = useState<RouteRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState<"previous" | "current">("previous");
+  const [diff, setDiff] = useState<RouteRevisionDiff | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setRevisions(await listRouteRevisions(routeGroupId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load route history");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [routeGroupId]);
+
+  useEffect(() => {
+    setSelectedId(null);
+    setDiff(null);
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    let isMounted = true;
+    if (!selectedId) {
+      setDiff(null);
+      return;
+    }
+    diffRouteRevision(routeGroupId, selectedId, compareMode === "current" ? "current" : undefined)
+      .then((next) => {
+        if (isMounted) setDiff(next);
+      })
+      .catch((err) => {
+        if (isMounted) setError(err instanceof Error ? err.message : "Failed to diff revision");
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [routeGroupId, selectedId, compareMode]);
+
+  const handleRestore = useCallback(
+    async (revision: RouteRevision) => {
+      const ok = window.confirm(
+        `Restore ${routeGroupId} to ${formatTimestamp(revision.createdAt)}? The current state stays in history.`
+      );
+      if (!ok) return;
+      setIsRestoring(true);
+      setError(null);
+      try {
+        const result = await restoreRouteRevision(routeGroupId, revision.revisionId);
+        onRestored(result.routeGroup);
+        setSelectedId(null);
+        await refresh();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to restore revision");
+      } finally {
+        setIsRestoring(false);
+      }
+    },
+    [routeGroupId, onRestored, refresh]
+  );
+
+  return (
+    <aside
+      style={{
+        position: "fixed",
+        top: "60px",
+        right: 0,
+        bottom: 0,
+        width: "380px",
+        background: "#0b0f17",
+        borderLeft: "1px solid #1f2734",
+        boxShadow: "-8px 0 24px rgba(0, 0, 0, 0.45)",
+        padding: "1rem",
+        overflowY: "auto",
+        zIndex: 20,
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          marginBottom: "1rem",
+        }}
+      >
+        <div>
+          <div style={{ color: "#f5f5f5", fontSize: "1rem", fontWeight: 600 }}>History</div>
+          <div style={{ color: "#7e8798", fontSize: "0.75rem" }}>{routeGroupId}</div>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          style={{
+            padding: "0.25rem 0.5rem",
+            borderRadius: "4px",
+            border: "1px solid #2b2b2b",
+            background: "#131a2a",
+            color: "#cbd5f5",
+            cursor: "pointer",
+          }}
+        >
+          Close
+        </button>
+      </div>
+
+      {isLoading && <div style={{ color: "#4ade80" }}>Loading history...</div>}
+      {error && <div style={{ color: "#ff9999", marginBottom: "0.75rem" }}>{error}</div>}
+      {!isLoading && revisions.length === 0 && (
+        <div style={{ color: "#7e8798" }}>No revisions recorded yet.</div>
+      )}
+
+      <div style={{ display: "grid", gap: "0.6rem" }}>
+        {revisions.map((revision, index) => {
+          const isSelected = revision.revisionId === selectedId;
+          return (
+            <div
+              key={revision.revisionId}
+              onClick={() => setSelectedId(isSelected ? null : revision.revisionId)}
+              style={{
+                border: isSelected ? "1px solid #4b6bff" : "1px solid #1f2734",
+                borderRadius: "8px",
+                background: "#0f1522",
+                padding: "0.6rem 0.75rem",
+                cursor: "pointer",
+              }}
+            >
+              <div style={{ display: "flex", justifyContent: "space-between", gap: "0.5rem" }}>
+                <span style={{ color: "#f5f5f5", fontSize: "0.8rem", fontWeight: 600 }}>
+                  {ACTION_LABELS[revision.action] ?? revision.action}
+                  {index === 0 && (
+                    <span style={{ color: "#4ade80", fontWeight: 400 }}> · latest</span>
+                  )}
+                </span>
+                <span style={{ color: "#7e8798", fontSize: "0.7rem" }}>
+                  {formatTimestamp(revision.createdAt)}
+                </span>
+              </div>
+              <div style={{ color: "#9aa3b2", fontSize: "0.72rem", marginTop: "0.25rem" }}>
+                {revision.summary.join(" · ")}
+              </div>
+
+              {isSelected && (
+                <div
+                  onClick={(event) => event.stopPropagation()}
+                  style={{ marginTop: "0.6rem", display: "grid", gap: "0.5rem" }}
+                >
+                  <div style={{ display: "flex", gap: "0.35rem" }}>
+                    {(["previous", "current"] as const).map((mode) => (
+                      <button
+                        key={mode}
+                        type="button"
+                        onClick={() => setCompareMode(mode)}
+                        style={{
+                          padding: "0.2rem 0.45rem",
+                          fontSize: "0.7rem",
+                          borderRadius: "4px",
+                          border: "1px solid #2b2b2b",
+                          background: compareMode === mode ? "#1b2436" : "#131a2a",
+                          color: compareMode === mode ? "#f5f5f5" : "#9aa3b2",
+                          cursor: "pointer",
+                        }}
+                      >
+                        {mode === "previous" ? "vs previous" : "vs current"}
+                      </button>
+                    ))}
+                  </div>
+                  {diff && diff.revisionId === revision.revisionId ? (
+                    <DiffDetails diff={diff} />
+                  ) : (
+                    <div style={{ color: "#7e8798", fontSize: "0.75rem" }}>Loading diff...</div>
+                  )}
+                  <button
+                    type="button"
+                    disabled={isRestoring}
+                    onClick={() => handleRestore(revision)}
+                    style={{
+                      justifySelf: "start",
+                      padding: "0.3rem 0.6rem",
+                      fontSize: "0.75rem",
+                      borderRadius: "4px",
+                      border: "1px solid #2b3b6b",
+                      background: isRestoring ? "#131a2a" : "#1b2a4a",
+                      color: "#cbd5f5",
+                      cursor: isRestoring ? "not-allowed" : "pointer",
+                    }}
+                  >
+                    {isRestoring ? "Restoring..." : "Restore this revision"}
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+}
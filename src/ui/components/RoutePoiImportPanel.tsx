@@ -0,0 +1,186 @@
+import { useState } from "react";
+import type { RouteLabel, RoutePoiImportPreview } from "../types";
+import { importRoutePois } from "../utils/api";
+
+interface RoutePoiImportPanelProps {
+  routeGroupId: string;
+  variantOptions: RouteLabel[];
+  onImported: (pois: unknown[], count: number) => void;
+}
+
+function formatMeters(value: number | undefined): string {
+  return typeof value === "number" && Number.isFinite(value) ? `${Math.round(value)} m` : "-";
+}
+
+export default function RoutePoiImportPanel({
+  routeGroupId,
+  variantOptions,
+  onImported,
+}: RoutePoiImportPanelProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [variants, setVariants] = useState<RouteLabel[]>([]);
+  const [preview, setPreview] = useState<RoutePoiImportPreview | null>(null);
+  const [excludedRows, setExcludedRows] = useState<number[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const selectedVariants = variants.length > 0 ? variants : variantOptions;
+
+  const runImport = async (commit: boolean) => {
+    if (!file || !routeGroupId.trim()) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const result = await importRoutePois(routeGroupId, file, {
+        variants: selectedVariants,
+        commit,
+        excludeRows: commit ? excludedRows : undefined,
+      });
+      if (result.committed) {
+        const count = result.items.filter((item) => !excludedRows.includes(item.row)).length;
+        onImported(Array.isArray(result.pois) ? result.pois : [], count);
+        setPreview(null);
+        setFile(null);
+        setExcludedRows([]);
+      } else {
+        setPreview(result);
+        setExcludedRows([]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import POIs");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const toggleVariant = (label: RouteLabel) => {
+    setPreview(null);
+    setVariants((prev) => {
+      const base = prev.length > 0 ? prev : variantOptions;
+      return base.includes(label) ? base.filter((item) => item !== label) : [...base, label];
+    });
+  };
+
+  const toggleRow = (row: number) => {
+    setExcludedRows((prev) =>
+      prev.includes(row) ? prev.filter((item) => item !== row) : [...prev, row]
+    );
+  };
+
+  const buttonStyle = {
+    padding: "0.35rem 0.7rem",
+    borderRadius: "4px",
+    border: "1px solid #2b2b2b",
+    background: "#131a2a",
+    color: "#cbd5f5",
+    fontSize: "0.8rem",
+    cursor: isBusy ? "not-allowed" : "pointer",
+  };
+
+  return (
+    <div style={{ marginBottom: "1rem", display: "grid", gap: "0.5rem" }}>
+      <div style={{ color: "#999999", fontSize: "0.85rem" }}>Import POIs (GPX waypoints or CSV)</div>
+      <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: "0.5rem" }}>
+        <input
+          type="file"
+          accept=".gpx,.csv,text/csv,application/gpx+xml"
+          onChange={(event) => {
+            setFile(event.target.files?.[0] ?? null);
+            setPreview(null);
+          }}
+          style={{ fontSize: "0.75rem", color: "#9aa3b2" }}
+        />
+        {variantOptions.map((label) => (
+          <label key={label} style={{ fontSize: "0.75rem", color: "#9aa3b2" }}>
+            <input
+              type="checkbox"
+              checked={selectedVariants.includes(label)}
+              onChange={() => toggleVariant(label)}
+            />{" "}
+            {label}
+          </label>
+        ))}
+        <button
+          type="button"
+          disabled={!file || isBusy || selectedVariants.length === 0}
+          onClick={() => runImport(false)}
+          style={buttonStyle}
+        >
+          Preview
+        </button>
+      </div>
+      <div style={{ fontSize: "0.72rem", color: "#7e8798" }}>
+        CSV columns: lat, lon, type, title, notes (header optional). Rows without a type import as aid.
+      </div>
+
+      {error && <div style={{ color: "#ff9999", fontSize: "0.8rem" }}>{error}</div>}
+
+      {preview && (
+        <div style={{ display: "grid", gap: "0.5rem" }}>
+          <table style={{ width: "100%", fontSize: "0.78rem", color: "#f5f5f5" }}>
+            <thead>
+              <tr>
+                <th align="left">import</th>
+                <th align="left">row</th>
+                <th align="left">id</th>
+                <th align="left">type</th>
+                {preview.variants.map((label) => (
+                  <th key={label} align="left">
+                    {label} snap
+                  </th>
+                ))}
+                <th align="left">warnings</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.items.map((item) => (
+                <tr key={item.row} style={{ opacity: excludedRows.includes(item.row) ? 0.5 : 1 }}>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={!excludedRows.includes(item.row)}
+                      onChange={() => toggleRow(item.row)}
+                    />
+                  </td>
+                  <td>{item.row}</td>
+                  <td>
+                    {item.poi.id}
+                    {item.action === "update" && (
+                      <span style={{ color: "#7e8798" }}> (update)</span>
+                    )}
+                  </td>
+                  <td>{item.poi.type}</td>
+                  {preview.variants.map((label) => (
+                    <td key={label}>
+                      {formatMeters(item.snapDistanceM[label])}
+                      {(item.passes[label] ?? 1) > 1 ? ` x${item.passes[label]}` : ""}
+                    </td>
+                  ))}
+                  <td style={{ color: item.warnings.length > 0 ? "#fbbf24" : "#7e8798" }}>
+                    {item.warnings.join(" ") || "-"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {preview.skipped.length > 0 && (
+            <div style={{ color: "#ff9c9c", fontSize: "0.75rem" }}>
+              Skipped:{" "}
+              {preview.skipped.map((skip) => `row ${skip.row} (${skip.reason})`).join(", ")}
+            </div>
+          )}
+          <div>
+            <button
+              type="button"
+              disabled={isBusy || preview.items.length === excludedRows.length}
+              onClick={() => runImport(true)}
+              style={buttonStyle}
+            >
+              Commit {preview.items.length - excludedRows.length} POIs
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
 import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
-import type { RouteLabel } from "../types";
+import type { RouteLabel, RouteVariantDiff } from "../types";
 import { LABELS } from "../utils/routeLabels";
 import {
   deleteRoutePoi,
   ensureStartFinishPoi,
   getRouteGroup,
   getRoutePois,
+  getRouteVariantDiff,
+  removeRoutePoiPass,
   saveAidStationPoi,
   saveWorkoutPoi,
   snapRoutePoi,
@@ -16,7 +18,11 @@ import {
   getIntersectingVariants,
   type RouteVariantGeometry,
 } from "../utils/variantIntersection";
+import { getVariantsSharingMile, isMileSharedWith } from "../utils/variantDiff";
+import { buildGradePaceTimeline, secondsAtMile, type GradePaceTimeline } from "../../route-stats";
 import SimpleRouteMap from "./SimpleRouteMap";
+import RoutePoiImportPanel from "./RoutePoiImportPanel";
+import RouteSplitPlanner from "./RouteSplitPlanner";
 
 const POI_TYPES = ["aid", "water", "summit", "fork", "hazard", "viewpoint", "turnaround"];
 const ROUTE_LABELS = new Set<RouteLabel>(LABELS);
@@ -27,7 +33,6 @@ const VARIANT_PACE_MIN_PER_MI: Record<RouteLabel, number> = {
   XXL: 12,
 };
 const DRIFT_THRESHOLD_MI = 0.25;
-const FORK_TOLERANCE_DEG = 0.001;
 
 function slugify(value: string): string {
   return value
@@ -92,7 +97,8 @@ function getPrimaryPlacement(
 function computePoiWarnings(
   poi: RoutePoiRecord,
   variants: RouteLabel[],
-  activeVariant: RouteLabel | ""
+  activeVariant: RouteLabel | "",
+  variantDiff: RouteVariantDiff | null
 ): string[] {
   const warnings: string[] = [];
   const placements = variants
@@ -115,18 +121,16 @@ function computePoiWarnings(
       }
     }
 
-    let minLat = Infinity;
-    let maxLat = -Infinity;
-    let minLon = Infinity;
-    let maxLon = -Infinity;
-    placements.forEach(({ placement }) => {
-      minLat = Math.min(minLat, placement.lat);
-      maxLat = Math.max(maxLat, placement.lat);
-      minLon = Math.min(minLon, placement.lon);
-      maxLon = Math.max(maxLon, placement.lon);
-    });
-    if (maxLat - minLat > FORK_TOLERANCE_DEG || maxLon - minLon > FORK_TOLERANCE_DEG) {
-      warnings.push("WARNING_FORK");
+    // A POI on several variants must sit on trail those variants share.
+    if (variantDiff) {
+      const [first, ...rest] = placements;
+      const offShared = rest.some(
+        (entry) =>
+          !isMileSharedWith(variantDiff, first.label, entry.label, first.placement.distanceMi)
+      );
+      if (offShared) {
+        warnings.push("WARNING_FORK");
+      }
     }
   }
 
@@ -215,7 +219,7 @@ export default function RoutePoiPanel({
   sidebarContent,
   mapHeight,
 }: RoutePoiPanelProps) {
-  const [viewMode, setViewMode] = useState<"authoring" | "cue">("authoring");
+  const [viewMode, setViewMode] = useState<"authoring" | "cue" | "splits">("authoring");
   const [authoringMode, setAuthoringMode] = useState<"poi" | "aid-station" | "workout">("poi");
   const [poiType, setPoiType] = useState("");
   const [poiTitle, setPoiTitle] = useState("");
@@ -248,6 +252,7 @@ export default function RoutePoiPanel({
   const [routeStatsByVariant, setRouteStatsByVariant] = useState<
     Record<string, RouteStats>
   >({});
+  const [variantDiff, setVariantDiff] = useState<RouteVariantDiff | null>(null);
   const [placeDistanceMi, setPlaceDistanceMi] = useState("");
   const [basemap, setBasemap] = useState<"clean" | "topo">(() => {
     if (typeof window === "undefined") return "clean";
@@ -296,6 +301,32 @@ export default function RoutePoiPanel({
   const snapTimerRef = useRef<number | null>(null);
   const manualVariantOverrideRef = useRef<Map<string, boolean>>(new Map());
 
+  const activeForkRows = useMemo(() => {
+    if (!variantDiff || !activeVariantLabel) return [];
+    const rows = variantDiff.forks
+      .filter((fork) => fork.variants.includes(activeVariantLabel))
+      .map((fork, index) => {
+        const other = fork.variants[0] === activeVariantLabel ? fork.variants[1] : fork.variants[0];
+        const mile = fork.miles[activeVariantLabel] ?? 0;
+        const verb = fork.type === "diverge" ? "Splits from" : "Rejoins";
+        return {
+          key: `${fork.type}-${other}-${index}`,
+          mile,
+          text: `${verb} ${other} at ${mile.toFixed(2)} mi`,
+        };
+      })
+      .sort((a, b) => a.mile - b.mile);
+    const summary = variantDiff.variants.find((entry) => entry.label === activeVariantLabel);
+    if (summary) {
+      rows.push({
+        key: "exclusive",
+        mile: Number.POSITIVE_INFINITY,
+        text: `${activeVariantLabel} only: ${summary.exclusiveMi.toFixed(2)} of ${summary.distanceMi.toFixed(2)} mi`,
+      });
+    }
+    return rows;
+  }, [variantDiff, activeVariantLabel]);
+
   const routeVariantGeoms = useMemo<RouteVariantGeometry[]>(() => {
     return variantOptions
       .map((label) => ({
@@ -343,13 +374,32 @@ export default function RoutePoiPanel({
     const next: Record<string, string[]> = {};
     if (variantOptions.length === 0) return next;
     for (const poi of pois) {
-      const warnings = computePoiWarnings(poi, variantOptions, activeVariantLabel);
+      const warnings = computePoiWarnings(poi, variantOptions, activeVariantLabel, variantDiff);
       if (warnings.length > 0) {
         next[poi.id] = warnings;
       }
     }
     return next;
-  }, [pois, variantOptions, activeVariantLabel]);
+  }, [pois, variantOptions, activeVariantLabel, variantDiff]);
+
+  const paceTimelines = useMemo(() => {
+    const next: Partial<Record<RouteLabel, GradePaceTimeline>> = {};
+    Object.entries(routeStatsByVariant).forEach(([label, stats]) => {
+      if (!isRouteLabel(label) || !stats?.coords?.length) return;
+      next[label] = buildGradePaceTimeline(stats.coords, stats.elevations ?? []);
+    });
+    return next;
+  }, [routeStatsByVariant]);
+
+  // Grade-adjusted when the variant geometry is loaded, flat pace until then.
+  const estimateEtaMinutes = useCallback(
+    (label: RouteLabel, distanceMi: number) => {
+      const pace = VARIANT_PACE_MIN_PER_MI[label];
+      const timeline = paceTimelines[label];
+      return timeline ? secondsAtMile(timeline, distanceMi, pace) / 60 : distanceMi * pace;
+    },
+    [paceTimelines]
+  );
 
   const poiEtas = useMemo(() => {
     const next: Record<string, Partial<Record<RouteLabel, PoiEta>>> = {};
@@ -360,10 +410,10 @@ export default function RoutePoiPanel({
         const placement = getPrimaryPlacement(
           poi.variants?.[label] as RoutePoiVariantValue | undefined
         );
-        const pace = VARIANT_PACE_MIN_PER_MI[label];
         if (!placement || typeof placement.distanceMi !== "number") return;
-        if (!Number.isFinite(placement.distanceMi) || !Number.isFinite(pace)) return;
-        const etaMinutes = placement.distanceMi * pace;
+        if (!Number.isFinite(placement.distanceMi)) return;
+        const etaMinutes = estimateEtaMinutes(label, placement.distanceMi);
+        if (!Number.isFinite(etaMinutes)) return;
         byVariant[label] = {
           etaMinutes,
           etaLabel: formatEtaMinutes(etaMinutes),
@@ -374,11 +424,10 @@ export default function RoutePoiPanel({
       }
     }
     return next;
-  }, [pois, variantOptions, activeVariantLabel]);
+  }, [pois, variantOptions, estimateEtaMinutes]);
 
   const cueSheetRows = useMemo(() => {
     if (!activeVariantLabel) return [];
-    const pace = VARIANT_PACE_MIN_PER_MI[activeVariantLabel];
     const rows = pois
       .flatMap((poi) => {
         const placements = asPlacements(
@@ -388,7 +437,7 @@ export default function RoutePoiPanel({
         return placements
           .filter((placement) => Number.isFinite(placement.distanceMi))
           .map((placement, index) => {
-            const etaMinutes = placement.distanceMi * pace;
+            const etaMinutes = estimateEtaMinutes(activeVariantLabel, placement.distanceMi);
             return {
               poiId: poi.id,
               name: getPoiDisplayName(poi),
@@ -423,7 +472,7 @@ export default function RoutePoiPanel({
         deltaEtaLabel: formatEtaMinutes(deltaEtaMinutes),
       };
     });
-  }, [pois, activeVariantLabel]);
+  }, [pois, activeVariantLabel, estimateEtaMinutes]);
 
   const cueSheetText = useMemo(() => {
     if (cueSheetRows.length === 0) return "";
@@ -551,6 +600,29 @@ export default function RoutePoiPanel({
     };
   }, [routeGroupId, resetForm]);
 
+  useEffect(() => {
+    let isMounted = true;
+    setVariantDiff(null);
+    if (!routeGroupId.trim() || availableVariants.length < 2) {
+      return () => {
+        isMounted = false;
+      };
+    }
+
+    // Fork points drive variant suggestions; without them we fall back to proximity.
+    getRouteVariantDiff(routeGroupId)
+      .then((diff) => {
+        if (isMounted) setVariantDiff(diff);
+      })
+      .catch((err) => {
+        console.warn("Variant diff unavailable", err);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [routeGroupId, availableVariants]);
+
   useEffect(() => {
     let isMounted = true;
     if (!routeGroupId.trim()) {
@@ -699,23 +771,33 @@ export default function RoutePoiPanel({
   const getAutoVariantsForCoord = useCallback(
     (coord: { lat: number; lon: number }) => {
       if (routeVariantGeoms.length === 0) return [];
+      if (variantDiff && activeVariantLabel && activeRouteStats) {
+        const snap = snapToRoute(activeRouteStats, coord);
+        if (snap && snap.distanceM <= VARIANT_INTERSECTION_THRESHOLD_M) {
+          return getVariantsSharingMile(variantDiff, activeVariantLabel, snap.cumulativeMi);
+        }
+      }
       return getIntersectingVariants(
         coord,
         routeVariantGeoms,
         VARIANT_INTERSECTION_THRESHOLD_M
       );
     },
-    [routeVariantGeoms]
+    [routeVariantGeoms, variantDiff, activeVariantLabel, activeRouteStats]
   );
 
   const applyAutoVariantSelection = useCallback(
     (coord: { lat: number; lon: number }) => {
       const autoVariants = getAutoVariantsForCoord(coord);
       setSelectedVariants(autoVariants);
-      setVariantAssignmentNote("Variants auto-assigned based on route overlap.");
+      setVariantAssignmentNote(
+        variantDiff
+          ? "Variants auto-assigned from shared trail between forks."
+          : "Variants auto-assigned based on route overlap."
+      );
       return autoVariants;
     },
-    [getAutoVariantsForCoord]
+    [getAutoVariantsForCoord, variantDiff]
   );
 
   const resolvePoiCoordinate = useCallback(
@@ -1326,6 +1408,24 @@ export default function RoutePoiPanel({
     [activePoiId, resetForm, routeGroupId]
   );
 
+  const handleRemovePass = useCallback(
+    async (poiId: string, label: RouteLabel, passIndex: number) => {
+      if (!routeGroupId.trim()) return;
+      setMessage(null);
+      setError(null);
+      try {
+        const result = await removeRoutePoiPass(routeGroupId, poiId, label, passIndex);
+        const nextPois = Array.isArray(result.pois) ? (result.pois as RoutePoiRecord[]) : [];
+        setPois(nextPois);
+        setMessage(`Removed ${label} pass ${passIndex + 1} (${poiId}).`);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "Failed to remove POI pass";
+        setError(msg);
+      }
+    },
+    [routeGroupId]
+  );
+
   const handleCopyCueSheet = async () => {
     if (!cueSheetText) {
       setError("No cue sheet entries to copy.");
@@ -1400,12 +1500,29 @@ export default function RoutePoiPanel({
         >
           Cue Sheet
         </button>
+        <button
+          type="button"
+          onClick={() => setViewMode("splits")}
+          style={{
+            padding: "0.35rem 0.75rem",
+            borderRadius: "999px",
+            border: viewMode === "splits" ? "1px solid #4b6bff" : "1px solid #2b2b2b",
+            background: viewMode === "splits" ? "#1a2240" : "#0b0f17",
+            color: "#f5f5f5",
+            cursor: "pointer",
+            fontSize: "0.8rem",
+          }}
+        >
+          Splits
+        </button>
       </div>
 
       <h3 style={{ color: "#f5f5f5", marginBottom: "0.75rem" }}>
         {viewMode === "cue"
           ? "Cue Sheet"
-          : authoringMode === "aid-station"
+          : viewMode === "splits"
+            ? "Aid Station Splits"
+            : authoringMode === "aid-station"
             ? "Aid Station Authoring"
             : authoringMode === "workout"
               ? "Workout POI Authoring"
@@ -1601,6 +1718,13 @@ export default function RoutePoiPanel({
                 );
               })}
             </div>
+            {variantDiff && activeVariantLabel && activeForkRows.length > 0 && (
+              <div style={{ display: "grid", gap: "0.2rem", fontSize: "0.75rem", color: "#7e8798" }}>
+                {activeForkRows.map((row) => (
+                  <span key={row.key}>{row.text}</span>
+                ))}
+              </div>
+            )}
             <div style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
               <button
                 type="button"
@@ -1740,10 +1864,36 @@ export default function RoutePoiPanel({
                                     passLabel = "Finish";
                                   }
                                 }
+                                const canPrune = placements.length > 1 && !isActivePoiLocked;
                                 return (
-                                  <div key={`${activePoi.id}-${label}-${passIndex}`}>
-                                    {passLabel}: {distanceLabel}
-                                    {directionLabel}
+                                  <div
+                                    key={`${activePoi.id}-${label}-${passIndex}`}
+                                    style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}
+                                  >
+                                    <span>
+                                      {passLabel}: {distanceLabel}
+                                      {directionLabel}
+                                    </span>
+                                    {canPrune && (
+                                      <button
+                                        type="button"
+                                        onClick={() =>
+                                          handleRemovePass(activePoi.id, label as RouteLabel, passIndex)
+                                        }
+                                        title="Remove this pass"
+                                        style={{
+                                          padding: "0.1rem 0.4rem",
+                                          borderRadius: "4px",
+                                          border: "1px solid #3a1a1a",
+                                          background: "#2a1212",
+                                          color: "#ffb4b4",
+                                          cursor: "pointer",
+                                          fontSize: "0.7rem",
+                                        }}
+                                      >
+                                        Remove
+                                      </button>
+                                    )}
                                   </div>
                                 );
                               })}
@@ -1976,6 +2126,13 @@ export default function RoutePoiPanel({
             </div>
           )}
         </div>
+      ) : viewMode === "splits" ? (
+        <RouteSplitPlanner
+          routeGroupId={routeGroupId}
+          variantLabel={activeVariantLabel}
+          hasStartFinishPoi={pois.some((poi) => poi.id === "start-finish")}
+          refreshKey={pois}
+        />
       ) : (
         <div style={{ display: "grid", gap: "0.75rem" }}>
           <div style={{ display: "flex", gap: "0.5rem" }}>
@@ -2219,6 +2376,18 @@ export default function RoutePoiPanel({
       .sort((a, b) => (a.routePointIndex ?? 0) - (b.routePointIndex ?? 0));
   }, [pois]);
 
+  const poiImport =
+    viewMode === "authoring" && routeGroupId.trim() ? (
+      <RoutePoiImportPanel
+        routeGroupId={routeGroupId}
+        variantOptions={variantOptions}
+        onImported={(nextPois, count) => {
+          setPois(nextPois as RoutePoiRecord[]);
+          setMessage(`Imported ${count} POIs.`);
+        }}
+      />
+    ) : null;
+
   const aidStationList = viewMode === "authoring" ? (
     <div style={{ marginBottom: "1rem" }}>
       <div style={{ color: "#999999", fontSize: "0.85rem", marginBottom: "0.5rem" }}>
@@ -2446,6 +2615,7 @@ export default function RoutePoiPanel({
         >
           <div>{controls}</div>
           <div>
+            {poiImport}
             {aidStationList}
             {workoutPoiList}
             {existingPois}
@@ -2462,6 +2632,7 @@ export default function RoutePoiPanel({
 
       {!isSplit && (
         <div style={{ marginTop: "1rem" }}>
+          {poiImport}
           {aidStationList}
           {workoutPoiList}
           {existingPois}
@@ -0,0 +1,253 @@
+import { useCallback, useEffect, useState } from "react";
+import type { RouteLabel, RouteSplitTable } from "../types";
+import type { RosterTier } from "../types/studio";
+import type { SplitCutoffStatus, SplitRow } from "../../route-stats";
+import {
+  formatPaceMinutes,
+  formatSplitMinutes,
+  parsePaceMinutes,
+  parseSplitMinutes,
+} from "../../route-stats";
+import { getRouteSplitCsvUrl, getRouteSplitTable, updateRouteSplitPlan } from "../utils/api";
+
+const TIERS: RosterTier[] = ["MED", "LRG", "XL"];
+const START_FINISH_POI_ID = "start-finish";
+
+const CUTOFF_COLORS: Record<SplitCutoffStatus, string> = {
+  ok: "#f5f5f5",
+  tight: "#fbbf24",
+  over: "#ff9c9c",
+};
+
+interface RouteSplitPlannerProps {
+  routeGroupId: string;
+  variantLabel: RouteLabel | "";
+  /** Finish cutoffs are stored on the start/finish POI, so they need it to exist. */
+  hasStartFinishPoi: boolean;
+  /** Changes whenever POIs are reloaded so moved aid stations re-split. */
+  refreshKey?: unknown;
+}
+
+function rowKey(row: SplitRow, index: number): string {
+  return `${row.id}-${index}`;
+}
+
+export default function RouteSplitPlanner({
+  routeGroupId,
+  variantLabel,
+  hasStartFinishPoi,
+  refreshKey,
+}: RouteSplitPlannerProps) {
+  const [table, setTable] = useState<RouteSplitTable | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [paceDrafts, setPaceDrafts] = useState<Record<string, string>>({});
+  const [cutoffDrafts, setCutoffDrafts] = useState<Record<string, string>>({});
+
+  const load = useCallback(async () => {
+    if (!routeGroupId || !variantLabel) {
+      setTable(null);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const next = await getRouteSplitTable(routeGroupId, variantLabel);
+      setTable(next);
+      setPaceDrafts({});
+      setCutoffDrafts({});
+    } catch (err) {
+      setTable(null);
+      setError(err instanceof Error ? err.message : "Failed to load split table");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [routeGroupId, variantLabel]);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  const commitPace = useCallback(
+    async (tier: RosterTier) => {
+      const draft = paceDrafts[tier];
+      if (draft === undefined || !table) return;
+      const pace = parsePaceMinutes(draft);
+      if (pace === null || pace === table.paceMinPerMi[tier]) {
+        setPaceDrafts((prev) => {
+          const next = { ...prev };
+          delete next[tier];
+          return next;
+        });
+        return;
+      }
+      try {
+        await updateRouteSplitPlan(routeGroupId, { paceMinPerMi: { [tier]: pace } });
+        await load();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to save pace");
+      }
+    },
+    [paceDrafts, table, routeGroupId, load]
+  );
+
+  const commitCutoff = useCallback(
+    async (row: SplitRow, key: string) => {
+      const draft = cutoffDrafts[key];
+      if (draft === undefined || !variantLabel) return;
+      const cutoff = parseSplitMinutes(draft);
+      if (draft.trim() && cutoff === null) {
+        setError(`Cutoff for ${row.name} must be H:MM.`);
+        return;
+      }
+      if (cutoff === row.cutoffMin) return;
+      const poiId = row.kind === "finish" ? START_FINISH_POI_ID : row.id;
+      try {
+        await updateRouteSplitPlan(routeGroupId, {
+          cutoffs: { [poiId]: { [variantLabel]: cutoff } },
+        });
+        await load();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to save cutoff");
+      }
+    },
+    [cutoffDrafts, variantLabel, routeGroupId, load]
+  );
+
+  if (!variantLabel) {
+    return (
+      <div style={{ color: "#999999", fontSize: "0.85rem" }}>
+        Select an active variant to plan splits.
+      </div>
+    );
+  }
+
+  const inputStyle = {
+    width: "4.5rem",
+    padding: "0.2rem 0.35rem",
+    border: "1px solid #2b2b2b",
+    background: "#0b0f17",
+    color: "#f5f5f5",
+    borderRadius: "4px",
+    fontSize: "0.75rem",
+  };
+
+  return (
+    <div style={{ display: "grid", gap: "0.75rem" }}>
+      <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: "0.75rem" }}>
+        {TIERS.map((tier) => (
+          <label
+            key={tier}
+            style={{ display: "flex", alignItems: "center", gap: "0.35rem", fontSize: "0.75rem", color: "#9aa3b2" }}
+          >
+            {tier} pace
+            <input
+              value={paceDrafts[tier] ?? formatPaceMinutes(table?.paceMinPerMi[tier] ?? null)}
+              onChange={(event) =>
+                setPaceDrafts((prev) => ({ ...prev, [tier]: event.target.value }))
+              }
+              onBlur={() => commitPace(tier)}
+              placeholder="12:00"
+              style={inputStyle}
+            />
+            <span>/mi</span>
+          </label>
+        ))}
+        <a
+          href={getRouteSplitCsvUrl(routeGroupId, variantLabel)}
+          download
+          style={{
+            padding: "0.4rem 0.75rem",
+            borderRadius: "4px",
+            border: "1px solid #2b2b2b",
+            background: "#0f1522",
+            color: "#f5f5f5",
+            fontSize: "0.8rem",
+            textDecoration: "none",
+          }}
+        >
+          Export CSV
+        </a>
+      </div>
+
+      <div style={{ fontSize: "0.72rem", color: "#7e8798" }}>
+        ETAs apply the grade-adjusted pace model to each tier's flat pace. Cutoffs are elapsed
+        time from the start (H:MM) and are stored with the aid-station POIs for this variant.
+      </div>
+
+      {error && <div style={{ color: "#ff9999", fontSize: "0.8rem" }}>{error}</div>}
+      {isLoading && !table && <div style={{ color: "#4ade80" }}>Loading splits...</div>}
+
+      {table && (
+        <table style={{ width: "100%", fontSize: "0.8rem", color: "#f5f5f5" }}>
+          <thead>
+            <tr>
+              <th align="left">Station</th>
+              <th align="left">Mile</th>
+              <th align="left">Segment</th>
+              <th align="left">Gain / Loss</th>
+              {TIERS.map((tier) => (
+                <th key={tier} align="left">
+                  {tier} split / ETA
+                </th>
+              ))}
+              <th align="left">Cutoff</th>
+            </tr>
+          </thead>
+          <tbody>
+            {table.rows.map((row, index) => {
+              const key = rowKey(row, index);
+              const canSetCutoff = row.kind === "aid" || (row.kind === "finish" && hasStartFinishPoi);
+              return (
+                <tr key={key}>
+                  <td>{row.name}</td>
+                  <td>{row.distanceMi.toFixed(2)}</td>
+                  <td>{row.kind === "start" ? "-" : `${row.segmentMi.toFixed(2)} mi`}</td>
+                  <td>
+                    {row.kind === "start"
+                      ? "-"
+                      : `+${Math.round(row.gainFt)} / -${Math.round(row.lossFt)} ft`}
+                  </td>
+                  {TIERS.map((tier) => {
+                    const eta = row.eta[tier];
+                    if (!eta || row.kind === "start") return <td key={tier}>-</td>;
+                    return (
+                      <td
+                        key={tier}
+                        style={{ color: eta.cutoffStatus ? CUTOFF_COLORS[eta.cutoffStatus] : undefined }}
+                        title={eta.cutoffStatus === "over" ? "Projected after cutoff" : undefined}
+                      >
+                        {formatSplitMinutes(eta.segmentMin)} / {formatSplitMinutes(eta.elapsedMin)}
+                      </td>
+                    );
+                  })}
+                  <td>
+                    {canSetCutoff ? (
+                      <input
+                        value={cutoffDrafts[key] ?? formatSplitMinutes(row.cutoffMin)}
+                        onChange={(event) =>
+                          setCutoffDrafts((prev) => ({ ...prev, [key]: event.target.value }))
+                        }
+                        onBlur={() => commitCutoff(row, key)}
+                        placeholder="H:MM"
+                        style={inputStyle}
+                      />
+                    ) : (
+                      "-"
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {table && table.rows.length === 2 && (
+        <div style={{ color: "#666", fontSize: "0.85rem" }}>
+          No aid stations on {variantLabel} yet.
+        </div>
+      )}
+    </div>
+  );
+}
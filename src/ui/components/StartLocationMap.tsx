@@ -0,0 +1,174 @@
+import { useEffect, useRef, useState } from "react";
+import maplibregl from "maplibre-gl";
+import "maplibre-gl/dist/maplibre-gl.css";
+import type { FeatureCollection, LineString, Point } from "geojson";
+import type { LatLng } from "../utils/startLocation";
+
+type StartLocationMapProps = {
+  /** Linked route variants, drawn for context. Coords are [lon, lat]. */
+  routes: Array<{ key: string; coords: [number, number][] }>;
+  value: LatLng | null;
+  /** Suggested starts (first point of each variant). */
+  suggestions: LatLng[];
+  height?: number;
+  onChange: (next: LatLng) => void;
+};
+
+const ID = {
+  routeSrc: "start-routes-src",
+  routeLayer: "start-routes-layer",
+  suggestionSrc: "start-suggestions-src",
+  suggestionLayer: "start-suggestions-layer",
+} as const;
+
+export default function StartLocationMap({
+  routes,
+  value,
+  suggestions,
+  height = 320,
+  onChange,
+}: StartLocationMapProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const mapRef = useRef<maplibregl.Map | null>(null);
+  const markerRef = useRef<maplibregl.Marker | null>(null);
+  const onChangeRef = useRef(onChange);
+  const fittedKeyRef = useRef<string>("");
+  const [mapLoaded, setMapLoaded] = useState(false);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    if (mapRef.current || !containerRef.current) return;
+
+    const map = new maplibregl.Map({
+      container: containerRef.current,
+      style: "/dark-tactical-terrain.json",
+      center: [-121.48, 38.58],
+      zoom: 11,
+      attributionControl: false,
+    });
+    map.addControl(new maplibregl.NavigationControl({ showCompass: false }), "top-left");
+    map.addControl(new maplibregl.AttributionControl({ compact: true }), "bottom-right");
+    map.on("load", () => setMapLoaded(true));
+    map.on("click", (event) => {
+      onChangeRef.current({ lat: event.lngLat.lat, lng: event.lngLat.lng });
+    });
+    mapRef.current = map;
+
+    return () => {
+      markerRef.current?.remove();
+      markerRef.current = null;
+      map.remove();
+      mapRef.current = null;
+      setMapLoaded(false);
+    };
+  }, []);
+
+  // Route lines and suggestion dots.
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapLoaded) return;
+
+    const lines: FeatureCollection<LineString> = {
+      type: "FeatureCollection",
+      features: routes
+        .filter((route) => route.coords.length > 1)
+        .map((route) => ({
+          type: "Feature",
+          properties: { key: route.key },
+          geometry: { type: "LineString", coordinates: route.coords },
+        })),
+    };
+    const points: FeatureCollection<Point> = {
+      type: "FeatureCollection",
+      features: suggestions.map((point) => ({
+        type: "Feature",
+        properties: {},
+        geometry: { type: "Point", coordinates: [point.lng, point.lat] },
+      })),
+    };
+
+    const routeSource = map.getSource(ID.routeSrc) as maplibregl.GeoJSONSource | undefined;
+    if (routeSource) {
+      routeSource.setData(lines);
+    } else {
+      map.addSource(ID.routeSrc, { type: "geojson", data: lines });
+      map.addLayer({
+        id: ID.routeLayer,
+        type: "line",
+        source: ID.routeSrc,
+        paint: { "line-color": "#13FFE2", "line-width": 3, "line-opacity": 0.8 },
+      });
+    }
+    const suggestionSource = map.getSource(ID.suggestionSrc) as
+      | maplibregl.GeoJSONSource
+      | undefined;
+    if (suggestionSource) {
+      suggestionSource.setData(points);
+    } else {
+      map.addSource(ID.suggestionSrc, { type: "geojson", data: points });
+      map.addLayer({
+        id: ID.suggestionLayer,
+        type: "circle",
+        source: ID.suggestionSrc,
+        paint: {
+          "circle-radius": 7,
+          "circle-color": "#0a0e14",
+          "circle-stroke-color": "#13FFE2",
+          "circle-stroke-width": 3,
+        },
+      });
+    }
+
+    // Frame the routes once per set of routes, not on every pick.
+    const fitKey = routes.map((route) => route.key).join("|");
+    if (fitKey && fitKey !== fittedKeyRef.current) {
+      const bounds = new maplibregl.LngLatBounds();
+      routes.forEach((route) => route.coords.forEach((coord) => bounds.extend(coord)));
+      if (value) bounds.extend([value.lng, value.lat]);
+      if (!bounds.isEmpty()) {
+        map.fitBounds(bounds, { padding: 40, duration: 0, maxZoom: 15 });
+        fittedKeyRef.current = fitKey;
+      }
+    } else if (!fitKey && value && !fittedKeyRef.current) {
+      map.jumpTo({ center: [value.lng, value.lat], zoom: 14 });
+      fittedKeyRef.current = "value";
+    }
+  }, [mapLoaded, routes, suggestions, value]);
+
+  // Draggable start pin.
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapLoaded) return;
+    if (!value) {
+      markerRef.current?.remove();
+      markerRef.current = null;
+      return;
+    }
+    if (!markerRef.current) {
+      const marker = new maplibregl.Marker({ color: "#4ade80", draggable: true });
+      marker.on("dragend", () => {
+        const position = marker.getLngLat();
+        onChangeRef.current({ lat: position.lat, lng: position.lng });
+      });
+      markerRef.current = marker.setLngLat([value.lng, value.lat]).addTo(map);
+    } else {
+      markerRef.current.setLngLat([value.lng, value.lat]);
+    }
+  }, [mapLoaded, value]);
+
+  return (
+    <div
+      ref={containerRef}
+      style={{
+        width: "100%",
+        height: `${height}px`,
+        borderRadius: "6px",
+        overflow: "hidden",
+        border: "1px solid #2a2a2a",
+      }}
+    />
+  );
+}
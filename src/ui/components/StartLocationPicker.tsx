@@ -0,0 +1,193 @@
+import { useEffect, useMemo, useState } from "react";
+import StartLocationMap from "./StartLocationMap";
+import type { RouteTrack } from "../hooks/useRouteStarts";
+import {
+  buildMapsUrl,
+  checkStartDistances,
+  formatDistance,
+  hasCoordinates,
+  isShortMapsLink,
+  parseMapsUrlCoordinates,
+  suggestStartLocations,
+  type LatLng,
+} from "../utils/startLocation";
+
+type StartLocationPickerProps = {
+  url: string;
+  coordinates?: LatLng;
+  tracks: RouteTrack[];
+  tracksLoading: boolean;
+  tracksError: string | null;
+  onChange: (update: { startLocationUrl: string; startLocationCoordinates: LatLng }) => void;
+};
+
+const inputStyle = {
+  padding: "0.5rem",
+  border: "1px solid #2b2b2b",
+  borderRadius: "4px",
+  backgroundColor: "#0b0b0b",
+  color: "#f5f5f5",
+};
+
+const labelStyle = { fontSize: "0.85rem", color: "#999999" };
+
+const GENERATED_URL_PREFIX = "https://www.google.com/maps/search/?api=1&query=";
+
+export default function StartLocationPicker({
+  url,
+  coordinates,
+  tracks,
+  tracksLoading,
+  tracksError,
+  onChange,
+}: StartLocationPickerProps) {
+  const value = useMemo(
+    () => (hasCoordinates(coordinates) ? { lat: coordinates.lat, lng: coordinates.lng } : null),
+    [coordinates?.lat, coordinates?.lng]
+  );
+  const [latText, setLatText] = useState(value ? String(value.lat) : "");
+  const [lngText, setLngText] = useState(value ? String(value.lng) : "");
+
+  useEffect(() => {
+    setLatText(value ? String(value.lat) : "");
+    setLngText(value ? String(value.lng) : "");
+  }, [value]);
+
+  const suggestions = useMemo(() => suggestStartLocations(tracks), [tracks]);
+  const checks = value ? checkStartDistances(value, tracks) : [];
+  const mapRoutes = useMemo(
+    () =>
+      tracks.map((track) => ({
+        key: `${track.routeGroupId}/${track.variant}`,
+        coords: track.coords,
+      })),
+    [tracks]
+  );
+  const suggestionPoints = useMemo(
+    () => suggestions.map((suggestion) => suggestion.start),
+    [suggestions]
+  );
+
+  // A picked point also fills the URL unless it holds a link someone pasted.
+  const pick = (next: LatLng) => {
+    const rounded = { lat: Number(next.lat.toFixed(6)), lng: Number(next.lng.toFixed(6)) };
+    const keepUrl = url.trim() && !url.startsWith(GENERATED_URL_PREFIX);
+    onChange({
+      startLocationUrl: keepUrl ? url : buildMapsUrl(rounded),
+      startLocationCoordinates: rounded,
+    });
+  };
+
+  const handleUrlChange = (nextUrl: string) => {
+    const parsed = parseMapsUrlCoordinates(nextUrl);
+    onChange({
+      startLocationUrl: nextUrl,
+      startLocationCoordinates: parsed ?? coordinates ?? { lat: 0, lng: 0 },
+    });
+  };
+
+  const commitTypedCoordinates = () => {
+    const lat = Number(latText);
+    const lng = Number(lngText);
+    if (latText.trim() && lngText.trim() && Number.isFinite(lat) && Number.isFinite(lng)) {
+      pick({ lat, lng });
+    }
+  };
+
+  const urlNote = !url.trim()
+    ? null
+    : isShortMapsLink(url)
+      ? "Short links can't be read. Open it and copy the full URL, or click the map."
+      : parseMapsUrlCoordinates(url)
+        ? null
+        : "No coordinates in this link. Click the map or use a route start.";
+
+  return (
+    <div style={{ display: "grid", gap: "0.75rem" }}>
+      <div style={{ display: "grid", gap: "0.5rem" }}>
+        <label style={labelStyle}>Start Location URL</label>
+        <input
+          value={url}
+          onChange={(e) => handleUrlChange(e.target.value)}
+          style={inputStyle}
+          placeholder="Paste a Google or Apple Maps link"
+        />
+        {urlNote && <div style={{ fontSize: "0.75rem", color: "#fbbf24" }}>{urlNote}</div>}
+      </div>
+
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "1rem" }}>
+        <div style={{ display: "grid", gap: "0.5rem" }}>
+          <label style={labelStyle}>Start Latitude</label>
+          <input
+            value={latText}
+            onChange={(e) => setLatText(e.target.value)}
+            onBlur={commitTypedCoordinates}
+            style={inputStyle}
+            placeholder="38.5716"
+          />
+        </div>
+        <div style={{ display: "grid", gap: "0.5rem" }}>
+          <label style={labelStyle}>Start Longitude</label>
+          <input
+            value={lngText}
+            onChange={(e) => setLngText(e.target.value)}
+            onBlur={commitTypedCoordinates}
+            style={inputStyle}
+            placeholder="-121.5012"
+          />
+        </div>
+      </div>
+
+      {suggestions.length > 0 && (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem" }}>
+          {suggestions.map((suggestion) => (
+            <button
+              key={suggestion.labels.join(",")}
+              type="button"
+              onClick={() => pick(suggestion.start)}
+              style={{
+                padding: "0.4rem 0.75rem",
+                fontSize: "0.8rem",
+                borderRadius: "4px",
+                border: "1px solid #13FFE2",
+                backgroundColor: "#0f1a1a",
+                color: "#13FFE2",
+                cursor: "pointer",
+              }}
+            >
+              Use route start ({suggestion.labels.join(", ")})
+            </button>
+          ))}
+        </div>
+      )}
+      {tracksLoading && (
+        <div style={{ fontSize: "0.75rem", color: "#7e8798" }}>Loading route starts…</div>
+      )}
+      {tracksError && <div style={{ fontSize: "0.75rem", color: "#ff9999" }}>{tracksError}</div>}
+
+      <StartLocationMap
+        routes={mapRoutes}
+        value={value}
+        suggestions={suggestionPoints}
+        onChange={pick}
+      />
+      <div style={{ fontSize: "0.75rem", color: "#7e8798" }}>
+        Click the map or drag the pin to set the start.
+      </div>
+
+      {checks.length > 0 && (
+        <div style={{ display: "grid", gap: "0.25rem", fontSize: "0.8rem" }}>
+          {checks.map((check) => (
+            <div
+              key={`${check.routeGroupId}/${check.variant}`}
+              style={{ color: check.tooFar ? "#fbbf24" : "#4ade80" }}
+            >
+              {check.tooFar ? "⚠" : "✓"} {formatDistance(check.distanceM)} from the{" "}
+              {check.routeGroupId} {check.variant} route start
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
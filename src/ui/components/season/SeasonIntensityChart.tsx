@@ -1,5 +1,13 @@
-import type { CSSProperties } from "react";
-import type { BlockInstance, WeekInstance } from "../../../season";
+import { useMemo, useState, type CSSProperties } from "react";
+import {
+  computeSeasonLoad,
+  type BlockInstance,
+  type LoadWorkout,
+  type WeekInstance,
+  type WeekLoad,
+} from "../../../season";
+
+const TIERS = ["MED", "LRG", "XL", "XXL"];
 
 const intensityValue: Record<string, number> = {
   "low": 0,
@@ -12,6 +20,8 @@ const intensityValue: Record<string, number> = {
 
 type SeasonIntensityChartProps = {
   blocks: BlockInstance[];
+  /** Workouts the weeks' days may reference, by workoutId. */
+  workouts: ReadonlyMap<string, LoadWorkout>;
 };
 
 function labelValue(label: WeekInstance["stress"]): number {
@@ -25,6 +35,31 @@ function scoreForWeek(week: WeekInstance): number {
   return (stress + volume + intensity) / 3;
 }
 
+/** Scheduled workouts read on the same 0-5 scale, from their volume and intensity. */
+function scoreForLoad(load: WeekLoad): number | null {
+  if (!load.volume || !load.intensity) return null;
+  return (labelValue(load.volume) + labelValue(load.intensity)) / 2;
+}
+
+function formatHours(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+function loadTitle(load: WeekLoad | undefined): string {
+  if (!load || load.workoutIds.length === 0) return "Scheduled: no workouts";
+  const lines = [
+    load.volume && load.intensity
+      ? `Scheduled: ${load.volume} volume, ${load.intensity} intensity`
+      : "Scheduled: nothing to count for this tier",
+    `${formatHours(load.seconds)} - ${(load.meters / 1609.34).toFixed(1)} mi - load ${load.load}`,
+  ];
+  if (load.missingWorkoutIds.length > 0) {
+    lines.push(`Not counted: ${load.missingWorkoutIds.join(", ")}`);
+  }
+  return [...lines, ...load.mismatches].join("\n");
+}
+
 function hashString(value: string): number {
   let hash = 0;
   for (let i = 0; i < value.length; i += 1) {
@@ -45,32 +80,97 @@ function weekColor(blockId: string, score: number): string {
   return `hsl(${hue} 65% ${lightness}%)`;
 }
 
-export default function SeasonIntensityChart({ blocks }: SeasonIntensityChartProps) {
+export default function SeasonIntensityChart({ blocks, workouts }: SeasonIntensityChartProps) {
+  const [tier, setTier] = useState(TIERS[0]);
+  const seasonLoad = useMemo(() => computeSeasonLoad(blocks, workouts, tier), [blocks, workouts, tier]);
+  const loadByWeekId = useMemo(
+    () => new Map(seasonLoad.weeks.map((load) => [load.weekId, load])),
+    [seasonLoad]
+  );
+  const weekNumbers = new Map(
+    blocks.flatMap((block) => block.weeks).map((week, index) => [week.weekId, index + 1])
+  );
+  const flagged = blocks.flatMap((block) =>
+    block.weeks
+      .map((week) => ({ block, week, load: loadByWeekId.get(week.weekId) }))
+      .filter((entry) => (entry.load?.mismatches.length ?? 0) > 0)
+  );
+
   return (
     <div style={chartCardStyle}>
-      <div style={{ fontSize: "0.85rem", fontWeight: 700, marginBottom: "0.5rem" }}>Season Intensity</div>
+      <div style={headerStyle}>
+        <div style={{ fontSize: "0.85rem", fontWeight: 700 }}>Season Intensity</div>
+        <div style={{ display: "flex", alignItems: "center", gap: "0.75rem", fontSize: "0.75rem", color: "#9ca3af" }}>
+          <span style={legendStyle}>
+            <span style={{ ...legendSwatchStyle, backgroundColor: "#94a3b8" }} />
+            Planned
+          </span>
+          <span style={legendStyle}>
+            <span style={{ ...legendSwatchStyle, ...scheduledPatternStyle("#94a3b8") }} />
+            Scheduled
+          </span>
+          <select value={tier} onChange={(event) => setTier(event.target.value)} style={selectStyle}>
+            {TIERS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
       <div style={chartStyle}>
         {blocks.map((block, blockIndex) => (
           <div key={block.blockId} style={blockGroupStyle}>
             {block.weeks.map((week) => {
               const score = scoreForWeek(week);
-              const height = 16 + score * 18;
+              const load = loadByWeekId.get(week.weekId);
+              const scheduled = load ? scoreForLoad(load) : null;
+              const isFlagged = (load?.mismatches.length ?? 0) > 0;
+              const color = weekColor(block.blockId, score);
               return (
                 <div
                   key={week.weekId}
-                  title={`${block.name} - ${week.focus ?? "none"} - ${score.toFixed(1)} / 5`}
-                  style={{
-                    ...barStyle,
-                    height: `${height}px`,
-                    backgroundColor: weekColor(block.blockId, score),
-                  }}
-                />
+                  style={{ ...weekPairStyle, borderColor: isFlagged ? "#f87171" : "transparent" }}
+                >
+                  <div
+                    title={`${block.name} - ${week.focus ?? "none"} - planned ${score.toFixed(1)} / 5`}
+                    style={{
+                      ...barStyle,
+                      height: `${16 + score * 18}px`,
+                      backgroundColor: color,
+                    }}
+                  />
+                  <div
+                    title={loadTitle(load)}
+                    style={
+                      scheduled === null
+                        ? { ...barStyle, ...emptyBarStyle }
+                        : {
+                            ...barStyle,
+                            height: `${16 + scheduled * 18}px`,
+                            ...scheduledPatternStyle(weekColor(block.blockId, scheduled)),
+                          }
+                    }
+                  />
+                </div>
               );
             })}
             {blockIndex < blocks.length - 1 && <div style={dividerStyle} />}
           </div>
         ))}
       </div>
+      {flagged.length > 0 && (
+        <div style={{ display: "grid", gap: "0.25rem", marginTop: "0.5rem", fontSize: "0.75rem" }}>
+          {flagged.map(({ block, week, load }) => (
+            <div key={week.weekId} style={{ color: "#fca5a5" }}>
+              <span style={{ fontWeight: 600 }}>
+                Week {weekNumbers.get(week.weekId)} - {block.name}:
+              </span>{" "}
+              {load?.mismatches.join(" ")}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -82,6 +182,35 @@ const chartCardStyle: CSSProperties = {
   backgroundColor: "#0f141c",
 };
 
+const headerStyle: CSSProperties = {
+  display: "flex",
+  justifyContent: "space-between",
+  alignItems: "center",
+  gap: "1rem",
+  marginBottom: "0.5rem",
+};
+
+const legendStyle: CSSProperties = {
+  display: "inline-flex",
+  alignItems: "center",
+  gap: "0.3rem",
+};
+
+const legendSwatchStyle: CSSProperties = {
+  width: "10px",
+  height: "10px",
+  borderRadius: "3px",
+};
+
+const selectStyle: CSSProperties = {
+  padding: "0.2rem 0.4rem",
+  borderRadius: "6px",
+  border: "1px solid #1f2937",
+  backgroundColor: "#0f172a",
+  color: "#f5f5f5",
+  fontSize: "0.75rem",
+};
+
 const chartStyle: CSSProperties = {
   display: "flex",
   gap: "0.75rem",
@@ -106,6 +235,29 @@ const barStyle: CSSProperties = {
   border: "1px solid rgba(15, 23, 42, 0.4)",
 };
 
+const weekPairStyle: CSSProperties = {
+  display: "flex",
+  gap: "2px",
+  alignItems: "flex-end",
+  padding: "2px",
+  borderRadius: "8px",
+  border: "1px solid transparent",
+};
+
+const emptyBarStyle: CSSProperties = {
+  height: "6px",
+  border: "1px dashed rgba(148, 163, 184, 0.4)",
+  backgroundColor: "transparent",
+};
+
+function scheduledPatternStyle(color: string): CSSProperties {
+  return {
+    backgroundColor: "transparent",
+    backgroundImage: `repeating-linear-gradient(135deg, ${color} 0 3px, transparent 3px 5px)`,
+    border: `1px solid ${color}`,
+  };
+}
+
 const dividerStyle: CSSProperties = {
   width: "1px",
   height: "100%",
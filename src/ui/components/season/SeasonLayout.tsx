@@ -135,6 +135,7 @@ export default function SeasonLayout() {
   const [calendarCursorIndex, setCalendarCursorIndex] = useState<number | null>(null);
   const blockRefs = useRef<Record<string, HTMLDivElement | null>>({});
   const [workoutOptions, setWorkoutOptions] = useState<Array<{ workoutId: string; name: string }>>([]);
+  const [workoutsById, setWorkoutsById] = useState<ReadonlyMap<string, Workout>>(new Map());
   const { selectedWeekId: selectedSUCWeekId, setSelectedWeekId: setSelectedSUCWeekId, registerWeekOptions } =
     useStudioWeek();
   const { events: eventOptions, isLoading: isLoadingEvents } = useEvents();
@@ -203,8 +204,10 @@ export default function SeasonLayout() {
           }))
           .sort((a, b) => a.name.localeCompare(b.name));
         setWorkoutOptions(options);
+        setWorkoutsById(byId);
       } catch {
         setWorkoutOptions([]);
+        setWorkoutsById(new Map());
       }
     };
 
@@ -930,7 +933,7 @@ export default function SeasonLayout() {
             isBusy={isBusy}
           />
           <div style={{ display: "grid", gap: "1rem" }}>
-            <SeasonIntensityChart blocks={season.blocks} />
+            <SeasonIntensityChart blocks={season.blocks} workouts={workoutsById} />
             <div style={{ display: "grid", gap: "0.75rem" }}>
               <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: "1rem" }}>
                 <SeasonTimelineStrip
@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  deleteAttendanceEntry,
+  loadEventAttendance,
+  loadRoster,
+  saveAttendanceEntry,
+} from "../utils/api";
+import type {
+  AttendanceEntry,
+  AttendanceRouteOption,
+  AttendanceStatus,
+  AttendanceSummary,
+  AttendanceUpdate,
+  RouteLabel,
+} from "../types";
+import type { RosterMember } from "../types/studio";
+import type { EventSummary } from "./useEvents";
+
+type UseEventCheckInResult = {
+  roster: RosterMember[];
+  entries: Record<string, AttendanceEntry>;
+  summary: AttendanceSummary | null;
+  routes: AttendanceRouteOption[];
+  pendingIds: string[];
+  isLoading: boolean;
+  error: string | null;
+  mark: (memberId: string, update: AttendanceUpdate) => Promise<void>;
+  remove: (memberId: string) => Promise<void>;
+};
+
+export const ATTENDANCE_STATUS_LABELS: Record<AttendanceStatus, string> = {
+  "checked-in": "Checked in",
+  finished: "Finished",
+  dnf: "DNF",
+  dns: "DNS",
+};
+
+/**
+ * Today's event, when exactly one is dated today. Otherwise null, so check-ins
+ * are never recorded against an event the user did not pick.
+ */
+export function pickCheckInEvent(events: EventSummary[], today: string): EventSummary | null {
+  const todays = events.filter((event) => event.eventDate === today);
+  return todays.length === 1 ? todays[0] : null;
+}
+
+/**
+ * The member's tier, when exactly one of the event's routes offers it.
+ */
+export function suggestedVariant(
+  member: RosterMember,
+  routes: AttendanceRouteOption[]
+): RouteLabel | null {
+  const offering = routes.filter((route) => route.variants.includes(member.tier));
+  return offering.length === 1 ? member.tier : null;
+}
+
+export function useEventCheckIn(eventId: string | null): UseEventCheckInResult {
+  const [roster, setRoster] = useState<RosterMember[]>([]);
+  const [entries, setEntries] = useState<Record<string, AttendanceEntry>>({});
+  const [summary, setSummary] = useState<AttendanceSummary | null>(null);
+  const [routes, setRoutes] = useState<AttendanceRouteOption[]>([]);
+  const [pendingIds, setPendingIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadRoster()
+      .then((members) => setRoster([...members].sort((a, b) => a.name.localeCompare(b.name))))
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load roster."));
+  }, []);
+
+  useEffect(() => {
+    if (!eventId) {
+      setEntries({});
+      setSummary(null);
+      setRoutes([]);
+      setIsLoading(false);
+      return;
+    }
+    let active = true;
+    setIsLoading(true);
+    setError(null);
+    loadEventAttendance(eventId)
+      .then((result) => {
+        if (!active) return;
+        setEntries(
+          Object.fromEntries(result.attendance.entries.map((entry) => [entry.memberId, entry]))
+        );
+        setSummary(result.summary);
+        setRoutes(result.routes);
+      })
+      .catch((err) => {
+        if (active) setError(err instanceof Error ? err.message : "Failed to load attendance.");
+      })
+      .finally(() => {
+        if (active) setIsLoading(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, [eventId]);
+
+  const track = useCallback(async (memberId: string, work: () => Promise<void>) => {
+    setPendingIds((prev) => [...prev, memberId]);
+    setError(null);
+    try {
+      await work();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Check-in failed.");
+    } finally {
+      setPendingIds((prev) => prev.filter((id) => id !== memberId));
+    }
+  }, []);
+
+  const mark = useCallback(
+    (memberId: string, update: AttendanceUpdate) =>
+      track(memberId, async () => {
+        if (!eventId) return;
+        const result = await saveAttendanceEntry(eventId, memberId, update);
+        setEntries((prev) => ({ ...prev, [memberId]: result.entry }));
+        setSummary(result.summary);
+      }),
+    [eventId, track]
+  );
+
+  const remove = useCallback(
+    (memberId: string) =>
+      track(memberId, async () => {
+        if (!eventId) return;
+        const result = await deleteAttendanceEntry(eventId, memberId);
+        setEntries((prev) => {
+          const next = { ...prev };
+          delete next[memberId];
+          return next;
+        });
+        setSummary(result.summary);
+      }),
+    [eventId, track]
+  );
+
+  return { roster, entries, summary, routes, pendingIds, isLoading, error, mark, remove };
+}
@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { getRouteGroup, getRouteVariantPreview, listRouteRevisions } from "../utils/api";
+import type { RouteLabel } from "../types";
+import type { RouteStart } from "../utils/startLocation";
+
+export type RouteTrack = RouteStart & { coords: [number, number][] };
+
+type UseRouteStartsResult = {
+  tracks: RouteTrack[];
+  isLoading: boolean;
+  error: string | null;
+};
+
+// Variant geometry rarely changes while an event is open; keep it across toggles.
+// Entries are keyed by the group's latest history revision, which moves on every
+// GPX save or restore, so a re-uploaded track is fetched again.
+const trackCache = new Map<string, { revision: string; track: Promise<RouteTrack | null> }>();
+
+function loadTrack(
+  routeGroupId: string,
+  variant: RouteLabel,
+  revision: string
+): Promise<RouteTrack | null> {
+  const key = `${routeGroupId}/${variant}`;
+  const cached = trackCache.get(key);
+  let pending = cached?.revision === revision ? cached.track : undefined;
+  if (!pending) {
+    pending = getRouteVariantPreview(routeGroupId, variant).then((parsed) => {
+      const first = parsed.coords?.[0];
+      if (!first) return null;
+      return {
+        routeGroupId,
+        variant,
+        start: { lat: first[1], lng: first[0] },
+        coords: parsed.coords,
+      };
+    });
+    const track = pending;
+    // A newer revision may have replaced this entry by the time the fetch fails.
+    track.catch(() => {
+      if (trackCache.get(key)?.track === track) trackCache.delete(key);
+    });
+    trackCache.set(key, { revision, track });
+  }
+  return pending;
+}
+
+/**
+ * Geometry and first point of every variant of the given route groups.
+ */
+export function useRouteStarts(routeGroupIds: string[]): UseRouteStartsResult {
+  const [tracks, setTracks] = useState<RouteTrack[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const groupKey = routeGroupIds.join(",");
+
+  useEffect(() => {
+    const ids = groupKey ? groupKey.split(",") : [];
+    if (ids.length === 0) {
+      setTracks([]);
+      setError(null);
+      return;
+    }
+    let active = true;
+    setIsLoading(true);
+    setError(null);
+
+    const load = async () => {
+      const loaded: RouteTrack[] = [];
+      const failures: string[] = [];
+      for (const routeGroupId of ids) {
+        try {
+          const [meta, revisions] = await Promise.all([
+            getRouteGroup(routeGroupId),
+            listRouteRevisions(routeGroupId),
+          ]);
+          const revision = revisions[0]?.revisionId ?? "";
+          const results = await Promise.all(
+            meta.variants.map((variant) => loadTrack(routeGroupId, variant, revision))
+          );
+          results.forEach((track) => track && loaded.push(track));
+        } catch (err) {
+          failures.push(`${routeGroupId}: ${err instanceof Error ? err.message : "failed"}`);
+        }
+      }
+      if (!active) return;
+      setTracks(loaded);
+      setError(failures.length > 0 ? `Could not load route starts (${failures.join("; ")})` : null);
+      setIsLoading(false);
+    };
+
+    load();
+    return () => {
+      active = false;
+    };
+  }, [groupKey]);
+
+  return { tracks, isLoading, error };
+}
@@ -7,8 +7,10 @@ import WorkoutBuilder from "./screens/WorkoutBuilder";
 import RouteManager from "./screens/RouteManager";
 import EventBuilder from "./screens/EventBuilder";
 import RosterBuilder from "./screens/RosterBuilder";
+import CheckIn from "./screens/CheckIn";
 import ChallengeBuilder from "./screens/ChallengeBuilder";
 import TipsManager from "./screens/TipsManager";
+import AuditLog from "./screens/AuditLog";
 import RouteIntelBuilder from "./screens/RouteIntelBuilder/RouteIntelBuilder";
 import RouteMediaBuilder from "./screens/RouteMediaBuilder/RouteMediaBuilder";
 import { StudioWeekProvider } from "./context/StudioWeekContext";
@@ -23,6 +25,7 @@ import MobileHome from "./mobile/MobileHome";
 import MobileTrainingTipForm from "./mobile/MobileTrainingTipForm";
 import MobileRouteIntelForm from "./mobile/MobileRouteIntelForm";
 import MobileDraftsList from "./mobile/MobileDraftsList";
+import MobileCheckIn from "./mobile/MobileCheckIn";
 
 console.log("[STUDIO] VITE_API_BASE =", import.meta.env.VITE_API_BASE);
 
@@ -98,6 +101,9 @@ function StudioNav() {
         <NavLink to="/studio/roster" style={linkStyle}>
           Roster
         </NavLink>
+        <NavLink to="/studio/check-in" style={linkStyle}>
+          Check-in
+        </NavLink>
         <NavLink to="/studio/challenges" style={linkStyle}>
           Challenges
         </NavLink>
@@ -113,6 +119,9 @@ function StudioNav() {
         <NavLink to="/drafts" style={linkStyle}>
           Drafts
         </NavLink>
+        <NavLink to="/studio/audit" style={linkStyle}>
+          Audit
+        </NavLink>
       </div>
       <GlobalWeekSelector />
     </nav>
@@ -143,12 +152,14 @@ function AppShell() {
         <Route path="/studio/seasons" element={<SeasonBuilder />} />
         <Route path="/seasons" element={<SeasonBuilder />} />
         <Route path="/studio/roster" element={<RosterBuilder />} />
+        <Route path="/studio/check-in" element={<CheckIn />} />
         <Route path="/studio/challenges" element={<ChallengeBuilder />} />
         <Route path="/studio/route-intel" element={<RouteIntelBuilder />} />
         <Route path="/route-media" element={<RouteMediaBuilder />} />
         <Route path="/studio/route-media" element={<RouteMediaBuilder />} />
         <Route path="/tips" element={<TipsManager />} />
         <Route path="/drafts" element={<DraftInbox />} />
+        <Route path="/studio/audit" element={<AuditLog />} />
 
         {/* Mobile routes */}
         <Route path="/mobile" element={<MobileLayout />}>
@@ -158,6 +169,7 @@ function AppShell() {
           <Route path="route-intel" element={<MobileRouteIntelForm />} />
           <Route path="route-intel/:id" element={<MobileRouteIntelForm />} />
           <Route path="drafts" element={<MobileDraftsList />} />
+          <Route path="check-in" element={<MobileCheckIn />} />
         </Route>
       </Routes>
     </>
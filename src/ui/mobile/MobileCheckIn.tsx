@@ -0,0 +1,249 @@
+import { useEffect, useMemo, useState } from "react";
+import { useEvents } from "../hooks/useEvents";
+import {
+  ATTENDANCE_STATUS_LABELS,
+  pickCheckInEvent,
+  suggestedVariant,
+  useEventCheckIn,
+} from "../hooks/useEventCheckIn";
+import type { AttendanceStatus } from "../types";
+
+const FOLLOW_UP_STATUSES: AttendanceStatus[] = ["finished", "dnf", "dns"];
+
+const styles = {
+  container: {
+    display: "flex",
+    flexDirection: "column" as const,
+    gap: "0.75rem",
+    maxWidth: "480px",
+    margin: "0 auto",
+  },
+  input: {
+    width: "100%",
+    padding: "0.875rem",
+    fontSize: "1rem",
+    background: "#1a1f28",
+    border: "1px solid #2a2a2a",
+    borderRadius: "8px",
+    color: "#f5f5f5",
+  },
+  counts: {
+    display: "flex",
+    justifyContent: "space-between",
+    fontSize: "0.875rem",
+    color: "#999",
+  },
+  error: {
+    padding: "0.75rem",
+    background: "#3a1a1a",
+    border: "1px solid #5a2a2a",
+    borderRadius: "8px",
+    color: "#ff9999",
+    fontSize: "0.875rem",
+  },
+  card: {
+    display: "flex",
+    flexDirection: "column" as const,
+    gap: "0.5rem",
+    padding: "0.875rem",
+    background: "#1a1f28",
+    border: "1px solid #2a2a2a",
+    borderRadius: "12px",
+  },
+  cardCheckedIn: {
+    borderColor: "#2563eb",
+  },
+  nameButton: {
+    display: "flex",
+    justifyContent: "space-between",
+    alignItems: "center",
+    width: "100%",
+    minHeight: "44px",
+    background: "none",
+    border: "none",
+    color: "#f5f5f5",
+    fontSize: "1.0625rem",
+    fontWeight: 500,
+    textAlign: "left" as const,
+    cursor: "pointer",
+    padding: 0,
+  },
+  status: {
+    fontSize: "0.8125rem",
+    color: "#60a5fa",
+  },
+  row: {
+    display: "flex",
+    flexWrap: "wrap" as const,
+    gap: "0.5rem",
+  },
+  chip: {
+    minHeight: "40px",
+    padding: "0.5rem 0.875rem",
+    background: "#0f1115",
+    border: "1px solid #2a2a2a",
+    borderRadius: "999px",
+    color: "#ccc",
+    fontSize: "0.9375rem",
+    cursor: "pointer",
+  },
+  chipActive: {
+    background: "#2563eb",
+    borderColor: "#2563eb",
+    color: "#fff",
+  },
+  empty: {
+    color: "#999",
+    textAlign: "center" as const,
+    padding: "2rem 0",
+  },
+};
+
+export default function MobileCheckIn() {
+  const { events, error: eventsError } = useEvents();
+  const [eventId, setEventId] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const { roster, entries, summary, routes, pendingIds, isLoading, error, mark, remove } =
+    useEventCheckIn(eventId);
+
+  useEffect(() => {
+    if (eventId || events.length === 0) return;
+    const today = new Date().toISOString().slice(0, 10);
+    setEventId(pickCheckInEvent(events, today)?.eventId ?? null);
+  }, [events, eventId]);
+
+  const members = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return roster.filter((member) => {
+      if (term) return member.name.toLowerCase().includes(term);
+      return member.status !== "alumni" || Boolean(entries[member.id]);
+    });
+  }, [roster, entries, search]);
+
+  return (
+    <div style={styles.container}>
+      <select
+        style={styles.input}
+        value={eventId ?? ""}
+        onChange={(event) => setEventId(event.target.value || null)}
+      >
+        <option value="">Select an event</option>
+        {events.map((event) => (
+          <option key={event.eventId} value={event.eventId}>
+            {event.eventDate ? `${event.eventDate} · ` : ""}
+            {event.eventName}
+          </option>
+        ))}
+      </select>
+
+      {summary && (
+        <div style={styles.counts}>
+          <span>{summary.participants} started</span>
+          <span>{summary.finished} finished</span>
+          <span>{summary.dnf} DNF</span>
+          <span>{summary.dns} DNS</span>
+        </div>
+      )}
+
+      {(eventsError || error) && <div style={styles.error}>{eventsError || error}</div>}
+
+      <input
+        style={styles.input}
+        type="search"
+        value={search}
+        onChange={(event) => setSearch(event.target.value)}
+        placeholder="Find a runner"
+      />
+
+      {!eventId && <div style={styles.empty}>Pick an event to start checking people in.</div>}
+      {eventId && isLoading && <div style={styles.empty}>Loading…</div>}
+
+      {eventId &&
+        !isLoading &&
+        members.map((member) => {
+          const entry = entries[member.id];
+          const pending = pendingIds.includes(member.id);
+          return (
+            <div
+              key={member.id}
+              style={{
+                ...styles.card,
+                ...(entry ? styles.cardCheckedIn : {}),
+                opacity: pending ? 0.6 : 1,
+              }}
+            >
+              <button
+                style={styles.nameButton}
+                disabled={pending}
+                onClick={() => {
+                  if (entry) {
+                    if (window.confirm(`Remove ${member.name} from this event?`)) {
+                      remove(member.id);
+                    }
+                    return;
+                  }
+                  const variant = suggestedVariant(member, routes);
+                  mark(member.id, { status: "checked-in", ...(variant ? { variant } : {}) });
+                }}
+              >
+                <span>{member.name}</span>
+                <span style={styles.status}>
+                  {entry ? ATTENDANCE_STATUS_LABELS[entry.status] : "Tap to check in"}
+                  {entry?.variant ? ` · ${entry.variant}` : ""}
+                </span>
+              </button>
+
+              {entry && (
+                <>
+                  {routes.length > 0 && (
+                    <div style={styles.row}>
+                      {routes.flatMap((route) =>
+                        route.variants.map((variant) => {
+                          const active =
+                            entry.routeGroupId === route.routeGroupId && entry.variant === variant;
+                          return (
+                            <button
+                              key={`${route.routeGroupId}/${variant}`}
+                              style={{ ...styles.chip, ...(active ? styles.chipActive : {}) }}
+                              disabled={pending}
+                              onClick={() =>
+                                mark(member.id, {
+                                  routeGroupId: active ? null : route.routeGroupId,
+                                  variant: active ? null : variant,
+                                })
+                              }
+                            >
+                              {routes.length > 1 ? `${route.name} ${variant}` : variant}
+                            </button>
+                          );
+                        })
+                      )}
+                    </div>
+                  )}
+                  <div style={styles.row}>
+                    {FOLLOW_UP_STATUSES.map((status) => {
+                      const active = entry.status === status;
+                      return (
+                        <button
+                          key={status}
+                          style={{ ...styles.chip, ...(active ? styles.chipActive : {}) }}
+                          disabled={pending}
+                          onClick={() => mark(member.id, { status: active ? "checked-in" : status })}
+                        >
+                          {ATTENDANCE_STATUS_LABELS[status]}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })}
+
+      {eventId && !isLoading && members.length === 0 && (
+        <div style={styles.empty}>No roster members match.</div>
+      )}
+    </div>
+  );
+}
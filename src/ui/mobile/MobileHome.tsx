@@ -86,6 +86,25 @@ export default function MobileHome() {
         </span>
       </button>
 
+      <button
+        style={styles.actionButton}
+        onClick={() => navigate("/mobile/check-in")}
+        onMouseOver={(e) => {
+          e.currentTarget.style.background = "#242a35";
+          e.currentTarget.style.borderColor = "#3a3a3a";
+        }}
+        onMouseOut={(e) => {
+          e.currentTarget.style.background = "#1a1f28";
+          e.currentTarget.style.borderColor = "#2a2a2a";
+        }}
+      >
+        <span style={styles.actionIcon}>✅</span>
+        <span style={styles.actionLabel}>Event Check-in</span>
+        <span style={styles.actionDescription}>
+          Check runners in and record finishes
+        </span>
+      </button>
+
       <div style={styles.divider} />
 
       <button
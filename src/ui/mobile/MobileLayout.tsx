@@ -43,6 +43,7 @@ const ROUTE_TITLES: Record<string, string> = {
   "/mobile/training-tip": "New Training Tip",
   "/mobile/route-intel": "New Route Intel",
   "/mobile/drafts": "My Drafts",
+  "/mobile/check-in": "Check-in",
 };
 
 export default function MobileLayout() {
@@ -0,0 +1,211 @@
+import { useCallback, useEffect, useState } from "react";
+import { getAuditLog } from "../utils/api";
+import type { AuditAction, AuditEntry, AuditFieldChange, AuditQuery } from "../types";
+
+const ENTITY_TYPES = [
+  "event",
+  "events-selection",
+  "workout",
+  "route-group",
+  "route-variant",
+  "route-poi",
+  "route-intel",
+  "route-media",
+  "roster-member",
+  "check-in",
+  "season",
+  "block",
+  "week",
+  "challenge",
+  "season-plan",
+  "training-content",
+  "draft",
+];
+
+const ACTION_COLORS: Record<AuditAction, string> = {
+  create: "#4ade80",
+  update: "#60a5fa",
+  delete: "#f87171",
+};
+
+const inputStyle = {
+  padding: "0.5rem",
+  borderRadius: "4px",
+  border: "1px solid #2b2b2b",
+  backgroundColor: "#0b0b0b",
+  color: "#f5f5f5",
+};
+
+function formatValue(value: AuditFieldChange["before"]): string {
+  if (value === undefined) return "—";
+  return typeof value === "string" ? `"${value}"` : String(value);
+}
+
+function formatChange(change: AuditFieldChange): string {
+  if (change.change === "added") return `${change.field}: + ${formatValue(change.after)}`;
+  if (change.change === "removed") return `${change.field}: − ${formatValue(change.before)}`;
+  if (change.before === undefined && change.after === undefined) return `${change.field} changed`;
+  return `${change.field}: ${formatValue(change.before)} → ${formatValue(change.after)}`;
+}
+
+export default function AuditLog() {
+  const [filters, setFilters] = useState<AuditQuery>({ limit: 200 });
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (query: AuditQuery) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await getAuditLog(query);
+      setEntries(result.entries);
+      setTotal(result.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load audit log");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load({ limit: 200 });
+  }, [load]);
+
+  const update = (patch: Partial<AuditQuery>) => setFilters((prev) => ({ ...prev, ...patch }));
+
+  return (
+    <div style={{ padding: "1.5rem", maxWidth: "1100px", margin: "0 auto", color: "#f5f5f5" }}>
+      <h2 style={{ marginTop: 0 }}>Audit log</h2>
+
+      <form
+        onSubmit={(event) => {
+          event.preventDefault();
+          void load(filters);
+        }}
+        style={{ display: "flex", gap: "0.75rem", marginBottom: "1rem", flexWrap: "wrap" }}
+      >
+        <input
+          list="audit-entity-types"
+          value={filters.entityType ?? ""}
+          onChange={(event) => update({ entityType: event.target.value || undefined })}
+          placeholder="Entity type"
+          style={{ ...inputStyle, width: "170px" }}
+        />
+        <datalist id="audit-entity-types">
+          {ENTITY_TYPES.map((type) => (
+            <option key={type} value={type} />
+          ))}
+        </datalist>
+        <input
+          value={filters.entityId ?? ""}
+          onChange={(event) => update({ entityId: event.target.value || undefined })}
+          placeholder="Entity id"
+          style={{ ...inputStyle, width: "170px" }}
+        />
+        <select
+          value={filters.action ?? ""}
+          onChange={(event) =>
+            update({ action: (event.target.value || undefined) as AuditAction | undefined })
+          }
+          style={inputStyle}
+        >
+          <option value="">Any action</option>
+          <option value="create">Create</option>
+          <option value="update">Update</option>
+          <option value="delete">Delete</option>
+        </select>
+        <label style={{ color: "#999999", fontSize: "0.875rem" }}>
+          From{" "}
+          <input
+            type="date"
+            value={filters.from ?? ""}
+            onChange={(event) => update({ from: event.target.value || undefined })}
+            style={inputStyle}
+          />
+        </label>
+        <label style={{ color: "#999999", fontSize: "0.875rem" }}>
+          To{" "}
+          <input
+            type="date"
+            value={filters.to ?? ""}
+            onChange={(event) => update({ to: event.target.value || undefined })}
+            style={inputStyle}
+          />
+        </label>
+        <button type="submit" disabled={isLoading} style={{ ...inputStyle, cursor: "pointer" }}>
+          {isLoading ? "Loading…" : "Apply"}
+        </button>
+      </form>
+
+      {error && <div style={{ marginBottom: "1rem", color: "#ff9999" }}>{error}</div>}
+
+      <p style={{ color: "#999999", fontSize: "0.875rem" }}>
+        Showing {entries.length} of {total} matching changes, newest first.
+      </p>
+
+      <div style={{ display: "flex", flexDirection: "column", gap: "0.4rem" }}>
+        {entries.map((entry) => {
+          const expanded = expandedId === entry.id;
+          return (
+            <div
+              key={entry.id}
+              style={{ border: "1px solid #2b2b2b", borderRadius: "6px", backgroundColor: "#111111" }}
+            >
+              <button
+                type="button"
+                onClick={() => setExpandedId(expanded ? null : entry.id)}
+                style={{
+                  display: "grid",
+                  gridTemplateColumns: "150px 70px 1fr 140px 90px",
+                  gap: "0.75rem",
+                  width: "100%",
+                  padding: "0.5rem 0.75rem",
+                  background: "none",
+                  border: "none",
+                  color: "#f5f5f5",
+                  textAlign: "left",
+                  cursor: "pointer",
+                  fontSize: "0.875rem",
+                }}
+              >
+                <span style={{ color: "#999999" }}>{entry.at.slice(0, 19).replace("T", " ")}</span>
+                <span style={{ color: ACTION_COLORS[entry.action] }}>{entry.action}</span>
+                <span>
+                  <span style={{ color: "#999999" }}>{entry.entityType}</span> {entry.entityId}
+                </span>
+                <span style={{ color: "#999999" }}>{entry.actor}</span>
+                <span style={{ color: "#999999" }}>
+                  {entry.changeCount} {entry.changeCount === 1 ? "change" : "changes"}
+                </span>
+              </button>
+              {expanded && (
+                <div style={{ padding: "0 0.75rem 0.75rem", fontSize: "0.8rem" }}>
+                  <div style={{ color: "#999999", marginBottom: "0.4rem" }}>
+                    {entry.request ?? "server"} · {entry.file} · {entry.beforeHash ?? "∅"} →{" "}
+                    {entry.afterHash ?? "∅"}
+                  </div>
+                  <ul style={{ margin: 0, paddingLeft: "1.25rem", fontFamily: "monospace" }}>
+                    {entry.changes.map((change) => (
+                      <li key={change.field}>{formatChange(change)}</li>
+                    ))}
+                  </ul>
+                  {entry.changeCount > entry.changes.length && (
+                    <div style={{ color: "#999999", marginTop: "0.4rem" }}>
+                      …and {entry.changeCount - entry.changes.length} more
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {!isLoading && entries.length === 0 && (
+          <p style={{ color: "#999999" }}>No changes match these filters.</p>
+        )}
+      </div>
+    </div>
+  );
+}
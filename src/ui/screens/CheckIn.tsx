@@ -0,0 +1,243 @@
+import { useEffect, useMemo, useState } from "react";
+import { useEvents } from "../hooks/useEvents";
+import {
+  ATTENDANCE_STATUS_LABELS,
+  pickCheckInEvent,
+  suggestedVariant,
+  useEventCheckIn,
+} from "../hooks/useEventCheckIn";
+import type { AttendanceStatus } from "../types";
+
+const STATUS_ORDER: AttendanceStatus[] = ["checked-in", "finished", "dnf", "dns"];
+
+const STATUS_COLORS: Record<AttendanceStatus, { bg: string; fg: string }> = {
+  "checked-in": { bg: "#1a2332", fg: "#60a5fa" },
+  finished: { bg: "#1a2e22", fg: "#4ade80" },
+  dnf: { bg: "#3a1a1a", fg: "#f87171" },
+  dns: { bg: "#2a2a2a", fg: "#999999" },
+};
+
+export default function CheckIn() {
+  const { events, isLoading: eventsLoading, error: eventsError } = useEvents();
+  const [eventId, setEventId] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [showAll, setShowAll] = useState(false);
+  const { roster, entries, summary, routes, pendingIds, isLoading, error, mark, remove } =
+    useEventCheckIn(eventId);
+
+  useEffect(() => {
+    if (eventId || events.length === 0) return;
+    const today = new Date().toISOString().slice(0, 10);
+    setEventId(pickCheckInEvent(events, today)?.eventId ?? null);
+  }, [events, eventId]);
+
+  const members = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return roster.filter((member) => {
+      if (!showAll && member.status === "alumni" && !entries[member.id]) return false;
+      return term ? member.name.toLowerCase().includes(term) : true;
+    });
+  }, [roster, entries, search, showAll]);
+
+  const variantOptions = routes.flatMap((route) =>
+    route.variants.map((variant) => ({
+      routeGroupId: route.routeGroupId,
+      variant,
+      label: routes.length > 1 ? `${route.name} ${variant}` : variant,
+    }))
+  );
+
+  return (
+    <div style={{ padding: "1.5rem", maxWidth: "1000px", margin: "0 auto", color: "#f5f5f5" }}>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          gap: "1rem",
+          marginBottom: "1rem",
+          flexWrap: "wrap",
+        }}
+      >
+        <h2 style={{ margin: 0 }}>Check-in</h2>
+        <select
+          value={eventId ?? ""}
+          onChange={(event) => setEventId(event.target.value || null)}
+          disabled={eventsLoading}
+          style={{
+            minWidth: "320px",
+            padding: "0.5rem",
+            borderRadius: "4px",
+            border: "1px solid #2b2b2b",
+            backgroundColor: "#0b0b0b",
+            color: "#f5f5f5",
+          }}
+        >
+          <option value="">Select an event</option>
+          {events.map((event) => (
+            <option key={event.eventId} value={event.eventId}>
+              {event.eventDate ? `${event.eventDate} · ` : ""}
+              {event.eventName}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {(eventsError || error) && (
+        <div style={{ marginBottom: "1rem", color: "#ff9999" }}>{eventsError || error}</div>
+      )}
+
+      {summary && (
+        <div style={{ display: "flex", gap: "1.25rem", marginBottom: "1rem", flexWrap: "wrap" }}>
+          <span>
+            <strong>{summary.participants}</strong> started
+          </span>
+          {STATUS_ORDER.map((status) => (
+            <span key={status} style={{ color: STATUS_COLORS[status].fg }}>
+              {ATTENDANCE_STATUS_LABELS[status]}:{" "}
+              {status === "checked-in" ? summary.checkedIn : summary[status]}
+            </span>
+          ))}
+          {Object.entries(summary.byVariant).map(([key, count]) => (
+            <span key={key} style={{ color: "#999999" }}>
+              {key}: {count}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div style={{ display: "flex", gap: "0.75rem", marginBottom: "1rem", alignItems: "center" }}>
+        <input
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+          placeholder="Search roster"
+          autoFocus
+          style={{
+            flex: 1,
+            padding: "0.5rem",
+            borderRadius: "4px",
+            border: "1px solid #2b2b2b",
+            backgroundColor: "#0b0b0b",
+            color: "#f5f5f5",
+          }}
+        />
+        <label style={{ color: "#999999", fontSize: "0.875rem" }}>
+          <input
+            type="checkbox"
+            checked={showAll}
+            onChange={(event) => setShowAll(event.target.checked)}
+            style={{ marginRight: "0.35rem" }}
+          />
+          Include alumni
+        </label>
+      </div>
+
+      {!eventId && !eventsLoading && <p style={{ color: "#999999" }}>Pick an event to start.</p>}
+      {eventId && isLoading && <p style={{ color: "#999999" }}>Loading check-ins…</p>}
+
+      {eventId && !isLoading && (
+        <div style={{ display: "flex", flexDirection: "column", gap: "0.5rem" }}>
+          {members.map((member) => {
+            const entry = entries[member.id];
+            const pending = pendingIds.includes(member.id);
+            return (
+              <div
+                key={member.id}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "0.75rem",
+                  padding: "0.6rem 0.75rem",
+                  borderRadius: "6px",
+                  border: entry ? "1px solid #2563eb" : "1px solid #2a2a2a",
+                  backgroundColor: "#1a1a1a",
+                  opacity: pending ? 0.6 : 1,
+                }}
+              >
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ fontWeight: 600 }}>{member.name}</div>
+                  <div style={{ fontSize: "0.8rem", color: "#999999" }}>{member.tier}</div>
+                </div>
+
+                {entry && variantOptions.length > 0 && (
+                  <select
+                    value={entry.variant ? `${entry.routeGroupId}/${entry.variant}` : ""}
+                    disabled={pending}
+                    onChange={(event) => {
+                      const option = variantOptions.find(
+                        (item) => `${item.routeGroupId}/${item.variant}` === event.target.value
+                      );
+                      mark(member.id, {
+                        routeGroupId: option?.routeGroupId ?? null,
+                        variant: option?.variant ?? null,
+                      });
+                    }}
+                    style={{
+                      padding: "0.35rem",
+                      borderRadius: "4px",
+                      border: "1px solid #2b2b2b",
+                      backgroundColor: "#0b0b0b",
+                      color: "#f5f5f5",
+                    }}
+                  >
+                    <option value="">Variant?</option>
+                    {variantOptions.map((option) => (
+                      <option
+                        key={`${option.routeGroupId}/${option.variant}`}
+                        value={`${option.routeGroupId}/${option.variant}`}
+                      >
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                )}
+
+                {STATUS_ORDER.map((status) => {
+                  const active = entry?.status === status;
+                  return (
+                    <button
+                      key={status}
+                      disabled={pending || active}
+                      onClick={() => {
+                        const variant = entry ? undefined : suggestedVariant(member, routes);
+                        mark(member.id, variant ? { status, variant } : { status });
+                      }}
+                      style={{
+                        padding: "0.35rem 0.6rem",
+                        borderRadius: "4px",
+                        border: "1px solid #2a2a2a",
+                        backgroundColor: active ? STATUS_COLORS[status].bg : "#111111",
+                        color: active ? STATUS_COLORS[status].fg : "#b3b3b3",
+                        fontWeight: active ? 600 : 400,
+                        cursor: pending || active ? "default" : "pointer",
+                      }}
+                    >
+                      {ATTENDANCE_STATUS_LABELS[status]}
+                    </button>
+                  );
+                })}
+
+                <button
+                  disabled={pending || !entry}
+                  onClick={() => remove(member.id)}
+                  aria-label={`Remove ${member.name}`}
+                  style={{
+                    padding: "0.35rem 0.5rem",
+                    borderRadius: "4px",
+                    border: "1px solid #2a2a2a",
+                    backgroundColor: "transparent",
+                    color: entry ? "#ff9999" : "#3a3a3a",
+                    cursor: entry && !pending ? "pointer" : "default",
+                  }}
+                >
+                  ×
+                </button>
+              </div>
+            );
+          })}
+          {members.length === 0 && <p style={{ color: "#999999" }}>No roster members match.</p>}
+        </div>
+      )}
+    </div>
+  );
+}
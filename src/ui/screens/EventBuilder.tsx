@@ -1,15 +1,32 @@
 import { useState, useEffect, useCallback } from "react";
-import type { Event, EventsMaster, EventsSelection, RouteGroupSummary } from "../types";
+import type {
+  Event,
+  EventSeries,
+  EventsMaster,
+  EventsSelection,
+  RouteGroupSummary,
+} from "../types";
 import {
   loadEventsMaster,
   saveEventsMaster,
+  expandEventsMaster,
+  saveEvent,
+  deleteEvent,
+  StillReferencedError,
   loadEventsSelection,
   saveEventsSelection,
   listRouteGroups,
 } from "../utils/api";
+import EventSeriesEditor from "../components/EventSeriesEditor";
+import StartLocationPicker from "../components/StartLocationPicker";
+import { useRouteStarts } from "../hooks/useRouteStarts";
+import { checkStartDistances, formatDistance, hasCoordinates } from "../utils/startLocation";
+import { buildStudioApiUrl } from "../utils/studioApi";
+import { describeSeriesRule, occurrenceOverride, scheduledDateFor } from "../utils/eventSeries";
 
 export default function EventBuilder() {
   const [events, setEvents] = useState<Event[]>([]);
+  const [series, setSeries] = useState<EventSeries[]>([]);
   const [selectedEventIds, setSelectedEventIds] = useState<string[]>([]);
   const [routeGroups, setRouteGroups] = useState<RouteGroupSummary[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -20,6 +37,13 @@ export default function EventBuilder() {
   // Editing state
   const [editingEvent, setEditingEvent] = useState<Event | null>(null);
   const [isCreating, setIsCreating] = useState(false);
+  const [editingSeries, setEditingSeries] = useState<EventSeries | null>(null);
+  const [isCreatingSeries, setIsCreatingSeries] = useState(false);
+  const {
+    tracks: routeTracks,
+    isLoading: routeTracksLoading,
+    error: routeTracksError,
+  } = useRouteStarts(editingEvent?.routeGroupIds ?? []);
 
   // Load data on mount
   useEffect(() => {
@@ -32,6 +56,7 @@ export default function EventBuilder() {
         ]);
 
         setEvents(eventsMaster.events);
+        setSeries(eventsMaster.series ?? []);
         setSelectedEventIds(eventsSelection.selectedEventIds);
         setRouteGroups(groups);
       } catch (err) {
@@ -51,14 +76,16 @@ export default function EventBuilder() {
     setSuccess(null);
 
     try {
-      const eventsMaster: EventsMaster = { version: 1, events };
+      const eventsMaster: EventsMaster = { version: 1, events, series };
       const eventsSelection: EventsSelection = { version: 1, selectedEventIds };
 
-      await Promise.all([
+      const [saved] = await Promise.all([
         saveEventsMaster(eventsMaster),
         saveEventsSelection(eventsSelection),
       ]);
 
+      setEvents(saved.events);
+      setSeries(saved.series ?? []);
       setSuccess("Events saved successfully!");
       setEditingEvent(null);
       setIsCreating(false);
@@ -68,7 +95,86 @@ export default function EventBuilder() {
     } finally {
       setIsSaving(false);
     }
-  }, [events, selectedEventIds]);
+  }, [events, series, selectedEventIds]);
+
+  // Regenerate series occurrences on the server; false when the series is invalid.
+  const applySeries = useCallback(
+    async (nextSeries: EventSeries[], nextEvents: Event[] = events) => {
+      try {
+        const expanded = await expandEventsMaster({
+          version: 1,
+          events: nextEvents,
+          series: nextSeries,
+        });
+        const eventIds = new Set(expanded.events.map((event) => event.eventId));
+        setEvents(expanded.events);
+        setSeries(expanded.series ?? []);
+        setSelectedEventIds((prev) => prev.filter((id) => eventIds.has(id)));
+        return true;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        setError(message);
+        return false;
+      }
+    },
+    [events]
+  );
+
+  const handleCreateSeries = useCallback(() => {
+    setEditingSeries({
+      seriesId: "",
+      rule: {
+        frequency: "weekly",
+        dayOfWeek: 2,
+        interval: 1,
+        startDate: "",
+        endDate: "",
+        skipDates: [],
+      },
+      defaults: {
+        eventName: "",
+        eventDescription: "",
+        eventTime: "",
+        type: "crew-run",
+        startLocationName: "",
+        startLocationUrl: "",
+        startLocationCoordinates: { lat: 0, lng: 0 },
+        routeGroupIds: [],
+      },
+      overrides: {},
+    });
+    setIsCreatingSeries(true);
+    setError(null);
+    setSuccess(null);
+  }, []);
+
+  const handleSaveSeries = useCallback(
+    async (next: EventSeries) => {
+      if (isCreatingSeries && series.some((item) => item.seriesId === next.seriesId)) {
+        setError(`Series ${next.seriesId} already exists`);
+        return;
+      }
+      const nextSeries = isCreatingSeries
+        ? [...series, next]
+        : series.map((item) => (item.seriesId === next.seriesId ? next : item));
+      if (!(await applySeries(nextSeries))) return;
+      setEditingSeries(null);
+      setIsCreatingSeries(false);
+      setSuccess("Series updated. Click 'Save All' to persist changes.");
+    },
+    [applySeries, isCreatingSeries, series]
+  );
+
+  const handleDeleteSeries = useCallback((seriesId: string) => {
+    if (!confirm(`Delete series ${seriesId} and all of its events?`)) return;
+    const removedIds = new Set(
+      events.filter((event) => event.seriesId === seriesId).map((event) => event.eventId)
+    );
+    setSeries((prev) => prev.filter((item) => item.seriesId !== seriesId));
+    setEvents((prev) => prev.filter((event) => !removedIds.has(event.eventId)));
+    setSelectedEventIds((prev) => prev.filter((id) => !removedIds.has(id)));
+    setSuccess("Series deleted. Click 'Save All' to persist changes.");
+  }, [events]);
 
   const handleCreateNew = useCallback(() => {
     const newEvent: Event = {
@@ -96,9 +202,44 @@ export default function EventBuilder() {
     setSuccess(null);
   }, []);
 
-  const handleSaveEdit = useCallback(() => {
+  const handleSaveEdit = useCallback(async () => {
     if (!editingEvent) return;
 
+    const start = editingEvent.startLocationCoordinates;
+    if (hasCoordinates(start)) {
+      const far = checkStartDistances(start, routeTracks).filter((check) => check.tooFar);
+      if (
+        far.length > 0 &&
+        !confirm(
+          `The start is ${formatDistance(far[0].distanceM)} from the ${far[0].routeGroupId} ` +
+            `${far[0].variant} route start. Save anyway?`
+        )
+      ) {
+        return;
+      }
+    }
+
+    const parentSeries = series.find((item) => item.seriesId === editingEvent.seriesId);
+    if (parentSeries) {
+      // Occurrence edits are stored on the series so they survive series edits.
+      const date = scheduledDateFor(parentSeries, editingEvent.eventId);
+      if (!date) return;
+      const override = occurrenceOverride(parentSeries, editingEvent);
+      const overrides = { ...parentSeries.overrides };
+      if (Object.keys(override).length > 0) {
+        overrides[date] = override;
+      } else {
+        delete overrides[date];
+      }
+      const nextSeries = series.map((item) =>
+        item.seriesId === parentSeries.seriesId ? { ...item, overrides } : item
+      );
+      if (!(await applySeries(nextSeries))) return;
+      setEditingEvent(null);
+      setSuccess("Event updated. Click 'Save All' to persist changes.");
+      return;
+    }
+
     if (!editingEvent.eventId.trim()) {
       setError("Event ID is required");
       return;
@@ -109,20 +250,34 @@ export default function EventBuilder() {
       type: editingEvent.type ?? "training-run",
     };
 
+    if (isCreating && events.some((e) => e.eventId === normalizedEvent.eventId)) {
+      setError(`Event ${normalizedEvent.eventId} already exists`);
+      return;
+    }
+
+    // Standalone events are saved one at a time so concurrent editors don't
+    // overwrite each other; the server refuses stale updatedAt values.
+    let saved: Event;
+    try {
+      saved = await saveEvent(normalizedEvent);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setError(`Failed to save event: ${message}`);
+      return;
+    }
+
     if (isCreating) {
       // Add new event
-      setEvents((prev) => [...prev, normalizedEvent]);
+      setEvents((prev) => [...prev, saved]);
     } else {
       // Update existing event
-      setEvents((prev) =>
-        prev.map((e) => (e.eventId === editingEvent.eventId ? normalizedEvent : e))
-      );
+      setEvents((prev) => prev.map((e) => (e.eventId === saved.eventId ? saved : e)));
     }
 
     setEditingEvent(null);
     setIsCreating(false);
-    setSuccess("Event updated. Click 'Save All' to persist changes.");
-  }, [editingEvent, isCreating]);
+    setSuccess(`Event ${saved.eventId} saved.`);
+  }, [applySeries, editingEvent, events, isCreating, routeTracks, series]);
 
   const handleCancelEdit = useCallback(() => {
     setEditingEvent(null);
@@ -130,13 +285,43 @@ export default function EventBuilder() {
     setError(null);
   }, []);
 
-  const handleDelete = useCallback((eventId: string) => {
+  const handleDelete = useCallback(async (event: Event) => {
+    const { eventId } = event;
+    const parentSeries = series.find((item) => item.seriesId === event.seriesId);
+    const date = parentSeries ? scheduledDateFor(parentSeries, eventId) : null;
+    if (parentSeries && date) {
+      if (!confirm(`Skip ${date} in series ${parentSeries.seriesId}?`)) return;
+      const nextSeries = series.map((item) =>
+        item === parentSeries
+          ? { ...item, rule: { ...item.rule, skipDates: [...item.rule.skipDates, date] } }
+          : item
+      );
+      if (await applySeries(nextSeries)) {
+        setSuccess("Occurrence skipped. Click 'Save All' to persist changes.");
+      }
+      return;
+    }
+
     if (!confirm(`Delete event ${eventId}?`)) return;
 
+    try {
+      try {
+        await deleteEvent(event);
+      } catch (err) {
+        if (!(err instanceof StillReferencedError)) throw err;
+        if (!confirm(`${err.message}\n\nDelete anyway and leave those links broken?`)) return;
+        await deleteEvent(event, { force: true });
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setError(`Failed to delete event: ${message}`);
+      return;
+    }
+
     setEvents((prev) => prev.filter((e) => e.eventId !== eventId));
     setSelectedEventIds((prev) => prev.filter((id) => id !== eventId));
-    setSuccess("Event deleted. Click 'Save All' to persist changes.");
-  }, []);
+    setSuccess(`Event ${eventId} deleted.`);
+  }, [applySeries, series]);
 
   const handleToggleSelection = useCallback((eventId: string) => {
     setSelectedEventIds((prev) =>
@@ -154,6 +339,23 @@ export default function EventBuilder() {
     );
   }
 
+  if (editingSeries) {
+    return (
+      <EventSeriesEditor
+        series={editingSeries}
+        isCreating={isCreatingSeries}
+        routeGroups={routeGroups}
+        error={error}
+        onSave={handleSaveSeries}
+        onCancel={() => {
+          setEditingSeries(null);
+          setIsCreatingSeries(false);
+          setError(null);
+        }}
+      />
+    );
+  }
+
   // Editing form
   if (editingEvent) {
     return (
@@ -219,6 +421,7 @@ export default function EventBuilder() {
             <label style={{ fontSize: "0.85rem", color: "#999999" }}>Event ID</label>
             <input
               value={editingEvent.eventId}
+              disabled={!isCreating || Boolean(editingEvent.seriesId)}
               onChange={(e) =>
                 setEditingEvent({ ...editingEvent, eventId: e.target.value })
               }
@@ -231,6 +434,12 @@ export default function EventBuilder() {
               }}
               placeholder="SUC-037"
             />
+            {editingEvent.seriesId && (
+              <div style={{ fontSize: "0.75rem", color: "#7e8798" }}>
+                Part of series {editingEvent.seriesId}. Changes here apply to this date only
+                and are kept when the series is edited.
+              </div>
+            )}
           </div>
 
           <div style={{ display: "grid", gap: "0.5rem" }}>
@@ -357,28 +566,14 @@ export default function EventBuilder() {
             />
           </div>
 
-          <div style={{ display: "grid", gap: "0.5rem" }}>
-            <label style={{ fontSize: "0.85rem", color: "#999999" }}>
-              Start Location URL
-            </label>
-            <input
-              value={editingEvent.startLocationUrl || ""}
-              onChange={(e) =>
-                setEditingEvent({
-                  ...editingEvent,
-                  startLocationUrl: e.target.value,
-                })
-              }
-              style={{
-                padding: "0.5rem",
-                border: "1px solid #2b2b2b",
-                borderRadius: "4px",
-                backgroundColor: "#0b0b0b",
-                color: "#f5f5f5",
-              }}
-              placeholder="https://maps.google.com/..."
-            />
-          </div>
+          <StartLocationPicker
+            url={editingEvent.startLocationUrl || ""}
+            coordinates={editingEvent.startLocationCoordinates}
+            tracks={routeTracks}
+            tracksLoading={routeTracksLoading}
+            tracksError={routeTracksError}
+            onChange={(update) => setEditingEvent({ ...editingEvent, ...update })}
+          />
 
           <div style={{ display: "grid", gap: "0.5rem" }}>
             <label style={{ fontSize: "0.85rem", color: "#999999" }}>
@@ -437,6 +632,35 @@ export default function EventBuilder() {
       >
         <h2 style={{ margin: 0, color: "#f5f5f5" }}>Event Builder</h2>
         <div style={{ display: "flex", gap: "0.5rem" }}>
+          <a
+            href={buildStudioApiUrl("/events/calendar.ics")}
+            target="_blank"
+            rel="noreferrer"
+            style={{
+              padding: "0.5rem 1rem",
+              color: "#9ca3af",
+              border: "1px solid #3a3a3a",
+              borderRadius: "4px",
+              fontSize: "0.875rem",
+              textDecoration: "none",
+            }}
+          >
+            Calendar (.ics)
+          </a>
+          <button
+            onClick={handleCreateSeries}
+            style={{
+              padding: "0.5rem 1rem",
+              backgroundColor: "#111111",
+              color: "#f5f5f5",
+              border: "1px solid #3a3a3a",
+              borderRadius: "4px",
+              cursor: "pointer",
+              fontSize: "0.875rem",
+            }}
+          >
+            Create Series
+          </button>
           <button
             onClick={handleCreateNew}
             style={{
@@ -499,6 +723,75 @@ export default function EventBuilder() {
         </div>
       )}
 
+      {series.length > 0 && (
+        <div style={{ display: "grid", gap: "0.5rem", marginBottom: "1.5rem" }}>
+          <div style={{ color: "#999999", fontSize: "0.85rem" }}>Series</div>
+          {series.map((item) => {
+            const count = events.filter((event) => event.seriesId === item.seriesId).length;
+            const overrideCount = Object.keys(item.overrides).length;
+            return (
+              <div
+                key={item.seriesId}
+                style={{
+                  display: "flex",
+                  justifyContent: "space-between",
+                  alignItems: "center",
+                  padding: "0.75rem 1rem",
+                  border: "1px solid #2a2a2a",
+                  borderRadius: "6px",
+                  backgroundColor: "#111827",
+                }}
+              >
+                <div>
+                  <div style={{ fontWeight: "600", color: "#f5f5f5" }}>
+                    {item.seriesId} - {item.defaults.eventName}
+                  </div>
+                  <div style={{ fontSize: "0.8rem", color: "#9ca3af", marginTop: "0.25rem" }}>
+                    {describeSeriesRule(item)} · {count} events
+                    {overrideCount > 0 && ` · ${overrideCount} edited`}
+                  </div>
+                </div>
+                <div style={{ display: "flex", gap: "0.5rem" }}>
+                  <button
+                    onClick={() => {
+                      setEditingSeries(item);
+                      setIsCreatingSeries(false);
+                      setError(null);
+                      setSuccess(null);
+                    }}
+                    style={{
+                      padding: "0.5rem 1rem",
+                      fontSize: "0.75rem",
+                      borderRadius: "4px",
+                      border: "1px solid #3a3a3a",
+                      backgroundColor: "#111111",
+                      color: "#f5f5f5",
+                      cursor: "pointer",
+                    }}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDeleteSeries(item.seriesId)}
+                    style={{
+                      padding: "0.5rem 1rem",
+                      fontSize: "0.75rem",
+                      borderRadius: "4px",
+                      border: "1px solid #ff5a5a",
+                      backgroundColor: "#111111",
+                      color: "#ff5a5a",
+                      cursor: "pointer",
+                    }}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {events.length === 0 ? (
         <div style={{ textAlign: "center", padding: "3rem", color: "#999999" }}>
           No events yet. Click "Create New Event" to get started.
@@ -507,6 +800,7 @@ export default function EventBuilder() {
         <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
           {events.map((event) => {
             const isSelected = selectedEventIds.includes(event.eventId);
+            const hasBriefing = event.type === "race" || event.type === "camp";
             return (
               <div
                 key={event.eventId}
@@ -528,6 +822,7 @@ export default function EventBuilder() {
                     </div>
                     <div style={{ fontSize: "0.8rem", color: "#9ca3af", marginTop: "0.35rem" }}>
                       Type: {(event.type ?? "training-run").replace("-", " ")}
+                      {event.seriesId && ` · Series ${event.seriesId}`}
                     </div>
                     {event.eventDate && (
                       <div style={{ fontSize: "0.875rem", color: "#999999", marginTop: "0.25rem" }}>
@@ -542,6 +837,46 @@ export default function EventBuilder() {
                   </div>
 
                   <div style={{ display: "flex", gap: "0.5rem", alignItems: "flex-start" }}>
+                    {hasBriefing && (
+                      <a
+                        href={buildStudioApiUrl(
+                          `/events/${encodeURIComponent(event.eventId)}/briefing?format=html`
+                        )}
+                        target="_blank"
+                        rel="noreferrer"
+                        title="Print-ready briefing for volunteers"
+                        style={{
+                          padding: "0.5rem 1rem",
+                          fontSize: "0.75rem",
+                          borderRadius: "4px",
+                          border: "1px solid #3a3a3a",
+                          backgroundColor: "#111111",
+                          color: "#9ca3af",
+                          textDecoration: "none",
+                        }}
+                      >
+                        Briefing
+                      </a>
+                    )}
+                    {hasBriefing && (
+                      <a
+                        href={buildStudioApiUrl(
+                          `/events/${encodeURIComponent(event.eventId)}/briefing?format=md`
+                        )}
+                        download={`${event.eventId}-briefing.md`}
+                        style={{
+                          padding: "0.5rem 1rem",
+                          fontSize: "0.75rem",
+                          borderRadius: "4px",
+                          border: "1px solid #3a3a3a",
+                          backgroundColor: "#111111",
+                          color: "#9ca3af",
+                          textDecoration: "none",
+                        }}
+                      >
+                        .md
+                      </a>
+                    )}
                     <button
                       onClick={() => handleToggleSelection(event.eventId)}
                       style={{
@@ -571,7 +906,7 @@ export default function EventBuilder() {
                       Edit
                     </button>
                     <button
-                      onClick={() => handleDelete(event.eventId)}
+                      onClick={() => handleDelete(event)}
                       style={{
                         padding: "0.5rem 1rem",
                         fontSize: "0.75rem",
@@ -582,7 +917,7 @@ export default function EventBuilder() {
                         cursor: "pointer",
                       }}
                     >
-                      Delete
+                      {event.seriesId ? "Skip" : "Delete"}
                     </button>
                   </div>
                 </div>
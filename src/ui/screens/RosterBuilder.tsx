@@ -1,17 +1,68 @@
-import { useEffect, useMemo, useState } from "react";
-import type { RosterMember } from "../types/studio";
+import { Fragment, useEffect, useMemo, useRef, useState } from "react";
+import type { RosterMember, RosterZoneProfile } from "../types/studio";
 import { exportJson } from "../utils/storage";
 import { assertRoster } from "../utils/studioValidation";
 import { parseRosterCsv } from "../../utils/parseRosterCsv";
 import { buildStudioApiUrl } from "../utils/studioApi";
+import { handleError } from "../utils/api";
 
 const ROSTER_FILE = "roster.json";
 const ROSTER_API = buildStudioApiUrl("/roster");
 
+const ZONE_LABELS = ["Z1", "Z2", "Z3", "Z4", "Z5"];
+// %max HR per zone, used for placeholders when only max HR is known.
+const ZONE_PERCENT_MAX: Record<string, [number, number]> = {
+  Z1: [0.55, 0.65],
+  Z2: [0.65, 0.75],
+  Z3: [0.75, 0.85],
+  Z4: [0.85, 0.9],
+  Z5: [0.9, 1],
+};
+const PACE_PATTERN = /^\d{1,2}:\d{2}\s*([-\u2013]\s*\d{1,2}:\d{2}\s*)?(\/\s*(mi|km))?$/;
+
+const zoneInputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "0.5rem",
+  borderRadius: "4px",
+  border: "1px solid #2b2b2b",
+  backgroundColor: "#0b0b0b",
+  color: "#f5f5f5",
+};
+
 function isValidEmail(email: string): boolean {
   return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
 }
 
+function parseHrRange(text: string): [number, number] | null {
+  const match = text.trim().match(/^(\d+(?:\.\d+)?)\s*[-\u2013]\s*(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const [low, high] = [Number(match[1]), Number(match[2])];
+  return low <= high ? [low, high] : [high, low];
+}
+
+/** Drop empty fields so a member without zones has no `zones` key at all. */
+function compactZoneProfile(profile: RosterZoneProfile): RosterZoneProfile | undefined {
+  const hrZones = profile.hr?.zones ?? {};
+  const paceZones = Object.fromEntries(
+    Object.entries(profile.pace?.zones ?? {}).filter(([, pace]) => pace.trim())
+  );
+  const hr = {
+    ...(profile.hr?.max ? { max: profile.hr.max } : {}),
+    ...(profile.hr?.threshold ? { threshold: profile.hr.threshold } : {}),
+    ...(Object.keys(hrZones).length ? { zones: hrZones } : {}),
+  };
+  const pace = {
+    ...(profile.pace?.threshold?.trim() ? { threshold: profile.pace.threshold } : {}),
+    ...(Object.keys(paceZones).length ? { zones: paceZones } : {}),
+  };
+  const next: RosterZoneProfile = {
+    ...(Object.keys(hr).length ? { hr } : {}),
+    ...(Object.keys(pace).length ? { pace } : {}),
+    ...(profile.preferredUnits ? { preferredUnits: profile.preferredUnits } : {}),
+  };
+  return Object.keys(next).length ? next : undefined;
+}
+
 export default function RosterBuilder() {
   const [roster, setRoster] = useState<RosterMember[]>([]);
   const [search, setSearch] = useState("");
@@ -21,6 +72,8 @@ export default function RosterBuilder() {
   const [message, setMessage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  // Revision of the roster we last read or wrote; a save from a stale copy gets a 409.
+  const rosterEtag = useRef<string | null>(null);
 
   useEffect(() => {
     const loadData = async () => {
@@ -29,6 +82,7 @@ export default function RosterBuilder() {
         if (!response.ok) {
           throw new Error(`Failed to load roster: ${response.status}`);
         }
+        rosterEtag.current = response.headers.get("ETag");
         const rosterData = (await response.json()) as unknown;
         assertRoster(rosterData);
         setRoster(rosterData);
@@ -94,12 +148,16 @@ export default function RosterBuilder() {
       assertRoster(nextRoster);
       const response = await fetch(ROSTER_API, {
         method: "PUT",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...(rosterEtag.current ? { "If-Match": rosterEtag.current } : {}),
+        },
         body: JSON.stringify(nextRoster, null, 2),
       });
       if (!response.ok) {
-        throw new Error(`Failed to save roster: ${response.status}`);
+        await handleError(response, "Save roster");
       }
+      rosterEtag.current = response.headers.get("ETag");
       setRoster(nextRoster);
       setSelectedId(draft.id);
       setMessage("Roster saved.");
@@ -171,12 +229,16 @@ export default function RosterBuilder() {
       assertRoster(mergedRoster);
       const response = await fetch(ROSTER_API, {
         method: "PUT",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...(rosterEtag.current ? { "If-Match": rosterEtag.current } : {}),
+        },
         body: JSON.stringify(mergedRoster, null, 2),
       });
       if (!response.ok) {
-        throw new Error(`Failed to save roster: ${response.status}`);
+        await handleError(response, "Save roster");
       }
+      rosterEtag.current = response.headers.get("ETag");
 
       setRoster(mergedRoster);
       const nextSelected = selectedId && mergedRosterMap.has(selectedId) ? selectedId : mergedRoster[0]?.id ?? null;
@@ -531,6 +593,12 @@ export default function RosterBuilder() {
                 </label>
               ))}
             </div>
+
+            <ZoneProfileEditor
+              key={selectedId ?? "new"}
+              value={draft.zones}
+              onChange={(zones) => updateDraft({ zones })}
+            />
           </div>
         ) : (
           <div style={{ color: "#999999" }}>Select a roster member to edit.</div>
@@ -539,3 +607,153 @@ export default function RosterBuilder() {
     </div>
   );
 }
+
+function ZoneProfileEditor({
+  value,
+  onChange,
+}: {
+  value?: RosterZoneProfile;
+  onChange: (next: RosterZoneProfile | undefined) => void;
+}) {
+  const profile = value ?? {};
+  // HR zones are typed as "150-165"; the text is kept while it is incomplete.
+  const [hrText, setHrText] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      Object.entries(value?.hr?.zones ?? {}).map(([zone, [low, high]]) => [zone, `${low}-${high}`])
+    )
+  );
+  const maxHr = profile.hr?.max;
+
+  const update = (next: RosterZoneProfile) => onChange(compactZoneProfile(next));
+  const updateHr = (patch: Partial<NonNullable<RosterZoneProfile["hr"]>>) =>
+    update({ ...profile, hr: { ...profile.hr, ...patch } });
+  const updatePace = (patch: Partial<NonNullable<RosterZoneProfile["pace"]>>) =>
+    update({ ...profile, pace: { ...profile.pace, ...patch } });
+  const toNumber = (text: string) => (text.trim() ? Number(text) : undefined);
+
+  const handleHrZone = (zone: string, text: string) => {
+    setHrText((prev) => ({ ...prev, [zone]: text }));
+    const zones = { ...profile.hr?.zones };
+    const range = parseHrRange(text);
+    if (range) zones[zone] = range;
+    else delete zones[zone];
+    updateHr({ zones });
+  };
+
+  const paceBorder = (pace: string | undefined) =>
+    pace && !PACE_PATTERN.test(pace.trim()) ? "1px solid #ff5a5a" : "1px solid #2b2b2b";
+
+  return (
+    <div>
+      <div style={{ fontWeight: 600, marginBottom: "0.25rem", color: "#f5f5f5" }}>
+        Training Zones
+      </div>
+      <div style={{ fontSize: "0.75rem", color: "#999999", marginBottom: "0.75rem" }}>
+        Used to show workouts in this member&apos;s own HR and pace. HR zones left blank use % of
+        max HR.
+      </div>
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(4, 1fr)",
+          gap: "1rem",
+          marginBottom: "1rem",
+        }}
+      >
+        <div>
+          <label style={{ fontSize: "0.75rem", color: "#999999" }}>Max HR</label>
+          <input
+            type="number"
+            min={1}
+            value={maxHr ?? ""}
+            onChange={(event) => updateHr({ max: toNumber(event.target.value) })}
+            placeholder="bpm"
+            style={zoneInputStyle}
+          />
+        </div>
+        <div>
+          <label style={{ fontSize: "0.75rem", color: "#999999" }}>Threshold HR</label>
+          <input
+            type="number"
+            min={1}
+            value={profile.hr?.threshold ?? ""}
+            onChange={(event) => updateHr({ threshold: toNumber(event.target.value) })}
+            placeholder="bpm"
+            style={zoneInputStyle}
+          />
+        </div>
+        <div>
+          <label style={{ fontSize: "0.75rem", color: "#999999" }}>Threshold Pace</label>
+          <input
+            value={profile.pace?.threshold ?? ""}
+            onChange={(event) => updatePace({ threshold: event.target.value })}
+            placeholder="7:30/mi"
+            style={{ ...zoneInputStyle, border: paceBorder(profile.pace?.threshold) }}
+          />
+        </div>
+        <div>
+          <label style={{ fontSize: "0.75rem", color: "#999999" }}>Units</label>
+          <select
+            value={profile.preferredUnits ?? ""}
+            onChange={(event) =>
+              update({
+                ...profile,
+                preferredUnits: (event.target.value || undefined) as
+                  | RosterZoneProfile["preferredUnits"]
+                  | undefined,
+              })
+            }
+            style={zoneInputStyle}
+          >
+            <option value="">From pace zones</option>
+            <option value="mi">Miles</option>
+            <option value="km">Kilometers</option>
+          </select>
+        </div>
+      </div>
+
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "3rem 1fr 1fr",
+          gap: "0.5rem 1rem",
+          alignItems: "center",
+        }}
+      >
+        <span />
+        <span style={{ fontSize: "0.75rem", color: "#999999" }}>HR (bpm)</span>
+        <span style={{ fontSize: "0.75rem", color: "#999999" }}>Pace</span>
+        {ZONE_LABELS.map((zone) => {
+          const pace = profile.pace?.zones?.[zone];
+          const hr = hrText[zone] ?? "";
+          const [low, high] = ZONE_PERCENT_MAX[zone];
+          return (
+            <Fragment key={zone}>
+              <span style={{ color: "#f5f5f5", fontWeight: 600 }}>{zone}</span>
+              <input
+                value={hr}
+                onChange={(event) => handleHrZone(zone, event.target.value)}
+                placeholder={
+                  maxHr ? `${Math.round(low * maxHr)}-${Math.round(high * maxHr)}` : "150-165"
+                }
+                style={{
+                  ...zoneInputStyle,
+                  border:
+                    hr.trim() && !parseHrRange(hr) ? "1px solid #ff5a5a" : "1px solid #2b2b2b",
+                }}
+              />
+              <input
+                value={pace ?? ""}
+                onChange={(event) =>
+                  updatePace({ zones: { ...profile.pace?.zones, [zone]: event.target.value } })
+                }
+                placeholder="7:20-7:30/mi"
+                style={{ ...zoneInputStyle, border: paceBorder(pace) }}
+              />
+            </Fragment>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -15,6 +15,7 @@ import {
 } from "../../utils/api";
 import { validateRouteIntel, toErrorMap } from "../../utils/validation";
 import type { ValidationError } from "../../utils/validation";
+import type { RouteElevationStats } from "../../../route-stats";
 import useRouteContext from "../../hooks/useRouteContext";
 import RouteMapPreview from "../../components/route-context/RouteMapPreview";
 import RouteElevationPreview from "../../components/route-context/RouteElevationPreview";
@@ -51,11 +52,13 @@ type SectionPreview = {
   endDistanceMi: number;
   distanceMi: number;
   elevationGainFt: number;
+  elevationLossFt?: number;
 };
 
 type PreviewState = {
   status: "idle" | "loading" | "ready" | "error";
   sections: SectionPreview[];
+  stats?: RouteElevationStats;
   error?: string;
 };
 
@@ -216,11 +219,14 @@ export default function RouteIntelBuilder() {
       if (!response.ok) {
         throw new Error(`Preview failed with ${response.status}`);
       }
-      const data = (await response.json()) as { sections?: SectionPreview[] };
+      const data = (await response.json()) as {
+        sections?: SectionPreview[];
+        stats?: RouteElevationStats;
+      };
       const sections = Array.isArray(data.sections) ? data.sections : [];
       setPreviews((prev) => ({
         ...prev,
-        [route.routeId]: { status: "ready", sections },
+        [route.routeId]: { status: "ready", sections, stats: data.stats },
       }));
     } catch (err) {
       const message = err instanceof Error ? err.message : "Preview unavailable";
@@ -994,6 +1000,13 @@ export default function RouteIntelBuilder() {
                   Preview error: {activePreview.error}
                 </div>
               )}
+              {activePreview.status === "ready" && activePreview.stats && (
+                <div style={{ color: "#9aa1ad", fontSize: "0.8rem" }}>
+                  {formatMiles(activePreview.stats.distanceMi)} mi · +{formatFeet(activePreview.stats.gainFt)} ft / -
+                  {formatFeet(activePreview.stats.lossFt)} ft · {formatFeet(activePreview.stats.minElevationFt)}-
+                  {formatFeet(activePreview.stats.maxElevationFt)} ft elevation
+                </div>
+              )}
               {activePreview.status === "ready" && activePreview.sections.length === 0 && (
                 <div style={{ color: "#999999", fontSize: "0.8rem" }}>
                   No sections derived. Enable POIs to create boundaries.
@@ -1025,7 +1038,10 @@ export default function RouteIntelBuilder() {
                       </div>
                       <div style={{ display: "flex", gap: "0.75rem", fontSize: "0.75rem", color: "#9aa1ad" }}>
                         <span>{formatMiles(section.distanceMi)} mi</span>
-                        <span>{formatFeet(section.elevationGainFt)} ft</span>
+                        <span>+{formatFeet(section.elevationGainFt)} ft</span>
+                        {Number.isFinite(section.elevationLossFt) && (
+                          <span>-{formatFeet(section.elevationLossFt)} ft</span>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -2,7 +2,15 @@ import { useState, useCallback, useMemo, useEffect } from "react";
 import DropZone from "../components/DropZone";
 import RouteCard from "../components/RouteCard";
 import RoutePoiPanel from "../components/RoutePoiPanel";
-import type { ParsedRoute, StagedRoute, RouteLabel, RouteGroupSummary } from "../types";
+import RouteHistoryDrawer from "../components/RouteHistoryDrawer";
+import type {
+  ParsedRoute,
+  StagedRoute,
+  RouteLabel,
+  RouteGroupSummary,
+  RouteMeta,
+  RouteSimplificationConfig,
+} from "../types";
 import {
   importGPX,
   saveRouteGroup,
@@ -10,16 +18,33 @@ import {
   getRouteVariantPreview,
   deleteRouteGroup,
   deleteRouteVariant,
+  StillReferencedError,
   getRouteGroup,
+  getRouteVariantExportUrl,
 } from "../utils/api";
 import { ROUTE_COLORS, labelForRank } from "../utils/routeLabels";
+import { DEFAULT_TRACK_SIMPLIFICATION } from "../../route-stats";
 
 const VARIANT_LABELS: RouteLabel[] = ["MED", "LRG", "XL", "XXL"];
 
+const DEFAULT_SIMPLIFICATION: RouteSimplificationConfig = {
+  enabled: false,
+  ...DEFAULT_TRACK_SIMPLIFICATION,
+};
+
 function normalizeVariant(label: string): RouteLabel {
   return String(label).toUpperCase() as RouteLabel;
 }
 
+const simplificationInputStyle = {
+  padding: "0.35rem",
+  border: "1px solid #2b2b2b",
+  borderRadius: "4px",
+  backgroundColor: "#0b0b0b",
+  color: "#f5f5f5",
+  fontSize: "0.8rem",
+};
+
 function vertDifficulty(ft: number): string {
   if (!Number.isFinite(ft)) return "n/a";
   if (ft < 1500) return "low";
@@ -39,12 +64,15 @@ export default function RouteManager() {
     Record<string, Partial<Record<RouteLabel, ParsedRoute>>>
   >({});
   const [libraryErrors, setLibraryErrors] = useState<Record<string, string>>({});
+  const [historyGroupId, setHistoryGroupId] = useState<string | null>(null);
 
   // Form state
   const [activeRouteGroupId, setActiveRouteGroupId] = useState<string | null>(null);
   const [routeName, setRouteName] = useState("");
   const [location, setLocation] = useState("");
   const [notes, setNotes] = useState("");
+  const [simplification, setSimplification] =
+    useState<RouteSimplificationConfig>(DEFAULT_SIMPLIFICATION);
 
   const orderedRoutes = useMemo(
     () => [...routes].sort((a, b) => a.distanceMi - b.distanceMi),
@@ -63,6 +91,7 @@ export default function RouteManager() {
       setRouteName("");
       setLocation("");
       setNotes("");
+      setSimplification(DEFAULT_SIMPLIFICATION);
       return;
     }
 
@@ -73,6 +102,7 @@ export default function RouteManager() {
       setRouteName("");
       setLocation("");
       setNotes("");
+      setSimplification(DEFAULT_SIMPLIFICATION);
       return;
     }
 
@@ -84,6 +114,7 @@ export default function RouteManager() {
         setRouteName(meta?.name ?? "");
         setLocation(meta?.location ?? "");
         setNotes(meta?.notes ?? "");
+        setSimplification(meta?.simplification ?? DEFAULT_SIMPLIFICATION);
       })
       .catch((err) => {
         const msg = err instanceof Error ? err.message : "Failed to load route metadata";
@@ -179,14 +210,18 @@ export default function RouteManager() {
 
     for (const file of files) {
       try {
-        const parsed = await importGPX(file);
-        const gpxContent = await file.text();
+        const { gpxContent: convertedGpx, ...parsed } = await importGPX(file, {
+          routeGroupId: activeRouteGroupId ?? undefined,
+          simplification,
+        });
+        const gpxContent = convertedGpx ?? (await file.text());
 
         newRoutes.push({
           ...parsed,
           id: crypto.randomUUID(),
           label: "MED", // Will be reassigned
           gpxContent,
+          sourceFile: file,
         });
       } catch (err) {
         const message = err instanceof Error ? err.message : "Unknown error";
@@ -215,7 +250,36 @@ export default function RouteManager() {
     if (errors.length > 0) {
       setError(errors.join("\n"));
     }
-  }, []);
+  }, [activeRouteGroupId, simplification]);
+
+  const handleReapplySimplification = useCallback(async () => {
+    const staged = routes.filter((route) => route.sourceFile);
+    if (staged.length === 0) return;
+    setIsProcessing(true);
+    setError(null);
+    const updates = new Map<string, StagedRoute>();
+    const errors: string[] = [];
+    for (const route of staged) {
+      try {
+        const file = route.sourceFile as File;
+        const { gpxContent: convertedGpx, ...parsed } = await importGPX(file, { simplification });
+        updates.set(route.id, {
+          ...route,
+          ...parsed,
+          simplification: parsed.simplification,
+          gpxContent: convertedGpx ?? (await file.text()),
+        });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        errors.push(`${route.fileName}: ${message}`);
+      }
+    }
+    setRoutes((prev) => prev.map((route) => updates.get(route.id) ?? route));
+    setIsProcessing(false);
+    if (errors.length > 0) {
+      setError(errors.join("\n"));
+    }
+  }, [routes, simplification]);
 
   const handleLabelChange = useCallback((id: string, label: RouteLabel) => {
     setRoutes((prev) =>
@@ -281,7 +345,15 @@ export default function RouteManager() {
       const ok = window.confirm(`Delete route group ${groupId}? This cannot be undone.`);
       if (!ok) return;
       try {
-        await deleteRouteGroup(groupId);
+        try {
+          await deleteRouteGroup(groupId);
+        } catch (err) {
+          if (!(err instanceof StillReferencedError)) throw err;
+          if (!window.confirm(`${err.message}\n\nDelete anyway and leave those links broken?`)) {
+            return;
+          }
+          await deleteRouteGroup(groupId, { force: true });
+        }
         setExistingGroups((prev) => prev.filter((group) => group.routeGroupId !== groupId));
         setLibraryStats((prev) => {
           const next = { ...prev };
@@ -304,7 +376,16 @@ export default function RouteManager() {
       const ok = window.confirm(`Delete ${groupId} ${label} variant?`);
       if (!ok) return;
       try {
-        const updated = await deleteRouteVariant(groupId, label);
+        let updated: RouteMeta;
+        try {
+          updated = await deleteRouteVariant(groupId, label);
+        } catch (err) {
+          if (!(err instanceof StillReferencedError)) throw err;
+          if (!window.confirm(`${err.message}\n\nDelete anyway and leave those links broken?`)) {
+            return;
+          }
+          updated = await deleteRouteVariant(groupId, label, { force: true });
+        }
         setExistingGroups((prev) =>
           prev.map((group) =>
             group.routeGroupId === groupId ? { ...group, variants: updated.variants } : group
@@ -322,6 +403,31 @@ export default function RouteManager() {
     []
   );
 
+  const handleRevisionRestored = useCallback(
+    (meta: RouteMeta) => {
+      setExistingGroups((prev) =>
+        prev.map((group) =>
+          group.routeGroupId === meta.routeGroupId
+            ? {
+                ...group,
+                name: meta.name,
+                location: meta.location,
+                variants: meta.variants,
+              }
+            : group
+        )
+      );
+      // Drop cached previews so restored GPX is re-read.
+      setLibraryStats((prev) => {
+        const next = { ...prev };
+        delete next[meta.routeGroupId];
+        return next;
+      });
+      setSuccess(`Restored ${meta.routeGroupId} from history.`);
+    },
+    []
+  );
+
   const routeLibrary = (
     <aside
       style={{
@@ -402,6 +508,24 @@ export default function RouteManager() {
                   >
                     Duplicate
                   </button>
+                  <button
+                    type="button"
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      setHistoryGroupId(group.routeGroupId);
+                    }}
+                    style={{
+                      padding: "0.25rem 0.4rem",
+                      fontSize: "0.7rem",
+                      borderRadius: "4px",
+                      border: "1px solid #2b2b2b",
+                      background: "#131a2a",
+                      color: "#cbd5f5",
+                      cursor: "pointer",
+                    }}
+                  >
+                    History
+                  </button>
                   <button
                     type="button"
                     onClick={(event) => {
@@ -481,7 +605,10 @@ export default function RouteManager() {
                                 {label}
                               </span>
                               <span>{preview.distanceMi.toFixed(1)} mi</span>
-                              <span>{preview.elevationFt.toFixed(0)} ft</span>
+                              <span>+{preview.elevationFt.toFixed(0)} ft</span>
+                              {preview.elevationStats && (
+                                <span>-{preview.elevationStats.lossFt.toFixed(0)} ft</span>
+                              )}
                               <span>{vertDifficulty(preview.elevationFt)}</span>
                             </div>
                           )}
@@ -527,6 +654,25 @@ export default function RouteManager() {
                           )}
                         </div>
                         <div style={{ display: "flex", alignItems: "center", gap: "0.35rem" }}>
+                          {hasVariant && (
+                            <a
+                              href={getRouteVariantExportUrl(group.routeGroupId, label)}
+                              download
+                              title="Download GPX with POIs as waypoints"
+                              onClick={(event) => event.stopPropagation()}
+                              style={{
+                                border: "1px solid #2b2b2b",
+                                background: "#131a2a",
+                                color: "#cbd5f5",
+                                borderRadius: "4px",
+                                fontSize: "0.65rem",
+                                padding: "0.15rem 0.35rem",
+                                textDecoration: "none",
+                              }}
+                            >
+                              gpx
+                            </a>
+                          )}
                           {hasVariant && (
                             <button
                               type="button"
@@ -616,6 +762,7 @@ export default function RouteManager() {
         name: routeName,
         location,
         notes,
+        simplification,
       });
 
       const uploadCandidates = routes.filter((route) => route.gpxContent?.trim());
@@ -628,10 +775,15 @@ export default function RouteManager() {
         const uploadErrors: string[] = [];
         for (const [label, route] of uniqueByLabel.entries()) {
           try {
-            const fileName = `${groupId}-${label}.gpx`;
-            const file = new File([route.gpxContent], fileName, {
-              type: "application/gpx+xml",
-            });
+            // Re-send the original upload so the server archives it and
+            // simplifies with the group's saved config.
+            const sourceExt = route.sourceFile?.name.match(/\.[^/.]+$/)?.[0] ?? ".gpx";
+            const fileName = `${groupId}-${label}${sourceExt}`;
+            const file = route.sourceFile
+              ? new File([route.sourceFile], fileName, { type: route.sourceFile.type })
+              : new File([route.gpxContent], fileName, {
+                  type: "application/gpx+xml",
+                });
             await importGPX(file);
           } catch (err) {
             const message =
@@ -671,7 +823,7 @@ export default function RouteManager() {
     } finally {
       setIsProcessing(false);
     }
-  }, [activeRouteGroupId, activeRouteGroup, routeName, location, notes, routes]);
+  }, [activeRouteGroupId, activeRouteGroup, routeName, location, notes, simplification, routes]);
 
   const routeSidebar = (
     <div style={{ display: "flex", flexDirection: "column", gap: "1.5rem" }}>
@@ -771,6 +923,126 @@ export default function RouteManager() {
               placeholder="Optional notes about this route group"
             />
           </div>
+
+          <div style={{ display: "grid", gap: "0.5rem" }}>
+            <label style={{ fontSize: "0.85rem", color: "#999999", fontWeight: "500" }}>
+              <input
+                type="checkbox"
+                checked={simplification.enabled}
+                onChange={(e) =>
+                  setSimplification((prev) => ({ ...prev, enabled: e.target.checked }))
+                }
+              />{" "}
+              Simplify imported tracks
+            </label>
+            {simplification.enabled && (
+              <div
+                style={{
+                  display: "grid",
+                  gridTemplateColumns: "repeat(2, minmax(0, 1fr))",
+                  gap: "0.5rem",
+                  fontSize: "0.75rem",
+                  color: "#9aa3b2",
+                }}
+              >
+                <label style={{ display: "grid", gap: "0.25rem" }}>
+                  Algorithm
+                  <select
+                    value={simplification.algorithm}
+                    onChange={(e) =>
+                      setSimplification((prev) => ({
+                        ...prev,
+                        algorithm: e.target.value as RouteSimplificationConfig["algorithm"],
+                      }))
+                    }
+                    style={simplificationInputStyle}
+                  >
+                    <option value="douglas-peucker">Douglas-Peucker</option>
+                    <option value="visvalingam">Visvalingam</option>
+                  </select>
+                </label>
+                <label style={{ display: "grid", gap: "0.25rem" }}>
+                  Tolerance (m)
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={0.5}
+                    value={simplification.toleranceM}
+                    onChange={(e) =>
+                      setSimplification((prev) => ({
+                        ...prev,
+                        toleranceM: Math.max(0, Number(e.target.value) || 0),
+                      }))
+                    }
+                    style={simplificationInputStyle}
+                  />
+                </label>
+                <label style={{ display: "grid", gap: "0.25rem" }}>
+                  Max gap (m, 0 = off)
+                  <input
+                    type="number"
+                    min={0}
+                    max={1000}
+                    step={5}
+                    value={simplification.maxSegmentM}
+                    onChange={(e) =>
+                      setSimplification((prev) => ({
+                        ...prev,
+                        maxSegmentM: Math.max(0, Number(e.target.value) || 0),
+                      }))
+                    }
+                    style={simplificationInputStyle}
+                  />
+                </label>
+                <label style={{ display: "grid", gap: "0.25rem" }}>
+                  Point budget (blank = none)
+                  <input
+                    type="number"
+                    min={2}
+                    step={100}
+                    value={simplification.maxPoints ?? ""}
+                    onChange={(e) =>
+                      setSimplification((prev) => ({
+                        ...prev,
+                        maxPoints: e.target.value ? Math.max(2, Number(e.target.value)) : null,
+                      }))
+                    }
+                    style={simplificationInputStyle}
+                  />
+                </label>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={simplification.preserveElevation}
+                    onChange={(e) =>
+                      setSimplification((prev) => ({
+                        ...prev,
+                        preserveElevation: e.target.checked,
+                      }))
+                    }
+                  />{" "}
+                  Preserve elevation
+                </label>
+                <button
+                  type="button"
+                  onClick={handleReapplySimplification}
+                  disabled={isProcessing || !routes.some((route) => route.sourceFile)}
+                  style={{
+                    padding: "0.3rem 0.6rem",
+                    borderRadius: "4px",
+                    border: "1px solid #2b2b2b",
+                    background: "#131a2a",
+                    color: "#cbd5f5",
+                    cursor: "pointer",
+                    fontSize: "0.75rem",
+                  }}
+                >
+                  Re-apply to staged
+                </button>
+              </div>
+            )}
+          </div>
         </div>
 
         <button
@@ -807,7 +1079,7 @@ export default function RouteManager() {
               Routes ({routes.length})
             </div>
             <div style={{ color: "#7e8798", fontSize: "0.75rem" }}>
-              Drop GPX files to build the current group.
+              Drop GPX, TCX, FIT or GeoJSON tracks to build the current group.
             </div>
           </div>
           <button
@@ -917,6 +1189,13 @@ export default function RouteManager() {
           />
         </div>
       </main>
+      {historyGroupId && (
+        <RouteHistoryDrawer
+          routeGroupId={historyGroupId}
+          onClose={() => setHistoryGroupId(null)}
+          onRestored={handleRevisionRestored}
+        />
+      )}
     </div>
   );
 }
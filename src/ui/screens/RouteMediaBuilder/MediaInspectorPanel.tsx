@@ -285,6 +285,22 @@ export default function MediaInspectorPanel({
               <option value="landscape">landscape</option>
             </select>
           </div>
+          <div style={{ display: "grid", gap: "0.45rem" }}>
+            <label style={labelStyle}>Timing</label>
+            <select
+              value={draft.playback.timingMode ?? "distance"}
+              onChange={(event) =>
+                onSetPlaybackField(
+                  "timingMode",
+                  event.target.value as RouteMediaDoc["playback"]["timingMode"]
+                )
+              }
+              style={fieldStyle}
+            >
+              <option value="distance">distance</option>
+              <option value="grade-adjusted">grade-adjusted</option>
+            </select>
+          </div>
         </div>
 
         <div style={{ borderTop: "1px solid #1e293b", paddingTop: "0.8rem", display: "grid", gap: "0.55rem" }}>
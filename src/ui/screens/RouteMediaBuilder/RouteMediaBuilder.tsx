@@ -4,7 +4,13 @@ import MediaInspectorPanel from "./MediaInspectorPanel";
 import PreviewPanel from "./PreviewPanel";
 import TimelineBar from "./TimelineBar";
 import CinematicTimelineEditor from "./CinematicTimelineEditor";
-import { buildCameraKeyframes, buildPreviewOverlayLookup, samplePreviewFrame } from "./previewEngine";
+import {
+  buildCameraKeyframes,
+  buildPreviewOverlayLookup,
+  mapMileToProgress,
+  mapProgressToMile,
+  samplePreviewFrame,
+} from "./previewEngine";
 import { usePreviewPlayback } from "./usePreviewPlayback";
 import { useRouteMediaController } from "./useRouteMediaController";
 import { buildRouteOverlayModel } from "../../../../../suc-shared-data/src/route-overlay-primitives.js";
@@ -19,12 +25,21 @@ export default function RouteMediaBuilder() {
   const controller = useRouteMediaController();
 
   const { draft } = controller;
+  const paceTimeline =
+    draft?.playback?.timingMode === "grade-adjusted" ? controller.activePaceTimeline : null;
   const baseDurationSeconds = useMemo(() => {
-    const miles = Math.max(0, controller.activeRouteLengthMiles);
+    const miles = paceTimeline
+      ? paceTimeline.effortMiles[paceTimeline.effortMiles.length - 1] ?? 0
+      : Math.max(0, controller.activeRouteLengthMiles);
     const milesPerSecond = Math.max(0.05, Number(draft?.playback?.milesPerSecond || 1));
     const holdSeconds = Math.max(0, Number(draft?.playback?.holdSeconds || 0));
     return holdSeconds + miles / milesPerSecond;
-  }, [controller.activeRouteLengthMiles, draft?.playback?.holdSeconds, draft?.playback?.milesPerSecond]);
+  }, [
+    controller.activeRouteLengthMiles,
+    draft?.playback?.holdSeconds,
+    draft?.playback?.milesPerSecond,
+    paceTimeline,
+  ]);
 
   const baseDurationMs = Math.max(0, Math.round(baseDurationSeconds * 1000));
 
@@ -204,13 +219,15 @@ export default function RouteMediaBuilder() {
         controller.elevationPoints,
         1200,
         cameraKeyframes,
-        overlayLookup
+        overlayLookup,
+        paceTimeline
       ),
     [
       cameraKeyframes,
       controller.activeRouteStats,
       controller.elevationPoints,
       overlayLookup,
+      paceTimeline,
       previewProgress,
     ]
   );
@@ -300,12 +317,13 @@ export default function RouteMediaBuilder() {
   useEffect(() => {
     if (previewIsPlaying) return;
     const routeMiles = Math.max(0.001, controller.activeRouteLengthMiles);
-    const nextProgress = Math.max(0, Math.min(1, controller.scrubMile / routeMiles));
+    const nextProgress = mapMileToProgress(controller.scrubMile, routeMiles, paceTimeline);
     if (Math.abs(nextProgress - previewProgress) < 1e-4) return;
     seekPreview(nextProgress);
   }, [
     controller.activeRouteLengthMiles,
     controller.scrubMile,
+    paceTimeline,
     previewIsPlaying,
     previewProgress,
     seekPreview,
@@ -315,19 +333,21 @@ export default function RouteMediaBuilder() {
     (mile: number) => {
       const routeMiles = Math.max(0.001, controller.activeRouteLengthMiles);
       const clampedMile = Math.max(0, Math.min(routeMiles, Number(mile) || 0));
-      seekPreview(clampedMile / routeMiles);
+      seekPreview(mapMileToProgress(clampedMile, routeMiles, paceTimeline));
       controller.setScrubMile(clampedMile);
     },
-    [controller.activeRouteLengthMiles, controller.setScrubMile, seekPreview]
+    [controller.activeRouteLengthMiles, controller.setScrubMile, paceTimeline, seekPreview]
   );
 
   const handlePreviewSeekProgress = useCallback(
     (progress: number) => {
       const safeProgress = Math.max(0, Math.min(1, Number(progress) || 0));
       seekPreview(safeProgress);
-      controller.setScrubMile(safeProgress * Math.max(0, controller.activeRouteLengthMiles));
+      controller.setScrubMile(
+        mapProgressToMile(safeProgress, controller.activeRouteLengthMiles, paceTimeline)
+      );
     },
-    [controller.activeRouteLengthMiles, controller.setScrubMile, seekPreview]
+    [controller.activeRouteLengthMiles, controller.setScrubMile, paceTimeline, seekPreview]
   );
 
   const handleStepPreviewFrame = useCallback(() => {
@@ -336,12 +356,15 @@ export default function RouteMediaBuilder() {
     const stepProgress = (1 / fps) * playbackSpeed / safeDuration;
     const nextProgress = Math.max(0, Math.min(1, previewProgress + stepProgress));
     stepPreviewFrame();
-    controller.setScrubMile(nextProgress * Math.max(0, controller.activeRouteLengthMiles));
+    controller.setScrubMile(
+      mapProgressToMile(nextProgress, controller.activeRouteLengthMiles, paceTimeline)
+    );
   }, [
     controller.activeRouteLengthMiles,
     controller.setScrubMile,
     draft?.playback?.fps,
     durationSeconds,
+    paceTimeline,
     playbackSpeed,
     previewProgress,
     stepPreviewFrame,
@@ -353,9 +376,17 @@ export default function RouteMediaBuilder() {
       const clampedTime = Math.max(0, Math.min(safeDurationMs, Number(timeMs) || 0));
       const progress = clampedTime / safeDurationMs;
       seekPreview(progress);
-      controller.setScrubMile(progress * Math.max(0, controller.activeRouteLengthMiles));
+      controller.setScrubMile(
+        mapProgressToMile(progress, controller.activeRouteLengthMiles, paceTimeline)
+      );
     },
-    [cinematicTimeline.totalDurationMs, controller.activeRouteLengthMiles, controller.setScrubMile, seekPreview]
+    [
+      cinematicTimeline.totalDurationMs,
+      controller.activeRouteLengthMiles,
+      controller.setScrubMile,
+      paceTimeline,
+      seekPreview,
+    ]
   );
 
   const handleTimelineChange = useCallback(
@@ -772,6 +803,7 @@ export default function RouteMediaBuilder() {
             titleAttachments={controller.titleAttachments}
             previewActiveEntryIds={previewActiveEntryIds}
             elevationPoints={controller.elevationPoints}
+            elevationStats={controller.activeRouteStats?.elevationStats ?? null}
             routeLengthMiles={controller.activeRouteLengthMiles}
             cursorMile={controller.scrubMile}
             selectedEntryId={controller.selectedEntryId}
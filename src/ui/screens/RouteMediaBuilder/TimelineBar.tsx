@@ -1,4 +1,5 @@
 import { useEffect, useMemo, useRef, useState, type CSSProperties } from "react";
+import type { RouteElevationStats } from "../../../route-stats";
 import ElevationWaveform from "./TimelineBar/ElevationWaveform";
 import {
   detectElevationAnchors,
@@ -43,6 +44,7 @@ type TimelineBarProps = {
   titleAttachments: Record<string, string>;
   previewActiveEntryIds?: ReadonlySet<string>;
   elevationPoints: ElevationPoint[];
+  elevationStats?: RouteElevationStats | null;
   routeLengthMiles: number;
   cursorMile: number | null;
   selectedEntryId: string | null;
@@ -121,6 +123,7 @@ export default function TimelineBar({
   titleAttachments,
   previewActiveEntryIds,
   elevationPoints,
+  elevationStats = null,
   routeLengthMiles,
   cursorMile,
   selectedEntryId,
@@ -489,6 +492,7 @@ export default function TimelineBar({
           columns={downsampledWaveform}
           cursorX={cursorX}
           anchorXs={anchorXs}
+          elevationStats={elevationStats}
         />
       </div>
 
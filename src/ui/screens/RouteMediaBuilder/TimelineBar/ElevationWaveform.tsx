@@ -1,4 +1,5 @@
 import { memo, useEffect, useRef } from "react";
+import type { RouteElevationStats } from "../../../../route-stats";
 import type { ElevationAnchor, ElevationColumn } from "../timelineElevation";
 
 type ElevationWaveformProps = {
@@ -7,6 +8,7 @@ type ElevationWaveformProps = {
   columns: ElevationColumn[];
   cursorX: number | null;
   anchorXs: Array<{ kind: ElevationAnchor["kind"]; x: number }>;
+  elevationStats?: RouteElevationStats | null;
 };
 
 function clamp(value: number, min: number, max: number): number {
@@ -19,7 +21,14 @@ function elevationColorForGrade(gradeDelta: number): string {
   return "rgba(148, 163, 184, 0.52)";
 }
 
-function ElevationWaveformInner({ width, height, columns, cursorX, anchorXs }: ElevationWaveformProps) {
+function ElevationWaveformInner({
+  width,
+  height,
+  columns,
+  cursorX,
+  anchorXs,
+  elevationStats = null,
+}: ElevationWaveformProps) {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
 
   useEffect(() => {
@@ -116,6 +125,18 @@ function ElevationWaveformInner({ width, height, columns, cursorX, anchorXs }: E
         ctx.stroke();
       }
 
+      // Same smoothed totals RouteManager and route intel report.
+      if (elevationStats) {
+        ctx.fillStyle = "rgba(226, 232, 240, 0.78)";
+        ctx.font = '10px "Segoe UI", sans-serif';
+        ctx.textAlign = "left";
+        ctx.fillText(
+          `+${Math.round(elevationStats.gainFt)} ft / -${Math.round(elevationStats.lossFt)} ft`,
+          6,
+          safeHeight - 6
+        );
+      }
+
       if (cursorX !== null && Number.isFinite(cursorX)) {
         const x = clamp(cursorX, 0, safeWidth - 1);
         ctx.strokeStyle = "rgba(250, 204, 21, 0.92)";
@@ -128,7 +149,7 @@ function ElevationWaveformInner({ width, height, columns, cursorX, anchorXs }: E
     });
 
     return () => window.cancelAnimationFrame(raf);
-  }, [width, height, columns, cursorX, anchorXs]);
+  }, [width, height, columns, cursorX, anchorXs, elevationStats]);
 
   return (
     <canvas
@@ -144,4 +144,18 @@ const laneContext = {
   assert.equal(removed.subtitles.length, 0, "entry removal should clear subtitles");
 }
 
+{
+  // Grade-adjusted timing plays flat-equivalent miles; distance timing ignores the timeline.
+  const paceTimeline = { cumulativeMiles: [0, 1, 2], effortMiles: [0, 1, 2.5] };
+  const draft = buildDraft();
+  assert.equal(estimateSecondsAtMile(draft, 2, paceTimeline), 2.5);
+  const graded: RouteMediaDoc = {
+    ...draft,
+    playback: { ...draft.playback, timingMode: "grade-adjusted" },
+  };
+  assert.equal(estimateSecondsAtMile(graded, 1, paceTimeline), 1.5);
+  assert.equal(estimateSecondsAtMile(graded, 2, paceTimeline), 3);
+  assert.equal(estimateSecondsAtMile(graded, 2), 2.5, "missing timeline falls back to distance");
+}
+
 console.log("overlayDraftOps tests passed");
@@ -12,6 +12,7 @@ import {
   normalizeTimelineEntryRange,
   sortTimelineEntries,
 } from "../../utils/routeMediaTimelineGuardrails";
+import { effortMilesAtMile, type GradePaceTimeline } from "../../../route-stats";
 import { canonicalToOverlays } from "./overlays";
 import { detectLaneOverlaps, projectOverlaysToLanes, type TimelineLaneProjectionContext } from "./timelineLanes";
 
@@ -24,17 +25,30 @@ function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, value));
 }
 
-export function estimateSecondsAtMile(draft: RouteMediaDoc, mile: number): number {
+/**
+ * Playback seconds at which the camera reaches `mile`. In grade-adjusted timing
+ * the playback speed applies to flat-equivalent miles from the pace timeline.
+ */
+export function estimateSecondsAtMile(
+  draft: RouteMediaDoc,
+  mile: number,
+  paceTimeline?: GradePaceTimeline | null
+): number {
   const speed = Math.max(0.05, toFinite(draft.playback?.milesPerSecond, 1));
   const hold = Math.max(0, toFinite(draft.playback?.holdSeconds, 0));
-  return hold + Math.max(0, mile) / speed;
+  const playbackMiles =
+    draft.playback?.timingMode === "grade-adjusted" && paceTimeline
+      ? effortMilesAtMile(paceTimeline, mile)
+      : Math.max(0, mile);
+  return hold + playbackMiles / speed;
 }
 
 export function moveEntryToMileInDraft(
   draft: RouteMediaDoc,
   entryId: string,
   mile: number,
-  maxMiles: number
+  maxMiles: number,
+  paceTimeline?: GradePaceTimeline | null
 ): RouteMediaDoc {
   const nextMile = clamp(toFinite(mile, 0), 0, Math.max(0, maxMiles));
   let linkedSubtitleIds: string[] = [];
@@ -63,7 +77,7 @@ export function moveEntryToMileInDraft(
       MIN_SUBTITLE_DURATION_SEC,
       toFinite(subtitle.endSec, 0) - toFinite(subtitle.startSec, 0)
     );
-    const nextStart = estimateSecondsAtMile(draft, nextMile);
+    const nextStart = estimateSecondsAtMile(draft, nextMile, paceTimeline);
     return {
       ...subtitle,
       startSec: nextStart,
@@ -142,6 +156,7 @@ type CreateOverlayInput = {
   generateId: () => string;
   titleAttachments: Record<string, string>;
   laneContext: TimelineLaneProjectionContext;
+  paceTimeline?: GradePaceTimeline | null;
 };
 
 export function createOverlayDraft(input: CreateOverlayInput): {
@@ -149,7 +164,8 @@ export function createOverlayDraft(input: CreateOverlayInput): {
   entryId: string | null;
   error?: string;
 } {
-  const { draft, type, mile, maxMiles, generateId, titleAttachments, laneContext } = input;
+  const { draft, type, mile, maxMiles, generateId, titleAttachments, laneContext, paceTimeline } =
+    input;
   const startMi = clamp(toFinite(mile, 0), 0, Math.max(0, maxMiles));
   const entryId = generateId();
   const entryBase: RouteMediaTimelineEntry = normalizeTimelineEntryRange(
@@ -170,7 +186,7 @@ export function createOverlayDraft(input: CreateOverlayInput): {
   if (type === "poi" || type === "title") {
     const subtitleId = `subtitle-${entryId}`;
     const markerId = `marker-${entryId}`;
-    const startSec = estimateSecondsAtMile(draft, startMi);
+    const startSec = estimateSecondsAtMile(draft, startMi, paceTimeline);
     const holdSeconds = Math.max(0.1, toFinite(draft.playback.holdSeconds, 0.75));
 
     nextEntry = {
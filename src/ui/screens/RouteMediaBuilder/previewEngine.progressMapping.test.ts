@@ -1,5 +1,5 @@
 import assert from "assert/strict";
-import { mapProgressToRouteMapping } from "./previewEngine";
+import { mapMileToProgress, mapProgressToMile, mapProgressToRouteMapping } from "./previewEngine";
 
 const routeStats = {
   coords: [
@@ -33,4 +33,13 @@ assert(Math.abs(clamped.mile - 2) < 1e-9, "progress must clamp to route length")
 assert.equal(clamped.routeIndex, 2, "route index clamps to last index");
 assert.equal(clamped.waveformColumn, 199, "waveform column clamps to last column");
 
+// Grade-adjusted timing: the second mile costs 2x, so it takes two thirds of playback.
+const paceTimeline = { cumulativeMiles: [0, 1, 2], effortMiles: [0, 1, 3] };
+assert(Math.abs(mapProgressToMile(1 / 3, 2, paceTimeline) - 1) < 1e-9, "flat mile plays in the first third");
+assert(Math.abs(mapProgressToMile(2 / 3, 2, paceTimeline) - 1.5) < 1e-9, "climb plays slower");
+assert(Math.abs(mapMileToProgress(1.5, 2, paceTimeline) - 2 / 3) < 1e-9, "mile maps back to progress");
+assert(Math.abs(mapMileToProgress(1, 2) - 0.5) < 1e-9, "distance timing stays linear");
+const graded = mapProgressToRouteMapping(2 / 3, routeStats, elevations, 200, paceTimeline);
+assert(Math.abs(graded.mile - 1.5) < 1e-9, "route mapping honours the pace timeline");
+
 console.log("previewEngine progress mapping tests passed");
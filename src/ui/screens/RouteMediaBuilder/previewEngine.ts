@@ -1,5 +1,10 @@
 import type { RouteMediaCameraDefaults, RouteMediaCameraMode } from "../../types";
 import type { RouteStats } from "../../utils/routeMath";
+import {
+  effortMilesAtMile,
+  mileAtEffortMiles,
+  type GradePaceTimeline,
+} from "../../../route-stats";
 import type { ElevationPoint } from "./timelineElevation";
 import type { TimelineLaneBlock, TimelineLaneId } from "./timelineLanes";
 import { projectOverlaysToLanes } from "./timelineLanes";
@@ -134,11 +139,43 @@ function presetForMode(
   };
 }
 
-export function mapProgressToMile(progress: number, routeLengthMiles: number): number {
+function totalEffortMiles(paceTimeline: GradePaceTimeline): number {
+  return paceTimeline.effortMiles[paceTimeline.effortMiles.length - 1] ?? 0;
+}
+
+/**
+ * Playback progress -> route mile. With a pace timeline (grade-adjusted timing)
+ * progress is spread over flat-equivalent miles, so climbs take longer to play.
+ */
+export function mapProgressToMile(
+  progress: number,
+  routeLengthMiles: number,
+  paceTimeline: GradePaceTimeline | null = null
+): number {
   const safeMiles = Math.max(0, toFinite(routeLengthMiles, 0));
+  if (paceTimeline && totalEffortMiles(paceTimeline) > 0) {
+    const mile = mileAtEffortMiles(paceTimeline, clamp01(progress) * totalEffortMiles(paceTimeline));
+    return clamp(mile, 0, safeMiles);
+  }
   return clamp01(progress) * safeMiles;
 }
 
+/**
+ * Inverse of mapProgressToMile.
+ */
+export function mapMileToProgress(
+  mile: number,
+  routeLengthMiles: number,
+  paceTimeline: GradePaceTimeline | null = null
+): number {
+  const safeMiles = Math.max(0, toFinite(routeLengthMiles, 0));
+  const safeMile = clamp(toFinite(mile, 0), 0, safeMiles);
+  if (paceTimeline && totalEffortMiles(paceTimeline) > 0) {
+    return clamp01(effortMilesAtMile(paceTimeline, safeMile) / totalEffortMiles(paceTimeline));
+  }
+  return safeMiles > 0 ? clamp01(safeMile / safeMiles) : 0;
+}
+
 export function mapProgressToWaveformColumn(progress: number, columns: number): number {
   const safeColumns = Math.max(1, Math.floor(toFinite(columns, 1)));
   return clamp(Math.floor(clamp01(progress) * (safeColumns - 1)), 0, safeColumns - 1);
@@ -148,11 +185,12 @@ export function mapProgressToRouteMapping(
   progress: number,
   routeStats: RouteStats | null,
   elevationPoints: ElevationPoint[],
-  waveformColumns: number
+  waveformColumns: number,
+  paceTimeline: GradePaceTimeline | null = null
 ): PreviewRouteMapping {
   const safeProgress = clamp01(progress);
   const routeMiles = Math.max(0, toFinite(routeStats?.totalMiles, 0));
-  const mile = mapProgressToMile(safeProgress, routeMiles);
+  const mile = mapProgressToMile(safeProgress, routeMiles, paceTimeline);
   const routeIndex = findNearestIndexByMile(routeStats?.cumulativeMiles || [], mile);
   const elevationMiles = elevationPoints.map((point) => toFinite(point.mile, 0));
   const elevationIndex = findNearestIndexByMile(elevationMiles, mile);
@@ -416,9 +454,16 @@ export function samplePreviewFrame(
   elevationPoints: ElevationPoint[],
   waveformColumns: number,
   cameraKeyframes: PreviewCameraKeyframe[],
-  overlayLookup: PreviewOverlayLookup
+  overlayLookup: PreviewOverlayLookup,
+  paceTimeline: GradePaceTimeline | null = null
 ): PreviewFrameSample {
-  const mapping = mapProgressToRouteMapping(progress, routeStats, elevationPoints, waveformColumns);
+  const mapping = mapProgressToRouteMapping(
+    progress,
+    routeStats,
+    elevationPoints,
+    waveformColumns,
+    paceTimeline
+  );
   const camera = interpolateCameraState(cameraKeyframes, mapping, routeStats);
   const overlays = resolveOverlayStateAtMile(mapping.mile, overlayLookup);
   return { mapping, camera, overlays };
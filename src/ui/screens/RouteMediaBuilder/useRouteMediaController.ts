@@ -22,6 +22,7 @@ import {
   snapToRoute,
   type RouteStats,
 } from "../../utils/routeMath";
+import { buildGradePaceTimeline, type GradePaceTimeline } from "../../../route-stats";
 import { validateRouteMedia } from "../../utils/routeMediaValidation";
 import { toErrorMap } from "../../utils/validation";
 import type { ValidationError } from "../../utils/validation";
@@ -168,6 +169,7 @@ export type RouteMediaController = {
   activeVariant: RouteLabel | null;
   activeRouteStats: RouteStats | null;
   activeRouteLengthMiles: number;
+  activePaceTimeline: GradePaceTimeline | null;
   scrubMile: number;
   elevationPoints: ElevationPoint[];
   scrubIndicator: { lat: number; lon: number } | null;
@@ -339,6 +341,14 @@ export function useRouteMediaController(): RouteMediaController {
     [activeRouteStats]
   );
 
+  const activePaceTimeline = useMemo(
+    () =>
+      activeRouteStats
+        ? buildGradePaceTimeline(activeRouteStats.coords, activeRouteStats.elevations)
+        : null,
+    [activeRouteStats]
+  );
+
   useEffect(() => {
     if (!selectedEntry) return;
     setScrubMileState(clamp(toFiniteNumber(selectedEntry.startMi, 0), 0, Math.max(0, activeRouteLengthMiles)));
@@ -595,10 +605,10 @@ export function useRouteMediaController(): RouteMediaController {
       commitDraft((prev) => {
         if (!prev) return prev;
         const maxMiles = activeRouteStats ? activeRouteStats.totalMiles : Math.max(mile, 0);
-        return moveEntryToMileInDraft(prev, entryId, mile, maxMiles);
+        return moveEntryToMileInDraft(prev, entryId, mile, maxMiles, activePaceTimeline);
       });
     },
-    [activeRouteStats, commitDraft]
+    [activeRouteStats, activePaceTimeline, commitDraft]
   );
 
   const moveEntryByMapDrag = useCallback(
@@ -619,7 +629,7 @@ export function useRouteMediaController(): RouteMediaController {
         const entryId = generateEntryId();
         const subtitleId = `subtitle-${entryId}`;
         const markerId = `marker-${entryId}`;
-        const startSec = estimateSecondsAtMile(prev, startMi);
+        const startSec = estimateSecondsAtMile(prev, startMi, activePaceTimeline);
         const holdSeconds = Math.max(0.1, toFiniteNumber(prev.playback.holdSeconds, 0.75));
 
         const entry = normalizeTimelineEntryRange({
@@ -658,7 +668,7 @@ export function useRouteMediaController(): RouteMediaController {
         };
       });
     },
-    [activeRouteStats, commitDraft]
+    [activeRouteStats, activePaceTimeline, commitDraft]
   );
 
   const createOverlayAtMile = useCallback(
@@ -674,6 +684,7 @@ export function useRouteMediaController(): RouteMediaController {
           generateId: generateEntryId,
           titleAttachments,
           laneContext,
+          paceTimeline: activePaceTimeline,
         });
         if (!result.nextDraft || !result.entryId) {
           setError(result.error || "Timeline overlap detected. Adjust the cursor or choose another lane.");
@@ -687,7 +698,7 @@ export function useRouteMediaController(): RouteMediaController {
         return result.nextDraft;
       });
     },
-    [activeRouteStats, commitDraft, laneContext, titleAttachments]
+    [activeRouteStats, activePaceTimeline, commitDraft, laneContext, titleAttachments]
   );
 
   const updateSelectedEntryField = useCallback(
@@ -1076,6 +1087,7 @@ export function useRouteMediaController(): RouteMediaController {
     activeVariant,
     activeRouteStats,
     activeRouteLengthMiles,
+    activePaceTimeline,
     scrubMile,
     elevationPoints,
     scrubIndicator,
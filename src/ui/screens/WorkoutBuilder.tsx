@@ -20,6 +20,7 @@ import type {
   WorkoutBuilderWorkout,
 } from "./WorkoutBuilder/builderTypes";
 import { generateWorkoutNameByTier } from "./WorkoutBuilder/workoutName";
+import { computeWorkoutMetrics } from "../../workoutMetrics";
 import type {
   IntervalSegment,
   IntervalTarget,
@@ -29,11 +30,17 @@ import type {
   Workout,
   WorkoutDomain,
   RouteGroupSummary,
+  WorkoutImportIssue,
   WorkoutSectionEffort,
   WorkoutsMaster,
 } from "../types";
 import { buildStudioApiUrl } from "../utils/studioApi";
-import { listRouteGroups } from "../utils/api";
+import {
+  SchemaValidationError,
+  handleError,
+  importWorkoutFile,
+  listRouteGroups,
+} from "../utils/api";
 import useRouteContext from "../hooks/useRouteContext";
 import RouteMapPreview from "../components/route-context/RouteMapPreview";
 import RouteElevationPreview from "../components/route-context/RouteElevationPreview";
@@ -409,6 +416,20 @@ const groupWorkouts = (workouts: Workout[]): WorkoutGroup[] => {
   }));
 };
 
+/**
+ * DELETE a workout row; when the API refuses because seasons or challenges
+ * still use the workout (409), ask before forcing it.
+ */
+const deleteWorkoutWithReferenceCheck = async (path: string): Promise<boolean> => {
+  const response = await fetch(buildStudioApiUrl(path), { method: "DELETE" });
+  if (response.status !== 409) return response.ok;
+  const body = (await response.json().catch(() => ({}))) as { error?: string };
+  const message = body.error ?? "This workout is still referenced.";
+  if (!window.confirm(`${message}\n\nDelete anyway and leave those links broken?`)) return false;
+  const forced = await fetch(buildStudioApiUrl(`${path}?force=true`), { method: "DELETE" });
+  return forced.ok;
+};
+
 export default function WorkoutBuilder() {
   const [mode, setMode] = useState<ViewMode>("builder");
   const [workouts, setWorkouts] = useState<Workout[]>([]);
@@ -421,6 +442,10 @@ export default function WorkoutBuilder() {
   const [selectedSectionIndex, setSelectedSectionIndex] = useState<number | null>(null);
   const [hoveredSectionIndex, setHoveredSectionIndex] = useState<number | null>(null);
   const [workoutTab, setWorkoutTab] = useState<"standard" | "route">("standard");
+  const [importReview, setImportReview] = useState<{
+    workoutId: string;
+    issues: WorkoutImportIssue[];
+  } | null>(null);
 
   const refreshWorkouts = async () => {
     const response = await fetch(buildStudioApiUrl("/workouts"));
@@ -889,11 +914,14 @@ export default function WorkoutBuilder() {
         body: JSON.stringify(draftPayload),
       });
       if (!response.ok) {
-        throw new Error(`API request failed: ${response.status}`);
+        await handleError(response, "Save draft");
       }
       await refreshWorkouts();
       setIsDirty(false);
     } catch (error) {
+      if (error instanceof SchemaValidationError) {
+        window.alert(`Workout not saved:\n${error.describe()}`);
+      }
       console.error("Failed to save workout draft.", error);
     }
   };
@@ -918,7 +946,7 @@ export default function WorkoutBuilder() {
         body: JSON.stringify({ workout: publishPayload }),
       });
       if (!response.ok) {
-        throw new Error(`API request failed: ${response.status}`);
+        await handleError(response, "Publish workout");
       }
       const published = (await response.json()) as Workout;
       await refreshWorkouts();
@@ -926,6 +954,9 @@ export default function WorkoutBuilder() {
       setMode("preview");
       setIsDirty(false);
     } catch (error) {
+      if (error instanceof SchemaValidationError) {
+        window.alert(`Workout not published:\n${error.describe()}`);
+      }
       console.error("Failed to publish workout.", error);
     } finally {
       setShowPublishOverlay(false);
@@ -935,7 +966,10 @@ export default function WorkoutBuilder() {
   const handleDelete = async () => {
     try {
       if (mode === "builder") {
-        await fetch(buildStudioApiUrl(`/workouts/draft/${currentWorkout.workoutId}`), { method: "DELETE" });
+        const deleted = await deleteWorkoutWithReferenceCheck(
+          `/workouts/draft/${currentWorkout.workoutId}`
+        );
+        if (!deleted) return;
         await refreshWorkouts();
         setCurrentWorkout(createDraftWorkout(activeDomain));
         setIsDirty(false);
@@ -981,6 +1015,29 @@ export default function WorkoutBuilder() {
     setIsDirty(false);
   };
 
+  const handleImportFile = async (file: File) => {
+    if (!confirmDiscardIfDirty()) return;
+    try {
+      const result = await importWorkoutFile(file);
+      await refreshWorkouts();
+      setCurrentWorkout(normalizeWorkoutDomain(result.workout));
+      setPreviewWorkout(null);
+      setSelectedDomain("run");
+      setMode("builder");
+      setIsDirty(false);
+      setImportReview({ workoutId: result.workout.workoutId, issues: result.issues });
+    } catch (error) {
+      const message =
+        error instanceof SchemaValidationError
+          ? error.describe()
+          : error instanceof Error
+            ? error.message
+            : String(error);
+      window.alert(`Workout not imported:\n${message}`);
+      console.error("Failed to import workout.", error);
+    }
+  };
+
   const handleDuplicate = async () => {
     const source = mode === "preview" ? previewWorkout : currentWorkout;
     if (!source) return;
@@ -1074,16 +1131,13 @@ export default function WorkoutBuilder() {
 
   const handleDeleteDraftFromLibrary = async (workout: Workout) => {
     if (workout.status !== "draft") return;
-    await fetch(buildStudioApiUrl(`/workouts/draft/${workout.workoutId}`), { method: "DELETE" });
+    await deleteWorkoutWithReferenceCheck(`/workouts/draft/${workout.workoutId}`);
     await refreshWorkouts();
   };
 
   const handleDeleteArchivedFromLibrary = async (workout: Workout) => {
     if (workout.status !== "archived") return;
-    await fetch(
-      buildStudioApiUrl(`/workouts/archive/${workout.workoutId}/${workout.version}`),
-      { method: "DELETE" }
-    );
+    await deleteWorkoutWithReferenceCheck(`/workouts/archive/${workout.workoutId}/${workout.version}`);
     await refreshWorkouts();
   };
 
@@ -1108,6 +1162,11 @@ export default function WorkoutBuilder() {
     return workoutToView(activeWorkout);
   }, [activeDomain, activeWorkout]);
 
+  const runWorkoutMetrics = useMemo(
+    () => (activeDomain === "run" ? computeWorkoutMetrics(activeWorkout) : {}),
+    [activeDomain, activeWorkout]
+  );
+
   const strengthBlocks = useMemo(() => {
     if (activeDomain !== "strength") return [];
     return normalizeStrengthStructure(activeWorkout);
@@ -1177,6 +1236,7 @@ export default function WorkoutBuilder() {
         onSaveDraft={handleSaveDraft}
         onPublish={handlePublish}
         onDelete={handleDelete}
+        onImportFile={handleImportFile}
         domain={activeDomain}
         onDomainChange={handleDomainChange}
         domainLocked={isPreview}
@@ -1336,6 +1396,49 @@ export default function WorkoutBuilder() {
                 </div>
               )}
 
+              {mode === "builder" &&
+                importReview?.workoutId === currentWorkout.workoutId &&
+                importReview.issues.length > 0 && (
+                  <div
+                    style={{
+                      padding: "10px 12px",
+                      borderRadius: "10px",
+                      border: "1px solid #2a2f3a",
+                      backgroundColor: "#101522",
+                      color: "#f5f5f5",
+                      fontSize: "12px",
+                    }}
+                  >
+                    <div
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        justifyContent: "space-between",
+                        marginBottom: "6px",
+                      }}
+                    >
+                      <div>
+                        Imported draft: {importReview.issues.length} item
+                        {importReview.issues.length === 1 ? "" : "s"} to review
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => setImportReview(null)}
+                        style={previewActionStyle}
+                      >
+                        Dismiss
+                      </button>
+                    </div>
+                    <ul style={{ margin: 0, paddingLeft: "18px", color: "#ffcc80" }}>
+                      {importReview.issues.map((issue, index) => (
+                        <li key={`${issue.step}-${index}`}>
+                          <span style={{ color: "#999999" }}>{issue.step}:</span> {issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
               <WorkoutMetadata
                 name={activeWorkout.name ?? null}
                 description={activeWorkout.description ?? null}
@@ -1627,7 +1730,11 @@ export default function WorkoutBuilder() {
           </main>
 
           {activeDomain === "run" && runWorkoutView && (
-            <SummarySidebar draft={runWorkoutView} effortLookup={effortLookup} />
+            <SummarySidebar
+              draft={runWorkoutView}
+              effortLookup={effortLookup}
+              metrics={runWorkoutMetrics}
+            />
           )}
           {activeDomain === "strength" && <StrengthSummarySidebar blocks={strengthBlocks} />}
         </div>
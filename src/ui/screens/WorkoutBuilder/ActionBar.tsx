@@ -1,4 +1,4 @@
-import type { CSSProperties, MouseEventHandler } from "react";
+import { useRef, type CSSProperties, type MouseEventHandler } from "react";
 import type { WorkoutDomain } from "../../types";
 
 interface ActionBarProps {
@@ -8,6 +8,8 @@ interface ActionBarProps {
   onSaveDraft?: MouseEventHandler<HTMLButtonElement>;
   onPublish?: MouseEventHandler<HTMLButtonElement>;
   onDelete?: MouseEventHandler<HTMLButtonElement>;
+  /** TrainingPeaks JSON or FIT workout picked for import. */
+  onImportFile?: (file: File) => void;
   domain?: WorkoutDomain;
   onDomainChange?: (domain: WorkoutDomain) => void;
   domainLocked?: boolean;
@@ -20,10 +22,12 @@ export default function ActionBar({
   onSaveDraft,
   onPublish,
   onDelete,
+  onImportFile,
   domain,
   onDomainChange,
   domainLocked = false,
 }: ActionBarProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
   return (
     <div
       style={{
@@ -113,6 +117,37 @@ export default function ActionBar({
         >
           Library
         </button>
+        {onImportFile && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.fit,application/json"
+              style={{ display: "none" }}
+              onChange={(e) => {
+                const file = e.currentTarget.files?.[0];
+                e.currentTarget.value = "";
+                if (file) onImportFile(file);
+              }}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              title="Import a TrainingPeaks JSON or FIT workout as a new draft"
+              style={buttonStyle}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.borderColor = "var(--button-hover-border)";
+                e.currentTarget.style.backgroundColor = "var(--button-hover-bg)";
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.borderColor = "var(--button-border)";
+                e.currentTarget.style.backgroundColor = "var(--button-bg)";
+              }}
+            >
+              Import
+            </button>
+          </>
+        )}
         <button
           type="button"
           onClick={onDuplicate}
@@ -1,50 +1,37 @@
 import type { EffortBlockDefinition } from "./effortBlocks";
-import type { TierLabel, WorkoutBlockInstance, WorkoutBuilderWorkout } from "./builderTypes";
+import type { TierLabel, WorkoutBuilderWorkout } from "./builderTypes";
 import { generateWorkoutNameByTier } from "./workoutName";
+import type { TierMetrics } from "../../../workoutMetrics";
 
 interface SummarySidebarProps {
   draft: WorkoutBuilderWorkout;
   effortLookup: Record<string, EffortBlockDefinition>;
+  /** Per-tier time, distance and load of the workout being edited. */
+  metrics: Record<string, TierMetrics>;
 }
 
 const tierOrder: TierLabel[] = ["MED", "LRG", "XL", "XXL"];
 
-const parseDurationToMinutes = (value: string | null) => {
-  if (!value) return null;
-  const raw = value.toLowerCase();
-  const minMatch = raw.match(/(\d+)\s*min/);
-  const secMatch = raw.match(/(\d+)\s*sec/);
-
-  let minutes = minMatch ? parseInt(minMatch[1], 10) : 0;
-  let seconds = secMatch ? parseInt(secMatch[1], 10) : 0;
-
-  if (!minMatch && !secMatch) {
-    const bare = raw.match(/(\d+)/);
-    if (bare) minutes = parseInt(bare[1], 10);
-  }
-
-  if (Number.isNaN(minutes) || Number.isNaN(seconds)) return null;
-
-  if (seconds > 59) {
-    const carry = Math.floor(seconds / 60);
-    minutes += carry;
-    seconds = seconds % 60;
-  }
-
-  return minutes + seconds / 60;
+// Effort block whose accent colours each zone in the time-in-zone bar.
+const zoneEffortIds: Record<string, string> = {
+  Z1: "recovery",
+  Z2: "aerobic",
+  Z3: "tempo",
+  Z4: "threshold",
+  Z5: "interval",
 };
 
-const getTotalDuration = (blocks: WorkoutBlockInstance[]) => {
-  return blocks.reduce((total, block) => {
-    const reps = block.reps && block.reps > 0 ? block.reps : 1;
-    const durationMinutes = parseDurationToMinutes(block.duration) ?? 0;
-    const restMinutes = parseDurationToMinutes(block.rest) ?? 0;
-    const restSegments = Math.max(reps - 1, 0);
-    return total + durationMinutes * reps + restMinutes * restSegments;
-  }, 0);
+const METERS_PER_MILE = 1609.34;
+
+const formatClock = (totalSeconds: number) => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
 };
 
-export default function SummarySidebar({ draft, effortLookup }: SummarySidebarProps) {
+export default function SummarySidebar({ draft, effortLookup, metrics }: SummarySidebarProps) {
   const handleExport = () => {
     alert("Export not implemented");
   };
@@ -82,7 +69,7 @@ export default function SummarySidebar({ draft, effortLookup }: SummarySidebarPr
         {tierOrder.map((tier) => {
           const blocks = draft.tiers[tier];
           if (!blocks) return null;
-          const totalDuration = getTotalDuration(blocks);
+          const tierMetrics = metrics[tier];
 
           return (
             <section
@@ -96,11 +83,18 @@ export default function SummarySidebar({ draft, effortLookup }: SummarySidebarPr
             >
               <div style={{ display: "flex", justifyContent: "space-between", marginBottom: "8px" }}>
                 <div style={{ fontSize: "12px", fontWeight: 700 }}>{tier}</div>
-                <div style={{ fontSize: "11px", color: "#bdbdbd" }}>{totalDuration}</div>
+                {tierMetrics && (
+                  <div style={{ fontSize: "11px", color: "#bdbdbd" }}>
+                    {formatClock(tierMetrics.seconds)}
+                  </div>
+                )}
               </div>
               <div style={{ fontSize: "11px", color: "#cfcfcf", marginBottom: "8px" }}>
                 {namesByTier[tier]}
               </div>
+              {tierMetrics && tierMetrics.seconds > 0 && (
+                <TierMetricsSummary metrics={tierMetrics} effortLookup={effortLookup} />
+              )}
               <div style={{ display: "flex", flexDirection: "column", gap: "6px" }}>
                 {blocks.map((block) => {
                   const effort = effortLookup[block.effortBlockId];
@@ -130,6 +124,67 @@ export default function SummarySidebar({ draft, effortLookup }: SummarySidebarPr
   );
 }
 
+function TierMetricsSummary({
+  metrics,
+  effortLookup,
+}: {
+  metrics: TierMetrics;
+  effortLookup: Record<string, EffortBlockDefinition>;
+}) {
+  const miles = (metrics.meters / METERS_PER_MILE).toFixed(1);
+  const notes = [
+    metrics.estimatedSeconds > 0 || metrics.estimatedMeters > 0
+      ? "~ from reference paces per zone"
+      : null,
+    metrics.openSteps > 0
+      ? `${metrics.openSteps} open step${metrics.openSteps === 1 ? "" : "s"} not counted`
+      : null,
+    ...metrics.issues,
+  ].filter(Boolean);
+
+  return (
+    <div style={{ marginBottom: "8px" }}>
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: "repeat(2, 1fr)",
+          gap: "4px",
+          fontSize: "11px",
+          color: "#e5e5e5",
+          marginBottom: "6px",
+        }}
+      >
+        <div title="Distance">{metrics.estimatedMeters > 0 ? `~${miles}` : miles} mi</div>
+        <div title="Edwards TRIMP: minutes in each zone times the zone number">
+          Load {metrics.load}
+        </div>
+      </div>
+      <div
+        style={{ display: "flex", height: "6px", borderRadius: "3px", overflow: "hidden" }}
+        title="Time in zone"
+      >
+        {Object.entries(metrics.zoneSeconds).map(([zone, seconds]) =>
+          seconds > 0 ? (
+            <div
+              key={zone}
+              title={`${zone}: ${formatClock(seconds)}`}
+              style={{
+                flex: seconds,
+                backgroundColor: effortLookup[zoneEffortIds[zone]]?.accent ?? "#555555",
+              }}
+            />
+          ) : null
+        )}
+      </div>
+      {notes.length > 0 && (
+        <div style={{ fontSize: "10px", color: "#999999", marginTop: "6px" }}>
+          {notes.join(" · ")}
+        </div>
+      )}
+    </div>
+  );
+}
+
 const exportButtonStyle: React.CSSProperties = {
   padding: "4px 8px",
   borderRadius: "999px",
@@ -132,7 +132,7 @@ export default function WorkoutChart({
                   type: "work",
                 });
               }
-              if (i < reps - 1 && restMinutes !== null) {
+              if (restMinutes !== null) {
                 items.push({
                   id: `${block.id}-rest-${i}`,
                   minutes: restMinutes,
@@ -2,7 +2,16 @@ import { useEffect, useMemo, useState } from "react";
 import WorkoutChart from "./WorkoutBuilder/WorkoutChart";
 import { effortBlocks } from "./WorkoutBuilder/effortBlocks";
 import type { TierLabel, WorkoutBlockInstance, WorkoutBuilderWorkout } from "./WorkoutBuilder/builderTypes";
-import type { IntervalSegment, IntervalTarget, TierVariant, Workout } from "../types";
+import type {
+  IntervalSegment,
+  IntervalTarget,
+  MemberStepTargets,
+  MemberWorkoutTargets,
+  TierVariant,
+  Workout,
+} from "../types";
+import type { RosterMember } from "../types/studio";
+import { getMemberWorkoutTargets, loadRoster } from "../utils/api";
 import { calendarByDate, DEFAULT_TIME_ZONE, type CalendarDay } from "../utils/calendarSelectors";
 import { useStudioWeek } from "../context/StudioWeekContext";
 import { getSUCWeekBounds } from "../utils/sucWeek";
@@ -257,6 +266,23 @@ export default function WorkoutViewer() {
   const [activeTab, setActiveTab] = useState<"today" | "upcoming">("today");
   const [selectedTier, setSelectedTier] = useState<ViewerTier>("MED");
   const [pinnedDate, setPinnedDate] = useState<Date | null>(null);
+  const [members, setMembers] = useState<RosterMember[]>([]);
+  const [memberId, setMemberId] = useState("");
+  const [memberTargets, setMemberTargets] = useState<MemberWorkoutTargets | null>(null);
+  const [memberTargetsError, setMemberTargetsError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Without a roster the viewer just shows zones.
+    loadRoster()
+      .then((roster) =>
+        setMembers(
+          roster
+            .filter((member) => member.status === "active")
+            .sort((a, b) => a.name.localeCompare(b.name))
+        )
+      )
+      .catch(() => setMembers([]));
+  }, []);
 
   useEffect(() => {
     let timeoutId: number | null = null;
@@ -346,6 +372,37 @@ export default function WorkoutViewer() {
 
   const isViewingToday = getPacificDateKey(activeDate) === getPacificDateKey(now);
 
+  const viewedWorkout = resolvedResult?.workout ?? null;
+  useEffect(() => {
+    setMemberTargets(null);
+    setMemberTargetsError(null);
+    if (!memberId || !viewedWorkout) return;
+    let cancelled = false;
+    getMemberWorkoutTargets(viewedWorkout.workoutId, memberId, {
+      tier: tierSource,
+      version: viewedWorkout.version,
+    })
+      .then((targets) => {
+        if (!cancelled) setMemberTargets(targets);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setMemberTargetsError(err instanceof Error ? err.message : "Failed to load your numbers");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [memberId, viewedWorkout, tierSource]);
+
+  const handleMemberChange = (nextId: string) => {
+    setMemberId(nextId);
+    const member = members.find((entry) => entry.id === nextId);
+    if (member && VIEWER_TIERS.includes(member.tier)) {
+      setSelectedTier(member.tier);
+    }
+  };
+
   const upcomingItems = useMemo(() => {
     const base = toNoon(now);
     const items: Array<{
@@ -482,6 +539,43 @@ export default function WorkoutViewer() {
                   ))}
                 </div>
                 {tierFallbackNote && <div style={{ ...mutedText, marginTop: "10px" }}>{tierFallbackNote}</div>}
+                {members.length > 0 && (
+                  <div style={{ marginTop: "14px", display: "flex", gap: "10px", alignItems: "center" }}>
+                    <label htmlFor="viewer-member" style={{ fontSize: "13px", fontWeight: 600 }}>
+                      Your numbers
+                    </label>
+                    <select
+                      id="viewer-member"
+                      value={memberId}
+                      onChange={(event) => handleMemberChange(event.target.value)}
+                      style={{
+                        padding: "6px 10px",
+                        borderRadius: "999px",
+                        border: "1px solid #2a2f3a",
+                        background: "#0b0f17",
+                        color: "#e5e7eb",
+                        fontSize: "12px",
+                      }}
+                    >
+                      <option value="">Zones only</option>
+                      {members.map((member) => (
+                        <option key={member.id} value={member.id}>
+                          {member.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                {memberTargetsError && (
+                  <div style={{ ...mutedText, marginTop: "8px", color: "#ff9999" }}>
+                    {memberTargetsError}
+                  </div>
+                )}
+                {memberTargets && memberTargets.issues.length > 0 && (
+                  <div style={{ ...mutedText, marginTop: "8px" }}>
+                    {memberTargets.issues.join(" ")}
+                  </div>
+                )}
               </section>
 
               {chartDraft && (
@@ -493,7 +587,12 @@ export default function WorkoutViewer() {
                 {selectedTierVariant && selectedTierVariant.structure.length > 0 ? (
                   <div style={{ display: "flex", flexDirection: "column", gap: "12px" }}>
                     {selectedTierVariant.structure.map((segment, index) => (
-                      <StepCard key={`${segment.type}-${index}`} segment={segment} index={index} />
+                      <StepCard
+                        key={`${segment.type}-${index}`}
+                        segment={segment}
+                        index={index}
+                        targets={memberTargets?.steps[index]}
+                      />
                     ))}
                   </div>
                 ) : (
@@ -637,7 +736,15 @@ function TierPill({
   );
 }
 
-function StepCard({ segment, index }: { segment: IntervalSegment; index: number }) {
+function StepCard({
+  segment,
+  index,
+  targets,
+}: {
+  segment: IntervalSegment;
+  index: number;
+  targets?: MemberStepTargets;
+}) {
   const effort = resolveEffortDefinition(segment.work?.target);
   const workTarget = formatTargetDetail(segment.work?.target);
   const restTarget = formatTargetDetail(segment.rest?.target);
@@ -680,9 +787,15 @@ function StepCard({ segment, index }: { segment: IntervalSegment; index: number
             {effort.label} - Step {index + 1}
           </div>
           <div style={{ fontSize: "15px", fontWeight: 600 }}>{workLine}</div>
+          {targets?.work && (
+            <div style={{ fontSize: "13px", fontWeight: 600, color: "#d7fbd0" }}>
+              Your target: {targets.work.text}
+            </div>
+          )}
           {segment.rest && restDuration ? (
             <div style={{ fontSize: "13px", color: "#9aa1ad" }}>
               Rest {restDuration}{restTarget ? ` - ${restTarget}` : ""}
+              {targets?.rest ? ` (${targets.rest.text})` : ""}
             </div>
           ) : null}
           {segment.work?.cues && segment.work.cues.length > 0 && (
@@ -1,17 +1,33 @@
+import type {
+  RouteElevationStats,
+  SplitRow,
+  TrackSimplificationOptions,
+  TrackSimplificationSummary,
+} from "../route-stats";
+import type { RosterTier } from "./types/studio";
+
 export type RouteLabel = "MED" | "LRG" | "XL" | "XXL";
 
+export type TrackFormat = "gpx" | "tcx" | "fit" | "geojson";
+
 export interface ParsedRoute {
   fileName: string;
   coords: [number, number][]; // [lon, lat]
   elevations: number[]; // meters
   distanceMi: number;
   elevationFt: number;
+  elevationStats?: RouteElevationStats;
+  sourceFormat?: TrackFormat;
+  /** Present when the import simplified the track (before/after point count, distance, gain). */
+  simplification?: TrackSimplificationSummary;
 }
 
 export interface StagedRoute extends ParsedRoute {
   id: string;
   label: RouteLabel;
   gpxContent: string;
+  /** Original upload, re-sent on save so the server archives it under source/. */
+  sourceFile?: File;
 }
 
 export interface RouteMeta {
@@ -21,6 +37,12 @@ export interface RouteMeta {
   source: string;
   notes: string;
   variants: RouteLabel[];
+  /** Track simplification applied when variants are imported into this group. */
+  simplification?: RouteSimplificationConfig;
+}
+
+export interface RouteSimplificationConfig extends TrackSimplificationOptions {
+  enabled: boolean;
 }
 
 export interface RouteGroupSummary {
@@ -30,6 +52,111 @@ export interface RouteGroupSummary {
   variants: RouteLabel[];
 }
 
+export interface RouteVariantMileRange {
+  startMi: number;
+  endMi: number;
+}
+
+export interface RouteVariantSharedSegment {
+  variants: [RouteLabel, RouteLabel];
+  distanceMi: number;
+  ranges: Partial<Record<RouteLabel, RouteVariantMileRange>>;
+  start: { lat: number; lon: number };
+  end: { lat: number; lon: number };
+}
+
+export interface RouteVariantForkPoint {
+  type: "diverge" | "rejoin";
+  variants: [RouteLabel, RouteLabel];
+  lat: number;
+  lon: number;
+  miles: Partial<Record<RouteLabel, number>>;
+}
+
+export interface RouteVariantOverlapSummary {
+  label: RouteLabel;
+  distanceMi: number;
+  sharedMi: number;
+  exclusiveMi: number;
+}
+
+export interface RouteVariantDiff {
+  routeGroupId: string;
+  toleranceM: number;
+  variants: RouteVariantOverlapSummary[];
+  sharedSegments: RouteVariantSharedSegment[];
+  forks: RouteVariantForkPoint[];
+}
+
+export type RouteRevisionAction =
+  | "baseline"
+  | "save-group"
+  | "save-variant"
+  | "delete-variant"
+  | "save-pois"
+  | "before-restore"
+  | "restore";
+
+export interface RouteRevision {
+  revisionId: string;
+  routeGroupId: string;
+  createdAt: string; // ISO8601
+  action: RouteRevisionAction;
+  summary: string[];
+  variants: RouteLabel[];
+  restoredFrom?: string;
+}
+
+export interface RouteSplitTable {
+  routeGroupId: string;
+  label: RouteLabel;
+  paceMinPerMi: Record<RosterTier, number>;
+  rows: SplitRow[];
+}
+
+export interface RouteSplitPlanUpdate {
+  paceMinPerMi?: Partial<Record<RosterTier, number>>;
+  cutoffs?: Record<string, Partial<Record<RouteLabel, number | null>>>;
+}
+
+export interface RoutePoiImportItem {
+  row: number;
+  action: "create" | "update";
+  poi: { id: string; title: string; type: string; notes?: string };
+  snapDistanceM: Partial<Record<RouteLabel, number>>;
+  passes: Partial<Record<RouteLabel, number>>;
+  warnings: string[];
+}
+
+export interface RoutePoiImportPreview {
+  routeGroupId: string;
+  format: "gpx" | "csv";
+  variants: RouteLabel[];
+  toleranceM: number;
+  items: RoutePoiImportItem[];
+  skipped: Array<{ row: number; reason: string }>;
+  committed: boolean;
+  pois?: unknown[];
+}
+
+export interface RouteRevisionDiff {
+  routeGroupId: string;
+  revisionId: string;
+  against: string | null; // revisionId, "current", or null for the first revision
+  meta: Array<{ field: string; before: unknown; after: unknown }>;
+  variants: {
+    added: string[];
+    removed: string[];
+    changed: Array<{ label: string; pointsBefore: number; pointsAfter: number }>;
+  };
+  pois: {
+    added: string[];
+    removed: string[];
+    changed: string[];
+  };
+  splitPlanChanged: boolean;
+}
+
 export interface Event {
   eventId: string;
   eventName: string;
@@ -44,11 +171,52 @@ export interface Event {
     lng: number;
   };
   routeGroupIds: string[];
+  /** Set on occurrences generated from an EventSeries; eventId is `<seriesId>-<YYYY-MM-DD>`. */
+  seriesId?: string;
+  /** ISO timestamp of the last change; sent back on writes to detect stale edits. */
+  updatedAt?: string;
+}
+
+/** Fields a series supplies to every occurrence. */
+export type EventSeriesFields = Pick<
+  Event,
+  | "eventName"
+  | "eventDescription"
+  | "eventTime"
+  | "type"
+  | "startLocationName"
+  | "startLocationUrl"
+  | "startLocationCoordinates"
+  | "routeGroupIds"
+>;
+
+/** Per-occurrence changes kept across series edits (eventDate moves a single occurrence). */
+export type EventOccurrenceOverride = Partial<EventSeriesFields> & { eventDate?: string };
+
+export interface EventSeriesRule {
+  frequency: "weekly";
+  /** 0 = Sunday ... 6 = Saturday */
+  dayOfWeek: number;
+  /** Every Nth week, counted from the first occurrence. */
+  interval: number;
+  startDate: string;
+  endDate: string;
+  skipDates: string[];
+}
+
+export interface EventSeries {
+  seriesId: string;
+  rule: EventSeriesRule;
+  defaults: EventSeriesFields;
+  /** Keyed by the occurrence's scheduled date (YYYY-MM-DD). */
+  overrides: Record<string, EventOccurrenceOverride>;
 }
 
 export interface EventsMaster {
   version: number;
   events: Event[];
+  /** Recurring series; their occurrences are expanded into `events` on save. */
+  series?: EventSeries[];
 }
 
 export interface EventsSelection {
@@ -162,6 +330,47 @@ export interface WorkoutsMaster {
   workouts: Workout[];
 }
 
+// Workout import types
+export type WorkoutImportSource = "trainingpeaks" | "fit";
+
+/** Something in an imported file the studio model could not carry over as-is. */
+export interface WorkoutImportIssue {
+  /** "Step 3" or "Repeat at step 2", numbered as in the source file. */
+  step: string;
+  kind: "target" | "duration" | "structure";
+  message: string;
+}
+
+export interface WorkoutImportResult {
+  source: WorkoutImportSource;
+  workout: Workout;
+  issues: WorkoutImportIssue[];
+}
+
+// Member target types
+/** A zone resolved to one member's numbers; `text` is ready to display. */
+export type MemberTarget =
+  | { type: "hr"; min: number; max: number; text: string }
+  | { type: "pace"; minSeconds: number; maxSeconds: number; unit: "mi" | "km"; text: string };
+
+export interface MemberStepTargets {
+  /** Index into the tier's structure. */
+  index: number;
+  work: MemberTarget | null;
+  rest: MemberTarget | null;
+}
+
+export interface MemberWorkoutTargets {
+  workoutId: string;
+  version: number;
+  tier: TierLabel;
+  memberId: string;
+  units: "mi" | "km";
+  steps: MemberStepTargets[];
+  /** Zones that could not be resolved, e.g. a pace zone missing from the profile. */
+  issues: string[];
+}
+
 // Route Intel types
 export type RouteIntelSectionMode = "race" | "all-poi";
 
@@ -187,11 +396,15 @@ export interface RouteIntelDoc {
 export type RouteMediaOutputFormat = "story" | "square" | "landscape";
 export type RouteMediaCameraMode = "third-person-follow" | "overview-lock";
 
+export type RouteMediaTimingMode = "distance" | "grade-adjusted";
+
 export interface RouteMediaPlayback {
   milesPerSecond: number;
   fps: number;
   holdSeconds: number;
   outputFormat: RouteMediaOutputFormat;
+  /** "grade-adjusted" spends playback time where runners spend race time (climbs play slower). */
+  timingMode?: RouteMediaTimingMode;
 }
 
 export interface RouteMediaCameraDefaults {
@@ -250,3 +463,98 @@ export interface RouteMediaDoc {
   createdAt: string;
   updatedAt: string;
 }
+
+// Referential integrity types
+export type ReferenceTargetKind = "route-group" | "route-variant" | "event" | "workout";
+
+export interface EntityReference {
+  file: string;
+  source: string;
+  path: string;
+  kind: ReferenceTargetKind;
+  targetId: string;
+}
+
+// Schema validation types
+/** One failing field from the server's JSON Schema check, e.g. `events[3].start_lat`. */
+export interface SchemaIssue {
+  field: string;
+  message: string;
+}
+
+// Attendance types
+export type AttendanceStatus = "checked-in" | "finished" | "dnf" | "dns";
+
+export interface AttendanceEntry {
+  memberId: string;
+  status: AttendanceStatus;
+  routeGroupId: string | null;
+  variant: RouteLabel | null;
+  checkedInAt: string | null;
+  updatedAt: string;
+  notes?: string;
+}
+
+export interface EventAttendance {
+  eventId: string;
+  entries: AttendanceEntry[];
+  updatedAt: string;
+}
+
+export interface AttendanceSummary {
+  eventId: string;
+  participants: number;
+  checkedIn: number;
+  finished: number;
+  dnf: number;
+  dns: number;
+  byVariant: Record<string, number>;
+}
+
+export interface AttendanceRouteOption {
+  routeGroupId: string;
+  name: string;
+  variants: RouteLabel[];
+}
+
+export interface AttendanceUpdate {
+  status?: AttendanceStatus;
+  routeGroupId?: string | null;
+  variant?: RouteLabel | null;
+  notes?: string;
+}
+
+// Audit log types
+export type AuditAction = "create" | "update" | "delete";
+
+/** One changed scalar field; objects and arrays are walked down to their leaves. */
+export interface AuditFieldChange {
+  field: string;
+  change: "added" | "removed" | "changed";
+  before?: string | number | boolean | null;
+  after?: string | number | boolean | null;
+}
+
+export interface AuditEntry {
+  id: string;
+  at: string;
+  actor: string;
+  request?: string;
+  file: string;
+  entityType: string;
+  entityId: string;
+  action: AuditAction;
+  beforeHash: string | null;
+  afterHash: string | null;
+  changes: AuditFieldChange[];
+  changeCount: number;
+}
+
+export interface AuditQuery {
+  entityType?: string;
+  entityId?: string;
+  action?: AuditAction;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
@@ -40,6 +40,26 @@ export interface Week {
 export type RosterStatus = "active" | "paused" | "alumni";
 export type RosterTier = "MED" | "LRG" | "XL";
 
+/**
+ * A member's training zones, used to turn workout zones into their own HR and
+ * pace numbers (see AthleteZoneProfile in targetResolution.ts).
+ */
+export interface RosterZoneProfile {
+  hr?: {
+    max?: number;
+    threshold?: number;
+    /** Per zone: bpm, or fractions of max HR when both ends are <= 1. */
+    zones?: Record<string, [number, number]>;
+  };
+  pace?: {
+    /** Threshold pace, e.g. "7:30/mi". */
+    threshold?: string;
+    /** Per zone, e.g. { Z4: "7:20-7:30/mi" }. */
+    zones?: Record<string, string>;
+  };
+  preferredUnits?: "mi" | "km";
+}
+
 export interface RosterMember {
   id: string;
   name: string;
@@ -55,6 +75,7 @@ export interface RosterMember {
     publicPhotos: boolean;
     publicMetrics: boolean;
   };
+  zones?: RosterZoneProfile;
 }
 
 export type ChallengeRef = {
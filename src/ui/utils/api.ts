@@ -2,13 +2,34 @@ import type {
   ParsedRoute,
   RouteGroupSummary,
   RouteMeta,
+  Event,
   EventsMaster,
   EventsSelection,
   RouteLabel,
   WorkoutsMaster,
+  TierLabel,
+  WorkoutImportResult,
+  MemberWorkoutTargets,
   RouteIntelDoc,
   RouteMediaDoc,
+  RouteVariantDiff,
+  RouteRevision,
+  RouteRevisionDiff,
+  RoutePoiImportPreview,
+  RouteSplitTable,
+  RouteSplitPlanUpdate,
+  RouteSimplificationConfig,
+  EntityReference,
+  AttendanceEntry,
+  AttendanceRouteOption,
+  AttendanceSummary,
+  AttendanceUpdate,
+  EventAttendance,
+  SchemaIssue,
+  AuditEntry,
+  AuditQuery,
 } from "../types";
+import type { RosterMember } from "../types/studio";
 import { buildStudioApiUrl } from "./studioApi";
 
 
@@ -24,11 +45,36 @@ async function parseJsonResponse<T>(response: Response, context: string): Promis
   return (await response.json()) as T;
 }
 
-async function handleError(response: Response, context: string): Promise<never> {
+/**
+ * A write the server refused (400) because the file would not match its JSON Schema.
+ * Nothing was saved; `details` lists every failing field.
+ */
+export class SchemaValidationError extends Error {
+  details: SchemaIssue[];
+
+  constructor(message: string, details: SchemaIssue[]) {
+    super(message);
+    this.name = "SchemaValidationError";
+    this.details = details;
+  }
+
+  /** One line per failing field, for alerts. */
+  describe(limit = 5): string {
+    const lines = this.details.slice(0, limit).map(({ field, message }) => `${field}: ${message}`);
+    if (this.details.length > limit) lines.push(`…and ${this.details.length - limit} more`);
+    return lines.join("\n");
+  }
+}
+
+export async function handleError(response: Response, context: string): Promise<never> {
   const contentType = response.headers.get("content-type") ?? "";
   if (contentType.includes("application/json")) {
-    const error = (await response.json()) as { error?: string };
-    throw new Error(error.error || `${context} failed with ${response.status}`);
+    const error = (await response.json()) as { error?: string; details?: SchemaIssue[] };
+    const message = error.error || `${context} failed with ${response.status}`;
+    if (response.status === 400 && Array.isArray(error.details)) {
+      throw new SchemaValidationError(message, error.details);
+    }
+    throw new Error(message);
   }
   const text = await response.text();
   const preview = text.slice(0, 200).replace(/\s+/g, " ").trim();
@@ -38,11 +84,44 @@ async function handleError(response: Response, context: string): Promise<never>
 }
 
 /**
- * Upload GPX file for parsing (server may persist if filename is canonical).
+ * A delete the server refused (409) because other data still references the target.
+ * Retry with `{ force: true }` to delete anyway.
+ */
+export class StillReferencedError extends Error {
+  references: EntityReference[];
+
+  constructor(message: string, references: EntityReference[]) {
+    super(message);
+    this.name = "StillReferencedError";
+    this.references = references;
+  }
+}
+
+async function handleDeleteError(response: Response, context: string): Promise<never> {
+  if (response.status === 409 && (response.headers.get("content-type") ?? "").includes("json")) {
+    const body = (await response.json()) as { error?: string; references?: EntityReference[] };
+    if (Array.isArray(body.references)) {
+      throw new StillReferencedError(body.error || `${context} failed with 409`, body.references);
+    }
+    throw new Error(body.error || `${context} failed with 409`);
+  }
+  return handleError(response, context);
+}
+
+/**
+ * Upload a GPX, TCX, FIT or GeoJSON track for parsing (server may persist if filename is canonical).
+ * Non-GPX uploads come back with gpxContent holding the converted GPX.
  */
-export async function importGPX(file: File): Promise<ParsedRoute> {
+export async function importGPX(
+  file: File,
+  options: { routeGroupId?: string; simplification?: RouteSimplificationConfig } = {}
+): Promise<ParsedRoute & { gpxContent?: string }> {
   const formData = new FormData();
   formData.append("gpx", file);
+  if (options.routeGroupId) formData.append("routeGroupId", options.routeGroupId);
+  if (options.simplification) {
+    formData.append("simplification", JSON.stringify(options.simplification));
+  }
 
   const response = await fetch(buildStudioApiUrl(`/routes/import`), {
     method: "POST",
@@ -50,10 +129,10 @@ export async function importGPX(file: File): Promise<ParsedRoute> {
   });
 
   if (!response.ok) {
-    await handleError(response, "Failed to import GPX");
+    await handleError(response, "Failed to import track");
   }
 
-  return parseJsonResponse(response, "Import GPX");
+  return parseJsonResponse(response, "Import track");
 }
 
 /**
@@ -104,32 +183,46 @@ export async function getRouteVariantPreview(
 }
 
 /**
- * Delete a route group.
+ * Download URL for a variant exported as GPX with POIs as waypoints.
  */
-export async function deleteRouteGroup(groupId: string): Promise<void> {
-  const response = await fetch(buildStudioApiUrl(`/routes/${groupId}`), {
+export function getRouteVariantExportUrl(groupId: string, label: RouteLabel): string {
+  const normalized = String(label).toUpperCase();
+  return buildStudioApiUrl(`/routes/${groupId}/export/${normalized}`);
+}
+
+/**
+ * Delete a route group. Throws StillReferencedError unless forced.
+ */
+export async function deleteRouteGroup(
+  groupId: string,
+  options: { force?: boolean } = {}
+): Promise<void> {
+  const query = options.force ? "?force=true" : "";
+  const response = await fetch(buildStudioApiUrl(`/routes/${groupId}${query}`), {
     method: "DELETE",
   });
 
   if (!response.ok) {
-    await handleError(response, "Failed to delete route group");
+    await handleDeleteError(response, "Failed to delete route group");
   }
 }
 
 /**
- * Delete a single route variant.
+ * Delete a single route variant. Throws StillReferencedError unless forced.
  */
 export async function deleteRouteVariant(
   groupId: string,
-  label: RouteLabel
+  label: RouteLabel,
+  options: { force?: boolean } = {}
 ): Promise<RouteMeta> {
   const normalized = String(label).toUpperCase() as RouteLabel;
-  const response = await fetch(buildStudioApiUrl(`/routes/${groupId}/gpx/${normalized}`), {
+  const query = options.force ? "?force=true" : "";
+  const response = await fetch(buildStudioApiUrl(`/routes/${groupId}/gpx/${normalized}${query}`), {
     method: "DELETE",
   });
 
   if (!response.ok) {
-    await handleError(response, "Failed to delete route variant");
+    await handleDeleteError(response, "Failed to delete route variant");
   }
 
   const data = await parseJsonResponse<{ routeGroup: RouteMeta }>(
@@ -139,6 +232,64 @@ export async function deleteRouteVariant(
   return data.routeGroup;
 }
 
+/**
+ * List stored revisions for a route group (newest first).
+ */
+export async function listRouteRevisions(groupId: string): Promise<RouteRevision[]> {
+  const response = await fetch(buildStudioApiUrl(`/routes/${groupId}/history`));
+
+  if (!response.ok) {
+    await handleError(response, "Failed to load route history");
+  }
+
+  const data = await parseJsonResponse<{ revisions: RouteRevision[] }>(
+    response,
+    "List route revisions"
+  );
+  return Array.isArray(data.revisions) ? data.revisions : [];
+}
+
+/**
+ * Diff a revision against the previous revision, another revision, or "current".
+ */
+export async function diffRouteRevision(
+  groupId: string,
+  revisionId: string,
+  against?: string
+): Promise<RouteRevisionDiff> {
+  const query = against ? `?against=${encodeURIComponent(against)}` : "";
+  const response = await fetch(
+    buildStudioApiUrl(
+      `/routes/${groupId}/history/${encodeURIComponent(revisionId)}/diff${query}`
+    )
+  );
+
+  if (!response.ok) {
+    await handleError(response, "Failed to diff route revision");
+  }
+
+  return parseJsonResponse(response, "Diff route revision");
+}
+
+/**
+ * Restore a route group to a stored revision.
+ */
+export async function restoreRouteRevision(
+  groupId: string,
+  revisionId: string
+): Promise<{ revision: RouteRevision; routeGroup: RouteMeta }> {
+  const response = await fetch(
+    buildStudioApiUrl(`/routes/${groupId}/history/${encodeURIComponent(revisionId)}/restore`),
+    { method: "POST" }
+  );
+
+  if (!response.ok) {
+    await handleError(response, "Failed to restore route revision");
+  }
+
+  return parseJsonResponse(response, "Restore route revision");
+}
+
 /**
  * Snap and persist a POI via the Studio API.
  */
@@ -148,6 +299,7 @@ export async function snapRoutePoi(
     poi: { id: string; title: string; type: string; notes?: string };
     click: { lat: number; lon: number };
     variants: RouteLabel[];
+    toleranceM?: number;
   }
 ): Promise<{ success: boolean; poi: unknown; pois: unknown[] }> {
   const response = await fetch(buildStudioApiUrl(`/routes/${groupId}/pois/snap`), {
@@ -163,6 +315,19 @@ export async function snapRoutePoi(
   return parseJsonResponse(response, "Snap route POI");
 }
 
+/**
+ * Compare a route group's variant tracks (shared trail, forks, exclusive miles).
+ */
+export async function getRouteVariantDiff(groupId: string): Promise<RouteVariantDiff> {
+  const response = await fetch(buildStudioApiUrl(`/routes/${groupId}/variants/diff`));
+
+  if (!response.ok) {
+    await handleError(response, "Failed to compare route variants");
+  }
+
+  return parseJsonResponse(response, "Get route variant diff");
+}
+
 /**
  * Load route POIs for a group.
  */
@@ -231,6 +396,78 @@ export async function saveAidStationPoi(
   return parseJsonResponse(response, "Save aid station POI");
 }
 
+/**
+ * Get the aid-station split table for a route variant.
+ */
+export async function getRouteSplitTable(
+  groupId: string,
+  label: RouteLabel
+): Promise<RouteSplitTable> {
+  const normalized = String(label).toUpperCase();
+  const response = await fetch(buildStudioApiUrl(`/routes/${groupId}/splits/${normalized}`));
+
+  if (!response.ok) {
+    await handleError(response, "Failed to load split table");
+  }
+
+  return parseJsonResponse(response, "Get split table");
+}
+
+/**
+ * Download URL for a variant's split table as CSV.
+ */
+export function getRouteSplitCsvUrl(groupId: string, label: RouteLabel): string {
+  const normalized = String(label).toUpperCase();
+  return buildStudioApiUrl(`/routes/${groupId}/splits/${normalized}?format=csv`);
+}
+
+/**
+ * Update tier paces and aid-station cutoffs for a route group.
+ */
+export async function updateRouteSplitPlan(
+  groupId: string,
+  update: RouteSplitPlanUpdate
+): Promise<{ success: boolean }> {
+  const response = await fetch(buildStudioApiUrl(`/routes/${groupId}/splits`), {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(update),
+  });
+
+  if (!response.ok) {
+    await handleError(response, "Failed to save split plan");
+  }
+
+  return parseJsonResponse(response, "Save split plan");
+}
+
+/**
+ * Preview (or, with commit, save) a bulk POI import from a GPX waypoint or CSV file.
+ */
+export async function importRoutePois(
+  groupId: string,
+  file: File,
+  options: { variants: RouteLabel[]; toleranceM?: number; commit?: boolean; excludeRows?: number[] }
+): Promise<RoutePoiImportPreview> {
+  const formData = new FormData();
+  formData.append("file", file);
+  formData.append("variants", options.variants.join(","));
+  if (options.toleranceM !== undefined) formData.append("toleranceM", String(options.toleranceM));
+  if (options.commit) formData.append("commit", "true");
+  if (options.excludeRows?.length) formData.append("excludeRows", options.excludeRows.join(","));
+
+  const response = await fetch(buildStudioApiUrl(`/routes/${groupId}/pois/import`), {
+    method: "POST",
+    body: formData,
+  });
+
+  if (!response.ok) {
+    await handleError(response, "Failed to import POIs");
+  }
+
+  return parseJsonResponse(response, "Import route POIs");
+}
+
 /**
  * Save or update a workout POI.
  */
@@ -274,6 +511,27 @@ export async function deleteRoutePoi(
   return parseJsonResponse(response, "Delete route POI");
 }
 
+/**
+ * Remove one pass from a multi-pass POI placement on a variant.
+ */
+export async function removeRoutePoiPass(
+  groupId: string,
+  poiId: string,
+  label: RouteLabel,
+  passIndex: number
+): Promise<{ success: boolean; poi: unknown; pois: unknown[] }> {
+  const response = await fetch(
+    buildStudioApiUrl(`/routes/${groupId}/pois/${poiId}/variants/${label}/passes/${passIndex}`),
+    { method: "DELETE" }
+  );
+
+  if (!response.ok) {
+    await handleError(response, "Failed to remove POI pass");
+  }
+
+  return parseJsonResponse(response, "Remove route POI pass");
+}
+
 /**
  * Ensure Start/Finish POI exists for a route group.
  */
@@ -300,6 +558,7 @@ export async function saveRouteGroup(
     name: string;
     location: string;
     notes: string;
+    simplification?: RouteSimplificationConfig;
   }
 ): Promise<{ success: boolean; routeGroupId: string }> {
   const response = await fetch(buildStudioApiUrl(`/routes/${groupId}`), {
@@ -329,9 +588,9 @@ export async function loadEventsMaster(): Promise<EventsMaster> {
 }
 
 /**
- * Save events.master.json
+ * Save events.master.json (returns it with series occurrences regenerated)
  */
-export async function saveEventsMaster(data: EventsMaster): Promise<void> {
+export async function saveEventsMaster(data: EventsMaster): Promise<EventsMaster> {
   const response = await fetch(buildStudioApiUrl(`/events`), {
     method: "POST",
     headers: { "Content-Type": "application/json" },
@@ -341,6 +600,66 @@ export async function saveEventsMaster(data: EventsMaster): Promise<void> {
   if (!response.ok) {
     await handleError(response, "Failed to save events");
   }
+
+  const result = await parseJsonResponse<{ eventsMaster: EventsMaster }>(response, "Save events");
+  return result.eventsMaster;
+}
+
+/**
+ * Create or update one event. Existing events are sent with their updatedAt so
+ * the server can refuse stale edits (409).
+ */
+export async function saveEvent(event: Event): Promise<Event> {
+  const response = await fetch(
+    buildStudioApiUrl(`/events/${encodeURIComponent(event.eventId)}`),
+    {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(event),
+    }
+  );
+
+  if (!response.ok) {
+    await handleError(response, "Failed to save event");
+  }
+
+  return parseJsonResponse(response, "Save event");
+}
+
+/**
+ * Delete one event (a series occurrence is skipped instead). Throws
+ * StillReferencedError when intel, media or the season use it, unless forced.
+ */
+export async function deleteEvent(event: Event, options: { force?: boolean } = {}): Promise<void> {
+  const params = new URLSearchParams();
+  if (event.updatedAt) params.set("updatedAt", event.updatedAt);
+  if (options.force) params.set("force", "true");
+  const query = params.toString() ? `?${params.toString()}` : "";
+  const response = await fetch(
+    buildStudioApiUrl(`/events/${encodeURIComponent(event.eventId)}${query}`),
+    { method: "DELETE" }
+  );
+
+  if (!response.ok) {
+    await handleDeleteError(response, "Failed to delete event");
+  }
+}
+
+/**
+ * Expand event series into occurrences without saving.
+ */
+export async function expandEventsMaster(data: EventsMaster): Promise<EventsMaster> {
+  const response = await fetch(buildStudioApiUrl(`/events/expand`), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    await handleError(response, "Failed to expand event series");
+  }
+
+  return parseJsonResponse(response, "Expand event series");
 }
 
 /**
@@ -399,6 +718,55 @@ export async function saveWorkoutsMaster(data: WorkoutsMaster): Promise<void> {
   }
 }
 
+/**
+ * Create a draft from a TrainingPeaks JSON or FIT workout file. Targets that
+ * do not map to a studio zone come back in `issues`.
+ */
+export async function importWorkoutFile(
+  file: File,
+  options: { tier?: TierLabel; name?: string } = {}
+): Promise<WorkoutImportResult> {
+  const formData = new FormData();
+  formData.append("file", file);
+  if (options.tier) formData.append("tier", options.tier);
+  if (options.name) formData.append("name", options.name);
+
+  const response = await fetch(buildStudioApiUrl("/workouts/import"), {
+    method: "POST",
+    body: formData,
+  });
+
+  if (!response.ok) {
+    await handleError(response, "Failed to import workout");
+  }
+
+  return parseJsonResponse(response, "Import workout");
+}
+
+/**
+ * A published workout's targets in a roster member's own HR and pace numbers.
+ * Tier defaults to the member's tier and version to the latest published.
+ */
+export async function getMemberWorkoutTargets(
+  workoutId: string,
+  memberId: string,
+  options: { tier?: TierLabel; version?: number } = {}
+): Promise<MemberWorkoutTargets> {
+  const params = new URLSearchParams({ memberId });
+  if (options.tier) params.set("tier", options.tier);
+  if (options.version !== undefined) params.set("version", String(options.version));
+
+  const response = await fetch(
+    buildStudioApiUrl(`/workouts/${encodeURIComponent(workoutId)}/targets?${params}`)
+  );
+
+  if (!response.ok) {
+    await handleError(response, "Failed to resolve workout targets");
+  }
+
+  return parseJsonResponse(response, "Resolve workout targets");
+}
+
 /**
  * List route intel documents.
  */
@@ -514,3 +882,114 @@ export async function saveRouteMedia(doc: RouteMediaDoc): Promise<void> {
     await handleError(response, "Failed to save route media");
   }
 }
+
+/**
+ * Load roster.json
+ */
+export async function loadRoster(): Promise<RosterMember[]> {
+  const response = await fetch(buildStudioApiUrl("/roster"));
+
+  if (!response.ok) {
+    await handleError(response, "Failed to load roster");
+  }
+
+  return parseJsonResponse(response, "Load roster");
+}
+
+/**
+ * Participation counts for every event with check-ins.
+ */
+export async function listAttendanceSummaries(): Promise<AttendanceSummary[]> {
+  const response = await fetch(buildStudioApiUrl("/attendance"));
+
+  if (!response.ok) {
+    await handleError(response, "Failed to load attendance");
+  }
+
+  return parseJsonResponse(response, "Load attendance");
+}
+
+/**
+ * Check-in list for an event, with counts and the routes attendees can pick.
+ */
+export async function loadEventAttendance(eventId: string): Promise<{
+  attendance: EventAttendance;
+  summary: AttendanceSummary;
+  routes: AttendanceRouteOption[];
+}> {
+  const response = await fetch(buildStudioApiUrl(`/attendance/${encodeURIComponent(eventId)}`));
+
+  if (!response.ok) {
+    await handleError(response, "Failed to load attendance");
+  }
+
+  return parseJsonResponse(response, "Load attendance");
+}
+
+/**
+ * Check a roster member in, or change their status or variant.
+ */
+export async function saveAttendanceEntry(
+  eventId: string,
+  memberId: string,
+  update: AttendanceUpdate
+): Promise<{ entry: AttendanceEntry; summary: AttendanceSummary }> {
+  const response = await fetch(
+    buildStudioApiUrl(
+      `/attendance/${encodeURIComponent(eventId)}/members/${encodeURIComponent(memberId)}`
+    ),
+    {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(update),
+    }
+  );
+
+  if (!response.ok) {
+    await handleError(response, "Failed to save check-in");
+  }
+
+  return parseJsonResponse(response, "Save check-in");
+}
+
+/**
+ * Remove a member from an event's check-in list.
+ */
+export async function deleteAttendanceEntry(
+  eventId: string,
+  memberId: string
+): Promise<{ summary: AttendanceSummary }> {
+  const response = await fetch(
+    buildStudioApiUrl(
+      `/attendance/${encodeURIComponent(eventId)}/members/${encodeURIComponent(memberId)}`
+    ),
+    { method: "DELETE" }
+  );
+
+  if (!response.ok) {
+    await handleError(response, "Failed to remove check-in");
+  }
+
+  return parseJsonResponse(response, "Remove check-in");
+}
+
+/**
+ * Audit log entries matching the filters, newest first. `total` counts every
+ * match before the limit is applied.
+ */
+export async function getAuditLog(
+  query: AuditQuery = {}
+): Promise<{ entries: AuditEntry[]; total: number }> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  }
+  const search = params.toString();
+  const response = await fetch(buildStudioApiUrl(search ? `/audit?${search}` : "/audit"));
+
+  if (!response.ok) {
+    await handleError(response, "Failed to load audit log");
+  }
+
+  return parseJsonResponse(response, "Load audit log");
+}
@@ -0,0 +1,57 @@
+import type { Event, EventOccurrenceOverride, EventSeries, EventSeriesFields } from "../types";
+
+export const WEEKDAY_LABELS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const SERIES_FIELDS: Array<keyof EventSeriesFields> = [
+  "eventName",
+  "eventDescription",
+  "eventTime",
+  "type",
+  "startLocationName",
+  "startLocationUrl",
+  "startLocationCoordinates",
+  "routeGroupIds",
+];
+
+/**
+ * Scheduled date of a series occurrence (eventIds are `<seriesId>-<YYYY-MM-DD>`).
+ */
+export function scheduledDateFor(series: EventSeries, eventId: string): string | null {
+  const prefix = `${series.seriesId}-`;
+  if (!eventId.startsWith(prefix)) return null;
+  const date = eventId.slice(prefix.length);
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : null;
+}
+
+/**
+ * Fields of an edited occurrence that differ from the series defaults; these
+ * are stored as the occurrence's override so they survive series edits.
+ */
+export function occurrenceOverride(series: EventSeries, event: Event): EventOccurrenceOverride {
+  const override: Record<string, unknown> = {};
+  for (const field of SERIES_FIELDS) {
+    if (JSON.stringify(event[field] ?? null) !== JSON.stringify(series.defaults[field] ?? null)) {
+      override[field] = event[field];
+    }
+  }
+  const scheduled = scheduledDateFor(series, event.eventId);
+  if (event.eventDate && scheduled && event.eventDate !== scheduled) {
+    override.eventDate = event.eventDate;
+  }
+  return override as EventOccurrenceOverride;
+}
+
+export function describeSeriesRule(series: EventSeries): string {
+  const { rule } = series;
+  const cadence = rule.interval === 1 ? "Every week" : `Every ${rule.interval} weeks`;
+  const skipped = rule.skipDates.length > 0 ? `, skipping ${rule.skipDates.length}` : "";
+  return `${cadence} on ${WEEKDAY_LABELS[rule.dayOfWeek] ?? "?"}, ${rule.startDate} to ${rule.endDate}${skipped}`;
+}
@@ -1,6 +1,13 @@
-const EARTH_RADIUS_M = 6371008.8;
-export const METERS_PER_MILE = 1609.344;
-export const FEET_PER_METER = 3.28084;
+import {
+  computeRouteElevationStats,
+  cumulativeDistanceMeters,
+  FEET_PER_METER,
+  haversineMeters,
+  METERS_PER_MILE,
+  type RouteElevationStats,
+} from "../../route-stats";
+
+export { FEET_PER_METER, haversineMeters, METERS_PER_MILE };
 
 export type RouteStats = {
   coords: [number, number][];
@@ -9,23 +16,9 @@ export type RouteStats = {
   cumulativeMiles: number[];
   totalMeters: number;
   totalMiles: number;
+  elevationStats?: RouteElevationStats;
 };
 
-function toRadians(value: number): number {
-  return (value * Math.PI) / 180;
-}
-
-export function haversineMeters(a: [number, number], b: [number, number]): number {
-  const lat1 = toRadians(a[1]);
-  const lat2 = toRadians(b[1]);
-  const dLat = lat2 - lat1;
-  const dLon = toRadians(b[0] - a[0]);
-  const sinLat = Math.sin(dLat / 2);
-  const sinLon = Math.sin(dLon / 2);
-  const h = sinLat * sinLat + Math.cos(lat1) * Math.cos(lat2) * sinLon * sinLon;
-  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
-}
-
 export function buildRouteStats(route: {
   coords?: [number, number][];
   elevations?: number[];
@@ -33,12 +26,7 @@ export function buildRouteStats(route: {
   const coords = route.coords ?? [];
   if (!Array.isArray(coords) || coords.length === 0) return null;
   const elevations = Array.isArray(route.elevations) ? route.elevations : [];
-  const cumulativeMeters: number[] = [0];
-
-  for (let i = 1; i < coords.length; i += 1) {
-    const segment = haversineMeters(coords[i - 1], coords[i]);
-    cumulativeMeters.push(cumulativeMeters[i - 1] + (Number.isFinite(segment) ? segment : 0));
-  }
+  const cumulativeMeters = cumulativeDistanceMeters(coords);
 
   const totalMeters = cumulativeMeters[cumulativeMeters.length - 1] ?? 0;
   const cumulativeMiles = cumulativeMeters.map((value) => value / METERS_PER_MILE);
@@ -51,6 +39,7 @@ export function buildRouteStats(route: {
     cumulativeMiles,
     totalMeters,
     totalMiles,
+    elevationStats: computeRouteElevationStats(coords, elevations),
   };
 }
 
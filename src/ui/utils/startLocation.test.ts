@@ -0,0 +1,79 @@
+import assert from "assert/strict";
+import {
+  buildMapsUrl,
+  checkStartDistances,
+  hasCoordinates,
+  isShortMapsLink,
+  parseMapsUrlCoordinates,
+  suggestStartLocations,
+  type RouteStart,
+} from "./startLocation";
+
+const southside = { lat: 38.571234, lng: -121.501234 };
+
+// Google Maps: dropped pin beats the viewport.
+assert.deepEqual(
+  parseMapsUrlCoordinates(
+    "https://www.google.com/maps/place/Southside+Park/@38.57,-121.5,17z/data=!3m1!4b1!4m6!3m5!1s0x0:0x0!8m2!3d38.571234!4d-121.501234"
+  ),
+  southside
+);
+assert.deepEqual(
+  parseMapsUrlCoordinates("https://www.google.com/maps/@38.571234,-121.501234,15z"),
+  southside
+);
+assert.deepEqual(
+  parseMapsUrlCoordinates("https://maps.google.com/?q=38.571234,-121.501234"),
+  southside
+);
+assert.deepEqual(
+  parseMapsUrlCoordinates("https://www.google.com/maps/search/38.571234,+-121.501234?entry=ttu"),
+  southside
+);
+assert.deepEqual(parseMapsUrlCoordinates(buildMapsUrl(southside)), southside);
+
+// Apple Maps.
+assert.deepEqual(
+  parseMapsUrlCoordinates("https://maps.apple.com/?ll=38.571234,-121.501234&q=Southside%20Park"),
+  southside
+);
+assert.deepEqual(
+  parseMapsUrlCoordinates("https://maps.apple.com/place?coordinate=38.571234%2C-121.501234&name=Park"),
+  southside
+);
+assert.deepEqual(
+  parseMapsUrlCoordinates("https://maps.apple.com/?daddr=38.571234,-121.501234&dirflg=w"),
+  southside
+);
+
+// Bare pairs and things that are not coordinates.
+assert.deepEqual(parseMapsUrlCoordinates(" 38.571234, -121.501234 "), southside);
+assert.equal(parseMapsUrlCoordinates("https://maps.google.com/?q=Southside+Park"), null);
+assert.equal(parseMapsUrlCoordinates("95.1, 20"), null);
+assert.equal(parseMapsUrlCoordinates(""), null);
+assert.equal(isShortMapsLink("https://maps.app.goo.gl/AbC123"), true);
+assert.equal(isShortMapsLink("https://www.google.com/maps/@38.5,-121.5,15z"), false);
+
+assert.equal(hasCoordinates({ lat: 0, lng: 0 }), false);
+assert.equal(hasCoordinates(undefined), false);
+assert.equal(hasCoordinates(southside), true);
+
+const starts: RouteStart[] = [
+  { routeGroupId: "SUC-034", variant: "MED", start: { lat: 38.5712, lng: -121.5012 } },
+  { routeGroupId: "SUC-034", variant: "LRG", start: { lat: 38.5713, lng: -121.5013 } },
+  { routeGroupId: "SUC-040", variant: "XL", start: { lat: 38.6, lng: -121.45 } },
+];
+assert.deepEqual(
+  suggestStartLocations(starts).map((suggestion) => suggestion.labels),
+  [["SUC-034 MED", "SUC-034 LRG"], ["SUC-040 XL"]]
+);
+
+const checks = checkStartDistances(southside, starts);
+assert.deepEqual(
+  checks.map((check) => check.tooFar),
+  [false, false, true]
+);
+assert.ok(checks[0].distanceM < 10, `distance ${checks[0].distanceM}`);
+assert.ok(checks[2].distanceM > 5000);
+
+console.log("startLocation tests passed");
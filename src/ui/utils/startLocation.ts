@@ -0,0 +1,147 @@
+import { haversineMeters, type LonLat } from "../../route-stats";
+
+export type LatLng = { lat: number; lng: number };
+
+export type RouteStart = {
+  routeGroupId: string;
+  variant: string;
+  start: LatLng;
+};
+
+export type StartSuggestion = {
+  start: LatLng;
+  /** "<routeGroupId> <variant>" for every variant starting here. */
+  labels: string[];
+};
+
+export type StartDistanceCheck = RouteStart & {
+  distanceM: number;
+  tooFar: boolean;
+};
+
+/** Starts farther than this from a linked route's first point get flagged. */
+export const START_DISTANCE_WARNING_M = 800;
+
+/** Variant starts closer than this are offered as one suggestion. */
+const SAME_START_M = 50;
+
+const PAIR = /^\s*(-?\d{1,3}(?:\.\d+)?)\s*,\s*\+?(-?\d{1,3}(?:\.\d+)?)/;
+const QUERY_KEYS = ["q", "query", "ll", "sll", "coordinate", "daddr", "destination", "center"];
+
+function toLonLat(point: LatLng): LonLat {
+  return [point.lng, point.lat];
+}
+
+function inRange(lat: number, lng: number): boolean {
+  return Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+function parsePair(text: string): LatLng | null {
+  const match = PAIR.exec(text);
+  if (!match) return null;
+  const lat = Number(match[1]);
+  const lng = Number(match[2]);
+  return Number.isFinite(lat) && Number.isFinite(lng) && inRange(lat, lng) ? { lat, lng } : null;
+}
+
+/**
+ * Events store { lat: 0, lng: 0 } until a start is picked.
+ */
+export function hasCoordinates(value?: LatLng | null): value is LatLng {
+  return Boolean(value) && !(value!.lat === 0 && value!.lng === 0);
+}
+
+export function distanceMeters(a: LatLng, b: LatLng): number {
+  return haversineMeters(toLonLat(a), toLonLat(b));
+}
+
+/**
+ * Shortened share links (maps.app.goo.gl, goo.gl/maps) redirect server-side
+ * and carry no coordinates.
+ */
+export function isShortMapsLink(url: string): boolean {
+  return /^https?:\/\/(maps\.app\.goo\.gl|goo\.gl\/maps)\//i.test(url.trim());
+}
+
+/**
+ * Coordinates from a pasted Google or Apple Maps URL, or a bare "lat, lng".
+ * A dropped pin (!3d…!4d…) wins over query parameters, which win over the
+ * map viewport (@lat,lng,zoom).
+ */
+export function parseMapsUrlCoordinates(input: string): LatLng | null {
+  const text = input.trim();
+  if (!text) return null;
+
+  let decoded = text;
+  try {
+    decoded = decodeURIComponent(text.replace(/\+/g, " "));
+  } catch {
+    // Keep the raw text; malformed escapes are rare in pasted links.
+  }
+
+  const pin = /!3d(-?\d+(?:\.\d+)?)!4d(-?\d+(?:\.\d+)?)/.exec(decoded);
+  if (pin) {
+    const found = parsePair(`${pin[1]},${pin[2]}`);
+    if (found) return found;
+  }
+
+  if (/^https?:\/\//i.test(text)) {
+    let url: URL;
+    try {
+      url = new URL(text);
+    } catch {
+      return null;
+    }
+    for (const key of QUERY_KEYS) {
+      const value = url.searchParams.get(key);
+      const found = value ? parsePair(value) : null;
+      if (found) return found;
+    }
+    const place = /\/(?:place|search|dir)\/([^/]+)/.exec(decoded);
+    const placeCoords = place ? parsePair(place[1]) : null;
+    if (placeCoords) return placeCoords;
+    const viewport = /@(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/.exec(decoded);
+    return viewport ? parsePair(`${viewport[1]},${viewport[2]}`) : null;
+  }
+
+  return parsePair(decoded);
+}
+
+export function formatDistance(meters: number): string {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+}
+
+export function buildMapsUrl(point: LatLng): string {
+  const query = `${point.lat.toFixed(6)},${point.lng.toFixed(6)}`;
+  return `https://www.google.com/maps/search/?api=1&query=${query}`;
+}
+
+/**
+ * First point of each variant, merged when variants share a start.
+ */
+export function suggestStartLocations(starts: RouteStart[]): StartSuggestion[] {
+  const suggestions: StartSuggestion[] = [];
+  for (const item of starts) {
+    const label = `${item.routeGroupId} ${item.variant}`;
+    const existing = suggestions.find(
+      (suggestion) => distanceMeters(suggestion.start, item.start) <= SAME_START_M
+    );
+    if (existing) existing.labels.push(label);
+    else suggestions.push({ start: item.start, labels: [label] });
+  }
+  return suggestions;
+}
+
+/**
+ * Distance from the event start to each linked variant's first point.
+ */
+export function checkStartDistances(
+  start: LatLng,
+  starts: RouteStart[],
+  maxMeters = START_DISTANCE_WARNING_M
+): StartDistanceCheck[] {
+  return starts.map((item) => {
+    const distanceM = distanceMeters(start, item.start);
+    return { ...item, distanceM, tooFar: distanceM > maxMeters };
+  });
+}
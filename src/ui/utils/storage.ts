@@ -9,6 +9,10 @@ const API_PATHS: Record<string, string> = {
   "challenges.json": "/challenges",
 };
 
+// ETag of each file as last loaded or saved, sent back as If-Match so a save
+// from a stale copy is refused (409) instead of overwriting someone's edits.
+const revisions = new Map<string, string>();
+
 function resolveApiPath(fileName: string): string {
   const path = API_PATHS[fileName];
   if (!path) {
@@ -39,6 +43,9 @@ export async function loadJson<T>(
     throw new Error(message);
   }
 
+  const etag = response.headers.get("ETag");
+  if (etag) revisions.set(fileName, etag);
+
   let data: unknown;
   try {
     data = await response.json();
@@ -61,7 +68,7 @@ export async function loadJson<T>(
 
 /**
  * Save JSON through API.
- * Validation is enforced BEFORE writing.
+ * Validation is enforced BEFORE writing. Fails if the file changed since it was loaded.
  */
 export async function saveJson<T>(
   fileName: string,
@@ -73,9 +80,13 @@ export async function saveJson<T>(
     validateFn(data);
   }
 
+  const revision = revisions.get(fileName);
   const response = await fetch(resolveApiPath(fileName), {
     method: "PUT",
-    headers: { "Content-Type": "application/json" },
+    headers: {
+      "Content-Type": "application/json",
+      ...(revision ? { "If-Match": revision } : {}),
+    },
     body: JSON.stringify(data, null, 2),
   });
 
@@ -91,6 +102,9 @@ export async function saveJson<T>(
     }
     throw new Error(message);
   }
+
+  const etag = response.headers.get("ETag");
+  if (etag) revisions.set(fileName, etag);
 }
 
 /**
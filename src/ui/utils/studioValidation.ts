@@ -159,6 +159,11 @@ export function assertRoster(data: unknown): asserts data is RosterMember[] {
         `Roster[${index}].consent.${key} must be boolean.`
       );
     });
+
+    assert(
+      member.zones === undefined || (typeof member.zones === "object" && member.zones !== null),
+      `Roster[${index}].zones must be an object.`
+    );
   });
 }
 
@@ -0,0 +1,47 @@
+import type { RouteLabel, RouteVariantDiff } from "../types";
+
+// Placements this close to a shared-segment boundary still count as shared.
+const SHARED_EDGE_SLACK_MI = 0.02;
+
+function rangeContains(range: { startMi: number; endMi: number } | undefined, mile: number) {
+  if (!range) return false;
+  const low = Math.min(range.startMi, range.endMi) - SHARED_EDGE_SLACK_MI;
+  const high = Math.max(range.startMi, range.endMi) + SHARED_EDGE_SLACK_MI;
+  return mile >= low && mile <= high;
+}
+
+/**
+ * Variants that run on the same trail as `label` at `mile` (always includes `label`).
+ */
+export function getVariantsSharingMile(
+  diff: RouteVariantDiff | null,
+  label: RouteLabel,
+  mile: number
+): RouteLabel[] {
+  const result = new Set<RouteLabel>([label]);
+  if (!diff || !Number.isFinite(mile)) return [...result];
+  for (const segment of diff.sharedSegments) {
+    if (!segment.variants.includes(label)) continue;
+    if (!rangeContains(segment.ranges[label], mile)) continue;
+    segment.variants.forEach((variant) => result.add(variant));
+  }
+  const order = diff.variants.map((entry) => entry.label);
+  return [...result].sort((a, b) => order.indexOf(a) - order.indexOf(b));
+}
+
+/**
+ * True when `mile` on `label` lies on trail shared with `other`.
+ */
+export function isMileSharedWith(
+  diff: RouteVariantDiff,
+  label: RouteLabel,
+  other: RouteLabel,
+  mile: number
+): boolean {
+  return diff.sharedSegments.some(
+    (segment) =>
+      segment.variants.includes(label) &&
+      segment.variants.includes(other) &&
+      rangeContains(segment.ranges[label], mile)
+  );
+}
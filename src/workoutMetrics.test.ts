@@ -0,0 +1,84 @@
+import assert from "assert/strict";
+import {
+  computeTierMetrics,
+  computeWorkoutMetrics,
+  parseSegmentLength,
+  type MetricsSegment,
+} from "./workoutMetrics";
+
+assert.deepEqual(parseSegmentLength("10min"), { seconds: 600 });
+assert.deepEqual(parseSegmentLength("1hr 5min 30sec"), { seconds: 3930 });
+assert.deepEqual(parseSegmentLength("90sec"), { seconds: 90 });
+assert.deepEqual(parseSegmentLength("1:30"), { seconds: 90 });
+assert.deepEqual(parseSegmentLength("1:00:00"), { seconds: 3600 });
+assert.deepEqual(parseSegmentLength("20"), { seconds: 1200 }, "a bare number is minutes");
+assert.deepEqual(parseSegmentLength("400m"), { meters: 400 });
+assert.deepEqual(parseSegmentLength("1.5 km"), { meters: 1500 });
+assert.deepEqual(parseSegmentLength("1mi"), { meters: 1609.34 });
+assert.deepEqual(parseSegmentLength(""), { open: true });
+assert.equal(parseSegmentLength("a while"), null);
+assert.equal(parseSegmentLength("10min 2mi"), null, "time and distance do not mix");
+
+const segment = (
+  reps: number,
+  duration: string,
+  zone: string,
+  rest: string | null = null
+): MetricsSegment => ({
+  reps,
+  work: { duration, target: { type: "pace", zone } },
+  rest: rest ? { duration: rest, target: { type: "pace", zone: "Z1" } } : null,
+});
+
+// 10 min Z1, 4 x (1 mi Z4 + 90 s rest), 10 min Z1: the rest follows every rep, as exported.
+const metrics = computeTierMetrics([
+  segment(1, "10min", "Z1"),
+  segment(4, "1mi", "Z4", "90sec"),
+  segment(1, "10min", "Z1"),
+]);
+const mileSeconds = 1.60934 * 290;
+assert.equal(metrics.seconds, Math.round(1200 + 360 + 4 * mileSeconds));
+assert.equal(metrics.estimatedSeconds, Math.round(4 * mileSeconds));
+assert.equal(metrics.meters, Math.round(4 * 1609.34 + (1560 / 390) * 1000));
+assert.equal(metrics.estimatedMeters, Math.round((1560 / 390) * 1000));
+assert.deepEqual(metrics.zoneSeconds, {
+  Z1: 1560,
+  Z2: 0,
+  Z3: 0,
+  Z4: Math.round(4 * mileSeconds),
+  Z5: 0,
+});
+assert.equal(metrics.load, Math.round(1560 / 60 + ((4 * mileSeconds) / 60) * 4));
+assert.deepEqual(metrics.issues, []);
+
+// Open steps are counted, unreadable ones reported; unzoned time is easy running.
+const loose = computeTierMetrics(
+  [
+    segment(1, "", "Z2"),
+    segment(2, "3min", "", "soon"),
+    segment(3, "2min", "Z3", "1min"),
+    { reps: 1, work: { duration: "5min", target: { type: "hr", zone: "Strides" } } },
+  ],
+  { paceSecondsPerKm: { Z3: 300 } }
+);
+assert.equal(loose.openSteps, 1);
+assert.deepEqual(loose.issues, ['Step 2 rest: cannot read duration "soon".']);
+assert.equal(loose.seconds, 360 + 360 + 180 + 300);
+assert.equal(loose.zoneSeconds.Z1, 360 + 180 + 300);
+assert.equal(loose.zoneSeconds.Z3, 360);
+assert.equal(loose.load, 6 + 18 + 3 + 5);
+assert.equal(loose.meters, Math.round((840 / 390) * 1000 + (360 / 300) * 1000));
+
+// A single rep keeps its rest too.
+assert.equal(computeTierMetrics([segment(1, "10min", "Z2", "2min")]).seconds, 720);
+
+assert.deepEqual(
+  Object.keys(
+    computeWorkoutMetrics({
+      tiers: { MED: { structure: [segment(1, "30min", "Z2")] }, LRG: undefined },
+    })
+  ),
+  ["MED"]
+);
+
+console.log("workoutMetrics tests passed");
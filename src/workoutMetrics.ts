@@ -0,0 +1,216 @@
+/**
+ * Time, distance and training load of a workout tier, from its interval
+ * segments. Shared by the studio server (API, season builder) and the
+ * Workout Builder summary.
+ */
+
+/** A segment length as planned: a time, a distance, or open (lap button). */
+export type SegmentLength = { seconds: number } | { meters: number } | { open: true };
+
+type MetricsEffort = {
+  duration?: string | null;
+  target?: { type?: string; zone?: string } | null;
+};
+
+/** The parts of an IntervalSegment the metrics read (server and UI types both fit). */
+export type MetricsSegment = {
+  reps?: number | null;
+  work?: MetricsEffort | null;
+  rest?: MetricsEffort | null;
+};
+
+export type TierMetrics = {
+  /** Total time; distance steps are timed at the reference pace for their zone. */
+  seconds: number;
+  /** Total distance; timed steps are converted at the same paces. */
+  meters: number;
+  /** The parts of `seconds` and `meters` that come from a reference pace. */
+  estimatedSeconds: number;
+  estimatedMeters: number;
+  /** Edwards TRIMP: minutes in each zone times the zone number (1-5). */
+  load: number;
+  /** Seconds per zone, Z1-Z5. Unzoned steps count as Z1. */
+  zoneSeconds: Record<string, number>;
+  /** Open steps (until the lap button), which add nothing to the totals. */
+  openSteps: number;
+  /** Durations that could not be read. */
+  issues: string[];
+};
+
+export type MetricsOptions = {
+  /** Reference pace per zone in seconds per km, overriding the defaults. */
+  paceSecondsPerKm?: Partial<Record<string, number>>;
+};
+
+/** Per-tier metrics of one workout version, as returned by the API. */
+export type WorkoutMetrics = {
+  workoutId: string;
+  version: number;
+  status: string;
+  name: string;
+  tiers: Record<string, TierMetrics>;
+};
+
+/** Easy-to-hard reference paces (sec/km) used where a step's time or distance is not planned. */
+export const REFERENCE_PACE_SECONDS_PER_KM: Record<string, number> = {
+  Z1: 390,
+  Z2: 360,
+  Z3: 320,
+  Z4: 290,
+  Z5: 265,
+};
+
+const TIME_UNITS: Record<string, number> = {
+  h: 3600,
+  hr: 3600,
+  hrs: 3600,
+  hour: 3600,
+  hours: 3600,
+  min: 60,
+  mins: 60,
+  minute: 60,
+  minutes: 60,
+  s: 1,
+  sec: 1,
+  secs: 1,
+  second: 1,
+  seconds: 1,
+};
+
+const DISTANCE_UNITS: Record<string, number> = {
+  m: 1,
+  meter: 1,
+  meters: 1,
+  km: 1000,
+  kilometer: 1000,
+  kilometers: 1000,
+  mi: 1609.34,
+  mile: 1609.34,
+  miles: 1609.34,
+  yd: 0.9144,
+  yard: 0.9144,
+  yards: 0.9144,
+};
+
+const ZONES = ["Z1", "Z2", "Z3", "Z4", "Z5"];
+
+/**
+ * Read a studio duration: "10min", "1hr 5min 30sec", "1:30" (m:ss), "90sec",
+ * "1mi", "400m", "5km". A bare number is minutes, as in the builder; empty
+ * is open. Returns null when the text cannot be read.
+ */
+export function parseSegmentLength(value?: string | null): SegmentLength | null {
+  const raw = (value ?? "").trim().toLowerCase();
+  if (!raw) return { open: true };
+
+  const clock = raw.match(/^(\d+):(\d{2})(?::(\d{2}))?$/);
+  if (clock) {
+    const [first, second, third] = clock.slice(1).map((part) => Number(part ?? 0));
+    return { seconds: clock[3] ? first * 3600 + second * 60 + third : first * 60 + second };
+  }
+
+  if (/^\d+(\.\d+)?$/.test(raw)) return { seconds: Number(raw) * 60 };
+
+  const distance = raw.match(/^(\d+(?:\.\d+)?)\s*([a-z]+)$/);
+  if (distance && DISTANCE_UNITS[distance[2]]) {
+    return { meters: Number(distance[1]) * DISTANCE_UNITS[distance[2]] };
+  }
+
+  let seconds = 0;
+  const rest = raw.replace(/(\d+(?:\.\d+)?)\s*([a-z]+)/g, (part, amount: string, unit: string) => {
+    if (!TIME_UNITS[unit]) return part;
+    seconds += Number(amount) * TIME_UNITS[unit];
+    return "";
+  });
+  return rest.replace(/[\s,]/g, "") ? null : { seconds };
+}
+
+/** Zone number 1-5 from "Z4" or "Zone 4"; unzoned targets count as easy running. */
+function zoneNumber(target: MetricsEffort["target"]): number {
+  const match = target?.zone?.match(/z(?:one)?\s*(\d+)/i);
+  const zone = match ? Number(match[1]) : 1;
+  return Math.min(5, Math.max(1, zone));
+}
+
+/**
+ * Metrics for one tier's segments: reps x (work + rest). The rest follows
+ * every rep, the last one included, as in the TrainingPeaks and FIT/ZWO exports.
+ */
+export function computeTierMetrics(
+  structure: MetricsSegment[],
+  options: MetricsOptions = {}
+): TierMetrics {
+  const paces = { ...REFERENCE_PACE_SECONDS_PER_KM, ...options.paceSecondsPerKm };
+  const totals = {
+    seconds: 0,
+    meters: 0,
+    estimatedSeconds: 0,
+    estimatedMeters: 0,
+    load: 0,
+  };
+  const zoneSeconds: Record<string, number> = Object.fromEntries(ZONES.map((zone) => [zone, 0]));
+  const issues: string[] = [];
+  let openSteps = 0;
+
+  const add = (effort: MetricsEffort, count: number, step: string) => {
+    if (count <= 0) return;
+    const length = parseSegmentLength(effort.duration);
+    if (!length) {
+      issues.push(`${step}: cannot read duration "${effort.duration}".`);
+      return;
+    }
+    if ("open" in length) {
+      openSteps += count;
+      return;
+    }
+    const zone = zoneNumber(effort.target);
+    const pace = paces[`Z${zone}`] ?? REFERENCE_PACE_SECONDS_PER_KM.Z1;
+    let seconds: number;
+    if ("seconds" in length) {
+      seconds = length.seconds * count;
+      const meters = (seconds / pace) * 1000;
+      totals.meters += meters;
+      totals.estimatedMeters += meters;
+    } else {
+      const meters = length.meters * count;
+      seconds = (meters / 1000) * pace;
+      totals.meters += meters;
+      totals.estimatedSeconds += seconds;
+    }
+    totals.seconds += seconds;
+    zoneSeconds[`Z${zone}`] += seconds;
+    totals.load += (seconds / 60) * zone;
+  };
+
+  structure.forEach((segment, index) => {
+    const reps = Math.max(1, Math.floor(segment.reps ?? 1));
+    if (segment.work) add(segment.work, reps, `Step ${index + 1}`);
+    if (segment.rest) add(segment.rest, reps, `Step ${index + 1} rest`);
+  });
+
+  return {
+    seconds: Math.round(totals.seconds),
+    meters: Math.round(totals.meters),
+    estimatedSeconds: Math.round(totals.estimatedSeconds),
+    estimatedMeters: Math.round(totals.estimatedMeters),
+    load: Math.round(totals.load),
+    zoneSeconds: Object.fromEntries(
+      Object.entries(zoneSeconds).map(([zone, seconds]) => [zone, Math.round(seconds)])
+    ),
+    openSteps,
+    issues,
+  };
+}
+
+/** Metrics for every tier of a workout that has a structure. */
+export function computeWorkoutMetrics(
+  workout: { tiers?: Partial<Record<string, { structure?: MetricsSegment[] } | undefined>> },
+  options: MetricsOptions = {}
+): Record<string, TierMetrics> {
+  const tiers: Record<string, TierMetrics> = {};
+  for (const [tier, variant] of Object.entries(workout.tiers ?? {})) {
+    if (!variant || !Array.isArray(variant.structure)) continue;
+    tiers[tier] = computeTierMetrics(variant.structure, options);
+  }
+  return tiers;
+}